@@ -0,0 +1,43 @@
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { useWeeklySchedule } from '@/hooks/useCollectionSchedule';
+import { config } from '@/lib/config';
+import { mockBackend } from '@/lib/mock-backend';
+import { queryClient } from '@/lib/query-client';
+import { resetMockBackend, signIn } from '@/test-utils';
+
+beforeEach(async () => {
+  await resetMockBackend();
+  queryClient.clear();
+  await signIn();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('useWeeklySchedule', () => {
+  it('schedules every page of active loans and nothing else', async () => {
+    const { pageSize } = config.api;
+    config.api.pageSize = 2;
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+    const loans = mockBackend.getState().loans;
+    const active = loans.filter(loan => loan.status === 'ACTIVE');
+
+    try {
+      const { result } = renderHook(() => useWeeklySchedule());
+
+      await waitFor(() => expect(result.current.data).toBeDefined());
+
+      const scheduled = new Set(Object.values(result.current.data!).flatMap(route => route.loans.map(loan => loan._id)));
+      expect([...scheduled].sort()).toEqual(active.map(loan => loan._id).sort());
+      expect(active.length).toBeLessThan(loans.length);
+      expect(fetchSpy.mock.calls.map(([url]) => String(url))).toEqual(
+        Array.from({ length: Math.ceil(active.length / 2) }, (_, index) =>
+          `${config.api.environments.mock.baseUrl}/loans?page=${index + 1}&limit=2&status=ACTIVE`
+        )
+      );
+    } finally {
+      config.api.pageSize = pageSize;
+    }
+  });
+});
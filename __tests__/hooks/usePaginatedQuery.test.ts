@@ -0,0 +1,35 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, waitFor } from '@testing-library/react-native';
+import { usePaginatedBorrowers } from '@/hooks/useBorrowers';
+import { queryClient } from '@/lib/query-client';
+import { resetMockBackend, signIn } from '@/test-utils';
+
+// Lists waiting to be written to storage are flushed after a short delay
+const storedLists = async () => {
+  await new Promise(resolve => setTimeout(resolve, 600));
+  return Object.keys(JSON.parse((await AsyncStorage.getItem('read_cache:lists')) || '{}'));
+};
+
+beforeEach(async () => {
+  await resetMockBackend();
+  queryClient.clear();
+  await signIn();
+});
+
+describe('usePaginatedQuery', () => {
+  it('stores the first page of an unfiltered list for offline use', async () => {
+    const { result } = renderHook(() => usePaginatedBorrowers());
+
+    await waitFor(() => expect(result.current.items.length).toBeGreaterThan(0));
+
+    expect(await storedLists()).toContain('borrowers:pages:{}');
+  });
+
+  it('keeps search results in memory only', async () => {
+    const { result } = renderHook(() => usePaginatedBorrowers({ search: 'a' }));
+
+    await waitFor(() => expect(result.current.items.length).toBeGreaterThan(0));
+
+    expect((await storedLists()).filter(key => key.includes('search'))).toEqual([]);
+  });
+});
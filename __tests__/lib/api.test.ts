@@ -0,0 +1,355 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import { apiService, CreateCollectionData } from '@/lib/api';
+import { buildCollectionRoute, getWeekday } from '@/lib/collection-schedule';
+import { config } from '@/lib/config';
+import { apiEnvironment } from '@/lib/environment';
+import {
+  ApiContractError,
+  ApiError,
+  AuthError,
+  NetworkError,
+  OutcomeUnknownError,
+  TimeoutError,
+  ValidationError,
+} from '@/lib/errors';
+import { mockBackend } from '@/lib/mock-backend';
+import { MOCK_PASSWORD } from '@/lib/mock-fixtures';
+
+const signIn = () => apiService.login('collector', MOCK_PASSWORD);
+
+// Answer the next request with a raw body, bypassing the mock backend's routes
+const respondOnce = (status: number, body: unknown) => {
+  jest.spyOn(globalThis, 'fetch').mockResolvedValueOnce(
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+  );
+};
+
+beforeAll(async () => {
+  mockBackend.install();
+  await apiEnvironment.select({ id: 'mock' });
+});
+
+afterAll(() => {
+  mockBackend.uninstall();
+});
+
+beforeEach(async () => {
+  mockBackend.reset();
+  await apiService.logout();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('request', () => {
+  it('sends the access token and returns the validated body', async () => {
+    await signIn();
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+
+    const response = await apiService.getProfile();
+
+    expect(response.success).toBe(true);
+    expect(response.data).toMatchObject({ id: 'user-1', username: 'collector', role: 'COLLECTOR' });
+    const [url, init] = fetchSpy.mock.calls[0];
+    expect(url).toBe(`${config.api.environments.mock.baseUrl}/profile`);
+    expect((init?.headers as Record<string, string>).Authorization).toBe(`Bearer ${apiService.getToken()}`);
+  });
+
+  it('passes list filters to the server as query parameters', async () => {
+    await signIn();
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+
+    const response = await apiService.getLoans({ status: 'ACTIVE', page: 1, limit: 2 });
+
+    expect(fetchSpy.mock.calls[0][0]).toBe(`${config.api.environments.mock.baseUrl}/loans?page=1&limit=2&status=ACTIVE`);
+    expect(response.data).toHaveLength(2);
+    expect(response.data.every(loan => loan.status === 'ACTIVE')).toBe(true);
+    expect(response.pagination).toMatchObject({ page: 1, limit: 2, total: 5, totalPages: 3 });
+  });
+
+  it('reads every page when a screen needs all of a loan\'s collections', async () => {
+    await signIn();
+    const paid = mockBackend.getState().collections.filter(collection => collection.installmentId.startsWith('loan-1-'));
+
+    const response = await apiService.getCollectionsByLoan('loan-1', { limit: 5 });
+
+    expect(response.success).toBe(true);
+    expect(response.data).toHaveLength(paid.length);
+    const dates = response.data.map(collection => new Date(collection.paymentDate).getTime());
+    expect(dates).toEqual([...dates].sort((a, b) => b - a));
+  });
+
+  it('raises the server\'s message with the HTTP status', async () => {
+    await signIn();
+
+    const error = await apiService.getLoan('loan-missing').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Loan not found', status: 404 });
+  });
+
+  it('names the fields the server rejected', async () => {
+    await signIn();
+    const [borrower] = mockBackend.getState().borrowers;
+
+    const error = await apiService
+      .createBorrower({ name: 'Kavita Rao', phone: borrower.phone, village: '', address: '5 Pond Road', collectionDays: [] })
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.status).toBe(400);
+    expect(error.fieldErrors).toEqual({
+      phone: 'Another borrower already has this phone number',
+      village: 'Village is required',
+      collectionDays: 'Choose at least one collection day',
+    });
+  });
+
+  it('rejects fields sent with the wrong type', async () => {
+    await signIn();
+
+    const error = await apiService
+      .createCollection({ amount: '500', paymentDate: '2024-01-01', installmentId: 'inst-1' } as unknown as CreateCollectionData)
+      .catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(Object.keys(error.fieldErrors)).toEqual(['amount']);
+  });
+
+  it('returns handled failures to the caller instead of throwing', async () => {
+    await signIn();
+    respondOnce(200, { success: false, message: 'Backup already running' });
+
+    await expect(apiService.generateDailyBackup()).resolves.toMatchObject({
+      success: false,
+      error: 'Backup already running',
+    });
+  });
+
+  it('rejects bodies that do not match the schema', async () => {
+    await signIn();
+    respondOnce(200, { success: true, data: { id: 'user-1', name: 'Ravi Collector' } });
+
+    const error = await apiService.getProfile().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiContractError);
+    expect(error.path).toBe('data.username');
+  });
+
+  it('reports an unreachable server as a network failure', async () => {
+    await signIn();
+    mockBackend.injectFault({ fault: { type: 'network' }, path: '/dashboard', times: 1 });
+
+    const error = await apiService.getDashboardStats().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('Network request failed - check if server is running and API URL is correct');
+  });
+
+  it('gives up on a server that does not answer in time', async () => {
+    await signIn();
+    const { timeout } = config.api;
+    config.api.timeout = 50;
+    mockBackend.injectFault({ fault: { type: 'timeout' }, path: '/dashboard', times: 1 });
+
+    try {
+      const error = await apiService.getDashboardStats().catch(caught => caught);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error.message).toBe('Request timeout - server not responding');
+    } finally {
+      config.api.timeout = timeout;
+    }
+  });
+});
+
+describe('session', () => {
+  it('stores both tokens after signing in', async () => {
+    const response = await signIn();
+
+    expect(response.success).toBe(true);
+    expect(apiService.isAuthenticated()).toBe(true);
+    expect(await AsyncStorage.getItem('auth_token')).toBe(response.token);
+    expect(await AsyncStorage.getItem('refresh_token')).toBe(response.refreshToken);
+  });
+
+  it('refreshes the token and retries once when a request is rejected', async () => {
+    await signIn();
+    const firstToken = apiService.getToken();
+    mockBackend.injectFault({ fault: { type: 'status', status: 401 }, path: '/profile', times: 1 });
+
+    const response = await apiService.getProfile();
+
+    expect(response.success).toBe(true);
+    expect(apiService.getToken()).not.toBe(firstToken);
+    expect(await AsyncStorage.getItem('auth_token')).toBe(apiService.getToken());
+  });
+
+  it('ends the session when the token cannot be refreshed', async () => {
+    await signIn();
+    const onExpired = jest.fn();
+    const unsubscribe = apiService.onSessionExpired(onExpired);
+    // Forgets every session and refresh token the server handed out
+    mockBackend.reset();
+
+    try {
+      await expect(apiService.getProfile()).rejects.toBeInstanceOf(AuthError);
+      expect(onExpired).toHaveBeenCalledTimes(1);
+      expect(apiService.isAuthenticated()).toBe(false);
+      expect(await AsyncStorage.getItem('refresh_token')).toBeNull();
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  it('clears both tokens on logout', async () => {
+    await signIn();
+
+    await apiService.logout();
+
+    expect(apiService.getToken()).toBeNull();
+    expect(await AsyncStorage.multiGet(['auth_token', 'refresh_token'])).toEqual([
+      ['auth_token', null],
+      ['refresh_token', null],
+    ]);
+  });
+});
+
+describe('idempotent writes', () => {
+  const { retry } = config.api;
+
+  beforeEach(() => {
+    config.api.retry = { ...retry, baseDelayMs: 0 };
+  });
+
+  afterEach(() => {
+    config.api.retry = retry;
+  });
+
+  const collect = () =>
+    apiService.createCollection(
+      {
+        amount: 1000,
+        paymentDate: new Date().toISOString(),
+        installmentId: 'loan-3-installment-6',
+        collectorId: 'user-1',
+      },
+      { idempotencyKey: 'collection-key-1' }
+    );
+
+  it('saves once when a lost response is retried', async () => {
+    await signIn();
+    const before = mockBackend.getState().collections.length;
+    mockBackend.injectFault({ fault: { type: 'lostResponse' }, path: '/collections', times: 1 });
+
+    const response = await collect();
+
+    expect(response.success).toBe(true);
+    expect(mockBackend.getState().collections).toHaveLength(before + 1);
+  });
+
+  it('reports an unknown outcome when no attempt is confirmed', async () => {
+    await signIn();
+    mockBackend.injectFault({ fault: { type: 'lostResponse' }, path: '/collections' });
+
+    const error = await collect().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OutcomeUnknownError);
+    expect(error.idempotencyKey).toBe('collection-key-1');
+  });
+
+  it('reports an unknown outcome when a timed out attempt is followed by a refused connection', async () => {
+    await signIn();
+    const { timeout } = config.api;
+    config.api.timeout = 50;
+    mockBackend.injectFault({ fault: { type: 'timeout' }, path: '/collections', times: 1 });
+    mockBackend.injectFault({ fault: { type: 'network' }, path: '/collections' });
+
+    try {
+      const error = await collect().catch(caught => caught);
+
+      expect(error).toBeInstanceOf(OutcomeUnknownError);
+      expect(error.idempotencyKey).toBe('collection-key-1');
+      expect(error.originalError).toBeInstanceOf(NetworkError);
+    } finally {
+      config.api.timeout = timeout;
+    }
+  });
+
+  it('reports an unknown outcome when the connection drops mid-request', async () => {
+    await signIn();
+    mockBackend.injectFault({ fault: { type: 'network' }, path: '/collections' });
+
+    const error = await collect().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(OutcomeUnknownError);
+    expect(error.originalError).toBeInstanceOf(NetworkError);
+  });
+
+  it('fails without sending when the device has no connection', async () => {
+    await signIn();
+    jest.mocked(NetInfo.fetch).mockResolvedValueOnce({ isConnected: false, isInternetReachable: false } as NetInfoState);
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+
+    const error = await collect().catch(caught => caught);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('does not retry a request the server refused', async () => {
+    await signIn();
+    mockBackend.injectFault({ fault: { type: 'status', status: 500 }, path: '/collections', times: 1 });
+
+    await expect(collect()).rejects.toMatchObject({ status: 500 });
+  });
+});
+
+describe('getTodayCollectionRoute', () => {
+  it('builds today\'s route from the active loans collected today', async () => {
+    await signIn();
+    const today = getWeekday();
+    const dueToday = mockBackend.getState().loans.filter(
+      loan => loan.status === 'ACTIVE' && loan.collectionDays.includes(today)
+    );
+
+    const response = await apiService.getTodayCollectionRoute();
+
+    expect(response.success).toBe(true);
+    expect(response.data.loans.map(loan => loan._id).sort()).toEqual(dueToday.map(loan => loan._id).sort());
+    expect(response.data.totalExpected).toBe(buildCollectionRoute(dueToday).totalExpected);
+    expect(response.data.totalOutstanding).toBe(
+      dueToday.reduce((sum, loan) => sum + loan.outstandingAmount, 0)
+    );
+  });
+
+  it('reads every page of active loans', async () => {
+    await signIn();
+    const { pageSize } = config.api;
+    config.api.pageSize = 2;
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+    const active = mockBackend.getState().loans.filter(loan => loan.status === 'ACTIVE');
+
+    try {
+      const response = await apiService.getWeeklyCollectionSchedule();
+
+      const scheduled = new Set(Object.values(response.data).flatMap(route => route.loans.map(loan => loan._id)));
+      expect([...scheduled].sort()).toEqual(active.map(loan => loan._id).sort());
+      expect(fetchSpy).toHaveBeenCalledTimes(Math.ceil(active.length / 2));
+      expect(fetchSpy.mock.calls[0][0]).toBe(`${config.api.environments.mock.baseUrl}/loans?page=1&limit=2&status=ACTIVE`);
+    } finally {
+      config.api.pageSize = pageSize;
+    }
+  });
+
+  it('returns an empty route with the error when the loans cannot be loaded', async () => {
+    await signIn();
+    respondOnce(200, { success: false, error: 'Database unavailable' });
+
+    const response = await apiService.getTodayCollectionRoute();
+
+    expect(response).toMatchObject({ success: false, error: 'Database unavailable' });
+    expect(response.data.totalLoans).toBe(0);
+  });
+});
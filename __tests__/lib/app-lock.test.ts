@@ -0,0 +1,72 @@
+import { AppLockService, getLockoutSeconds } from '@/lib/app-lock';
+import { config } from '@/lib/config';
+
+const PIN = '2468';
+
+// Enter the wrong PIN until the next lockout starts and return when it ends
+const lockOut = async () => {
+  let result = await AppLockService.verifyPin('0000');
+  while (!result.lockedUntil) {
+    result = await AppLockService.verifyPin('0000');
+  }
+  return result.lockedUntil;
+};
+
+// Jump past the end of a lockout
+const waitOut = (lockedUntil: number) => {
+  jest.spyOn(Date, 'now').mockReturnValue(lockedUntil + 1000);
+};
+
+beforeEach(async () => {
+  await AppLockService.setPin(PIN);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('verifyPin', () => {
+  it('accepts the PIN that was set', async () => {
+    await expect(AppLockService.verifyPin(PIN)).resolves.toEqual({ success: true });
+  });
+
+  it('counts down the attempts left before a lockout', async () => {
+    const result = await AppLockService.verifyPin('0000');
+
+    expect(result).toEqual({ success: false, error: `Incorrect PIN. ${config.appLock.maxPinAttempts - 1} attempts left.` });
+  });
+
+  it('refuses every PIN, even the right one, while locked out', async () => {
+    const lockedUntil = await lockOut();
+
+    expect(lockedUntil - Date.now()).toBeCloseTo(config.appLock.lockoutSeconds * 1000, -3);
+    await expect(AppLockService.verifyPin(PIN)).resolves.toMatchObject({ success: false, lockedUntil });
+  });
+
+  it('doubles the lockout each time it is served without a correct PIN', async () => {
+    const first = await lockOut();
+    waitOut(first);
+    const second = await lockOut();
+    waitOut(second);
+    const third = await lockOut();
+
+    expect(second - (first + 1000)).toBe(getLockoutSeconds(1) * 1000);
+    expect(third - (second + 1000)).toBe(getLockoutSeconds(2) * 1000);
+    expect(getLockoutSeconds(2)).toBe(config.appLock.lockoutSeconds * 4);
+  });
+
+  it('starts over from the shortest lockout after a correct PIN', async () => {
+    waitOut(await lockOut());
+    await AppLockService.verifyPin(PIN);
+
+    const lockedUntil = await lockOut();
+
+    expect(lockedUntil - Date.now()).toBe(config.appLock.lockoutSeconds * 1000);
+  });
+});
+
+describe('getLockoutSeconds', () => {
+  it('never exceeds the longest lockout', () => {
+    expect(getLockoutSeconds(30)).toBe(config.appLock.maxLockoutSeconds);
+  });
+});
@@ -0,0 +1,124 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { apiService } from '@/lib/api';
+import { AuthService } from '@/lib/auth';
+import { BiometricService } from '@/lib/biometrics';
+import { apiEnvironment } from '@/lib/environment';
+import { mockBackend } from '@/lib/mock-backend';
+import { MOCK_PASSWORD } from '@/lib/mock-fixtures';
+import { OfflineAuthService } from '@/lib/offline-auth';
+import { queryClient } from '@/lib/query-client';
+
+beforeAll(async () => {
+  mockBackend.install();
+  await apiEnvironment.select({ id: 'mock' });
+});
+
+afterAll(() => {
+  mockBackend.uninstall();
+});
+
+beforeEach(async () => {
+  mockBackend.reset();
+  await apiService.logout();
+});
+
+describe('AuthService.login', () => {
+  it('signs in and keeps the user and token for the next launch', async () => {
+    const result = await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.user).toMatchObject({ id: 'user-1', username: 'collector', role: 'COLLECTOR' });
+    expect(apiService.isAuthenticated()).toBe(true);
+    expect(await AsyncStorage.getItem('auth_token')).toBe(result.data?.token);
+    expect(await AuthService.getStoredUser()).toEqual(result.data?.user);
+    expect(await AuthService.isAuthenticated()).toBe(true);
+  });
+
+  it('remembers who signed in so they can unlock offline later', async () => {
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+
+    expect(await OfflineAuthService.getProfile()).toMatchObject({ username: 'collector' });
+  });
+
+  it('passes on the server\'s reason for refusing the sign-in', async () => {
+    const result = await AuthService.login({ username: 'collector', password: 'wrong' });
+
+    expect(result).toEqual({ success: false, error: 'Invalid username or password' });
+    expect(apiService.isAuthenticated()).toBe(false);
+  });
+
+  it('flags an unreachable server so the screen can offer offline unlock', async () => {
+    mockBackend.injectFault({ fault: { type: 'network' }, path: '/auth/login', times: 1 });
+
+    const result = await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+
+    expect(result).toMatchObject({ success: false, isNetworkError: true });
+    expect(await AuthService.getStoredUser()).toBeNull();
+  });
+
+  it('drops biometric sign-in enrolled by a different user', async () => {
+    await AuthService.login({ username: 'admin', password: MOCK_PASSWORD });
+    await BiometricService.enroll('admin');
+    await AuthService.logout();
+
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+
+    expect(await BiometricService.getEnrollment()).toBeNull();
+  });
+});
+
+describe('AuthService.logout', () => {
+  it('forgets the session, the stored user and the data loaded for them', async () => {
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+    queryClient.setData(['loans', 'list'], []);
+
+    await AuthService.logout();
+
+    expect(apiService.isAuthenticated()).toBe(false);
+    expect(await AsyncStorage.getItem('auth_token')).toBeNull();
+    expect(await AsyncStorage.getItem('refresh_token')).toBeNull();
+    expect(await AuthService.getStoredUser()).toBeNull();
+    expect(queryClient.getState(['loans', 'list']).data).toBeUndefined();
+    expect(await AuthService.isAuthenticated()).toBe(false);
+  });
+
+  it('keeps the offline profile when offline unlock is set up', async () => {
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+    jest.spyOn(OfflineAuthService, 'isEnabled').mockResolvedValue(true);
+
+    await AuthService.logout();
+
+    expect(await OfflineAuthService.getProfile()).toMatchObject({ username: 'collector' });
+    jest.restoreAllMocks();
+  });
+});
+
+describe('AuthService.loginWithBiometrics', () => {
+  it('signs in with the device credential released by biometrics', async () => {
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+    expect(await BiometricService.enroll('Collector')).toEqual({ success: true });
+    await AuthService.logout();
+
+    const result = await AuthService.loginWithBiometrics();
+
+    expect(result.success).toBe(true);
+    expect(result.data?.user.username).toBe('collector');
+    expect(apiService.isAuthenticated()).toBe(true);
+  });
+
+  it('forgets a device credential the server no longer accepts', async () => {
+    await AuthService.login({ username: 'collector', password: MOCK_PASSWORD });
+    await BiometricService.enroll('collector');
+    await AuthService.logout();
+    // Revoked from another session
+    mockBackend.reset();
+
+    const result = await AuthService.loginWithBiometrics();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/no longer valid/);
+    expect(await BiometricService.isBiometricEnabled()).toBe(false);
+    expect(await SecureStore.getItemAsync('biometric_login_secret')).toBeNull();
+  });
+});
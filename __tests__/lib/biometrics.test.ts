@@ -0,0 +1,87 @@
+import * as LocalAuthentication from 'expo-local-authentication';
+import * as SecureStore from 'expo-secure-store';
+import { apiService } from '@/lib/api';
+import { BiometricService } from '@/lib/biometrics';
+
+const mockedAuth = jest.mocked(LocalAuthentication);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  mockedAuth.hasHardwareAsync.mockResolvedValue(true);
+  mockedAuth.isEnrolledAsync.mockResolvedValue(true);
+  mockedAuth.authenticateAsync.mockResolvedValue({ success: true });
+});
+
+const registerDevice = () =>
+  jest.spyOn(apiService, 'registerDevice').mockResolvedValue({
+    success: true,
+    data: { deviceId: 'device-1', deviceToken: 'device-secret' },
+  });
+
+describe('BiometricService', () => {
+  it('needs both hardware and an enrolled fingerprint or face', async () => {
+    expect(await BiometricService.isBiometricAvailable()).toBe(true);
+
+    mockedAuth.isEnrolledAsync.mockResolvedValue(false);
+    expect(await BiometricService.isBiometricAvailable()).toBe(false);
+
+    mockedAuth.hasHardwareAsync.mockRejectedValue(new Error('Unavailable'));
+    expect(await BiometricService.isBiometricAvailable()).toBe(false);
+  });
+
+  it('reports why a biometric prompt failed', async () => {
+    mockedAuth.authenticateAsync.mockResolvedValue({ success: false, error: 'user_cancel' });
+
+    expect(await BiometricService.authenticateWithBiometrics()).toEqual({ success: false, error: 'user_cancel' });
+  });
+
+  it('stores the device secret behind biometrics and never the password', async () => {
+    registerDevice();
+
+    expect(await BiometricService.enroll(' Collector ')).toEqual({ success: true });
+
+    expect(SecureStore.setItemAsync).toHaveBeenCalledWith('biometric_login_secret', 'device-secret', {
+      requireAuthentication: true,
+      authenticationPrompt: 'Enable biometric sign-in',
+    });
+    expect(await BiometricService.getEnrollment()).toMatchObject({ username: 'collector', deviceId: 'device-1' });
+    expect(await BiometricService.unlockDeviceCredential()).toMatchObject({
+      success: true,
+      credential: { username: 'collector', deviceId: 'device-1', deviceToken: 'device-secret' },
+    });
+  });
+
+  it('does not enroll when the server refuses the device', async () => {
+    jest.spyOn(apiService, 'registerDevice').mockResolvedValue({
+      success: false,
+      data: { deviceId: '', deviceToken: '' },
+      error: 'Too many devices',
+    });
+
+    expect(await BiometricService.enroll('collector')).toEqual({ success: false, error: 'Too many devices' });
+    expect(await BiometricService.isBiometricEnabled()).toBe(false);
+  });
+
+  it('asks to set up again when the stored secret is gone', async () => {
+    registerDevice();
+    await BiometricService.enroll('collector');
+    await SecureStore.deleteItemAsync('biometric_login_secret');
+
+    expect(await BiometricService.unlockDeviceCredential()).toEqual({
+      success: false,
+      error: 'Biometric sign-in needs to be set up again',
+    });
+    expect(await BiometricService.getEnrollment()).toBeNull();
+  });
+
+  it('forgets the credential even when the server cannot be told', async () => {
+    registerDevice();
+    await BiometricService.enroll('collector');
+    jest.spyOn(apiService, 'revokeDevice').mockRejectedValue(new Error('Network request failed'));
+
+    await BiometricService.revoke();
+
+    expect(apiService.revokeDevice).toHaveBeenCalledWith('device-1');
+    expect(await BiometricService.isBiometricEnabled()).toBe(false);
+  });
+});
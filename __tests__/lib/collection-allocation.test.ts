@@ -0,0 +1,83 @@
+import { allocatePayment, DueInstallment, getDueBy, getTotalDue } from '@/lib/collection-allocation';
+
+const installment = (
+  loanId: string,
+  installmentNumber: number,
+  dueDate: string,
+  amount = 500,
+  status: DueInstallment['status'] = 'PENDING'
+): DueInstallment => ({
+  installmentId: `${loanId}-installment-${installmentNumber}`,
+  loanId,
+  installmentNumber,
+  dueDate,
+  amount,
+  status,
+});
+
+const dues = [
+  installment('loan-1', 1, '2026-01-12'),
+  installment('loan-1', 2, '2026-01-19'),
+  installment('loan-1', 3, '2026-01-26'),
+  installment('loan-2', 1, '2026-01-14T00:00:00.000Z', 1000),
+  installment('loan-2', 2, '2026-01-21T00:00:00.000Z', 1000),
+];
+
+describe('getDueBy', () => {
+  it('leaves out installments that fall due after the payment date', () => {
+    const due = getDueBy(dues, '2026-01-19');
+
+    expect(due.map(item => item.installmentId)).toEqual([
+      'loan-1-installment-1',
+      'loan-1-installment-2',
+      'loan-2-installment-1',
+    ]);
+    expect(getTotalDue(due)).toBe(2000);
+  });
+});
+
+describe('allocatePayment', () => {
+  it('pays the oldest installments first', () => {
+    const result = allocatePayment(1200, getDueBy(dues, '2026-01-19'), 'OLDEST_FIRST');
+
+    expect(result.allocations.map(item => [item.installmentId, item.amount])).toEqual([
+      ['loan-1-installment-1', 500],
+      ['loan-2-installment-1', 700],
+    ]);
+    expect(result).toMatchObject({ allocated: 1200, unallocated: 0 });
+  });
+
+  it('shares the cash between loans in proportion to what each owes', () => {
+    const result = allocatePayment(1500, getDueBy(dues, '2026-01-19'), 'PROPORTIONAL');
+
+    expect(result.allocations.map(item => [item.installmentId, item.amount])).toEqual([
+      ['loan-1-installment-1', 500],
+      ['loan-2-installment-1', 750],
+      ['loan-1-installment-2', 250],
+    ]);
+    expect(result.allocated).toBe(1500);
+  });
+
+  it('returns cash beyond what is due as unallocated', () => {
+    const result = allocatePayment(2500, getDueBy(dues, '2026-01-19'), 'OLDEST_FIRST');
+
+    expect(result).toMatchObject({ allocated: 2000, unallocated: 500 });
+  });
+
+  it('hands back a fraction of a rupee instead of dropping it', () => {
+    const result = allocatePayment(1000.5, getDueBy(dues, '2026-01-19'), 'PROPORTIONAL');
+
+    expect(result).toMatchObject({ allocated: 1000, unallocated: 0.5 });
+    expect(result.allocated + result.unallocated).toBe(1000.5);
+  });
+
+  it('leaves part-paid installments to be collected on the loan', () => {
+    const due = [installment('loan-3', 1, '2026-01-05', 500, 'PARTIAL'), ...getDueBy(dues, '2026-01-19')];
+
+    const result = allocatePayment(2500, due, 'OLDEST_FIRST');
+
+    expect(getTotalDue(due)).toBe(2000);
+    expect(result.allocations.map(item => item.installmentId)).not.toContain('loan-3-installment-1');
+    expect(result).toMatchObject({ allocated: 2000, unallocated: 500 });
+  });
+});
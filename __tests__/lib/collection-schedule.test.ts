@@ -0,0 +1,103 @@
+import type { Loan } from '@/lib/api';
+import {
+  buildCollectionRoute,
+  buildWeeklySchedule,
+  getExpectedAmount,
+  getWeekday,
+} from '@/lib/collection-schedule';
+
+// 10,000 over 10 weeks with no interest: 1,000 a week
+const buildLoan = (overrides: Partial<Loan> = {}): Loan => ({
+  _id: 'loan-1',
+  loanNumber: 'GF0001',
+  principalAmount: 10000,
+  disbursedAmount: 10000,
+  termWeeks: 10,
+  startDate: '2026-01-05',
+  interestType: 'NONE',
+  interestRate: 0,
+  status: 'ACTIVE',
+  borrower: { _id: 'borrower-1', name: 'Ramesh Kumar' },
+  outstandingAmount: 10000,
+  totalPaid: 0,
+  collectionDays: ['monday'],
+  createdAt: '2026-01-05T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('getWeekday', () => {
+  it('names the local day of the week', () => {
+    expect(getWeekday(new Date(2026, 9, 19))).toBe('monday');
+    expect(getWeekday(new Date(2026, 9, 25))).toBe('sunday');
+  });
+});
+
+describe('getExpectedAmount', () => {
+  it('expects the next installment on a loan collected once a week', () => {
+    expect(getExpectedAmount(buildLoan())).toBe(1000);
+  });
+
+  it('splits the installment across the days the loan is collected on', () => {
+    expect(getExpectedAmount(buildLoan({ collectionDays: ['monday', 'thursday'] }))).toBe(500);
+  });
+
+  it('never expects more than is still owed', () => {
+    expect(getExpectedAmount(buildLoan({ totalPaid: 9800, outstandingAmount: 200 }))).toBe(200);
+  });
+
+  it('expects nothing from repaid or inactive loans', () => {
+    expect(getExpectedAmount(buildLoan({ totalPaid: 10000, outstandingAmount: 0 }))).toBe(0);
+    expect(getExpectedAmount(buildLoan({ status: 'DEFAULTED' }))).toBe(0);
+  });
+});
+
+describe('buildCollectionRoute', () => {
+  it('groups loans by borrower and totals expected and outstanding amounts', () => {
+    const route = buildCollectionRoute([
+      buildLoan({ _id: 'loan-1', outstandingAmount: 6000, totalPaid: 4000 }),
+      buildLoan({ _id: 'loan-2', outstandingAmount: 10000 }),
+      buildLoan({
+        _id: 'loan-3',
+        borrower: { _id: 'borrower-2', name: 'Sita Devi', phone: '9876543211' },
+        collectionDays: ['monday', 'thursday'],
+      }),
+    ]);
+
+    expect(route.totalLoans).toBe(3);
+    expect(route.expectedAmounts).toEqual({ 'loan-1': 1000, 'loan-2': 1000, 'loan-3': 500 });
+    expect(route.totalExpected).toBe(2500);
+    expect(route.totalOutstanding).toBe(26000);
+
+    expect(Object.keys(route.borrowers)).toEqual(['borrower-1', 'borrower-2']);
+    expect(route.borrowers['borrower-1'].loans.map(loan => loan._id)).toEqual(['loan-1', 'loan-2']);
+    expect(route.borrowers['borrower-1'].expectedAmount).toBe(2000);
+    expect(route.borrowers['borrower-1'].totalOutstanding).toBe(16000);
+    expect(route.borrowers['borrower-2']).toMatchObject({ name: 'Sita Devi', phone: '9876543211', expectedAmount: 500 });
+  });
+
+  it('returns an empty route when nothing is due', () => {
+    expect(buildCollectionRoute([])).toEqual({
+      loans: [],
+      borrowers: {},
+      expectedAmounts: {},
+      totalExpected: 0,
+      totalOutstanding: 0,
+      totalLoans: 0,
+    });
+  });
+});
+
+describe('buildWeeklySchedule', () => {
+  it('puts each active loan on every day it is collected', () => {
+    const schedule = buildWeeklySchedule([
+      buildLoan({ _id: 'loan-1', collectionDays: ['Monday', 'thursday'] }),
+      buildLoan({ _id: 'loan-2', collectionDays: ['thursday'] }),
+      buildLoan({ _id: 'loan-3', collectionDays: ['monday'], status: 'COMPLETED' }),
+    ]);
+
+    expect(schedule.monday.loans.map(loan => loan._id)).toEqual(['loan-1']);
+    expect(schedule.thursday.loans.map(loan => loan._id)).toEqual(['loan-1', 'loan-2']);
+    expect(schedule.thursday.totalExpected).toBe(1500);
+    expect(schedule.sunday.totalLoans).toBe(0);
+  });
+});
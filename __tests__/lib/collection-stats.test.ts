@@ -0,0 +1,57 @@
+import type { DashboardStats } from '@/lib/api';
+import { getCollectionStats, getHistoryStartDate } from '@/lib/collection-stats';
+
+const dashboardStats: DashboardStats = {
+  totalLoans: 7,
+  activeLoans: 5,
+  completedLoans: 1,
+  defaultedLoans: 1,
+  totalBorrowers: 6,
+  totalCollected: 250000,
+  totalOutstanding: 120000,
+  todayCollections: 2,
+  todayAmount: 1500,
+  weeklyCollections: 9,
+  weeklyAmount: 8200,
+  monthlyCollections: 31,
+  monthlyAmount: 30100,
+  recentPayments: [],
+  topCollectors: [],
+  loanStatusDistribution: { active: 5, completed: 1, defaulted: 1 },
+};
+
+const collections = [{ amount: 1000 }, { amount: 500 }, { amount: 250 }];
+
+describe('getHistoryStartDate', () => {
+  const now = new Date('2026-10-19T08:30:00Z');
+
+  it('starts each range the right number of days back', () => {
+    expect(getHistoryStartDate('today', now)).toBe('2026-10-19');
+    expect(getHistoryStartDate('week', now)).toBe('2026-10-12');
+    expect(getHistoryStartDate('month', now)).toBe('2026-09-19');
+  });
+
+  it('has no start date for the whole history', () => {
+    expect(getHistoryStartDate('all', now)).toBeUndefined();
+  });
+});
+
+describe('getCollectionStats', () => {
+  it('totals the loaded pages until the dashboard arrives', () => {
+    expect(getCollectionStats('week', collections, null)).toEqual({ totalCollected: 1750, totalCollections: 3 });
+  });
+
+  it('counts every matching collection when the server reports a total', () => {
+    expect(getCollectionStats('all', collections, 42)).toEqual({ totalCollected: 1750, totalCollections: 42 });
+  });
+
+  it('uses the dashboard figures for the chosen range', () => {
+    expect(getCollectionStats('today', collections, 42, dashboardStats)).toEqual({ totalCollected: 1500, totalCollections: 2 });
+    expect(getCollectionStats('week', collections, 42, dashboardStats)).toEqual({ totalCollected: 8200, totalCollections: 9 });
+    expect(getCollectionStats('month', collections, 42, dashboardStats)).toEqual({ totalCollected: 30100, totalCollections: 31 });
+  });
+
+  it('uses the all-time amount with the server count for the whole history', () => {
+    expect(getCollectionStats('all', collections, 42, dashboardStats)).toEqual({ totalCollected: 250000, totalCollections: 42 });
+  });
+});
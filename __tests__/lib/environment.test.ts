@@ -0,0 +1,32 @@
+import { apiEnvironment } from '@/lib/environment';
+
+const setDev = (value: boolean) => {
+  (globalThis as unknown as { __DEV__: boolean }).__DEV__ = value;
+};
+
+describe('environments', () => {
+  const dev = __DEV__;
+
+  afterEach(async () => {
+    setDev(dev);
+    await apiEnvironment.select({ id: 'production' });
+  });
+
+  it('offers the mock backend in development builds', () => {
+    expect(apiEnvironment.getEnvironments().map(environment => environment.id)).toContain('mock');
+  });
+
+  it('hides the mock backend from release builds', async () => {
+    setDev(false);
+
+    expect(apiEnvironment.getEnvironments().map(environment => environment.id)).toEqual(['production', 'local']);
+    await expect(apiEnvironment.select({ id: 'mock' })).rejects.toThrow('This server is not available in this build');
+  });
+
+  it('falls back to the default when a release build finds the mock backend selected', async () => {
+    await apiEnvironment.select({ id: 'mock' });
+    setDev(false);
+
+    expect(apiEnvironment.getCurrent().id).toBe('production');
+  });
+});
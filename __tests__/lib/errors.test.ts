@@ -0,0 +1,83 @@
+import {
+  ApiError,
+  AuthError,
+  ConflictError,
+  createHttpError,
+  ForbiddenError,
+  getErrorMessage,
+  getFieldErrors,
+  NetworkError,
+  TimeoutError,
+  ValidationError,
+} from '@/lib/errors';
+
+describe('createHttpError', () => {
+  it('picks the class from the status', () => {
+    expect(createHttpError(400, { error: 'Bad input' })).toBeInstanceOf(ValidationError);
+    expect(createHttpError(422, { error: 'Bad input' })).toBeInstanceOf(ValidationError);
+    expect(createHttpError(401, { error: 'Invalid token' })).toBeInstanceOf(AuthError);
+    expect(createHttpError(403, { error: 'Admins only' })).toBeInstanceOf(ForbiddenError);
+    expect(createHttpError(409, { error: 'Loan has collections' })).toBeInstanceOf(ConflictError);
+
+    const error = createHttpError(500, { message: 'Database unavailable' });
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ message: 'Database unavailable', status: 500 });
+  });
+
+  it('falls back to the status when the body has no message', () => {
+    expect(createHttpError(502, null).message).toBe('HTTP 502');
+    expect(createHttpError(502, '<html>Bad Gateway</html>').message).toBe('HTTP 502');
+    expect(createHttpError(400, { error: { code: 'E_INPUT' } }).message).toBe('HTTP 400');
+  });
+
+  it('reads field errors in each shape servers send them', () => {
+    const expected = { phone: 'Taken', name: 'Required' };
+
+    expect(createHttpError(400, { errors: { phone: 'Taken', name: 'Required' } })).toMatchObject({ fieldErrors: expected });
+    expect(createHttpError(400, { errors: { phone: ['Taken', 'Too short'], name: ['Required'] } })).toMatchObject({
+      fieldErrors: expected,
+    });
+    expect(
+      createHttpError(422, {
+        errors: [
+          { field: 'phone', message: 'Taken' },
+          { path: 'name', msg: 'Required' },
+          { field: 'phone', message: 'Too short' },
+        ],
+      })
+    ).toMatchObject({ fieldErrors: expected, status: 422 });
+  });
+
+  it('leaves field errors empty when the server names none', () => {
+    expect(createHttpError(400, { error: 'Bad input', errors: 'phone' })).toMatchObject({ fieldErrors: {} });
+  });
+});
+
+describe('getFieldErrors', () => {
+  const error = new ValidationError('Invalid borrower', { phone: 'Taken', gpsLat: 'Out of range', householdId: 'Unknown' });
+
+  it('keeps the fields the form shows, mapping server names through the aliases', () => {
+    expect(getFieldErrors(error, ['name', 'phone', 'location'], { gpsLat: 'location' })).toEqual({
+      phone: 'Taken',
+      location: 'Out of range',
+    });
+  });
+
+  it('is empty for anything but a validation error', () => {
+    expect(getFieldErrors(new ConflictError('Loan has collections'), ['phone'])).toEqual({});
+    expect(getFieldErrors(new Error('phone'), ['phone'])).toEqual({});
+  });
+});
+
+describe('getErrorMessage', () => {
+  it('explains connection problems', () => {
+    expect(getErrorMessage(new NetworkError(), 'Failed')).toBe('Network error - please check your connection and try again.');
+    expect(getErrorMessage(new TimeoutError(), 'Failed')).toBe('Request timeout - server not responding. Please try again.');
+  });
+
+  it('shows the server\'s message, except for server faults', () => {
+    expect(getErrorMessage(new ForbiddenError('Admins only'), 'Failed')).toBe('Admins only');
+    expect(getErrorMessage(new ApiError('TypeError: cannot read id', 500), 'Failed')).toBe('Failed');
+    expect(getErrorMessage('oops', 'Failed')).toBe('Failed');
+  });
+});
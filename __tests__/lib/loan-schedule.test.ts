@@ -0,0 +1,129 @@
+import {
+  calculateProgress,
+  generateRepaymentSchedule,
+  getNextDue,
+  getOutstandingAmount,
+  getWeeksRemaining,
+} from '@/lib/loan-schedule';
+
+const START = '2026-01-05';
+
+describe('generateRepaymentSchedule', () => {
+  it('splits an interest-free loan into equal weekly installments', () => {
+    const schedule = generateRepaymentSchedule({ principalAmount: 10000, termWeeks: 10, startDate: START });
+
+    expect(schedule.installments).toHaveLength(10);
+    expect(schedule.installments.every(installment => installment.amount === 1000)).toBe(true);
+    expect(schedule.installments[0].dueDate).toBe('2026-01-12');
+    expect(schedule.installments[9].dueDate).toBe('2026-03-16');
+    expect(schedule.installments[9].balance).toBe(0);
+    expect(schedule.totalRepayable).toBe(10000);
+  });
+
+  it('charges flat interest on the original principal every week', () => {
+    const schedule = generateRepaymentSchedule({
+      principalAmount: 52000,
+      termWeeks: 52,
+      startDate: START,
+      interestType: 'FLAT',
+      interestRate: 26,
+    });
+
+    expect(schedule.installments.every(installment => installment.interest === 260)).toBe(true);
+    expect(schedule.totalInterest).toBe(13520);
+    expect(schedule.totalRepayable).toBe(65520);
+  });
+
+  it('charges declining interest on the balance and repays the principal exactly', () => {
+    const schedule = generateRepaymentSchedule({
+      principalAmount: 30000,
+      termWeeks: 26,
+      startDate: START,
+      interestType: 'DECLINING',
+      interestRate: 20,
+    });
+    const { installments } = schedule;
+
+    expect(installments.reduce((sum, installment) => sum + installment.principal, 0)).toBe(30000);
+    expect(installments[installments.length - 1].balance).toBe(0);
+    expect(installments[0].interest).toBeGreaterThan(installments[installments.length - 1].interest);
+    expect(schedule.totalRepayable).toBe(30000 + schedule.totalInterest);
+  });
+
+  it('deducts fees from what the borrower receives', () => {
+    const schedule = generateRepaymentSchedule({
+      principalAmount: 20000,
+      termWeeks: 20,
+      startDate: START,
+      processingFee: 400,
+      insuranceFee: 100,
+    });
+
+    expect(schedule.totalFees).toBe(500);
+    expect(schedule.netDisbursement).toBe(19500);
+    expect(schedule.totalRepayable).toBe(20000);
+  });
+
+  it('returns an empty schedule for a loan without a term', () => {
+    const schedule = generateRepaymentSchedule({ principalAmount: 5000, termWeeks: 0, startDate: START });
+
+    expect(schedule.installments).toEqual([]);
+    expect(schedule.totalInterest).toBe(0);
+  });
+});
+
+describe('loan progress', () => {
+  const schedule = generateRepaymentSchedule({ principalAmount: 10000, termWeeks: 10, startDate: START });
+
+  it('reports the share of the repayable amount collected', () => {
+    expect(calculateProgress(schedule, 2500)).toBe(25);
+    expect(calculateProgress(schedule, 0)).toBe(0);
+  });
+
+  it('stays between 0 and 100', () => {
+    expect(calculateProgress(schedule, 12000)).toBe(100);
+    expect(calculateProgress(schedule, -500)).toBe(0);
+    expect(calculateProgress(generateRepaymentSchedule({ principalAmount: 0, termWeeks: 10, startDate: START }), 100)).toBe(0);
+  });
+
+  it('counts the installments due after the given day', () => {
+    expect(getWeeksRemaining(schedule, new Date('2026-01-05T09:00:00Z'))).toBe(10);
+    // The third installment falls due today, so it no longer counts as remaining
+    expect(getWeeksRemaining(schedule, new Date('2026-01-26T09:00:00Z'))).toBe(7);
+    expect(getWeeksRemaining(schedule, new Date('2026-06-01T09:00:00Z'))).toBe(0);
+  });
+
+  it('never reports a negative outstanding amount', () => {
+    expect(getOutstandingAmount(schedule, 3000)).toBe(7000);
+    expect(getOutstandingAmount(schedule, 15000)).toBe(0);
+  });
+});
+
+describe('getNextDue', () => {
+  const schedule = generateRepaymentSchedule({ principalAmount: 10000, termWeeks: 10, startDate: START });
+
+  it('asks for the next installment when the loan is up to date', () => {
+    expect(getNextDue(schedule, 2000, new Date('2026-01-20T09:00:00Z'))).toEqual({
+      dueDate: '2026-01-26',
+      amount: 1000,
+    });
+  });
+
+  it('includes arrears from earlier weeks', () => {
+    expect(getNextDue(schedule, 1000, new Date('2026-01-26T09:00:00Z'))).toEqual({
+      dueDate: '2026-01-19',
+      amount: 2000,
+    });
+  });
+
+  it('counts a part payment towards the next installment', () => {
+    expect(getNextDue(schedule, 1500, new Date('2026-01-13T09:00:00Z'))).toEqual({
+      dueDate: '2026-01-19',
+      amount: 500,
+    });
+  });
+
+  it('returns null once the loan is repaid', () => {
+    expect(getNextDue(schedule, 10000)).toBeNull();
+  });
+});
@@ -0,0 +1,40 @@
+import { calculateDistance, formatDistance, isValidCoordinates } from '@/lib/location';
+
+describe('calculateDistance', () => {
+  it('is zero between a point and itself', () => {
+    expect(calculateDistance(28.6139, 77.209, 28.6139, 77.209)).toBe(0);
+  });
+
+  it('measures one degree of latitude as about 111 km', () => {
+    expect(calculateDistance(20, 78, 21, 78)).toBeCloseTo(111195, -1);
+  });
+
+  it('matches the great-circle distance between two cities', () => {
+    // Delhi to Mumbai is about 1,150 km in a straight line
+    const distance = calculateDistance(28.6139, 77.209, 19.076, 72.8777);
+    expect(distance / 1000).toBeGreaterThan(1140);
+    expect(distance / 1000).toBeLessThan(1160);
+  });
+
+  it('is the same in both directions', () => {
+    expect(calculateDistance(12.9716, 77.5946, 13.0827, 80.2707)).toBeCloseTo(
+      calculateDistance(13.0827, 80.2707, 12.9716, 77.5946),
+      6
+    );
+  });
+});
+
+describe('formatDistance', () => {
+  it('uses metres below a kilometre and kilometres above', () => {
+    expect(formatDistance(250)).toBe('250m');
+    expect(formatDistance(1500)).toBe('1.5km');
+  });
+});
+
+describe('isValidCoordinates', () => {
+  it('accepts coordinates on the globe and rejects the rest', () => {
+    expect(isValidCoordinates(28.6139, 77.209)).toBe(true);
+    expect(isValidCoordinates(91, 77.209)).toBe(false);
+    expect(isValidCoordinates(28.6139, -181)).toBe(false);
+  });
+});
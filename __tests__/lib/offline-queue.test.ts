@@ -0,0 +1,108 @@
+import { apiService, CreateLoanData } from '@/lib/api';
+import { mockBackend } from '@/lib/mock-backend';
+import { AuthService } from '@/lib/auth';
+import { offlineQueue } from '@/lib/offline-queue';
+import { resetMockBackend, signIn } from '@/test-utils';
+
+const loanFor = (borrowerId: string): CreateLoanData => ({
+  principalAmount: 10000,
+  disbursedAmount: 10000,
+  termWeeks: 10,
+  startDate: '2026-01-05',
+  interestType: 'FLAT',
+  interestRate: 0,
+  processingFee: 0,
+  insuranceFee: 0,
+  borrowerId,
+  collectionDays: ['monday'],
+});
+
+beforeEach(async () => {
+  await resetMockBackend();
+  await offlineQueue.clear();
+  await signIn();
+});
+
+describe('flush', () => {
+  it('sends a loan after the borrower it belongs to, using the server id', async () => {
+    const borrower = await offlineQueue.enqueue('createBorrower', {
+      name: 'Kavita Rao',
+      phone: '9876500001',
+      village: 'Rampur',
+      address: '5 Pond Road',
+      collectionDays: ['monday'],
+    });
+    await offlineQueue.enqueue('createLoan', loanFor(borrower.id));
+
+    await offlineQueue.flush();
+
+    const serverId = offlineQueue.resolveId(borrower.id);
+    expect(offlineQueue.getItems()).toEqual([]);
+    expect(mockBackend.getState().loans.some(loan => loan.borrower._id === serverId)).toBe(true);
+  });
+
+  it('holds back records that belong to a borrower the server rejected', async () => {
+    const borrower = await offlineQueue.enqueue('createBorrower', {
+      name: 'Kavita Rao',
+      village: '',
+      address: '5 Pond Road',
+      collectionDays: ['monday'],
+    });
+    const loan = await offlineQueue.enqueue('createLoan', loanFor(borrower.id));
+    const createLoan = jest.spyOn(apiService, 'createLoan');
+
+    await offlineQueue.flush();
+
+    expect(createLoan).not.toHaveBeenCalled();
+    expect(offlineQueue.getItems().find(item => item.id === borrower.id)).toMatchObject({ status: 'failed' });
+    expect(offlineQueue.getItems().find(item => item.id === loan.id)).toMatchObject({
+      status: 'blocked',
+      blockedBy: borrower.id,
+      lastError: 'Not sent: the borrower it belongs to failed to sync',
+    });
+    createLoan.mockRestore();
+  });
+
+  it('keeps a record blocked once the borrower it belongs to is discarded', async () => {
+    const borrower = await offlineQueue.enqueue('createBorrower', {
+      name: '',
+      village: 'Rampur',
+      address: '5 Pond Road',
+      collectionDays: ['monday'],
+    });
+    const loan = await offlineQueue.enqueue('createLoan', loanFor(borrower.id));
+    await offlineQueue.flush();
+
+    await offlineQueue.remove(borrower.id);
+    await offlineQueue.flush();
+
+    expect(offlineQueue.getItems()).toEqual([
+      expect.objectContaining({ id: loan.id, status: 'blocked', lastError: 'Not sent: the record it belongs to was discarded' }),
+    ]);
+  });
+
+  it('only sends records with the session of the user who recorded them', async () => {
+    const borrower = await offlineQueue.enqueue('createBorrower', {
+      name: 'Kavita Rao',
+      village: 'Rampur',
+      address: '5 Pond Road',
+      collectionDays: ['monday'],
+    });
+    await AuthService.logout();
+    await signIn('admin');
+    const createBorrower = jest.spyOn(apiService, 'createBorrower');
+
+    await offlineQueue.flush();
+
+    expect(createBorrower).not.toHaveBeenCalled();
+    expect(offlineQueue.getItems()).toEqual([]);
+
+    await AuthService.logout();
+    await signIn();
+    await offlineQueue.flush();
+
+    expect(createBorrower).toHaveBeenCalledWith(borrower.payload, { idempotencyKey: borrower.idempotencyKey });
+    expect(offlineQueue.getItems()).toEqual([]);
+    createBorrower.mockRestore();
+  });
+});
@@ -0,0 +1,60 @@
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import ChangePasswordScreen from '@/app/change-password';
+import { mockBackend } from '@/lib/mock-backend';
+import { MOCK_PASSWORD } from '@/lib/mock-fixtures';
+import { renderWithProviders, resetMockBackend, signIn } from '@/test-utils';
+
+const NEW_PASSWORD = 'Harvest#2026';
+
+const fillIn = (current: string, next: string, confirm: string) => {
+  fireEvent.changeText(screen.getByPlaceholderText('Enter current password'), current);
+  fireEvent.changeText(screen.getByPlaceholderText('Enter new password'), next);
+  fireEvent.changeText(screen.getByPlaceholderText('Re-enter new password'), confirm);
+  fireEvent.press(screen.getByText('Update Password'));
+};
+
+beforeEach(async () => {
+  await resetMockBackend();
+  await signIn();
+  jest.spyOn(Alert, 'alert');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('ChangePasswordScreen', () => {
+  it('flags each problem next to its field', async () => {
+    renderWithProviders(<ChangePasswordScreen />);
+    await screen.findByText('Update Password');
+
+    fillIn('', 'short', 'different');
+
+    expect(screen.getByText('Current password is required')).toBeTruthy();
+    expect(screen.getByText('Password does not meet the requirements below')).toBeTruthy();
+    expect(screen.getByText('Passwords do not match')).toBeTruthy();
+  });
+
+  it('shows a wrong current password on that field', async () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<ChangePasswordScreen />);
+    await screen.findByText('Update Password');
+
+    fillIn('not-my-password', NEW_PASSWORD, NEW_PASSWORD);
+
+    expect(await screen.findByText('Current password is incorrect')).toBeTruthy();
+    expect(Alert.alert).not.toHaveBeenCalled();
+    expect(consoleError).toHaveBeenCalledWith('Change password error:', expect.any(Error));
+  });
+
+  it('changes the password on the server', async () => {
+    renderWithProviders(<ChangePasswordScreen />);
+    await screen.findByText('Update Password');
+
+    fillIn(MOCK_PASSWORD, NEW_PASSWORD, NEW_PASSWORD);
+
+    await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith('Password Changed', expect.any(String), expect.any(Array)));
+    expect(mockBackend.getState().users.find(user => user.username === 'collector')?.password).toBe(NEW_PASSWORD);
+  });
+});
@@ -0,0 +1,74 @@
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import LoginScreen from '@/app/login';
+import { mockBackend } from '@/lib/mock-backend';
+import { MOCK_PASSWORD } from '@/lib/mock-fixtures';
+import { renderWithProviders, resetMockBackend } from '@/test-utils';
+
+const fillIn = (username: string, password: string) => {
+  fireEvent.changeText(screen.getByPlaceholderText('Username'), username);
+  fireEvent.changeText(screen.getByPlaceholderText('Password'), password);
+  fireEvent.press(screen.getByText('Sign In'));
+};
+
+beforeEach(async () => {
+  await resetMockBackend();
+  jest.clearAllMocks();
+  jest.spyOn(Alert, 'alert');
+});
+
+describe('LoginScreen', () => {
+  it('asks for both fields before contacting the server', async () => {
+    renderWithProviders(<LoginScreen />);
+
+    fireEvent.press(await screen.findByText('Sign In'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Error', 'Please enter both username and password');
+  });
+
+  it('opens the app after a successful sign-in', async () => {
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Welcome Back');
+
+    fillIn('collector', MOCK_PASSWORD);
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/(tabs)'));
+    expect(Alert.alert).not.toHaveBeenCalled();
+  });
+
+  it('returns to the screen the session expired on', async () => {
+    jest.mocked(useLocalSearchParams).mockReturnValue({ redirect: '/loan/loan-1', reason: 'expired' });
+    renderWithProviders(<LoginScreen />);
+
+    expect(await screen.findByText('Your session expired. Sign in to continue.')).toBeTruthy();
+    fillIn('collector', MOCK_PASSWORD);
+
+    await waitFor(() => expect(router.replace).toHaveBeenCalledWith('/loan/loan-1'));
+    jest.mocked(useLocalSearchParams).mockReturnValue({});
+  });
+
+  it('shows why the server refused the sign-in', async () => {
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Welcome Back');
+
+    fillIn('collector', 'wrong-password');
+
+    await waitFor(() =>
+      expect(Alert.alert).toHaveBeenCalledWith('Login Failed', 'Invalid username or password')
+    );
+    expect(router.replace).not.toHaveBeenCalled();
+  });
+
+  it('explains that offline access is not set up when the server is unreachable', async () => {
+    mockBackend.injectFault({ fault: { type: 'network' }, path: '/auth/login' });
+    renderWithProviders(<LoginScreen />);
+    await screen.findByText('Welcome Back');
+
+    fillIn('collector', MOCK_PASSWORD);
+
+    await waitFor(() =>
+      expect(Alert.alert).toHaveBeenCalledWith('Unable to Sign In', expect.stringContaining('offline access is not set up'))
+    );
+  });
+});
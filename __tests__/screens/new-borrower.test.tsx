@@ -0,0 +1,87 @@
+import { Alert } from 'react-native';
+import { fireEvent, screen, waitFor } from '@testing-library/react-native';
+import AddBorrowerRoute from '@/app/borrower/new';
+import { mockBackend } from '@/lib/mock-backend';
+import { renderWithProviders, resetMockBackend, signIn } from '@/test-utils';
+
+beforeEach(async () => {
+  await resetMockBackend();
+  jest.spyOn(Alert, 'alert');
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const fillIn = () => {
+  fireEvent.changeText(screen.getByPlaceholderText('Enter borrower\'s full name'), 'Kavita Rao');
+  fireEvent.changeText(screen.getByPlaceholderText('Enter phone number'), '9876500001');
+  fireEvent.changeText(screen.getByPlaceholderText('Enter village name'), 'Rampur');
+  fireEvent.changeText(screen.getByPlaceholderText('Enter complete address'), '5 Pond Road');
+  fireEvent.changeText(screen.getByPlaceholderText('XXXX XXXX XXXX'), '123412341234');
+};
+
+describe('AddBorrowerScreen', () => {
+  it('lists every missing field instead of submitting', async () => {
+    await signIn();
+    renderWithProviders(<AddBorrowerRoute />);
+
+    fireEvent.press(await screen.findByText('Add Borrower'));
+
+    expect(Alert.alert).toHaveBeenCalledWith('Validation Error', 'Please fix the errors in the form');
+    expect(screen.getByText('Name is required')).toBeTruthy();
+    expect(screen.getByText('Phone number is required')).toBeTruthy();
+    expect(screen.getByText('Village is required')).toBeTruthy();
+  });
+
+  it('checks the phone number format', async () => {
+    await signIn();
+    renderWithProviders(<AddBorrowerRoute />);
+    await screen.findByText('Add Borrower');
+
+    fillIn();
+    fireEvent.changeText(screen.getByPlaceholderText('Enter phone number'), '12345');
+    fireEvent.press(screen.getByText('Add Borrower'));
+
+    expect(screen.getByText('Please enter a valid 10-digit phone number')).toBeTruthy();
+  });
+
+  it('saves the borrower with the chosen collection days', async () => {
+    await signIn();
+    renderWithProviders(<AddBorrowerRoute />);
+    await screen.findByText('Add Borrower');
+
+    fillIn();
+    fireEvent.press(screen.getByText('Thursday'));
+    fireEvent.press(screen.getByText('Add Borrower'));
+
+    await waitFor(() => expect(Alert.alert).toHaveBeenCalledWith('Success', 'Borrower added successfully!', expect.any(Array)));
+    expect(mockBackend.getState().borrowers.find(borrower => borrower.name === 'Kavita Rao')).toMatchObject({
+      phone: '9876500001',
+      village: 'Rampur',
+      collectionDays: ['monday', 'thursday'],
+    });
+  });
+
+  it('shows the server\'s objection on the field it rejected', async () => {
+    await signIn();
+    const [existing] = mockBackend.getState().borrowers;
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+    renderWithProviders(<AddBorrowerRoute />);
+    await screen.findByText('Add Borrower');
+
+    fillIn();
+    fireEvent.changeText(screen.getByPlaceholderText('Enter phone number'), existing.phone);
+    fireEvent.press(screen.getByText('Add Borrower'));
+
+    expect(await screen.findByText('Another borrower already has this phone number')).toBeTruthy();
+    expect(Alert.alert).not.toHaveBeenCalledWith('Error', expect.anything());
+    expect(consoleError).toHaveBeenCalledWith('Error creating borrower:', expect.any(Error));
+  });
+
+  it('is closed to signed-out users', async () => {
+    renderWithProviders(<AddBorrowerRoute />);
+
+    expect(await screen.findByText('Access Restricted')).toBeTruthy();
+  });
+});
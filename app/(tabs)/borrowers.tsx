@@ -1,10 +1,16 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, RefreshControl, ActivityIndicator } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, Borrower as ApiBorrower } from '@/lib/api';
+import { Borrower as ApiBorrower } from '@/lib/api';
+import { usePaginatedBorrowers } from '@/hooks/useBorrowers';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import LastSynced from '@/components/LastSynced';
+import PaginatedList from '@/components/PaginatedList';
+import RequirePermission from '@/components/RequirePermission';
 
 interface Borrower {
   id: string;
@@ -18,123 +24,82 @@ interface Borrower {
   photo?: string;
 }
 
+// Mock data for development
+const mockBorrowers: Borrower[] = [
+  {
+    id: '1',
+    name: 'Ramesh Kumar',
+    phone: '+91 98765 43210',
+    village: 'Village A',
+    status: 'active',
+    totalLoans: 3,
+    outstandingAmount: 25000,
+    lastCollection: '2024-01-15',
+  },
+  {
+    id: '2',
+    name: 'Sita Devi',
+    phone: '+91 98765 43211',
+    village: 'Village B',
+    status: 'active',
+    totalLoans: 1,
+    outstandingAmount: 15000,
+    lastCollection: '2024-01-10',
+  },
+  {
+    id: '3',
+    name: 'Lakshmi Bai',
+    phone: '+91 98765 43212',
+    village: 'Village A',
+    status: 'inactive',
+    totalLoans: 2,
+    outstandingAmount: 0,
+    lastCollection: '2023-12-20',
+  },
+  {
+    id: '4',
+    name: 'Mohan Singh',
+    phone: '+91 98765 43213',
+    village: 'Village C',
+    status: 'active',
+    totalLoans: 4,
+    outstandingAmount: 35000,
+    lastCollection: '2024-01-18',
+  },
+];
+
 export default function BorrowersScreen() {
   const { theme } = useThemeContext();
-  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
-  const [filteredBorrowers, setFilteredBorrowers] = useState<Borrower[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive'>('all');
-  const [isLoading, setIsLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
-
-  // Mock data for development
-  const mockBorrowers: Borrower[] = [
-    {
-      id: '1',
-      name: 'Ramesh Kumar',
-      phone: '+91 98765 43210',
-      village: 'Village A',
-      status: 'active',
-      totalLoans: 3,
-      outstandingAmount: 25000,
-      lastCollection: '2024-01-15',
-    },
-    {
-      id: '2',
-      name: 'Sita Devi',
-      phone: '+91 98765 43211',
-      village: 'Village B',
-      status: 'active',
-      totalLoans: 1,
-      outstandingAmount: 15000,
-      lastCollection: '2024-01-10',
-    },
-    {
-      id: '3',
-      name: 'Lakshmi Bai',
-      phone: '+91 98765 43212',
-      village: 'Village A',
-      status: 'inactive',
-      totalLoans: 2,
-      outstandingAmount: 0,
-      lastCollection: '2023-12-20',
-    },
-    {
-      id: '4',
-      name: 'Mohan Singh',
-      phone: '+91 98765 43213',
-      village: 'Village C',
-      status: 'active',
-      totalLoans: 4,
-      outstandingAmount: 35000,
-      lastCollection: '2024-01-18',
-    },
-  ];
+  const search = useDebouncedValue(searchQuery.trim());
 
-  useEffect(() => {
-    loadBorrowers();
-  }, []);
+  const query = usePaginatedBorrowers({
+    search: search || undefined,
+    isActive: statusFilter === 'all' ? undefined : statusFilter === 'active',
+  });
+  const { items, error, isLoading, syncedAt, isFromCache } = query;
+  // Counts cover every borrower, not just the pages loaded so far
+  const { data: dashboardStats } = useDashboardStats();
 
-  useEffect(() => {
-    filterBorrowers();
-  }, [borrowers, searchQuery, statusFilter]);
-
-  const loadBorrowers = async () => {
-    setIsLoading(true);
-    try {
-      const response = await apiService.getBorrowers();
-      if (response.success) {
-        // Convert API borrowers to local format
-        const convertedBorrowers: Borrower[] = response.data.map((apiBorrower: ApiBorrower) => ({
-          id: apiBorrower._id,
-          name: apiBorrower.name,
-          phone: apiBorrower.phone || 'N/A',
-          village: apiBorrower.village,
-          status: apiBorrower.isActive ? 'active' : 'inactive',
-          totalLoans: 0, // Will be updated when we integrate loans
-          outstandingAmount: 0, // Will be updated when we integrate loans
-          lastCollection: new Date(apiBorrower.updatedAt).toISOString().split('T')[0],
-          photo: apiBorrower.photoUrl,
-        }));
-        setBorrowers(convertedBorrowers);
-      } else {
-        // Fallback to mock data for development
-        setBorrowers(mockBorrowers);
-      }
-    } catch (error) {
-      console.error('Error loading borrowers:', error);
+  const borrowers = useMemo<Borrower[]>(() => {
+    if (items.length === 0 && error) {
       // Fallback to mock data for development
-      setBorrowers(mockBorrowers);
-    } finally {
-      setIsLoading(false);
+      return mockBorrowers;
     }
-  };
-
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadBorrowers();
-    setRefreshing(false);
-  };
-
-  const filterBorrowers = () => {
-    let filtered = borrowers;
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(borrower =>
-        borrower.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        borrower.phone.includes(searchQuery) ||
-        borrower.village.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(borrower => borrower.status === statusFilter);
-    }
-
-    setFilteredBorrowers(filtered);
-  };
+    // Convert API borrowers to local format
+    return items.map((apiBorrower: ApiBorrower) => ({
+      id: apiBorrower._id,
+      name: apiBorrower.name,
+      phone: apiBorrower.phone || 'N/A',
+      village: apiBorrower.village,
+      status: apiBorrower.isActive ? 'active' : 'inactive',
+      totalLoans: 0, // Will be updated when we integrate loans
+      outstandingAmount: 0, // Will be updated when we integrate loans
+      lastCollection: new Date(apiBorrower.updatedAt).toISOString().split('T')[0],
+      photo: apiBorrower.photoUrl,
+    }));
+  }, [items, error]);
 
   const handleAddBorrower = () => {
     router.push('/borrower/new' as any);
@@ -157,178 +122,192 @@ export default function BorrowersScreen() {
   };
 
   const stats = {
-    total: borrowers.length,
-    active: borrowers.filter(b => b.status === 'active').length,
-    totalOutstanding: borrowers.reduce((sum, b) => sum + b.outstandingAmount, 0),
+    total: dashboardStats?.totalBorrowers ?? query.total ?? borrowers.length,
+    activeLoans: dashboardStats?.activeLoans ?? 0,
+    totalOutstanding: dashboardStats?.totalOutstanding ?? 0,
   };
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-      <ScrollView
-        style={styles.content}
-        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
-        showsVerticalScrollIndicator={false}
-      >
-        <View style={styles.header}>
-          <Text style={[styles.title, { color: theme.text }]}>Borrowers</Text>
+  const renderBorrower = ({ item: borrower }: { item: Borrower }) => (
+    <TouchableOpacity
+      style={[styles.borrowerCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+      onPress={() => handleBorrowerPress(borrower)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.borrowerHeader}>
+        <View style={styles.borrowerInfo}>
+          <View style={[styles.avatar, { backgroundColor: theme.primary + '20' }]}>
+            <Ionicons name="person" size={24} color={theme.primary} />
+          </View>
+          <View style={styles.borrowerDetails}>
+            <Text style={[styles.borrowerName, { color: theme.text }]}>
+              {borrower.name}
+            </Text>
+            <Text style={[styles.borrowerPhone, { color: theme.textSecondary }]}>
+              {borrower.phone}
+            </Text>
+            <Text style={[styles.borrowerVillage, { color: theme.textMuted }]}>
+              {borrower.village}
+            </Text>
+          </View>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(borrower.status) + '20' }]}>
+          <Text style={[styles.statusText, { color: getStatusColor(borrower.status) }]}>
+            {borrower.status.charAt(0).toUpperCase() + borrower.status.slice(1)}
+          </Text>
+        </View>
+      </View>
+      
+      <View style={styles.borrowerStats}>
+        <View style={styles.statItem}>
+          <Text style={[styles.statValue, { color: theme.text }]}>
+            {borrower.totalLoans}
+          </Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+            Loans
+          </Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={[styles.statValue, { color: theme.warning }]}>
+            {formatCurrency(borrower.outstandingAmount)}
+          </Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+            Outstanding
+          </Text>
+        </View>
+        <View style={styles.statItem}>
+          <Text style={[styles.statValue, { color: theme.textSecondary }]}>
+            {formatDate(borrower.lastCollection)}
+          </Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+            Last Collection
+          </Text>
+        </View>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const listHeader = (
+    <>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.text }]}>Borrowers</Text>
+        <RequirePermission action="create" resource="borrower">
           <TouchableOpacity
             style={[styles.addButton, { backgroundColor: theme.primary }]}
             onPress={handleAddBorrower}
           >
             <Ionicons name="add" size={24} color={theme.buttonText} />
           </TouchableOpacity>
-        </View>
+        </RequirePermission>
+      </View>
 
-        {/* Stats Cards */}
-        <View style={styles.statsContainer}>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="people" size={24} color={theme.primary} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>{stats.total}</Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Total</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="checkmark-circle" size={24} color={theme.success} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>{stats.active}</Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Active</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="cash" size={24} color={theme.warning} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>
-              {formatCurrency(stats.totalOutstanding)}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Outstanding</Text>
-          </View>
+      {/* Stats Cards */}
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="people" size={24} color={theme.primary} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>{stats.total}</Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Total</Text>
         </View>
-
-        {/* Search Bar */}
-        <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
-          <Ionicons name="search" size={20} color={theme.textMuted} />
-          <TextInput
-            style={[styles.searchInput, { color: theme.text }]}
-            placeholder="Search borrowers..."
-            placeholderTextColor={theme.textMuted}
-            value={searchQuery}
-            onChangeText={setSearchQuery}
-          />
-          {searchQuery.length > 0 && (
-            <TouchableOpacity onPress={() => setSearchQuery('')}>
-              <Ionicons name="close-circle" size={20} color={theme.textMuted} />
-            </TouchableOpacity>
-          )}
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="checkmark-circle" size={24} color={theme.success} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>{stats.activeLoans}</Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Active Loans</Text>
         </View>
-
-        {/* Filter Tabs */}
-        <View style={styles.filterContainer}>
-          {(['all', 'active', 'inactive'] as const).map((filter) => (
-            <TouchableOpacity
-              key={filter}
-              style={[
-                styles.filterTab,
-                {
-                  backgroundColor: statusFilter === filter ? theme.primary : theme.card,
-                  borderColor: theme.border,
-                }
-              ]}
-              onPress={() => setStatusFilter(filter)}
-            >
-              <Text style={[
-                styles.filterText,
-                { color: statusFilter === filter ? theme.buttonText : theme.textSecondary }
-              ]}>
-                {filter.charAt(0).toUpperCase() + filter.slice(1)}
-              </Text>
-            </TouchableOpacity>
-          ))}
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="cash" size={24} color={theme.warning} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>
+            {formatCurrency(stats.totalOutstanding)}
+          </Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Outstanding</Text>
         </View>
+      </View>
 
-        {/* Borrowers List */}
-        <View style={styles.listContainer}>
-          {filteredBorrowers.length === 0 ? (
-            <View style={styles.emptyState}>
-              <Ionicons name="people-outline" size={64} color={theme.textMuted} />
-              <Text style={[styles.emptyTitle, { color: theme.text }]}>
-                {searchQuery || statusFilter !== 'all' ? 'No borrowers found' : 'No borrowers yet'}
-              </Text>
-              <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
-                {searchQuery || statusFilter !== 'all' 
-                  ? 'Try adjusting your search or filters' 
-                  : 'Add your first borrower to get started'
-                }
-              </Text>
-              {!searchQuery && statusFilter === 'all' && (
-                <TouchableOpacity
-                  style={[styles.emptyButton, { backgroundColor: theme.primary }]}
-                  onPress={handleAddBorrower}
-                >
-                  <Text style={[styles.emptyButtonText, { color: theme.buttonText }]}>
-                    Add First Borrower
-                  </Text>
-                </TouchableOpacity>
-              )}
-            </View>
-          ) : (
-            filteredBorrowers.map((borrower) => (
-              <TouchableOpacity
-                key={borrower.id}
-                style={[styles.borrowerCard, { backgroundColor: theme.card, borderColor: theme.border }]}
-                onPress={() => handleBorrowerPress(borrower)}
-                activeOpacity={0.7}
-              >
-                <View style={styles.borrowerHeader}>
-                  <View style={styles.borrowerInfo}>
-                    <View style={[styles.avatar, { backgroundColor: theme.primary + '20' }]}>
-                      <Ionicons name="person" size={24} color={theme.primary} />
-                    </View>
-                    <View style={styles.borrowerDetails}>
-                      <Text style={[styles.borrowerName, { color: theme.text }]}>
-                        {borrower.name}
-                      </Text>
-                      <Text style={[styles.borrowerPhone, { color: theme.textSecondary }]}>
-                        {borrower.phone}
-                      </Text>
-                      <Text style={[styles.borrowerVillage, { color: theme.textMuted }]}>
-                        {borrower.village}
-                      </Text>
-                    </View>
-                  </View>
-                  <View style={[styles.statusBadge, { backgroundColor: getStatusColor(borrower.status) + '20' }]}>
-                    <Text style={[styles.statusText, { color: getStatusColor(borrower.status) }]}>
-                      {borrower.status.charAt(0).toUpperCase() + borrower.status.slice(1)}
-                    </Text>
-                  </View>
-                </View>
-                
-                <View style={styles.borrowerStats}>
-                  <View style={styles.statItem}>
-                    <Text style={[styles.statValue, { color: theme.text }]}>
-                      {borrower.totalLoans}
-                    </Text>
-                    <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-                      Loans
-                    </Text>
-                  </View>
-                  <View style={styles.statItem}>
-                    <Text style={[styles.statValue, { color: theme.warning }]}>
-                      {formatCurrency(borrower.outstandingAmount)}
-                    </Text>
-                    <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-                      Outstanding
-                    </Text>
-                  </View>
-                  <View style={styles.statItem}>
-                    <Text style={[styles.statValue, { color: theme.textSecondary }]}>
-                      {formatDate(borrower.lastCollection)}
-                    </Text>
-                    <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
-                      Last Collection
-                    </Text>
-                  </View>
-                </View>
-              </TouchableOpacity>
-            ))
-          )}
-        </View>
-      </ScrollView>
+      <LastSynced syncedAt={syncedAt} isStale={isFromCache} />
+
+      {/* Search Bar */}
+      <View style={[styles.searchContainer, { backgroundColor: theme.card, borderColor: theme.border }]}>
+        <Ionicons name="search" size={20} color={theme.textMuted} />
+        <TextInput
+          style={[styles.searchInput, { color: theme.text }]}
+          placeholder="Search borrowers..."
+          placeholderTextColor={theme.textMuted}
+          value={searchQuery}
+          onChangeText={setSearchQuery}
+        />
+        {searchQuery.length > 0 && (
+          <TouchableOpacity onPress={() => setSearchQuery('')}>
+            <Ionicons name="close-circle" size={20} color={theme.textMuted} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Filter Tabs */}
+      <View style={styles.filterContainer}>
+        {(['all', 'active', 'inactive'] as const).map((filter) => (
+          <TouchableOpacity
+            key={filter}
+            style={[
+              styles.filterTab,
+              {
+                backgroundColor: statusFilter === filter ? theme.primary : theme.card,
+                borderColor: theme.border,
+              }
+            ]}
+            onPress={() => setStatusFilter(filter)}
+          >
+            <Text style={[
+              styles.filterText,
+              { color: statusFilter === filter ? theme.buttonText : theme.textSecondary }
+            ]}>
+              {filter.charAt(0).toUpperCase() + filter.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </>
+  );
+
+  const listEmpty = isLoading ? (
+    <View style={styles.emptyState}>
+      <ActivityIndicator size="large" color={theme.primary} />
+    </View>
+  ) : (
+    <View style={styles.emptyState}>
+      <Ionicons name="people-outline" size={64} color={theme.textMuted} />
+      <Text style={[styles.emptyTitle, { color: theme.text }]}>
+        {searchQuery || statusFilter !== 'all' ? 'No borrowers found' : 'No borrowers yet'}
+      </Text>
+      <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
+        {searchQuery || statusFilter !== 'all' 
+          ? 'Try adjusting your search or filters' 
+          : 'Add your first borrower to get started'
+        }
+      </Text>
+      {!searchQuery && statusFilter === 'all' && (
+        <TouchableOpacity
+          style={[styles.emptyButton, { backgroundColor: theme.primary }]}
+          onPress={handleAddBorrower}
+        >
+          <Text style={[styles.emptyButtonText, { color: theme.buttonText }]}>
+            Add First Borrower
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <PaginatedList
+        style={styles.content}
+        query={query}
+        data={borrowers}
+        keyExtractor={(borrower) => borrower.id}
+        renderItem={renderBorrower}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={listEmpty}
+        endOfListText="No more borrowers"
+        showsVerticalScrollIndicator={false}
+      />
     </SafeAreaView>
   );
 }
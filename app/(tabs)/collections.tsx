@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect } from 'react';
 import {
   View,
   Text,
@@ -14,14 +14,13 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, Loan } from '@/lib/api';
+import { Loan } from '@/lib/api';
+import { buildCollectionRoute, CollectionRoute } from '@/lib/collection-schedule';
+import { useTodayRoute } from '@/hooks/useCollectionSchedule';
+import LastSynced from '@/components/LastSynced';
+import RequirePermission from '@/components/RequirePermission';
 
-interface TodayRoute {
-  loans: Loan[];
-  borrowers: { [borrowerId: string]: any };
-  totalOutstanding: number;
-  totalLoans: number;
-}
+const EMPTY_ROUTE = buildCollectionRoute([]);
 
 interface CollectionStats {
   totalCollected: number;
@@ -32,58 +31,21 @@ interface CollectionStats {
 
 export default function CollectionsScreen() {
   const { theme } = useThemeContext();
-  const [todayRoute, setTodayRoute] = useState<TodayRoute>({
-    loans: [],
-    borrowers: {},
-    totalOutstanding: 0,
-    totalLoans: 0,
-  });
-  const [stats, setStats] = useState<CollectionStats>({
-    totalCollected: 0,
-    totalCollections: 0,
-    todayCollections: 0,
-    pendingInstallments: 0,
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [selectedDay, setSelectedDay] = useState<string>('today');
+  // Shares the active loan list with the weekly schedule, so the two load together
+  const { data, error, isLoading, isRefreshing, refresh, syncedAt, isFromCache } = useTodayRoute();
+  const todayRoute: CollectionRoute = data || EMPTY_ROUTE;
 
   useEffect(() => {
-    loadTodayRoute();
-  }, []);
-
-  const loadTodayRoute = async () => {
-    try {
-      setIsLoading(true);
-      const response = await apiService.getTodayCollectionRoute();
-      
-      if (response.success) {
-        setTodayRoute(response.data);
-        calculateStats(response.data);
-      } else {
-        Alert.alert('Error', 'Failed to load today\'s collection route');
-      }
-    } catch (error) {
-      console.error('Error loading today\'s route:', error);
+    if (error && !data) {
       Alert.alert('Error', 'Failed to load collection route');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [error, data]);
 
-  const calculateStats = (routeData: TodayRoute) => {
-    setStats({
-      totalCollected: 0, // This would need to be calculated from today's collections
-      totalCollections: 0,
-      todayCollections: 0,
-      pendingInstallments: routeData.totalLoans,
-    });
-  };
-
-  const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadTodayRoute();
-    setIsRefreshing(false);
+  const stats: CollectionStats = {
+    totalCollected: 0, // This would need to be calculated from today's collections
+    totalCollections: 0,
+    todayCollections: 0,
+    pendingInstallments: todayRoute.totalLoans,
   };
 
   const formatCurrency = (amount: number | undefined | null) => {
@@ -112,13 +74,9 @@ export default function CollectionsScreen() {
     router.push(`/loan/${loan._id}`);
   };
 
-  const handleViewBorrowerDetails = (borrowerId: string) => {
-    router.push(`/borrower/${borrowerId}`);
-  };
-
   const renderLoanCard = ({ item: loan }: { item: Loan }) => {
-    const borrower = todayRoute.borrowers[loan.borrower._id];
-    
+    const expected = todayRoute.expectedAmounts[loan._id] || 0;
+
     return (
       <View style={[styles.loanCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
         <View style={styles.loanHeader}>
@@ -132,6 +90,9 @@ export default function CollectionsScreen() {
             <Text style={[styles.loanAmount, { color: theme.textSecondary }]}>
               Outstanding: {formatCurrency(loan.outstandingAmount)}
             </Text>
+            <Text style={[styles.loanAmount, { color: theme.primary }]}>
+              Due today: {formatCurrency(expected)}
+            </Text>
           </View>
           <View style={styles.loanActions}>
             <TouchableOpacity
@@ -196,22 +157,26 @@ export default function CollectionsScreen() {
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
       <View style={styles.header}>
         <Text style={[styles.title, { color: theme.text }]}>Weekly Collections</Text>
-        <TouchableOpacity
-          style={[styles.addButton, { backgroundColor: theme.primary }]}
-          onPress={() => router.push('/collection/new')}
-          activeOpacity={0.8}
-        >
-          <Ionicons name="add" size={20} color={theme.buttonText} />
-        </TouchableOpacity>
+        <RequirePermission action="create" resource="collection">
+          <TouchableOpacity
+            style={[styles.addButton, { backgroundColor: theme.primary }]}
+            onPress={() => router.push('/collection/new')}
+            activeOpacity={0.8}
+          >
+            <Ionicons name="add" size={20} color={theme.buttonText} />
+          </TouchableOpacity>
+        </RequirePermission>
       </View>
 
       <ScrollView 
         style={styles.content} 
         showsVerticalScrollIndicator={false}
         refreshControl={
-          <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+          <RefreshControl refreshing={isRefreshing} onRefresh={refresh} />
         }
       >
+        <LastSynced syncedAt={syncedAt} isStale={isFromCache} />
+
         {/* Today's Route Header */}
         <View style={[styles.todayHeader, { backgroundColor: theme.card, borderColor: theme.border }]}>
           <View style={styles.todayInfo}>
@@ -242,6 +207,14 @@ export default function CollectionsScreen() {
                 Loans
               </Text>
             </View>
+            <View style={styles.statItem}>
+              <Text style={[styles.statNumber, { color: theme.primary }]}>
+                {formatCurrency(todayRoute.totalExpected)}
+              </Text>
+              <Text style={[styles.statLabel, { color: theme.textSecondary }]}>
+                Expected
+              </Text>
+            </View>
             <View style={styles.statItem}>
               <Text style={[styles.statNumber, { color: theme.text }]}>
                 {formatCurrency(todayRoute.totalOutstanding)}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -13,80 +13,22 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService } from '@/lib/api';
+import { ApiContractError } from '@/lib/errors';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
 import { format } from 'date-fns';
+import RequirePermission from '@/components/RequirePermission';
 
 const { width } = Dimensions.get('window');
 
-interface DashboardStats {
-  totalLoans: number;
-  activeLoans: number;
-  completedLoans: number;
-  defaultedLoans: number;
-  totalBorrowers: number;
-  totalCollected: number;
-  totalOutstanding: number;
-  todayCollections: number;
-  todayAmount: number;
-  weeklyCollections: number;
-  weeklyAmount: number;
-  monthlyCollections: number;
-  monthlyAmount: number;
-  recentPayments: Array<{
-    id: string;
-    loanNumber: string;
-    borrowerName: string;
-    amount: number;
-    collectorName: string;
-    time: string;
-  }>;
-  topCollectors: Array<{
-    name: string;
-    collections: number;
-    amount: number;
-  }>;
-  loanStatusDistribution: {
-    active: number;
-    completed: number;
-    defaulted: number;
-  };
-}
-
 export default function DashboardScreen() {
   const { theme } = useThemeContext();
-  const [stats, setStats] = useState<DashboardStats | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    loadDashboardData();
-  }, []);
+  // Refetched automatically after collections, loans and borrowers are saved
+  const { data: stats, error: loadError, isLoading, isRefreshing, refresh } = useDashboardStats();
 
-  const loadDashboardData = async () => {
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-      const response = await apiService.getDashboardStats();
-      if (response.success) {
-        setStats(response.data);
-      } else {
-        setError(response.error || 'Failed to load dashboard data');
-      }
-    } catch (error) {
-      console.error('Error loading dashboard data:', error);
-      setError('Failed to load dashboard data');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadDashboardData();
-    setIsRefreshing(false);
-  };
+  // Name the missing field so a server change is easy to spot. Stats already on screen stay visible.
+  const error = loadError && !stats
+    ? (loadError instanceof ApiContractError ? loadError.message : 'Failed to load dashboard data')
+    : null;
 
   const formatCurrency = (amount: number) => {
     return `₹${amount.toLocaleString('en-IN')}`;
@@ -122,7 +64,7 @@ export default function DashboardScreen() {
           <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
           <TouchableOpacity
             style={[styles.retryButton, { backgroundColor: theme.primary }]}
-            onPress={loadDashboardData}
+            onPress={refresh}
           >
             <Text style={[styles.retryButtonText, { color: '#FFFFFF' }]}>
               Try Again
@@ -143,7 +85,7 @@ export default function DashboardScreen() {
         refreshControl={
           <RefreshControl
             refreshing={isRefreshing}
-            onRefresh={onRefresh}
+            onRefresh={refresh}
             colors={[theme.primary]}
             tintColor={theme.primary}
           />
@@ -159,12 +101,14 @@ export default function DashboardScreen() {
               {format(new Date(), 'EEEE, MMMM d, yyyy')}
             </Text>
           </View>
-          <TouchableOpacity
-            style={[styles.backupButton, { backgroundColor: theme.primary + '20' }]}
-            onPress={() => router.push('/backup/daily')}
-          >
-            <Ionicons name="cloud-upload" size={20} color={theme.primary} />
-          </TouchableOpacity>
+          <RequirePermission action="create" resource="backup">
+            <TouchableOpacity
+              style={[styles.backupButton, { backgroundColor: theme.primary + '20' }]}
+              onPress={() => router.push('/backup/daily')}
+            >
+              <Ionicons name="cloud-upload" size={20} color={theme.primary} />
+            </TouchableOpacity>
+          </RequirePermission>
         </View>
 
         {/* Key Metrics */}
@@ -408,29 +352,35 @@ export default function DashboardScreen() {
             Quick Actions
           </Text>
           <View style={styles.actionsGrid}>
-            <TouchableOpacity
-              style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
-              onPress={() => router.push('/borrower/new')}
-            >
-              <Ionicons name="person-add" size={24} color={theme.primary} />
-              <Text style={[styles.actionText, { color: theme.text }]}>Add Borrower</Text>
-            </TouchableOpacity>
+            <RequirePermission action="create" resource="borrower">
+              <TouchableOpacity
+                style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+                onPress={() => router.push('/borrower/new')}
+              >
+                <Ionicons name="person-add" size={24} color={theme.primary} />
+                <Text style={[styles.actionText, { color: theme.text }]}>Add Borrower</Text>
+              </TouchableOpacity>
+            </RequirePermission>
 
-            <TouchableOpacity
-              style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
-              onPress={() => router.push('/loan/new')}
-            >
-              <Ionicons name="add-circle" size={24} color={theme.primary} />
-              <Text style={[styles.actionText, { color: theme.text }]}>New Loan</Text>
-            </TouchableOpacity>
+            <RequirePermission action="create" resource="loan">
+              <TouchableOpacity
+                style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+                onPress={() => router.push('/loan/new')}
+              >
+                <Ionicons name="add-circle" size={24} color={theme.primary} />
+                <Text style={[styles.actionText, { color: theme.text }]}>New Loan</Text>
+              </TouchableOpacity>
+            </RequirePermission>
 
-            <TouchableOpacity
-              style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
-              onPress={() => router.push('/collection/new')}
-            >
-              <Ionicons name="cash" size={24} color={theme.primary} />
-              <Text style={[styles.actionText, { color: theme.text }]}>Collect Payment</Text>
-            </TouchableOpacity>
+            <RequirePermission action="create" resource="collection">
+              <TouchableOpacity
+                style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+                onPress={() => router.push('/collection/new')}
+              >
+                <Ionicons name="cash" size={24} color={theme.primary} />
+                <Text style={[styles.actionText, { color: theme.text }]}>Collect Payment</Text>
+              </TouchableOpacity>
+            </RequirePermission>
 
             <TouchableOpacity
               style={[styles.actionCard, { backgroundColor: theme.card, borderColor: theme.border }]}
@@ -1,161 +1,122 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, RefreshControl, ActivityIndicator } from 'react-native';
+import React, { useState, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, Loan as ApiLoan } from '@/lib/api';
+import { Loan as ApiLoan } from '@/lib/api';
+import { usePaginatedLoans } from '@/hooks/useLoans';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import LastSynced from '@/components/LastSynced';
+import PaginatedList from '@/components/PaginatedList';
+import RequirePermission from '@/components/RequirePermission';
 
-interface Loan {
+// List row flattened from the API loan; shared fields keep the schema's types
+type Loan = Pick<ApiLoan,
+  'loanNumber' | 'principalAmount' | 'disbursedAmount' | 'outstandingAmount' | 'totalPaid' |
+  'termWeeks' | 'startDate' | 'status' | 'createdAt'
+> & {
   id: string;
-  loanNumber: string;
   borrowerName: string;
   borrowerId: string;
-  principalAmount: number;
-  disbursedAmount: number;
-  outstandingAmount: number;
-  totalPaid: number;
-  termWeeks: number;
-  startDate: string;
-  status: 'ACTIVE' | 'COMPLETED' | 'DEFAULTED';
-  createdAt: string;
-}
+};
+
+// Mock data for development
+const mockLoans: Loan[] = [
+  {
+    id: '1',
+    loanNumber: 'L001',
+    borrowerName: 'Ramesh Kumar',
+    borrowerId: '1',
+    principalAmount: 50000,
+    disbursedAmount: 45000,
+    outstandingAmount: 25000,
+    totalPaid: 20000,
+    termWeeks: 12,
+    startDate: '2024-01-01',
+    status: 'ACTIVE',
+    createdAt: '2024-01-01',
+  },
+  {
+    id: '2',
+    loanNumber: 'L002',
+    borrowerName: 'Sita Devi',
+    borrowerId: '2',
+    principalAmount: 30000,
+    disbursedAmount: 30000,
+    outstandingAmount: 15000,
+    totalPaid: 15000,
+    termWeeks: 8,
+    startDate: '2024-01-15',
+    status: 'ACTIVE',
+    createdAt: '2024-01-15',
+  },
+  {
+    id: '3',
+    loanNumber: 'L003',
+    borrowerName: 'Lakshmi Bai',
+    borrowerId: '3',
+    principalAmount: 40000,
+    disbursedAmount: 40000,
+    outstandingAmount: 0,
+    totalPaid: 40000,
+    termWeeks: 10,
+    startDate: '2023-11-01',
+    status: 'COMPLETED',
+    createdAt: '2023-11-01',
+  },
+  {
+    id: '4',
+    loanNumber: 'L004',
+    borrowerName: 'Mohan Singh',
+    borrowerId: '4',
+    principalAmount: 60000,
+    disbursedAmount: 60000,
+    outstandingAmount: 35000,
+    totalPaid: 25000,
+    termWeeks: 16,
+    startDate: '2024-01-10',
+    status: 'ACTIVE',
+    createdAt: '2024-01-10',
+  },
+];
 
 export default function LoansScreen() {
   const { theme } = useThemeContext();
-  const [loans, setLoans] = useState<Loan[]>([]);
-  const [filteredLoans, setFilteredLoans] = useState<Loan[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'ACTIVE' | 'COMPLETED' | 'DEFAULTED'>('all');
-  const [isLoading, setIsLoading] = useState(false);
-  const [refreshing, setRefreshing] = useState(false);
-
-  // Mock data for development
-  const mockLoans: Loan[] = [
-    {
-      id: '1',
-      loanNumber: 'L001',
-      borrowerName: 'Ramesh Kumar',
-      borrowerId: '1',
-      principalAmount: 50000,
-      disbursedAmount: 45000,
-      outstandingAmount: 25000,
-      totalPaid: 20000,
-      termWeeks: 12,
-      startDate: '2024-01-01',
-      status: 'ACTIVE',
-      createdAt: '2024-01-01',
-    },
-    {
-      id: '2',
-      loanNumber: 'L002',
-      borrowerName: 'Sita Devi',
-      borrowerId: '2',
-      principalAmount: 30000,
-      disbursedAmount: 30000,
-      outstandingAmount: 15000,
-      totalPaid: 15000,
-      termWeeks: 8,
-      startDate: '2024-01-15',
-      status: 'ACTIVE',
-      createdAt: '2024-01-15',
-    },
-    {
-      id: '3',
-      loanNumber: 'L003',
-      borrowerName: 'Lakshmi Bai',
-      borrowerId: '3',
-      principalAmount: 40000,
-      disbursedAmount: 40000,
-      outstandingAmount: 0,
-      totalPaid: 40000,
-      termWeeks: 10,
-      startDate: '2023-11-01',
-      status: 'COMPLETED',
-      createdAt: '2023-11-01',
-    },
-    {
-      id: '4',
-      loanNumber: 'L004',
-      borrowerName: 'Mohan Singh',
-      borrowerId: '4',
-      principalAmount: 60000,
-      disbursedAmount: 60000,
-      outstandingAmount: 35000,
-      totalPaid: 25000,
-      termWeeks: 16,
-      startDate: '2024-01-10',
-      status: 'ACTIVE',
-      createdAt: '2024-01-10',
-    },
-  ];
-
-  useEffect(() => {
-    loadLoans();
-  }, []);
+  const search = useDebouncedValue(searchQuery.trim());
 
-  useEffect(() => {
-    filterLoans();
-  }, [loans, searchQuery, statusFilter]);
+  const query = usePaginatedLoans({
+    search: search || undefined,
+    status: statusFilter === 'all' ? undefined : statusFilter,
+  });
+  const { items, error, isLoading, syncedAt, isFromCache } = query;
+  // Counts cover every loan, not just the pages loaded so far
+  const { data: dashboardStats } = useDashboardStats();
 
-  const loadLoans = async () => {
-    setIsLoading(true);
-    try {
-      const response = await apiService.getLoans();
-      if (response.success) {
-        // Convert API loans to local format
-        const convertedLoans: Loan[] = response.data.map((apiLoan: ApiLoan) => ({
-          id: apiLoan._id,
-          loanNumber: apiLoan.loanNumber || 'N/A',
-          borrowerName: apiLoan.borrower?.name || 'Unknown',
-          borrowerId: apiLoan.borrower?._id || '',
-          principalAmount: apiLoan.principalAmount || 0,
-          disbursedAmount: apiLoan.disbursedAmount || 0,
-          outstandingAmount: apiLoan.outstandingAmount || 0,
-          totalPaid: apiLoan.totalPaid || 0,
-          termWeeks: apiLoan.termWeeks || 0,
-          startDate: apiLoan.startDate || new Date().toISOString(),
-          status: apiLoan.status || 'ACTIVE',
-          createdAt: apiLoan.createdAt || new Date().toISOString(),
-        }));
-        setLoans(convertedLoans);
-      } else {
-        // Fallback to mock data for development
-        setLoans(mockLoans);
-      }
-    } catch (error) {
-      console.error('Error loading loans:', error);
+  const loans = useMemo<Loan[]>(() => {
+    if (items.length === 0 && error) {
       // Fallback to mock data for development
-      setLoans(mockLoans);
-    } finally {
-      setIsLoading(false);
+      return mockLoans;
     }
-  };
-
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadLoans();
-    setRefreshing(false);
-  };
-
-  const filterLoans = () => {
-    let filtered = loans;
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(loan =>
-        loan.loanNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        loan.borrowerName.toLowerCase().includes(searchQuery.toLowerCase())
-      );
-    }
-
-    // Apply status filter
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter(loan => loan.status === statusFilter);
-    }
-
-    setFilteredLoans(filtered);
-  };
+    // Convert API loans to local format
+    return items.map((apiLoan: ApiLoan) => ({
+      id: apiLoan._id,
+      loanNumber: apiLoan.loanNumber || 'N/A',
+      borrowerName: apiLoan.borrower?.name || 'Unknown',
+      borrowerId: apiLoan.borrower?._id || '',
+      principalAmount: apiLoan.principalAmount || 0,
+      disbursedAmount: apiLoan.disbursedAmount || 0,
+      outstandingAmount: apiLoan.outstandingAmount || 0,
+      totalPaid: apiLoan.totalPaid || 0,
+      termWeeks: apiLoan.termWeeks || 0,
+      startDate: apiLoan.startDate || new Date().toISOString(),
+      status: apiLoan.status || 'ACTIVE',
+      createdAt: apiLoan.createdAt || new Date().toISOString(),
+    }));
+  }, [items, error]);
 
   const handleAddLoan = () => {
     router.push('/loan/new' as any);
@@ -204,204 +165,207 @@ export default function LoansScreen() {
   };
 
   const stats = {
-    total: loans.length,
-    active: loans.filter(l => l.status === 'ACTIVE').length,
-    completed: loans.filter(l => l.status === 'COMPLETED').length,
-    defaulted: loans.filter(l => l.status === 'DEFAULTED').length,
-    totalOutstanding: loans.reduce((sum, l) => sum + l.outstandingAmount, 0),
-    totalDisbursed: loans.reduce((sum, l) => sum + l.disbursedAmount, 0),
+    total: dashboardStats?.totalLoans ?? query.total ?? loans.length,
+    active: dashboardStats?.activeLoans ?? loans.filter(l => l.status === 'ACTIVE').length,
+    totalOutstanding: dashboardStats?.totalOutstanding ?? loans.reduce((sum, l) => sum + l.outstandingAmount, 0),
   };
 
-  if (isLoading) {
-    return (
-      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color={theme.primary} />
-          <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
-            Loading loans...
+  const renderLoan = ({ item: loan }: { item: Loan }) => (
+    <TouchableOpacity
+      style={[styles.loanCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+      onPress={() => handleLoanPress(loan)}
+    >
+      <View style={styles.loanHeader}>
+        <View style={styles.loanInfo}>
+          <Text style={[styles.loanNumber, { color: theme.text }]}>
+            {loan.loanNumber}
+          </Text>
+          <Text style={[styles.borrowerName, { color: theme.textSecondary }]}>
+            {loan.borrowerName}
           </Text>
         </View>
-      </SafeAreaView>
-    );
-  }
+        <View style={[styles.statusBadge, { backgroundColor: getStatusColor(loan.status) + '20' }]}>
+          <Text style={[styles.statusText, { color: getStatusColor(loan.status) }]}>
+            {getStatusText(loan.status)}
+          </Text>
+        </View>
+      </View>
 
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-      <ScrollView
-        style={styles.content}
-        refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
-        showsVerticalScrollIndicator={false}
-      >
-        <View style={styles.header}>
-          <Text style={[styles.title, { color: theme.text }]}>Loans</Text>
+      <View style={styles.loanDetails}>
+        <View style={styles.detailRow}>
+          <View style={styles.detailItem}>
+            <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Principal</Text>
+            <Text style={[styles.detailValue, { color: theme.text }]}>
+              {formatCurrency(loan.principalAmount)}
+            </Text>
+          </View>
+          <View style={styles.detailItem}>
+            <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Outstanding</Text>
+            <Text style={[styles.detailValue, { color: theme.warning }]}>
+              {formatCurrency(loan.outstandingAmount)}
+            </Text>
+          </View>
+        </View>
+
+        <View style={styles.detailRow}>
+          <View style={styles.detailItem}>
+            <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Term</Text>
+            <Text style={[styles.detailValue, { color: theme.text }]}>
+              {loan.termWeeks} weeks
+            </Text>
+          </View>
+          <View style={styles.detailItem}>
+            <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Start Date</Text>
+            <Text style={[styles.detailValue, { color: theme.text }]}>
+              {formatDate(loan.startDate)}
+            </Text>
+          </View>
+        </View>
+      </View>
+
+      <View style={styles.loanFooter}>
+        <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+      </View>
+    </TouchableOpacity>
+  );
+
+  const listHeader = (
+    <>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: theme.text }]}>Loans</Text>
+        <RequirePermission action="create" resource="loan">
           <TouchableOpacity
             style={[styles.addButton, { backgroundColor: theme.primary }]}
             onPress={handleAddLoan}
           >
             <Ionicons name="add" size={24} color={theme.buttonText} />
           </TouchableOpacity>
-        </View>
+        </RequirePermission>
+      </View>
 
-        {/* Stats Cards */}
-        <View style={styles.statsContainer}>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="card" size={24} color={theme.primary} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>{stats.total}</Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Total</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="checkmark-circle" size={24} color={theme.success} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>{stats.active}</Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Active</Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="cash" size={24} color={theme.warning} />
-            <Text style={[styles.statNumber, { color: theme.text }]}>
-              {formatCurrency(stats.totalOutstanding)}
-            </Text>
-            <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Outstanding</Text>
-          </View>
+      {/* Stats Cards */}
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="card" size={24} color={theme.primary} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>{stats.total}</Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Total</Text>
         </View>
-
-        {/* Search and Filter */}
-        <View style={styles.searchContainer}>
-          <View style={[styles.searchBox, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="search" size={20} color={theme.textMuted} />
-            <TextInput
-              style={[styles.searchInput, { color: theme.text }]}
-              placeholder="Search loans..."
-              placeholderTextColor={theme.textMuted}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
-          </View>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="checkmark-circle" size={24} color={theme.success} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>{stats.active}</Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Active</Text>
         </View>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="cash" size={24} color={theme.warning} />
+          <Text style={[styles.statNumber, { color: theme.text }]}>
+            {formatCurrency(stats.totalOutstanding)}
+          </Text>
+          <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Outstanding</Text>
+        </View>
+      </View>
+
+      <LastSynced syncedAt={syncedAt} isStale={isFromCache} />
 
-        {/* Status Filter */}
-        <View style={styles.filterContainer}>
-          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-            {[
-              { key: 'all', label: 'All', icon: 'list' },
-              { key: 'ACTIVE', label: 'Active', icon: 'checkmark-circle' },
-              { key: 'COMPLETED', label: 'Completed', icon: 'checkmark-done-circle' },
-              { key: 'DEFAULTED', label: 'Defaulted', icon: 'close-circle' },
-            ].map((filter) => (
-              <TouchableOpacity
-                key={filter.key}
-                style={[
-                  styles.filterButton,
-                  {
-                    backgroundColor: statusFilter === filter.key ? theme.primary : theme.card,
-                    borderColor: theme.border,
-                  }
-                ]}
-                onPress={() => setStatusFilter(filter.key as any)}
-              >
-                <Ionicons
-                  name={filter.icon as any}
-                  size={16}
-                  color={statusFilter === filter.key ? theme.buttonText : theme.textSecondary}
-                />
-                <Text style={[
-                  styles.filterText,
-                  { color: statusFilter === filter.key ? theme.buttonText : theme.textSecondary }
-                ]}>
-                  {filter.label}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
+      {/* Search and Filter */}
+      <View style={styles.searchContainer}>
+        <View style={[styles.searchBox, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="search" size={20} color={theme.textMuted} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder="Search loans..."
+            placeholderTextColor={theme.textMuted}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
         </View>
+      </View>
 
-        {/* Loans List */}
-        <View style={styles.loansContainer}>
-          {filteredLoans.length === 0 ? (
-            <View style={[styles.emptyState, { backgroundColor: theme.card, borderColor: theme.border }]}>
-              <Ionicons name="card-outline" size={64} color={theme.textMuted} />
-              <Text style={[styles.emptyTitle, { color: theme.text }]}>
-                {searchQuery || statusFilter !== 'all' ? 'No loans found' : 'No loans yet'}
-              </Text>
-              <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
-                {searchQuery || statusFilter !== 'all'
-                  ? 'Try adjusting your search or filters'
-                  : 'Create the first loan for your borrowers'
+      {/* Status Filter */}
+      <View style={styles.filterContainer}>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {[
+            { key: 'all', label: 'All', icon: 'list' },
+            { key: 'ACTIVE', label: 'Active', icon: 'checkmark-circle' },
+            { key: 'COMPLETED', label: 'Completed', icon: 'checkmark-done-circle' },
+            { key: 'DEFAULTED', label: 'Defaulted', icon: 'close-circle' },
+          ].map((filter) => (
+            <TouchableOpacity
+              key={filter.key}
+              style={[
+                styles.filterButton,
+                {
+                  backgroundColor: statusFilter === filter.key ? theme.primary : theme.card,
+                  borderColor: theme.border,
                 }
+              ]}
+              onPress={() => setStatusFilter(filter.key as any)}
+            >
+              <Ionicons
+                name={filter.icon as any}
+                size={16}
+                color={statusFilter === filter.key ? theme.buttonText : theme.textSecondary}
+              />
+              <Text style={[
+                styles.filterText,
+                { color: statusFilter === filter.key ? theme.buttonText : theme.textSecondary }
+              ]}>
+                {filter.label}
               </Text>
-              {!searchQuery && statusFilter === 'all' && (
-                <TouchableOpacity
-                  style={[styles.addFirstButton, { backgroundColor: theme.primary }]}
-                  onPress={handleAddLoan}
-                >
-                  <Ionicons name="add" size={20} color={theme.buttonText} />
-                  <Text style={[styles.addFirstText, { color: theme.buttonText }]}>
-                    Create First Loan
-                  </Text>
-                </TouchableOpacity>
-              )}
-            </View>
-          ) : (
-            filteredLoans.map((loan) => (
-              <TouchableOpacity
-                key={loan.id}
-                style={[styles.loanCard, { backgroundColor: theme.card, borderColor: theme.border }]}
-                onPress={() => handleLoanPress(loan)}
-              >
-                <View style={styles.loanHeader}>
-                  <View style={styles.loanInfo}>
-                    <Text style={[styles.loanNumber, { color: theme.text }]}>
-                      {loan.loanNumber}
-                    </Text>
-                    <Text style={[styles.borrowerName, { color: theme.textSecondary }]}>
-                      {loan.borrowerName}
-                    </Text>
-                  </View>
-                  <View style={[styles.statusBadge, { backgroundColor: getStatusColor(loan.status) + '20' }]}>
-                    <Text style={[styles.statusText, { color: getStatusColor(loan.status) }]}>
-                      {getStatusText(loan.status)}
-                    </Text>
-                  </View>
-                </View>
-
-                <View style={styles.loanDetails}>
-                  <View style={styles.detailRow}>
-                    <View style={styles.detailItem}>
-                      <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Principal</Text>
-                      <Text style={[styles.detailValue, { color: theme.text }]}>
-                        {formatCurrency(loan.principalAmount)}
-                      </Text>
-                    </View>
-                    <View style={styles.detailItem}>
-                      <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Outstanding</Text>
-                      <Text style={[styles.detailValue, { color: theme.warning }]}>
-                        {formatCurrency(loan.outstandingAmount)}
-                      </Text>
-                    </View>
-                  </View>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    </>
+  );
 
-                  <View style={styles.detailRow}>
-                    <View style={styles.detailItem}>
-                      <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Term</Text>
-                      <Text style={[styles.detailValue, { color: theme.text }]}>
-                        {loan.termWeeks} weeks
-                      </Text>
-                    </View>
-                    <View style={styles.detailItem}>
-                      <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Start Date</Text>
-                      <Text style={[styles.detailValue, { color: theme.text }]}>
-                        {formatDate(loan.startDate)}
-                      </Text>
-                    </View>
-                  </View>
-                </View>
+  const listEmpty = isLoading ? (
+    <View style={styles.loadingContainer}>
+      <ActivityIndicator size="large" color={theme.primary} />
+      <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
+        Loading loans...
+      </Text>
+    </View>
+  ) : (
+    <View style={[styles.emptyState, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Ionicons name="card-outline" size={64} color={theme.textMuted} />
+      <Text style={[styles.emptyTitle, { color: theme.text }]}>
+        {searchQuery || statusFilter !== 'all' ? 'No loans found' : 'No loans yet'}
+      </Text>
+      <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
+        {searchQuery || statusFilter !== 'all'
+          ? 'Try adjusting your search or filters'
+          : 'Create the first loan for your borrowers'
+        }
+      </Text>
+      {!searchQuery && statusFilter === 'all' && (
+        <RequirePermission action="create" resource="loan">
+          <TouchableOpacity
+            style={[styles.addFirstButton, { backgroundColor: theme.primary }]}
+            onPress={handleAddLoan}
+          >
+            <Ionicons name="add" size={20} color={theme.buttonText} />
+            <Text style={[styles.addFirstText, { color: theme.buttonText }]}>
+              Create First Loan
+            </Text>
+          </TouchableOpacity>
+        </RequirePermission>
+      )}
+    </View>
+  );
 
-                <View style={styles.loanFooter}>
-                  <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
-                </View>
-              </TouchableOpacity>
-            ))
-          )}
-        </View>
-      </ScrollView>
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <PaginatedList
+        style={styles.content}
+        query={query}
+        data={loans}
+        keyExtractor={(loan) => loan.id}
+        renderItem={renderLoan}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={listEmpty}
+        endOfListText="No more loans"
+        showsVerticalScrollIndicator={false}
+      />
     </SafeAreaView>
   );
 }
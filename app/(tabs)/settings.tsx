@@ -5,11 +5,13 @@ import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import ThemeSwitcher from '@/components/ThemeSwitcher';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
 import { router } from 'expo-router';
 
 export default function SettingsScreen() {
   const { theme } = useThemeContext();
   const { user, logout } = useAuth();
+  const { items: unsyncedItems, failedCount } = useOfflineQueue();
 
   const handleLogout = async () => {
     Alert.alert(
@@ -39,12 +41,26 @@ export default function SettingsScreen() {
       icon: 'person',
       onPress: () => router.push('/profile'),
     },
+    {
+      title: 'Security',
+      subtitle: 'PIN, app lock and biometric sign-in',
+      icon: 'shield-checkmark',
+      onPress: () => router.push('/security' as any),
+    },
     {
       title: 'Theme',
       subtitle: 'Customize app appearance',
       icon: 'color-palette',
       onPress: () => router.push('/theme-settings'),
     },
+    {
+      title: 'Offline Sync',
+      subtitle: unsyncedItems.length
+        ? `${unsyncedItems.length} unsynced${failedCount ? `, ${failedCount} failed` : ''}`
+        : 'All changes synced',
+      icon: 'cloud-upload',
+      onPress: () => router.push('/sync' as any),
+    },
     {
       title: 'Notifications',
       subtitle: 'Manage notification preferences',
@@ -80,7 +96,7 @@ export default function SettingsScreen() {
               {user?.role || 'COLLECTOR'}
             </Text>
             <Text style={[styles.userEmail, { color: theme.textMuted }]}>
-              {user?.email || 'user@example.com'}
+              {user?.email || user?.username}
             </Text>
           </View>
         </View>
@@ -1,12 +1,18 @@
-import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
+import { DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import 'react-native-reanimated';
+import OfflineSessionBanner from '@/components/OfflineSessionBanner';
+import { AppLockProvider } from '@/contexts/AppLockContext';
 import { AuthProvider } from '@/contexts/AuthContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { mockBackend } from '@/lib/mock-backend';
 
-import { useColorScheme } from '@/hooks/useColorScheme';
+// Answer requests to the Mock environment in-app; release builds never ship with it switched on
+if (__DEV__) {
+  mockBackend.install();
+}
 
 export default function RootLayout() {
   const [loaded] = useFonts({
@@ -21,23 +27,30 @@ export default function RootLayout() {
   return (
     <AuthProvider>
       <ThemeProvider>
-        <NavigationThemeProvider value={DefaultTheme}>
-          <Stack>
-            <Stack.Screen name="index" options={{ headerShown: false }} />
-            <Stack.Screen name="login" options={{ headerShown: false }} />
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="profile" options={{ headerShown: false }} />
-            <Stack.Screen name="theme-settings" options={{ headerShown: false }} />
-            <Stack.Screen name="notifications" options={{ headerShown: false }} />
-            <Stack.Screen name="about" options={{ headerShown: false }} />
-            <Stack.Screen name="borrower" options={{ headerShown: false }} />
-            <Stack.Screen name="collection" options={{ headerShown: false }} />
-            <Stack.Screen name="loan" options={{ headerShown: false }} />
-            <Stack.Screen name="backup" options={{ headerShown: false }} />
-            <Stack.Screen name="+not-found" options={{ headerShown: false }} />
-          </Stack>
-          <StatusBar style="auto" />
-        </NavigationThemeProvider>
+        <AppLockProvider>
+          <NavigationThemeProvider value={DefaultTheme}>
+            <Stack>
+              <Stack.Screen name="index" options={{ headerShown: false }} />
+              <Stack.Screen name="login" options={{ headerShown: false }} />
+              <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+              <Stack.Screen name="profile" options={{ headerShown: false }} />
+              <Stack.Screen name="theme-settings" options={{ headerShown: false }} />
+              <Stack.Screen name="notifications" options={{ headerShown: false }} />
+              <Stack.Screen name="about" options={{ headerShown: false }} />
+              <Stack.Screen name="sync" options={{ headerShown: false }} />
+              <Stack.Screen name="security" options={{ headerShown: false }} />
+              <Stack.Screen name="change-password" options={{ headerShown: false }} />
+              <Stack.Screen name="forgot-password" options={{ headerShown: false }} />
+              <Stack.Screen name="borrower" options={{ headerShown: false }} />
+              <Stack.Screen name="collection" options={{ headerShown: false }} />
+              <Stack.Screen name="loan" options={{ headerShown: false }} />
+              <Stack.Screen name="backup" options={{ headerShown: false }} />
+              <Stack.Screen name="+not-found" options={{ headerShown: false }} />
+            </Stack>
+            <OfflineSessionBanner />
+            <StatusBar style="auto" />
+          </NavigationThemeProvider>
+        </AppLockProvider>
       </ThemeProvider>
     </AuthProvider>
   );
@@ -1,12 +1,28 @@
-import React from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Linking, Alert } from 'react-native';
+import React, { useState, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Linking, Alert, Modal, TextInput } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
 import { useThemeContext } from '@/contexts/ThemeContext';
+import { apiEnvironment, ApiEnvironment, EnvironmentSelection, normalizeBaseUrl } from '@/lib/environment';
+import { offlineQueue } from '@/lib/offline-queue';
+import { shareDiagnostics } from '@/lib/diagnostics';
+import { config } from '@/lib/config';
 import { router } from 'expo-router';
 
+// Taps on the version line that reveal the developer options
+const DEVELOPER_UNLOCK_TAPS = 7;
+
 export default function AboutScreen() {
   const { theme } = useThemeContext();
+  const { switchEnvironment } = useAuth();
+  // Always shown while pointed away from the default server so it's easy to switch back
+  const [showDeveloperOptions, setShowDeveloperOptions] = useState(!apiEnvironment.isDefault());
+  const [showCustomUrlModal, setShowCustomUrlModal] = useState(false);
+  const [customUrl, setCustomUrl] = useState(apiEnvironment.getSelection().customUrl || '');
+  const [customUrlError, setCustomUrlError] = useState('');
+  const versionTaps = useRef(0);
+  const current = apiEnvironment.getCurrent();
 
   const appInfo = {
     name: 'GramFinance',
@@ -71,6 +87,12 @@ export default function AboutScreen() {
       icon: 'globe',
       action: () => Linking.openURL(appInfo.website),
     },
+    {
+      title: 'Send Diagnostics',
+      subtitle: 'Share recent app logs with support',
+      icon: 'bug',
+      action: () => handleSendDiagnostics(),
+    },
   ];
 
   const legalLinks = [
@@ -91,6 +113,74 @@ export default function AboutScreen() {
     },
   ];
 
+  const handleVersionTap = () => {
+    if (showDeveloperOptions) return;
+
+    versionTaps.current += 1;
+    if (versionTaps.current >= DEVELOPER_UNLOCK_TAPS) {
+      setShowDeveloperOptions(true);
+      Alert.alert('Developer Options', 'Developer options are now shown below.');
+    }
+  };
+
+  const confirmSwitch = (selection: EnvironmentSelection, label: string) => {
+    const pending = offlineQueue.getPendingCount();
+    const message = `Switching to ${label} signs you out and clears cached data, offline unlock and biometric sign-in on this device.` +
+      (pending > 0 ? `\n\n${pending} unsynced change${pending === 1 ? '' : 's'} will be discarded.` : '');
+
+    Alert.alert('Switch Environment', message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Switch',
+        style: 'destructive',
+        onPress: async () => {
+          const result = await switchEnvironment(selection);
+          if (!result.success) {
+            Alert.alert('Error', result.error || 'Failed to switch environment');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleSelectEnvironment = (environment: ApiEnvironment) => {
+    if (environment.id === current.id) return;
+    confirmSwitch({ id: environment.id }, environment.label);
+  };
+
+  const handleSaveCustomUrl = () => {
+    const baseUrl = normalizeBaseUrl(customUrl);
+    if (!baseUrl) {
+      setCustomUrlError('Enter a valid URL starting with http:// or https://');
+      return;
+    }
+    if (baseUrl === current.baseUrl) {
+      setShowCustomUrlModal(false);
+      return;
+    }
+
+    setShowCustomUrlModal(false);
+    confirmSwitch({ id: 'custom', customUrl: baseUrl }, baseUrl);
+  };
+
+  const handleSendDiagnostics = () => {
+    Alert.alert(
+      'Send Diagnostics',
+      'This shares the app version, server and recent activity log with support. Passwords, tokens, phone numbers and ID numbers are removed.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Continue', onPress: async () => {
+          try {
+            await shareDiagnostics();
+          } catch (error) {
+            console.error('Error sending diagnostics:', error);
+            Alert.alert('Error', 'Failed to prepare diagnostics. Please try again.');
+          }
+        }},
+      ]
+    );
+  };
+
   const handleShareApp = () => {
     Alert.alert(
       'Share App',
@@ -139,9 +229,11 @@ export default function AboutScreen() {
           <Text style={[styles.appName, { color: theme.text }]}>
             {appInfo.name}
           </Text>
-          <Text style={[styles.appVersion, { color: theme.textSecondary }]}>
-            Version {appInfo.version} ({appInfo.build})
-          </Text>
+          <TouchableOpacity onPress={handleVersionTap} activeOpacity={1}>
+            <Text style={[styles.appVersion, { color: theme.textSecondary }]}>
+              Version {appInfo.version} ({appInfo.build})
+            </Text>
+          </TouchableOpacity>
           <Text style={[styles.appDescription, { color: theme.textSecondary }]}>
             {appInfo.description}
           </Text>
@@ -254,6 +346,72 @@ export default function AboutScreen() {
           </View>
         </View>
 
+        {/* Developer Options */}
+        {showDeveloperOptions && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+              Developer Options
+            </Text>
+            <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              {apiEnvironment.getEnvironments().map(environment => (
+                <TouchableOpacity
+                  key={environment.id}
+                  style={styles.legalItem}
+                  onPress={() => handleSelectEnvironment(environment)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.contactLeft}>
+                    <View style={[styles.contactIcon, { backgroundColor: theme.primary + '20' }]}>
+                      <Ionicons name="server" size={20} color={theme.primary} />
+                    </View>
+                    <View style={styles.contactContent}>
+                      <Text style={[styles.contactTitle, { color: theme.text }]}>
+                        {environment.label}
+                      </Text>
+                      <Text style={[styles.contactSubtitle, { color: theme.textSecondary }]} numberOfLines={1}>
+                        {environment.baseUrl}
+                      </Text>
+                    </View>
+                  </View>
+                  {current.id === environment.id && (
+                    <Ionicons name="checkmark-circle" size={22} color={theme.success} />
+                  )}
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.legalItem}
+                onPress={() => {
+                  setCustomUrlError('');
+                  setShowCustomUrlModal(true);
+                }}
+                activeOpacity={0.7}
+              >
+                <View style={styles.contactLeft}>
+                  <View style={[styles.contactIcon, { backgroundColor: theme.primary + '20' }]}>
+                    <Ionicons name="create" size={20} color={theme.primary} />
+                  </View>
+                  <View style={styles.contactContent}>
+                    <Text style={[styles.contactTitle, { color: theme.text }]}>
+                      Custom URL
+                    </Text>
+                    <Text style={[styles.contactSubtitle, { color: theme.textSecondary }]} numberOfLines={1}>
+                      {current.id === 'custom' ? current.baseUrl : 'Point the app at any server'}
+                    </Text>
+                  </View>
+                </View>
+                {current.id === 'custom' && (
+                  <Ionicons name="checkmark-circle" size={22} color={theme.success} />
+                )}
+              </TouchableOpacity>
+            </View>
+            <View style={[styles.infoCard, { backgroundColor: theme.info + '15', borderColor: theme.info }]}>
+              <Text style={[styles.infoText, { color: theme.text }]}>
+                Requests go to {current.baseUrl} and time out after {config.api.timeout / 1000} seconds.
+              </Text>
+            </View>
+          </View>
+        )}
+
         {/* Developer Info */}
         <View style={[styles.developerCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
           <Text style={[styles.developerTitle, { color: theme.text }]}>
@@ -264,6 +422,52 @@ export default function AboutScreen() {
           </Text>
         </View>
       </ScrollView>
+
+      {/* Custom URL Modal */}
+      <Modal
+        visible={showCustomUrlModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowCustomUrlModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>Custom API URL</Text>
+            <TextInput
+              style={[styles.textInput, {
+                backgroundColor: theme.inputBackground,
+                borderColor: customUrlError ? theme.error : theme.border,
+                color: theme.text,
+              }]}
+              value={customUrl}
+              onChangeText={(text) => { setCustomUrl(text); setCustomUrlError(''); }}
+              placeholder="http://192.168.1.10:3000/api"
+              placeholderTextColor={theme.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              autoFocus
+            />
+            {customUrlError ? (
+              <Text style={[styles.errorText, { color: theme.error }]}>{customUrlError}</Text>
+            ) : null}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, { borderColor: theme.border, borderWidth: 1 }]}
+                onPress={() => setShowCustomUrlModal(false)}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.primary }]}
+                onPress={handleSaveCustomUrl}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.buttonText }]}>Use URL</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -458,6 +662,58 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  infoCard: {
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  infoText: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
   developerCard: {
     padding: 20,
     borderRadius: 12,
@@ -1,9 +1,12 @@
 import { Stack } from 'expo-router';
+import RequirePermission from '@/components/RequirePermission';
 
 export default function BackupLayout() {
   return (
-    <Stack screenOptions={{ headerShown: false }}>
-      <Stack.Screen name="daily" />
-    </Stack>
+    <RequirePermission action="create" resource="backup" screen>
+      <Stack screenOptions={{ headerShown: false }}>
+        <Stack.Screen name="daily" />
+      </Stack>
+    </RequirePermission>
   );
-} 
\ No newline at end of file
+}
@@ -12,14 +12,15 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService } from '@/lib/api';
+import { apiService, BackupStatus, DailyBackup } from '@/lib/api';
+import { ApiContractError } from '@/lib/errors';
 import { format } from 'date-fns';
 
 export default function DailyBackupScreen() {
   const { theme } = useThemeContext();
   const [isGenerating, setIsGenerating] = useState(false);
   const [isChecking, setIsChecking] = useState(false);
-  const [backupStatus, setBackupStatus] = useState<any>(null);
+  const [backupStatus, setBackupStatus] = useState<BackupStatus | null>(null);
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
 
   const generateDailyBackup = async () => {
@@ -53,7 +54,7 @@ export default function DailyBackupScreen() {
       }
     } catch (error) {
       console.error('Error generating backup:', error);
-      Alert.alert('Error', 'Failed to generate daily backup. Please try again.');
+      Alert.alert('Error', error instanceof ApiContractError ? error.message : 'Failed to generate daily backup. Please try again.');
     } finally {
       setIsGenerating(false);
     }
@@ -71,13 +72,13 @@ export default function DailyBackupScreen() {
       }
     } catch (error) {
       console.error('Error checking backup status:', error);
-      Alert.alert('Error', 'Failed to check backup status. Please try again.');
+      Alert.alert('Error', error instanceof ApiContractError ? error.message : 'Failed to check backup status. Please try again.');
     } finally {
       setIsChecking(false);
     }
   };
 
-  const showBackupDetails = (data: any) => {
+  const showBackupDetails = (data: DailyBackup) => {
     const details = `
 📊 Daily Collection Summary
 
@@ -87,10 +88,10 @@ export default function DailyBackupScreen() {
 📋 Outstanding: ₹${data.totalOutstanding.toLocaleString('en-IN')}
 
 👥 Collectors:
-${data.collectors.map((c: any) => `• ${c.name}: ${c.collections} payments (₹${c.amount.toLocaleString('en-IN')})`).join('\n')}
+${data.collectors.map(c => `• ${c.name}: ${c.collections} payments (₹${c.amount.toLocaleString('en-IN')})`).join('\n')}
 
 💳 Payment Details:
-${data.payments.map((p: any) => `• ${p.loanNumber} - ${p.borrowerName}: ₹${p.amount.toLocaleString('en-IN')} (${p.collectorName})`).join('\n')}
+${data.payments.map(p => `• ${p.loanNumber} - ${p.borrowerName}: ₹${p.amount.toLocaleString('en-IN')} (${p.collectorName})`).join('\n')}
     `;
     
     Alert.alert('Daily Backup Details', details, [
@@ -1,11 +1,14 @@
-import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Image, ActivityIndicator, Platform, RefreshControl } from 'react-native';
+import React, { useEffect, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, Image, Platform, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router, useLocalSearchParams } from 'expo-router';
-import { apiService, Borrower as ApiBorrower, Loan as ApiLoan } from '@/lib/api';
+import { Loan as ApiLoan } from '@/lib/api';
 import { LocationData } from '@/lib/location';
+import RequirePermission from '@/components/RequirePermission';
+import { useBorrower } from '@/hooks/useBorrowers';
+import { useBorrowerLoans } from '@/hooks/useLoans';
 
 interface Borrower {
   id: string;
@@ -20,98 +23,66 @@ interface Borrower {
   location?: LocationData;
 }
 
-interface Loan {
+// Loan row flattened from the API loan; shared fields keep the schema's types
+type Loan = Pick<ApiLoan,
+  'loanNumber' | 'principalAmount' | 'disbursedAmount' | 'outstandingAmount' | 'totalPaid' |
+  'status' | 'startDate' | 'createdAt'
+> & {
   id: string;
-  loanNumber: string;
-  principalAmount: number;
-  disbursedAmount: number;
-  outstandingAmount: number;
-  totalPaid: number;
-  status: 'ACTIVE' | 'COMPLETED' | 'DEFAULTED';
-  startDate: string;
-  createdAt: string;
-}
+};
 
 export default function BorrowerDetailsScreen() {
   const { theme } = useThemeContext();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const [borrower, setBorrower] = useState<Borrower | null>(null);
-  const [loans, setLoans] = useState<Loan[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Refetched after this borrower is edited or gets a new loan or collection
+  const borrowerQuery = useBorrower(id);
+  const loansQuery = useBorrowerLoans(id);
+  const apiBorrower = borrowerQuery.data;
+  const apiLoans = loansQuery.data;
+  const isLoading = borrowerQuery.isLoading;
+  const isRefreshing = borrowerQuery.isRefreshing || loansQuery.isRefreshing;
 
   useEffect(() => {
-    loadBorrowerData();
-  }, [id]);
-
-  const loadBorrowerData = async () => {
-    setIsLoading(true);
-    try {
-      if (id) {
-        const response = await apiService.getBorrower(id);
-        if (response.success) {
-          const apiBorrower = response.data;
-          const convertedBorrower: Borrower = {
-            id: apiBorrower._id,
-            name: apiBorrower.name,
-            phone: apiBorrower.phone || 'N/A',
-            village: apiBorrower.village,
-            address: apiBorrower.address,
-            aadharNumber: 'N/A', // Not in API yet
-            status: apiBorrower.isActive ? 'active' : 'inactive',
-            photo: apiBorrower.photoUrl,
-            joinedDate: new Date(apiBorrower.createdAt).toISOString().split('T')[0],
-            location: apiBorrower.gpsLat && apiBorrower.gpsLng ? {
-              latitude: apiBorrower.gpsLat,
-              longitude: apiBorrower.gpsLng,
-            } : undefined,
-          };
-          setBorrower(convertedBorrower);
-          
-          // Load real loan history
-          await loadLoanHistory();
-        } else {
-          Alert.alert('Error', 'Failed to load borrower details');
-        }
-      }
-    } catch (error) {
-      console.error('Error loading borrower:', error);
+    if (borrowerQuery.error && !apiBorrower) {
       Alert.alert('Error', 'Failed to load borrower details');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [borrowerQuery.error, apiBorrower]);
 
-  const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadBorrowerData();
-    setIsRefreshing(false);
-  };
+  const borrower = useMemo<Borrower | null>(() => {
+    if (!apiBorrower) return null;
+    return {
+      id: apiBorrower._id,
+      name: apiBorrower.name,
+      phone: apiBorrower.phone || 'N/A',
+      village: apiBorrower.village,
+      address: apiBorrower.address,
+      aadharNumber: 'N/A', // Not in API yet
+      status: apiBorrower.isActive ? 'active' : 'inactive',
+      photo: apiBorrower.photoUrl,
+      joinedDate: new Date(apiBorrower.createdAt).toISOString().split('T')[0],
+      location: apiBorrower.gpsLat && apiBorrower.gpsLng ? {
+        latitude: apiBorrower.gpsLat,
+        longitude: apiBorrower.gpsLng,
+      } : undefined,
+    };
+  }, [apiBorrower]);
 
-  const loadLoanHistory = async () => {
-    try {
-      const loansResponse = await apiService.getLoansByBorrower(id);
-      if (loansResponse.success) {
-        const convertedLoans: Loan[] = loansResponse.data.map((apiLoan: ApiLoan) => ({
-          id: apiLoan._id,
-          loanNumber: apiLoan.loanNumber || 'N/A',
-          principalAmount: apiLoan.principalAmount || 0,
-          disbursedAmount: apiLoan.disbursedAmount || 0,
-          outstandingAmount: apiLoan.outstandingAmount || 0,
-          totalPaid: apiLoan.totalPaid || 0,
-          status: apiLoan.status || 'ACTIVE',
-          startDate: apiLoan.startDate || new Date().toISOString(),
-          createdAt: apiLoan.createdAt || new Date().toISOString(),
-        }));
-        setLoans(convertedLoans);
-      } else {
-        console.log('No loan history found or error loading loans');
-        setLoans([]);
-      }
-    } catch (error) {
-      console.error('Error loading loan history:', error);
-      setLoans([]);
-    }
+  const loans = useMemo<Loan[]>(() => {
+    return (apiLoans || []).map((apiLoan: ApiLoan) => ({
+      id: apiLoan._id,
+      loanNumber: apiLoan.loanNumber || 'N/A',
+      principalAmount: apiLoan.principalAmount || 0,
+      disbursedAmount: apiLoan.disbursedAmount || 0,
+      outstandingAmount: apiLoan.outstandingAmount || 0,
+      totalPaid: apiLoan.totalPaid || 0,
+      status: apiLoan.status || 'ACTIVE',
+      startDate: apiLoan.startDate || new Date().toISOString(),
+      createdAt: apiLoan.createdAt || new Date().toISOString(),
+    }));
+  }, [apiLoans]);
+
+  const onRefresh = async () => {
+    await Promise.all([borrowerQuery.refresh(), loansQuery.refresh()]);
   };
 
   const handleEditBorrower = () => {
@@ -210,6 +181,18 @@ export default function BorrowerDetailsScreen() {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Borrower Details</Text>
+        <RequirePermission action="update" resource="borrower" fallback={<View style={styles.headerPlaceholder} />}>
+          <TouchableOpacity style={styles.editButton} onPress={handleEditBorrower}>
+            <Ionicons name="create-outline" size={24} color={theme.primary} />
+          </TouchableOpacity>
+        </RequirePermission>
+      </View>
+
       <ScrollView
         style={styles.content}
         showsVerticalScrollIndicator={false}
@@ -311,20 +294,24 @@ export default function BorrowerDetailsScreen() {
               <Ionicons name="chatbubble" size={20} color={theme.buttonText} />
               <Text style={[styles.actionText, { color: theme.buttonText }]}>Message</Text>
             </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.success }]}
-              onPress={handleRecordCollection}
-            >
-              <Ionicons name="cash" size={20} color={theme.buttonText} />
-              <Text style={[styles.actionText, { color: theme.buttonText }]}>Collect</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.warning }]}
-              onPress={handleNewLoan}
-            >
-              <Ionicons name="add-circle" size={20} color={theme.buttonText} />
-              <Text style={[styles.actionText, { color: theme.buttonText }]}>New Loan</Text>
-            </TouchableOpacity>
+            <RequirePermission action="create" resource="collection">
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.success }]}
+                onPress={handleRecordCollection}
+              >
+                <Ionicons name="cash" size={20} color={theme.buttonText} />
+                <Text style={[styles.actionText, { color: theme.buttonText }]}>Collect</Text>
+              </TouchableOpacity>
+            </RequirePermission>
+            <RequirePermission action="create" resource="loan">
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.warning }]}
+                onPress={handleNewLoan}
+              >
+                <Ionicons name="add-circle" size={20} color={theme.buttonText} />
+                <Text style={[styles.actionText, { color: theme.buttonText }]}>New Loan</Text>
+              </TouchableOpacity>
+            </RequirePermission>
           </View>
         </View>
 
@@ -363,9 +350,11 @@ export default function BorrowerDetailsScreen() {
             <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
               Loan History
             </Text>
-            <TouchableOpacity onPress={handleNewLoan}>
-              <Ionicons name="add" size={24} color={theme.primary} />
-            </TouchableOpacity>
+            <RequirePermission action="create" resource="loan">
+              <TouchableOpacity onPress={handleNewLoan}>
+                <Ionicons name="add" size={24} color={theme.primary} />
+              </TouchableOpacity>
+            </RequirePermission>
           </View>
           
           {loans.length === 0 ? (
@@ -449,6 +438,9 @@ const styles = StyleSheet.create({
   editButton: {
     padding: 4,
   },
+  headerPlaceholder: {
+    width: 32,
+  },
   content: {
     flex: 1,
     paddingHorizontal: 20,
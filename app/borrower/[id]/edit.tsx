@@ -0,0 +1,878 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator, Switch } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { router, useLocalSearchParams } from 'expo-router';
+import { apiService, Borrower as ApiBorrower, UpdateBorrowerData } from '@/lib/api';
+import ImageUpload from '@/components/ImageUpload';
+import SimpleLocationPicker from '@/components/SimpleLocationPicker';
+import { getErrorMessage, getFieldErrors } from '@/lib/errors';
+import { LocationData } from '@/lib/location';
+import RequirePermission from '@/components/RequirePermission';
+import { useUpdateBorrower, useDeleteBorrower } from '@/hooks/useBorrowers';
+
+interface BorrowerEditForm {
+  name: string;
+  phone: string;
+  village: string;
+  address: string;
+  photo?: string;
+  location?: LocationData;
+  collectionDays: string[];
+  isActive: boolean;
+}
+
+type BorrowerEditErrors = Partial<Record<keyof BorrowerEditForm, string>>;
+
+const FORM_FIELDS: (keyof BorrowerEditForm)[] = ['name', 'phone', 'village', 'address', 'photo', 'location', 'collectionDays', 'isActive'];
+
+interface FieldChange {
+  label: string;
+  from: string;
+  to: string;
+}
+
+const toForm = (borrower: ApiBorrower): BorrowerEditForm => ({
+  name: borrower.name || '',
+  phone: borrower.phone || '',
+  village: borrower.village || '',
+  address: borrower.address || '',
+  photo: borrower.photoUrl,
+  location: borrower.gpsLat && borrower.gpsLng ? {
+    latitude: borrower.gpsLat,
+    longitude: borrower.gpsLng,
+  } : undefined,
+  collectionDays: borrower.collectionDays || [],
+  isActive: borrower.isActive !== false,
+});
+
+const formatLocation = (location?: LocationData) =>
+  location ? `${location.latitude.toFixed(4)}, ${location.longitude.toFixed(4)}` : 'Not set';
+
+const formatDays = (days: string[]) =>
+  days.length > 0 ? days.map(day => day.charAt(0).toUpperCase() + day.slice(1, 3)).join(', ') : 'None';
+
+export default function EditBorrowerRoute() {
+  return (
+    <RequirePermission action="update" resource="borrower" screen>
+      <EditBorrowerScreen />
+    </RequirePermission>
+  );
+}
+
+function EditBorrowerScreen() {
+  const { theme } = useThemeContext();
+  const { requireReauth } = useAppLock();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const updateBorrower = useUpdateBorrower();
+  const deleteBorrower = useDeleteBorrower();
+  const [original, setOriginal] = useState<BorrowerEditForm | null>(null);
+  const [formData, setFormData] = useState<BorrowerEditForm | null>(null);
+  const [errors, setErrors] = useState<BorrowerEditErrors>({});
+  const [showLocationPicker, setShowLocationPicker] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<FieldChange[] | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      loadBorrower();
+    }
+  }, [id]);
+
+  const loadBorrower = async () => {
+    setIsLoading(true);
+    try {
+      const response = await apiService.getBorrower(id);
+      if (response.success) {
+        const form = toForm(response.data);
+        setOriginal(form);
+        setFormData(form);
+      } else {
+        Alert.alert('Error', 'Failed to load borrower details');
+      }
+    } catch (error) {
+      console.error('Error loading borrower:', error);
+      Alert.alert('Error', 'Failed to load borrower details');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFormData = <K extends keyof BorrowerEditForm>(field: K, value: BorrowerEditForm[K]) => {
+    setFormData(prev => prev ? { ...prev, [field]: value } : prev);
+    // Clear error when user starts typing
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const toggleCollectionDay = (day: string) => {
+    if (!formData) return;
+    const currentDays = formData.collectionDays;
+    const newDays = currentDays.includes(day)
+      ? currentDays.filter(d => d !== day)
+      : [...currentDays, day];
+
+    updateFormData('collectionDays', newDays);
+  };
+
+  const validateForm = (): boolean => {
+    if (!formData) return false;
+    const newErrors: BorrowerEditErrors = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (!formData.phone.trim()) {
+      newErrors.phone = 'Phone number is required';
+    } else if (!/^[0-9]{10}$/.test(formData.phone.replace(/\s/g, ''))) {
+      newErrors.phone = 'Please enter a valid 10-digit phone number';
+    }
+
+    if (!formData.village.trim()) {
+      newErrors.village = 'Village is required';
+    }
+
+    if (!formData.address.trim()) {
+      newErrors.address = 'Address is required';
+    }
+
+    if (formData.collectionDays.length === 0) {
+      newErrors.collectionDays = 'Please select at least one collection day';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  // Human readable list of what changed, shown for confirmation before saving
+  const getChanges = (): FieldChange[] => {
+    if (!formData || !original) return [];
+    const changes: FieldChange[] = [];
+    const textFields: { field: 'name' | 'phone' | 'village' | 'address'; label: string }[] = [
+      { field: 'name', label: 'Name' },
+      { field: 'phone', label: 'Phone' },
+      { field: 'village', label: 'Village' },
+      { field: 'address', label: 'Address' },
+    ];
+
+    textFields.forEach(({ field, label }) => {
+      if (formData[field].trim() !== original[field]) {
+        changes.push({ label, from: original[field] || 'Not set', to: formData[field].trim() });
+      }
+    });
+
+    if (formData.photo !== original.photo) {
+      changes.push({ label: 'Photo', from: original.photo ? 'Photo' : 'No photo', to: formData.photo ? 'New photo' : 'Removed' });
+    }
+
+    if (formatLocation(formData.location) !== formatLocation(original.location)) {
+      changes.push({ label: 'Location', from: formatLocation(original.location), to: formatLocation(formData.location) });
+    }
+
+    if ([...formData.collectionDays].sort().join(',') !== [...original.collectionDays].sort().join(',')) {
+      changes.push({ label: 'Collection Days', from: formatDays(original.collectionDays), to: formatDays(formData.collectionDays) });
+    }
+
+    if (formData.isActive !== original.isActive) {
+      changes.push({ label: 'Status', from: original.isActive ? 'Active' : 'Inactive', to: formData.isActive ? 'Active' : 'Inactive' });
+    }
+
+    return changes;
+  };
+
+  const buildUpdateData = (): UpdateBorrowerData => {
+    if (!formData || !original) return {};
+    const data: UpdateBorrowerData = {};
+
+    if (formData.name.trim() !== original.name) data.name = formData.name.trim();
+    if (formData.phone.trim() !== original.phone) data.phone = formData.phone.trim();
+    if (formData.village.trim() !== original.village) data.village = formData.village.trim();
+    if (formData.address.trim() !== original.address) data.address = formData.address.trim();
+    if (formData.photo !== original.photo) data.photoUrl = formData.photo;
+    if (formatLocation(formData.location) !== formatLocation(original.location)) {
+      data.gpsLat = formData.location?.latitude;
+      data.gpsLng = formData.location?.longitude;
+    }
+    if ([...formData.collectionDays].sort().join(',') !== [...original.collectionDays].sort().join(',')) {
+      data.collectionDays = formData.collectionDays;
+    }
+    if (formData.isActive !== original.isActive) data.isActive = formData.isActive;
+
+    return data;
+  };
+
+  const handleReview = () => {
+    if (!validateForm()) {
+      Alert.alert('Validation Error', 'Please fix the errors in the form');
+      return;
+    }
+
+    const changes = getChanges();
+    if (changes.length === 0) {
+      Alert.alert('No Changes', 'Nothing has been changed for this borrower.');
+      return;
+    }
+
+    setPendingChanges(changes);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await updateBorrower.mutate(id, buildUpdateData());
+      setPendingChanges(null);
+
+      if (response.success) {
+        Alert.alert(
+          'Success',
+          'Borrower updated successfully!',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to update borrower. Please try again.');
+      }
+    } catch (error) {
+      console.error('Error updating borrower:', error);
+      setPendingChanges(null);
+      const fieldErrors = getFieldErrors(error, FORM_FIELDS, { photoUrl: 'photo', gpsLat: 'location', gpsLng: 'location' });
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(error, 'Failed to update borrower. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Borrower',
+      'Are you sure you want to delete this borrower? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: confirmDelete },
+      ]
+    );
+  };
+
+  const confirmDelete = async () => {
+    if (!(await requireReauth('Confirm to delete this borrower'))) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await deleteBorrower.mutate(id);
+      if (response.success) {
+        Alert.alert('Deleted', 'Borrower deleted successfully', [
+          { text: 'OK', onPress: () => router.replace('/(tabs)/borrowers' as any) },
+        ]);
+      } else {
+        Alert.alert('Error', response.error || 'Failed to delete borrower');
+      }
+    } catch (error) {
+      console.error('Error deleting borrower:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete borrower');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const collectionDays = [
+    { key: 'monday', label: 'Monday' },
+    { key: 'tuesday', label: 'Tuesday' },
+    { key: 'wednesday', label: 'Wednesday' },
+    { key: 'thursday', label: 'Thursday' },
+    { key: 'friday', label: 'Friday' },
+    { key: 'saturday', label: 'Saturday' },
+    { key: 'sunday', label: 'Sunday' },
+  ];
+
+  const formFields = [
+    {
+      label: 'Full Name',
+      field: 'name' as const,
+      placeholder: 'Enter borrower\'s full name',
+      icon: 'person',
+      keyboardType: 'default' as const,
+    },
+    {
+      label: 'Phone Number',
+      field: 'phone' as const,
+      placeholder: 'Enter phone number',
+      icon: 'call',
+      keyboardType: 'phone-pad' as const,
+    },
+    {
+      label: 'Village',
+      field: 'village' as const,
+      placeholder: 'Enter village name',
+      icon: 'location',
+      keyboardType: 'default' as const,
+    },
+    {
+      label: 'Address',
+      field: 'address' as const,
+      placeholder: 'Enter complete address',
+      icon: 'home',
+      keyboardType: 'default' as const,
+      multiline: true,
+    },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+          <Text style={[styles.centerText, { color: theme.textSecondary }]}>
+            Loading borrower details...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!formData) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle" size={48} color={theme.error} />
+          <Text style={[styles.centerText, { color: theme.text }]}>
+            Borrower not found
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Edit Borrower</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Photo Section */}
+        <View style={[styles.photoSection, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <ImageUpload
+            value={formData.photo}
+            onChange={(url) => updateFormData('photo', url)}
+            onError={(error) => Alert.alert('Upload Error', error)}
+            placeholder="Add Photo"
+            size={120}
+            folder="borrowers"
+            quality="medium"
+          />
+          <Text style={[styles.photoLabel, { color: theme.textSecondary }]}>
+            Tap to change borrower photo
+          </Text>
+        </View>
+
+        {/* Form Fields */}
+        <View style={styles.formSection}>
+          {formFields.map((field) => (
+            <View key={field.field} style={styles.fieldContainer}>
+              <View style={styles.fieldHeader}>
+                <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name={field.icon as any} size={16} color={theme.primary} />
+                </View>
+                <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                  {field.label}
+                </Text>
+              </View>
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    color: theme.text,
+                    borderColor: errors[field.field] ? theme.error : theme.border,
+                    backgroundColor: theme.background,
+                  },
+                  field.multiline && styles.multilineInput,
+                ]}
+                placeholder={field.placeholder}
+                placeholderTextColor={theme.textMuted}
+                value={formData[field.field]}
+                onChangeText={(text) => updateFormData(field.field, text)}
+                keyboardType={field.keyboardType}
+                multiline={field.multiline}
+                numberOfLines={field.multiline ? 3 : 1}
+              />
+              {errors[field.field] && (
+                <Text style={[styles.errorText, { color: theme.error }]}>
+                  {errors[field.field]}
+                </Text>
+              )}
+            </View>
+          ))}
+        </View>
+
+        {/* Location Section */}
+        <View style={styles.formSection}>
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="location" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Home Location
+              </Text>
+            </View>
+
+            <TouchableOpacity
+              style={[
+                styles.locationButton,
+                {
+                  borderColor: theme.border,
+                  backgroundColor: theme.background,
+                }
+              ]}
+              onPress={() => setShowLocationPicker(true)}
+            >
+              <Ionicons name={formData.location ? 'location' : 'add-circle-outline'} size={24} color={theme.primary} />
+              <View style={{ flex: 1, marginLeft: 12 }}>
+                <Text style={[styles.locationButtonText, { color: theme.text }]}>
+                  {formData.location ? `Location: ${formatLocation(formData.location)}` : 'Add Home Location'}
+                </Text>
+                <Text style={[styles.locationButtonSubtext, { color: theme.textMuted }]}>
+                  {formData.location?.address || (formData.location ? 'Tap to change location' : 'Tap to select location')}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Collection Days Section */}
+        <View style={styles.formSection}>
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="calendar" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Collection Days
+              </Text>
+            </View>
+            <View style={styles.collectionDaysContainer}>
+              {collectionDays.map((day) => (
+                <TouchableOpacity
+                  key={day.key}
+                  style={[
+                    styles.collectionDayButton,
+                    {
+                      backgroundColor: formData.collectionDays.includes(day.key)
+                        ? theme.primary + '10'
+                        : theme.background,
+                      borderColor: formData.collectionDays.includes(day.key)
+                        ? theme.primary
+                        : theme.border,
+                    },
+                  ]}
+                  onPress={() => toggleCollectionDay(day.key)}
+                >
+                  <Text style={[styles.collectionDayText, { color: formData.collectionDays.includes(day.key) ? theme.primary : theme.text }]}>
+                    {day.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {errors.collectionDays && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.collectionDays}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Status Section */}
+        <View style={styles.formSection}>
+          <View style={[styles.statusCard, { backgroundColor: theme.card, borderColor: formData.isActive ? theme.border : theme.warning }]}>
+            <View style={[styles.fieldIcon, { backgroundColor: (formData.isActive ? theme.success : theme.warning) + '20' }]}>
+              <Ionicons name={formData.isActive ? 'checkmark-circle' : 'pause-circle'} size={16} color={formData.isActive ? theme.success : theme.warning} />
+            </View>
+            <View style={styles.statusInfo}>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Active Borrower
+              </Text>
+              <Text style={[styles.statusSubtext, { color: theme.textMuted }]}>
+                {formData.isActive
+                  ? 'Borrower appears in lists and can take new loans'
+                  : 'Deactivated borrowers are hidden from new loans'}
+              </Text>
+            </View>
+            <Switch
+              value={formData.isActive}
+              onValueChange={(value) => updateFormData('isActive', value)}
+              trackColor={{ false: theme.border, true: theme.primary + '40' }}
+              thumbColor={formData.isActive ? theme.primary : theme.textMuted}
+            />
+          </View>
+        </View>
+
+        {/* Submit Button */}
+        <View style={styles.submitSection}>
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              {
+                backgroundColor: isSubmitting ? theme.textMuted : theme.primary,
+                opacity: isSubmitting ? 0.7 : 1,
+              }
+            ]}
+            onPress={handleReview}
+            disabled={isSubmitting}
+          >
+            <View style={styles.submitContainer}>
+              <Ionicons name="eye" size={20} color={theme.buttonText} />
+              <Text style={[styles.submitText, { color: theme.buttonText }]}>
+                Review Changes
+              </Text>
+            </View>
+          </TouchableOpacity>
+
+          <RequirePermission action="delete" resource="borrower">
+            <TouchableOpacity
+              style={[styles.deleteButton, { borderColor: theme.error, opacity: isSubmitting ? 0.5 : 1 }]}
+              onPress={handleDelete}
+              disabled={isSubmitting}
+            >
+              <View style={styles.submitContainer}>
+                <Ionicons name="trash" size={20} color={theme.error} />
+                <Text style={[styles.submitText, { color: theme.error }]}>
+                  Delete Borrower
+                </Text>
+              </View>
+            </TouchableOpacity>
+          </RequirePermission>
+        </View>
+      </ScrollView>
+
+      {/* Location Picker Modal */}
+      <SimpleLocationPicker
+        visible={showLocationPicker}
+        initialLocation={formData.location}
+        onLocationSelect={(location: LocationData) => {
+          updateFormData('location', location);
+          setShowLocationPicker(false);
+        }}
+        onClose={() => setShowLocationPicker(false)}
+        title="Select Borrower Location"
+      />
+
+      {/* Review Changes Modal */}
+      {pendingChanges && (
+        <View style={[styles.modalOverlay, { backgroundColor: 'rgba(0,0,0,0.5)' }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.background }]}>
+            <View style={[styles.modalHeader, { borderBottomColor: theme.border }]}>
+              <Text style={[styles.modalTitle, { color: theme.text }]}>
+                Review Changes
+              </Text>
+              <TouchableOpacity onPress={() => setPendingChanges(null)} disabled={isSubmitting}>
+                <Ionicons name="close" size={24} color={theme.text} />
+              </TouchableOpacity>
+            </View>
+            <ScrollView style={styles.changeList}>
+              {pendingChanges.map((change) => (
+                <View key={change.label} style={[styles.changeItem, { borderBottomColor: theme.border }]}>
+                  <Text style={[styles.changeLabel, { color: theme.textSecondary }]}>
+                    {change.label}
+                  </Text>
+                  <Text style={[styles.changeFrom, { color: theme.error }]}>
+                    {change.from}
+                  </Text>
+                  <View style={styles.changeToRow}>
+                    <Ionicons name="arrow-forward" size={14} color={theme.success} />
+                    <Text style={[styles.changeTo, { color: theme.success }]}>
+                      {change.to}
+                    </Text>
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, { borderColor: theme.border }]}
+                onPress={() => setPendingChanges(null)}
+                disabled={isSubmitting}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.text }]}>Keep Editing</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.primary, borderColor: theme.primary }]}
+                onPress={handleSubmit}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color={theme.buttonText} />
+                ) : (
+                  <Text style={[styles.modalButtonText, { color: theme.buttonText }]}>Save Changes</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  centerText: {
+    marginTop: 12,
+    fontSize: 16,
+  },
+  photoSection: {
+    alignItems: 'center',
+    padding: 24,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  photoLabel: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  formSection: {
+    marginBottom: 24,
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  fieldIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  textInput: {
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  multilineInput: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  locationButton: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-start',
+    minHeight: 60,
+  },
+  locationButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 12,
+    flex: 1,
+  },
+  locationButtonSubtext: {
+    fontSize: 14,
+    marginTop: 2,
+    marginLeft: 12,
+  },
+  collectionDaysContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-around',
+    marginTop: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e0e0e0', // Default border color
+  },
+  collectionDayButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+    marginVertical: 4,
+    marginHorizontal: 8,
+    borderWidth: 1,
+  },
+  collectionDayText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  statusCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  statusInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  statusSubtext: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  submitSection: {
+    marginBottom: 24,
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  deleteButton: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 16,
+    marginTop: 12,
+  },
+  submitContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  modalOverlay: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+    zIndex: 1000,
+  },
+  modalContent: {
+    width: '90%',
+    maxHeight: '80%',
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  changeList: {
+    maxHeight: 400,
+  },
+  changeItem: {
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  changeLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginBottom: 4,
+  },
+  changeFrom: {
+    fontSize: 14,
+    textDecorationLine: 'line-through',
+  },
+  changeToRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 2,
+  },
+  changeTo: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
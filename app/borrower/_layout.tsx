@@ -5,6 +5,7 @@ export default function BorrowerLayout() {
     <Stack screenOptions={{ headerShown: false }}>
       <Stack.Screen name="new" />
       <Stack.Screen name="[id]" />
+      <Stack.Screen name="[id]/edit" />
     </Stack>
   );
 } 
\ No newline at end of file
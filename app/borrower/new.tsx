@@ -1,13 +1,17 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert, ActivityIndicator, Image } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, CreateBorrowerData } from '@/lib/api';
+import { createIdempotencyKey, CreateBorrowerData } from '@/lib/api';
+import { getErrorMessage, getFieldErrors, OutcomeUnknownError } from '@/lib/errors';
 import ImageUpload from '@/components/ImageUpload';
 import SimpleLocationPicker from '@/components/SimpleLocationPicker';
 import { LocationData } from '@/lib/location';
+import { offlineQueue, isNetworkError } from '@/lib/offline-queue';
+import RequirePermission from '@/components/RequirePermission';
+import { useCreateBorrower } from '@/hooks/useBorrowers';
 
 interface BorrowerForm {
   name: string;
@@ -20,8 +24,19 @@ interface BorrowerForm {
   collectionDays: string[];
 }
 
-export default function AddBorrowerScreen() {
+const FORM_FIELDS: (keyof BorrowerForm)[] = ['name', 'phone', 'village', 'address', 'aadharNumber', 'photo', 'location', 'collectionDays'];
+
+export default function AddBorrowerRoute() {
+  return (
+    <RequirePermission action="create" resource="borrower" screen>
+      <AddBorrowerScreen />
+    </RequirePermission>
+  );
+}
+
+function AddBorrowerScreen() {
   const { theme } = useThemeContext();
+  const createBorrower = useCreateBorrower();
   const [formData, setFormData] = useState<BorrowerForm>({
     name: '',
     phone: '',
@@ -94,19 +109,22 @@ export default function AddBorrowerScreen() {
     }
 
     setIsSubmitting(true);
-    try {
-      const borrowerData: CreateBorrowerData = {
-        name: formData.name.trim(),
-        phone: formData.phone.trim(),
-        village: formData.village.trim(),
-        address: formData.address.trim(),
-        photoUrl: formData.photo,
-        gpsLat: formData.location?.latitude,
-        gpsLng: formData.location?.longitude,
-        collectionDays: formData.collectionDays,
-      };
+    const borrowerData: CreateBorrowerData = {
+      name: formData.name.trim(),
+      phone: formData.phone.trim(),
+      village: formData.village.trim(),
+      address: formData.address.trim(),
+      photoUrl: formData.photo,
+      gpsLat: formData.location?.latitude,
+      gpsLng: formData.location?.longitude,
+      collectionDays: formData.collectionDays,
+    };
+
+    // One key for this borrower, kept if it has to be replayed later
+    const idempotencyKey = createIdempotencyKey();
 
-      const response = await apiService.createBorrower(borrowerData);
+    try {
+      const response = await createBorrower.mutate(borrowerData, { idempotencyKey });
       
       if (response.success) {
         Alert.alert(
@@ -124,7 +142,41 @@ export default function AddBorrowerScreen() {
       }
     } catch (error) {
       console.error('Error creating borrower:', error);
-      Alert.alert('Error', 'Failed to add borrower. Please try again.');
+      if (error instanceof OutcomeUnknownError) {
+        await offlineQueue.enqueue('createBorrower', borrowerData, { idempotencyKey, outcomeUnknown: true });
+        Alert.alert(
+          'Borrower Not Confirmed',
+          'The server did not confirm this borrower. They may already be saved. Do not add them again - it will be checked automatically and appears under Offline Sync until then.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
+      }
+      if (offlineQueue.isEnabled() && isNetworkError(error)) {
+        await offlineQueue.enqueue('createBorrower', borrowerData, { idempotencyKey });
+        Alert.alert(
+          'Saved Offline',
+          'No connection right now. The borrower is saved on this device and will sync automatically when you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
+      }
+      // Point at the fields the server rejected rather than a generic popup
+      const fieldErrors = getFieldErrors(error, FORM_FIELDS, { photoUrl: 'photo', gpsLat: 'location', gpsLng: 'location' });
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(error, 'Failed to add borrower. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { apiService } from '@/lib/api';
+import { getErrorMessage, getFieldErrors } from '@/lib/errors';
+import { checkPassword } from '@/lib/password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import { router } from 'expo-router';
+
+type PasswordField = 'currentPassword' | 'newPassword' | 'confirmPassword';
+
+export default function ChangePasswordScreen() {
+  const { theme } = useThemeContext();
+  const { user, isOfflineSession } = useAuth();
+  const [formData, setFormData] = useState({
+    currentPassword: '',
+    newPassword: '',
+    confirmPassword: '',
+  });
+  const [errors, setErrors] = useState<Partial<Record<PasswordField, string>>>({});
+  const [showPasswords, setShowPasswords] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const passwordCheck = checkPassword(formData.newPassword, {
+    username: user?.username,
+    currentPassword: formData.currentPassword,
+  });
+
+  const updateField = (field: PasswordField, value: string) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const validateForm = (): boolean => {
+    const newErrors: Partial<Record<PasswordField, string>> = {};
+
+    if (!formData.currentPassword) {
+      newErrors.currentPassword = 'Current password is required';
+    }
+
+    if (!formData.newPassword) {
+      newErrors.newPassword = 'New password is required';
+    } else if (!passwordCheck.valid) {
+      newErrors.newPassword = 'Password does not meet the requirements below';
+    }
+
+    if (formData.confirmPassword !== formData.newPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validateForm()) return;
+
+    setIsSubmitting(true);
+    try {
+      const response = await apiService.changePassword(formData.currentPassword, formData.newPassword);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to change password');
+      }
+
+      Alert.alert('Password Changed', 'Use your new password the next time you sign in.', [
+        { text: 'OK', onPress: () => router.back() },
+      ]);
+    } catch (error) {
+      console.error('Change password error:', error);
+      // The server names the field it rejected, e.g. a wrong current password
+      const fieldErrors = getFieldErrors(error, ['currentPassword', 'newPassword'] as PasswordField[]);
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+      } else {
+        Alert.alert('Error', getErrorMessage(error, 'Failed to change password'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderField = (field: PasswordField, label: string, placeholder: string) => (
+    <View style={styles.fieldContainer}>
+      <Text style={[styles.fieldLabel, { color: theme.text }]}>{label}</Text>
+      <TextInput
+        style={[styles.textInput, {
+          color: theme.text,
+          borderColor: errors[field] ? theme.error : theme.border,
+          backgroundColor: theme.background,
+        }]}
+        value={formData[field]}
+        onChangeText={(text) => updateField(field, text)}
+        placeholder={placeholder}
+        placeholderTextColor={theme.textMuted}
+        secureTextEntry={!showPasswords}
+        autoCapitalize="none"
+        autoCorrect={false}
+        editable={!isSubmitting}
+      />
+      {errors[field] && (
+        <Text style={[styles.errorText, { color: theme.error }]}>{errors[field]}</Text>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Change Password</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        {isOfflineSession ? (
+          <View style={[styles.infoCard, { backgroundColor: theme.warning + '15', borderColor: theme.warning }]}>
+            <Ionicons name="cloud-offline" size={20} color={theme.warning} />
+            <Text style={[styles.infoText, { color: theme.text }]}>
+              You are using offline data. Sign in online to change your password.
+            </Text>
+          </View>
+        ) : (
+          <>
+            <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+              {renderField('currentPassword', 'Current Password', 'Enter current password')}
+              {renderField('newPassword', 'New Password', 'Enter new password')}
+              <PasswordChecklist check={passwordCheck} />
+              <View style={styles.divider} />
+              {renderField('confirmPassword', 'Confirm New Password', 'Re-enter new password')}
+
+              <TouchableOpacity style={styles.showToggle} onPress={() => setShowPasswords(!showPasswords)}>
+                <Ionicons name={showPasswords ? 'eye-off' : 'eye'} size={18} color={theme.textSecondary} />
+                <Text style={[styles.showToggleText, { color: theme.textSecondary }]}>
+                  {showPasswords ? 'Hide passwords' : 'Show passwords'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+
+            <View style={styles.submitSection}>
+              <TouchableOpacity
+                style={[styles.submitButton, { backgroundColor: theme.primary, opacity: isSubmitting ? 0.7 : 1 }]}
+                onPress={handleSubmit}
+                disabled={isSubmitting}
+              >
+                {isSubmitting ? (
+                  <ActivityIndicator size="small" color={theme.buttonText} />
+                ) : (
+                  <Ionicons name="key" size={20} color={theme.buttonText} />
+                )}
+                <Text style={[styles.submitText, { color: theme.buttonText }]}>
+                  {isSubmitting ? 'Updating...' : 'Update Password'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 24,
+  },
+  fieldContainer: {
+    marginBottom: 16,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  textInput: {
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  divider: {
+    height: 16,
+  },
+  showToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  showToggleText: {
+    fontSize: 14,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  submitSection: {
+    marginBottom: 24,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 16,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
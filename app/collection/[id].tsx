@@ -12,8 +12,12 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
+import { useAppLock } from '@/contexts/AppLockContext';
 import { router, useLocalSearchParams } from 'expo-router';
 import { apiService, PopulatedCollection as ApiCollection } from '@/lib/api';
+import { loadReceipt, shareReceipts, printReceipts } from '@/lib/receipts';
+import RequirePermission from '@/components/RequirePermission';
+import { useDeleteCollection } from '@/hooks/useCollections';
 
 interface Collection {
   _id: string;
@@ -39,11 +43,16 @@ interface Collection {
 
 export default function CollectionDetailsScreen() {
   const { theme } = useThemeContext();
+  const { requireReauth } = useAppLock();
   const params = useLocalSearchParams();
   const collectionId = params.id as string;
+  const deleteCollection = useDeleteCollection();
   
   const [collection, setCollection] = useState<Collection | null>(null);
+  const [apiCollection, setApiCollection] = useState<ApiCollection | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isPreparingReceipt, setIsPreparingReceipt] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
 
   useEffect(() => {
     loadCollection();
@@ -76,6 +85,7 @@ export default function CollectionDetailsScreen() {
           createdAt: response.data.createdAt || new Date().toISOString(),
         };
         setCollection(convertedCollection);
+        setApiCollection(response.data);
       } else {
         Alert.alert('Error', 'Failed to load collection details');
       }
@@ -127,6 +137,56 @@ export default function CollectionDetailsScreen() {
     }
   };
 
+  const handleDelete = () => {
+    Alert.alert(
+      'Delete Collection',
+      'Are you sure you want to delete this collection? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: confirmDelete },
+      ]
+    );
+  };
+
+  const confirmDelete = async () => {
+    if (!(await requireReauth('Confirm to delete this collection'))) return;
+
+    try {
+      setIsDeleting(true);
+      const response = await deleteCollection.mutate(collectionId);
+      if (response.success) {
+        Alert.alert('Deleted', 'Collection deleted successfully', [
+          { text: 'OK', onPress: () => router.back() },
+        ]);
+      } else {
+        Alert.alert('Error', response.error || 'Failed to delete collection');
+      }
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to delete collection');
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const handleReceipt = async (mode: 'share' | 'print') => {
+    if (!apiCollection) return;
+    setIsPreparingReceipt(true);
+    try {
+      const receipt = await loadReceipt(apiCollection);
+      if (mode === 'share') {
+        await shareReceipts([receipt]);
+      } else {
+        await printReceipts([receipt]);
+      }
+    } catch (error) {
+      console.error('Error preparing receipt:', error);
+      Alert.alert('Receipt Error', error instanceof Error ? error.message : 'Failed to create receipt');
+    } finally {
+      setIsPreparingReceipt(false);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'PAID':
@@ -362,27 +422,45 @@ export default function CollectionDetailsScreen() {
 
         {/* Actions */}
         <View style={styles.section}>
-          <TouchableOpacity
-            style={[styles.actionButton, { backgroundColor: theme.error }]}
-            onPress={() => {
-              Alert.alert(
-                'Delete Collection',
-                'Are you sure you want to delete this collection? This action cannot be undone.',
-                [
-                  { text: 'Cancel', style: 'cancel' },
-                  { text: 'Delete', style: 'destructive', onPress: () => {
-                    // TODO: Implement delete functionality
-                    Alert.alert('Not implemented', 'Delete functionality will be implemented in the next phase');
-                  }},
-                ]
-              );
-            }}
-          >
-            <Ionicons name="trash" size={20} color={theme.buttonText} />
-            <Text style={[styles.actionButtonText, { color: theme.buttonText }]}>
-              Delete Collection
-            </Text>
-          </TouchableOpacity>
+          <View style={styles.receiptActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.receiptButton, { backgroundColor: theme.primary, opacity: isPreparingReceipt ? 0.7 : 1 }]}
+              onPress={() => handleReceipt('share')}
+              disabled={isPreparingReceipt}
+            >
+              {isPreparingReceipt ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <Ionicons name="share-social" size={20} color={theme.buttonText} />
+              )}
+              <Text style={[styles.actionButtonText, { color: theme.buttonText }]}>
+                Share Receipt
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.receiptButton, { backgroundColor: theme.info, opacity: isPreparingReceipt ? 0.7 : 1 }]}
+              onPress={() => handleReceipt('print')}
+              disabled={isPreparingReceipt}
+            >
+              <Ionicons name="print" size={20} color={theme.buttonText} />
+              <Text style={[styles.actionButtonText, { color: theme.buttonText }]}>
+                Print
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <RequirePermission action="delete" resource="collection">
+            <TouchableOpacity
+              style={[styles.actionButton, { backgroundColor: theme.error, opacity: isDeleting ? 0.5 : 1 }]}
+              onPress={handleDelete}
+              disabled={isDeleting}
+            >
+              <Ionicons name="trash" size={20} color={theme.buttonText} />
+              <Text style={[styles.actionButtonText, { color: theme.buttonText }]}>
+                Delete Collection
+              </Text>
+            </TouchableOpacity>
+          </RequirePermission>
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -518,4 +596,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  receiptActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  receiptButton: {
+    flex: 1,
+  },
 }); 
\ No newline at end of file
@@ -1,113 +1,41 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  ScrollView,
-  RefreshControl,
   ActivityIndicator,
   Alert,
-  FlatList,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, PopulatedCollection } from '@/lib/api';
-
-interface CollectionStats {
-  totalCollected: number;
-  totalCollections: number;
-  todayCollections: number;
-  weekCollections: number;
-}
+import { PopulatedCollection } from '@/lib/api';
+import { usePaginatedCollections } from '@/hooks/useCollections';
+import { useDashboardStats } from '@/hooks/useDashboardStats';
+import { getCollectionStats, getHistoryStartDate, HistoryFilter } from '@/lib/collection-stats';
+import PaginatedList from '@/components/PaginatedList';
 
 export default function CollectionHistoryScreen() {
   const { theme } = useThemeContext();
-  const [collections, setCollections] = useState<PopulatedCollection[]>([]);
-  const [stats, setStats] = useState<CollectionStats>({
-    totalCollected: 0,
-    totalCollections: 0,
-    todayCollections: 0,
-    weekCollections: 0,
-  });
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [filterStatus, setFilterStatus] = useState<'all' | 'today' | 'week' | 'month'>('all');
-
-  useEffect(() => {
-    loadCollections();
-  }, [filterStatus]);
-
-  const loadCollections = async () => {
-    try {
-      setIsLoading(true);
-      
-      // Calculate date range based on filter
-      let startDate: string | undefined;
-      const now = new Date();
-      
-      switch (filterStatus) {
-        case 'today':
-          startDate = now.toISOString().split('T')[0];
-          break;
-        case 'week':
-          const weekAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-          startDate = weekAgo.toISOString().split('T')[0];
-          break;
-        case 'month':
-          const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          startDate = monthAgo.toISOString().split('T')[0];
-          break;
-      }
+  const [filterStatus, setFilterStatus] = useState<HistoryFilter>('all');
+  const startDate = getHistoryStartDate(filterStatus);
 
-      const response = await apiService.getCollections({
-        startDate,
-        limit: 100,
-      });
+  const query = usePaginatedCollections({ startDate });
+  const { items: collections, error, isLoading } = query;
+  const { data: dashboardStats } = useDashboardStats();
 
-      if (response.success) {
-        setCollections(response.data);
-        calculateStats(response.data);
-      } else {
-        Alert.alert('Error', 'Failed to load collections');
-      }
-    } catch (error) {
-      console.error('Error loading collections:', error);
+  useEffect(() => {
+    if (error && collections.length === 0) {
       Alert.alert('Error', 'Failed to load collections');
-    } finally {
-      setIsLoading(false);
     }
-  };
-
-  const calculateStats = (collectionsData: PopulatedCollection[]) => {
-    const totalCollected = collectionsData.reduce((sum, collection) => sum + collection.amount, 0);
-    const totalCollections = collectionsData.length;
-    
-    const today = new Date().toISOString().split('T')[0];
-    const todayCollections = collectionsData.filter(
-      collection => collection.paymentDate.startsWith(today)
-    ).length;
-
-    const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
-    const weekCollections = collectionsData.filter(
-      collection => collection.paymentDate >= weekAgo
-    ).length;
-
-    setStats({
-      totalCollected,
-      totalCollections,
-      todayCollections,
-      weekCollections,
-    });
-  };
+  }, [error, collections.length]);
 
-  const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadCollections();
-    setIsRefreshing(false);
-  };
+  const stats = useMemo(
+    () => getCollectionStats(filterStatus, collections, query.total, dashboardStats),
+    [collections, query.total, dashboardStats, filterStatus]
+  );
 
   const formatCurrency = (amount: number | undefined | null) => {
     if (amount === undefined || amount === null) return '₹0';
@@ -166,18 +94,82 @@ export default function CollectionHistoryScreen() {
     </TouchableOpacity>
   );
 
-  if (isLoading) {
-    return (
-      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color={theme.primary} />
-          <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
-            Loading collection history...
+  const listHeader = (
+    <>
+      {/* Stats Cards */}
+      <View style={styles.statsContainer}>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="cash" size={24} color={theme.success} />
+          <Text style={[styles.statCardNumber, { color: theme.text }]}>
+            {formatCurrency(stats.totalCollected)}
+          </Text>
+          <Text style={[styles.statCardLabel, { color: theme.textSecondary }]}>
+            Total Collected
+          </Text>
+        </View>
+        <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="checkmark-circle" size={24} color={theme.info} />
+          <Text style={[styles.statCardNumber, { color: theme.text }]}>
+            {stats.totalCollections}
+          </Text>
+          <Text style={[styles.statCardLabel, { color: theme.textSecondary }]}>
+            Total Collections
           </Text>
         </View>
-      </SafeAreaView>
-    );
-  }
+      </View>
+
+      {/* Filter Tabs */}
+      <View style={styles.filterContainer}>
+        {(['all', 'today', 'week', 'month'] as const).map((filter) => (
+          <TouchableOpacity
+            key={filter}
+            style={[
+              styles.filterTab,
+              {
+                backgroundColor: filterStatus === filter ? theme.primary : theme.card,
+                borderColor: theme.border,
+              }
+            ]}
+            onPress={() => setFilterStatus(filter)}
+          >
+            <Text
+              style={[
+                styles.filterText,
+                {
+                  color: filterStatus === filter ? theme.buttonText : theme.text,
+                }
+              ]}
+            >
+              {filter.charAt(0).toUpperCase() + filter.slice(1)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={[styles.sectionTitle, { color: theme.text }]}>
+        Recent Collections ({stats.totalCollections})
+      </Text>
+    </>
+  );
+
+  const listEmpty = isLoading ? (
+    <View style={styles.loadingContainer}>
+      <ActivityIndicator size="large" color={theme.primary} />
+      <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
+        Loading collection history...
+      </Text>
+    </View>
+  ) : (
+    <View style={[styles.emptyState, { backgroundColor: theme.card, borderColor: theme.border }]}>
+      <Ionicons name="cash-outline" size={48} color={theme.textMuted} />
+      <Text style={[styles.emptyTitle, { color: theme.text }]}>
+        No Collections Found
+      </Text>
+      <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
+        No collections match the current filter criteria.
+      </Text>
+    </View>
+  );
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
@@ -192,90 +184,17 @@ export default function CollectionHistoryScreen() {
         <View style={styles.placeholder} />
       </View>
 
-      <ScrollView 
-        style={styles.content} 
+      <PaginatedList
+        style={styles.content}
+        query={query}
+        data={collections}
+        keyExtractor={(item) => item._id}
+        renderItem={renderCollectionCard}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={listEmpty}
+        endOfListText="No more collections"
         showsVerticalScrollIndicator={false}
-        refreshControl={
-          <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
-        }
-      >
-        {/* Stats Cards */}
-        <View style={styles.statsContainer}>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="cash" size={24} color={theme.success} />
-            <Text style={[styles.statCardNumber, { color: theme.text }]}>
-              {formatCurrency(stats.totalCollected)}
-            </Text>
-            <Text style={[styles.statCardLabel, { color: theme.textSecondary }]}>
-              Total Collected
-            </Text>
-          </View>
-          <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="checkmark-circle" size={24} color={theme.info} />
-            <Text style={[styles.statCardNumber, { color: theme.text }]}>
-              {stats.totalCollections}
-            </Text>
-            <Text style={[styles.statCardLabel, { color: theme.textSecondary }]}>
-              Total Collections
-            </Text>
-          </View>
-        </View>
-
-        {/* Filter Tabs */}
-        <View style={styles.filterContainer}>
-          {(['all', 'today', 'week', 'month'] as const).map((filter) => (
-            <TouchableOpacity
-              key={filter}
-              style={[
-                styles.filterTab,
-                {
-                  backgroundColor: filterStatus === filter ? theme.primary : theme.card,
-                  borderColor: theme.border,
-                }
-              ]}
-              onPress={() => setFilterStatus(filter)}
-            >
-              <Text
-                style={[
-                  styles.filterText,
-                  {
-                    color: filterStatus === filter ? theme.buttonText : theme.text,
-                  }
-                ]}
-              >
-                {filter.charAt(0).toUpperCase() + filter.slice(1)}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-
-        {/* Collections List */}
-        <View style={styles.collectionsSection}>
-          <Text style={[styles.sectionTitle, { color: theme.text }]}>
-            Recent Collections ({collections.length})
-          </Text>
-          
-          {collections.length === 0 ? (
-            <View style={[styles.emptyState, { backgroundColor: theme.card, borderColor: theme.border }]}>
-              <Ionicons name="cash-outline" size={48} color={theme.textMuted} />
-              <Text style={[styles.emptyTitle, { color: theme.text }]}>
-                No Collections Found
-              </Text>
-              <Text style={[styles.emptySubtitle, { color: theme.textSecondary }]}>
-                No collections match the current filter criteria.
-              </Text>
-            </View>
-          ) : (
-            <FlatList
-              data={collections}
-              renderItem={renderCollectionCard}
-              keyExtractor={(item) => item._id}
-              scrollEnabled={false}
-              showsVerticalScrollIndicator={false}
-            />
-          )}
-        </View>
-      </ScrollView>
+      />
     </SafeAreaView>
   );
 }
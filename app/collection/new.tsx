@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -12,9 +12,31 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
+import RequirePermission from '@/components/RequirePermission';
 import { useAuth } from '@/contexts/AuthContext';
 import { router, useLocalSearchParams } from 'expo-router';
-import { apiService, Installment as ApiInstallment, CreateCollectionData } from '@/lib/api';
+import {
+  apiService,
+  createIdempotencyKey,
+  Installment as ApiInstallment,
+  Loan as ApiLoan,
+  CreateCollectionData,
+  PopulatedCollection,
+} from '@/lib/api';
+import { getErrorMessage, getFieldErrors, OutcomeUnknownError } from '@/lib/errors';
+import { offlineQueue, isNetworkError } from '@/lib/offline-queue';
+import { readCache } from '@/lib/cache';
+import { useCreateCollection } from '@/hooks/useCollections';
+import { config } from '@/lib/config';
+import {
+  allocatePayment,
+  getDueBy,
+  getTotalDue,
+  isPartlyPaid,
+  AllocationRule,
+  DueInstallment,
+} from '@/lib/collection-allocation';
+import { loadReceipt, shareReceipts } from '@/lib/receipts';
 import * as Location from 'expo-location';
 
 interface Installment {
@@ -35,11 +57,25 @@ interface CollectionForm {
   gpsLng?: number;
 }
 
-export default function NewCollectionScreen() {
+const FORM_FIELDS: ('installmentId' | 'amount' | 'paymentDate' | 'notes')[] = ['installmentId', 'amount', 'paymentDate', 'notes'];
+
+export default function NewCollectionRoute() {
+  return (
+    <RequirePermission action="create" resource="collection" screen>
+      <NewCollectionScreen />
+    </RequirePermission>
+  );
+}
+
+function NewCollectionScreen() {
   const { theme } = useThemeContext();
   const { user } = useAuth();
+  const createCollection = useCreateCollection();
   const params = useLocalSearchParams();
   const loanId = params.loanId as string;
+  const borrowerId = params.borrowerId as string;
+  // Starting from a borrower: one payment is split across every active loan they have
+  const isBorrowerMode = !loanId && !!borrowerId;
   
   const [formData, setFormData] = useState<CollectionForm>({
     installmentId: '',
@@ -53,19 +89,47 @@ export default function NewCollectionScreen() {
   const [isLoadingInstallments, setIsLoadingInstallments] = useState(false);
   const [showInstallmentPicker, setShowInstallmentPicker] = useState(false);
   const [isGettingLocation, setIsGettingLocation] = useState(false);
+  const [borrowerLoans, setBorrowerLoans] = useState<ApiLoan[]>([]);
+  const [dueByLoan, setDueByLoan] = useState<{ [loanId: string]: Installment[] }>({});
+  const [allocationRule, setAllocationRule] = useState<AllocationRule>(config.collections.allocationRule);
 
   useEffect(() => {
     if (loanId) {
       loadInstallments();
+    } else if (borrowerId) {
+      loadBorrowerDues();
     }
-  }, [loanId]);
+  }, [loanId, borrowerId]);
+
+  const unpaidInstallments = useMemo<DueInstallment[]>(() => {
+    return Object.values(dueByLoan).flat().map(installment => ({
+      installmentId: installment._id,
+      loanId: installment.loanId,
+      installmentNumber: installment.installmentNumber,
+      dueDate: installment.dueDate,
+      amount: installment.amount,
+      status: installment.status,
+    }));
+  }, [dueByLoan]);
+
+  // Only what has fallen due by the payment date is collected; later weeks are listed as upcoming
+  const dueInstallments = useMemo(
+    () => getDueBy(unpaidInstallments, formData.paymentDate),
+    [unpaidInstallments, formData.paymentDate]
+  );
+
+  const totalDue = getTotalDue(dueInstallments);
+  const allocation = useMemo(
+    () => allocatePayment(parseFloat(formData.amount) || 0, dueInstallments, allocationRule),
+    [formData.amount, dueInstallments, allocationRule]
+  );
 
   const loadInstallments = async () => {
     setIsLoadingInstallments(true);
     try {
-      const response = await apiService.getInstallments(loanId);
-      if (response.success) {
-        const convertedInstallments: Installment[] = response.data.map((installment: ApiInstallment) => ({
+      // Cached installments let a payment be recorded (and queued) with no signal
+      await readCache.list('installments', `installments:loan:${loanId}`, () => apiService.getInstallments(loanId), (result) => {
+        const convertedInstallments: Installment[] = result.data.map((installment: ApiInstallment) => ({
           _id: installment._id,
           amount: installment.amount,
           dueDate: installment.dueDate,
@@ -74,9 +138,7 @@ export default function NewCollectionScreen() {
           installmentNumber: installment.installmentNumber,
         }));
         setInstallments(convertedInstallments);
-      } else {
-        Alert.alert('Error', 'Failed to load installments');
-      }
+      });
     } catch (error) {
       console.error('Error loading installments:', error);
       Alert.alert('Error', 'Failed to load installments');
@@ -85,6 +147,42 @@ export default function NewCollectionScreen() {
     }
   };
 
+  const toInstallment = (installment: ApiInstallment): Installment => ({
+    _id: installment._id,
+    amount: installment.amount,
+    dueDate: installment.dueDate,
+    status: installment.status,
+    loanId: installment.loanId,
+    installmentNumber: installment.installmentNumber,
+  });
+
+  const loadBorrowerDues = async () => {
+    setIsLoadingInstallments(true);
+    try {
+      let activeLoans: ApiLoan[] = [];
+      await readCache.list('loans', `loans:borrower:${borrowerId}`, () => apiService.getLoansByBorrower(borrowerId), (result) => {
+        activeLoans = result.data.filter(loan => loan.status === 'ACTIVE');
+      });
+
+      const dues: { [loanId: string]: Installment[] } = {};
+      await Promise.all(activeLoans.map(loan =>
+        readCache.list('installments', `installments:loan:${loan._id}`, () => apiService.getInstallments(loan._id), (result) => {
+          dues[loan._id] = result.data
+            .filter(installment => installment.status !== 'PAID')
+            .map(toInstallment);
+        }).catch(error => console.error(`Error loading installments for loan ${loan._id}:`, error))
+      ));
+
+      setBorrowerLoans(activeLoans);
+      setDueByLoan(dues);
+    } catch (error) {
+      console.error('Error loading borrower loans:', error);
+      Alert.alert('Error', 'Failed to load loans for this borrower');
+    } finally {
+      setIsLoadingInstallments(false);
+    }
+  };
+
   const getCurrentLocation = async () => {
     setIsGettingLocation(true);
     try {
@@ -111,7 +209,13 @@ export default function NewCollectionScreen() {
   const validateForm = (): boolean => {
     const newErrors: Partial<CollectionForm> = {};
 
-    if (!formData.installmentId) {
+    if (isBorrowerMode) {
+      if (dueInstallments.length === 0) {
+        newErrors.installmentId = 'This borrower has no installments due by the payment date';
+      } else if (totalDue === 0) {
+        newErrors.installmentId = 'Only part-paid installments are due - collect them from the loan';
+      }
+    } else if (!formData.installmentId) {
       newErrors.installmentId = 'Please select an installment';
     }
 
@@ -121,6 +225,10 @@ export default function NewCollectionScreen() {
       const amount = parseFloat(formData.amount);
       if (isNaN(amount) || amount <= 0) {
         newErrors.amount = 'Please enter a valid amount';
+      } else if (isBorrowerMode && !Number.isInteger(amount)) {
+        newErrors.amount = 'Please enter the amount in whole rupees';
+      } else if (isBorrowerMode && amount > totalDue) {
+        newErrors.amount = `Amount is more than the total due of ${formatCurrency(totalDue)}`;
       }
     }
 
@@ -142,26 +250,38 @@ export default function NewCollectionScreen() {
       return;
     }
 
+    if (isBorrowerMode) {
+      await submitAllocations(user.id);
+      return;
+    }
+
     setIsSubmitting(true);
+    const collectionData: CreateCollectionData = {
+      installmentId: formData.installmentId,
+      amount: parseFloat(formData.amount),
+      paymentDate: formData.paymentDate,
+      notes: formData.notes,
+      collectorId: user.id, // Use the authenticated user's ID
+      gpsLat: formData.gpsLat,
+      gpsLng: formData.gpsLng,
+    };
+
+    // One key for this payment, kept if it has to be replayed later
+    const idempotencyKey = createIdempotencyKey();
+
     try {
-      const collectionData: CreateCollectionData = {
-        installmentId: formData.installmentId,
-        amount: parseFloat(formData.amount),
-        paymentDate: formData.paymentDate,
-        notes: formData.notes,
-        collectorId: user.id, // Use the authenticated user's ID
-        gpsLat: formData.gpsLat,
-        gpsLng: formData.gpsLng,
-      };
-
-      const response = await apiService.createCollection(collectionData);
+      const response = await createCollection.mutate(collectionData, { idempotencyKey });
       if (response.success) {
         Alert.alert(
           'Success',
           'Payment collected successfully!',
           [
             {
-              text: 'OK',
+              text: 'Share Receipt',
+              onPress: () => handleShareReceipts([response.data]),
+            },
+            {
+              text: 'Done',
               onPress: () => router.back(),
             },
           ]
@@ -171,10 +291,144 @@ export default function NewCollectionScreen() {
       }
     } catch (error) {
       console.error('Error collecting payment:', error);
-      Alert.alert('Error', 'Failed to collect payment. Please try again.');
+      if (error instanceof OutcomeUnknownError) {
+        // Don't let the collector enter it again - replaying with the same key settles it
+        await offlineQueue.enqueue('createCollection', collectionData, { idempotencyKey, outcomeUnknown: true });
+        Alert.alert(
+          'Payment Not Confirmed',
+          'The server did not confirm this payment. It may already be saved. Do not collect it again - it will be checked automatically and appears under Offline Sync until then.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
+      }
+      if (offlineQueue.isEnabled() && isNetworkError(error)) {
+        await offlineQueue.enqueue('createCollection', collectionData, { idempotencyKey });
+        Alert.alert(
+          'Saved Offline',
+          'No connection right now. The payment is saved on this device and will sync automatically when you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
+      }
+      const fieldErrors = getFieldErrors(error, FORM_FIELDS);
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(error, 'Failed to collect payment. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // One collection record per installment. If the connection drops part way through,
+  // the rest are queued so the whole payment is still recorded.
+  const submitAllocations = async (collectorId: string) => {
+    setIsSubmitting(true);
+    const toCollectionData = (installmentId: string, amount: number): CreateCollectionData => ({
+      installmentId,
+      amount,
+      paymentDate: formData.paymentDate,
+      notes: formData.notes,
+      collectorId,
+      gpsLat: formData.gpsLat,
+      gpsLng: formData.gpsLng,
+    });
+
+    const recorded: PopulatedCollection[] = [];
+    let queued = 0;
+    let unconfirmed = 0;
+    const failed: string[] = [];
+
+    try {
+      for (const item of allocation.allocations) {
+        const collectionData = toCollectionData(item.installmentId, item.amount);
+        const label = `${getLoanNumber(item.loanId)} #${item.installmentNumber}`;
+
+        if (queued > 0) {
+          await offlineQueue.enqueue('createCollection', collectionData);
+          queued++;
+          continue;
+        }
+
+        const idempotencyKey = createIdempotencyKey();
+        try {
+          const response = await createCollection.mutate(collectionData, { idempotencyKey });
+          if (response.success) {
+            recorded.push(response.data);
+          } else {
+            failed.push(`${label}: ${response.error || 'Failed'}`);
+          }
+        } catch (error) {
+          console.error('Error collecting payment:', error);
+          // A lost connection doesn't prove this payment never arrived, so it is reported as
+          // unconfirmed like any other unknown outcome. The rest queue behind it to stay in order.
+          if (error instanceof OutcomeUnknownError || (offlineQueue.isEnabled() && isNetworkError(error))) {
+            await offlineQueue.enqueue('createCollection', collectionData, { idempotencyKey, outcomeUnknown: true });
+            queued++;
+            unconfirmed++;
+          } else {
+            failed.push(`${label}: ${error instanceof Error ? error.message : 'Failed'}`);
+          }
+        }
+      }
     } finally {
       setIsSubmitting(false);
     }
+
+    if (failed.length > 0) {
+      Alert.alert(
+        'Some Payments Failed',
+        `${recorded.length} recorded${queued > 0 ? `, ${queued} saved offline` : ''}${unconfirmed > 0 ? ` (${unconfirmed} not confirmed by the server - do not collect again)` : ''}. These could not be recorded:\n\n${failed.join('\n')}`,
+      );
+      loadBorrowerDues();
+      return;
+    }
+
+    Alert.alert(
+      unconfirmed > 0 ? 'Payment Not Confirmed' : queued > 0 ? 'Saved Offline' : 'Success',
+      unconfirmed > 0
+        ? `${recorded.length} payment(s) recorded. The server did not confirm the next one - it may already be saved.${queued > unconfirmed ? ` The ${queued - unconfirmed} after it are saved on this device.` : ''} Do not collect them again; they will be checked automatically and appear under Offline Sync until then.`
+        : queued > 0
+          ? `${recorded.length} payment(s) recorded and ${queued} saved on this device. They will sync automatically when you are back online.`
+          : `Payment split across ${recorded.length} installment(s) successfully!`,
+      [
+        ...(recorded.length > 0 ? [{
+          text: 'Share Receipt',
+          onPress: () => handleShareReceipts(recorded),
+        }] : []),
+        {
+          text: 'Done',
+          onPress: () => router.back(),
+        },
+      ]
+    );
+  };
+
+  const handleShareReceipts = async (collections: PopulatedCollection[]) => {
+    try {
+      const receipts = await Promise.all(collections.map(loadReceipt));
+      await shareReceipts(receipts);
+    } catch (error) {
+      console.error('Error sharing receipt:', error);
+      Alert.alert('Receipt Error', 'Could not create the receipt. You can share it later from the collection details.');
+    } finally {
+      router.back();
+    }
+  };
+
+  const getLoanNumber = (id: string) => {
+    return borrowerLoans.find(loan => loan._id === id)?.loanNumber || 'Loan';
   };
 
   const updateFormData = (field: keyof CollectionForm, value: string | number) => {
@@ -247,57 +501,138 @@ export default function NewCollectionScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {/* Installment Selection */}
-        <View style={styles.formSection}>
-          <Text style={[styles.sectionTitle, { color: theme.text }]}>
-            Select Installment
-          </Text>
-          <TouchableOpacity
-            style={[
-              styles.installmentSelector,
-              {
-                borderColor: errors.installmentId ? theme.error : theme.border,
-                backgroundColor: theme.background,
-              }
-            ]}
-            onPress={() => setShowInstallmentPicker(true)}
-            disabled={isLoadingInstallments}
-          >
+        {/* Borrower Loans */}
+        {isBorrowerMode ? (
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>
+              Loans Due
+            </Text>
             {isLoadingInstallments ? (
-              <View style={styles.loadingContainer}>
-                <ActivityIndicator size="small" color={theme.primary} />
-                <Text style={[styles.loadingText, { color: theme.textMuted }]}>
-                  Loading installments...
-                </Text>
-              </View>
-            ) : getSelectedInstallment() ? (
-              <View style={styles.selectedInstallment}>
-                <View style={styles.installmentInfo}>
-                  <Text style={[styles.installmentNumber, { color: theme.text }]}>
-                    Installment #{getSelectedInstallment()?.installmentNumber}
-                  </Text>
-                  <Text style={[styles.installmentDetails, { color: theme.textSecondary }]}>
-                    {formatCurrency(getSelectedInstallment()?.amount || 0)} • Due: {formatDate(getSelectedInstallment()?.dueDate || '')}
+              <View style={[styles.installmentSelector, { borderColor: theme.border }]}>
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator size="small" color={theme.primary} />
+                  <Text style={[styles.loadingText, { color: theme.textMuted }]}>
+                    Loading loans...
                   </Text>
                 </View>
-                <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
               </View>
-            ) : (
-              <View style={styles.placeholderInstallment}>
-                <Ionicons name="calendar" size={24} color={theme.textMuted} />
+            ) : borrowerLoans.length === 0 ? (
+              <View style={[styles.installmentSelector, { borderColor: theme.border }]}>
                 <Text style={[styles.placeholderText, { color: theme.textMuted }]}>
-                  Select an installment
+                  No active loans for this borrower
                 </Text>
-                <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
               </View>
+            ) : (
+              borrowerLoans.map((loan) => {
+                const dues = dueInstallments.filter(installment => installment.loanId === loan._id);
+                const upcomingCount = (dueByLoan[loan._id] || []).length - dues.length;
+                const overdueCount = (dueByLoan[loan._id] || []).filter(installment => installment.status === 'OVERDUE').length;
+                const partlyPaidCount = dues.filter(isPartlyPaid).length;
+                return (
+                  <View
+                    key={loan._id}
+                    style={[styles.loanDueCard, { borderColor: theme.border, backgroundColor: theme.card }]}
+                  >
+                    <View style={styles.loanDueHeader}>
+                      <Text style={[styles.installmentNumber, { color: theme.text }]}>
+                        {loan.loanNumber}
+                      </Text>
+                      <Text style={[styles.installmentNumber, { color: theme.text }]}>
+                        {formatCurrency(getTotalDue(dues))}
+                      </Text>
+                    </View>
+                    <Text style={[styles.installmentDetails, { color: overdueCount > 0 ? theme.error : theme.textSecondary }]}>
+                      {dues.length} installment(s) due{overdueCount > 0 ? ` • ${overdueCount} overdue` : ''}{upcomingCount > 0 ? ` • ${upcomingCount} upcoming` : ''}
+                      {partlyPaidCount > 0 ? ` • ${partlyPaidCount} part-paid, collect on the loan` : ''}
+                      {dues.length > 0 ? ` • Oldest due: ${formatDate(dues.reduce((oldest, installment) => installment.dueDate < oldest ? installment.dueDate : oldest, dues[0].dueDate))}` : ''}
+                    </Text>
+                  </View>
+                );
+              })
             )}
-          </TouchableOpacity>
-          {errors.installmentId && (
-            <Text style={[styles.errorText, { color: theme.error }]}>
-              {errors.installmentId}
+            {errors.installmentId && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.installmentId}
+              </Text>
+            )}
+
+            {/* Allocation Rule */}
+            <View style={styles.ruleContainer}>
+              {([
+                { key: 'OLDEST_FIRST', label: 'Oldest Due First' },
+                { key: 'PROPORTIONAL', label: 'Proportional' },
+              ] as { key: AllocationRule; label: string }[]).map((rule) => (
+                <TouchableOpacity
+                  key={rule.key}
+                  style={[
+                    styles.ruleButton,
+                    {
+                      backgroundColor: allocationRule === rule.key ? theme.primary + '10' : theme.background,
+                      borderColor: allocationRule === rule.key ? theme.primary : theme.border,
+                    }
+                  ]}
+                  onPress={() => setAllocationRule(rule.key)}
+                >
+                  <Text style={[styles.ruleText, { color: allocationRule === rule.key ? theme.primary : theme.text }]}>
+                    {rule.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ) : (
+          /* Installment Selection */
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>
+              Select Installment
             </Text>
-          )}
-        </View>
+            <TouchableOpacity
+              style={[
+                styles.installmentSelector,
+                {
+                  borderColor: errors.installmentId ? theme.error : theme.border,
+                  backgroundColor: theme.background,
+                }
+              ]}
+              onPress={() => setShowInstallmentPicker(true)}
+              disabled={isLoadingInstallments}
+            >
+              {isLoadingInstallments ? (
+                <View style={styles.loadingContainer}>
+                  <ActivityIndicator size="small" color={theme.primary} />
+                  <Text style={[styles.loadingText, { color: theme.textMuted }]}>
+                    Loading installments...
+                  </Text>
+                </View>
+              ) : getSelectedInstallment() ? (
+                <View style={styles.selectedInstallment}>
+                  <View style={styles.installmentInfo}>
+                    <Text style={[styles.installmentNumber, { color: theme.text }]}>
+                      Installment #{getSelectedInstallment()?.installmentNumber}
+                    </Text>
+                    <Text style={[styles.installmentDetails, { color: theme.textSecondary }]}>
+                      {formatCurrency(getSelectedInstallment()?.amount || 0)} • Due: {formatDate(getSelectedInstallment()?.dueDate || '')}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+                </View>
+              ) : (
+                <View style={styles.placeholderInstallment}>
+                  <Ionicons name="calendar" size={24} color={theme.textMuted} />
+                  <Text style={[styles.placeholderText, { color: theme.textMuted }]}>
+                    Select an installment
+                  </Text>
+                  <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+                </View>
+              )}
+            </TouchableOpacity>
+            {errors.installmentId && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.installmentId}
+              </Text>
+            )}
+          </View>
+        )}
 
         {/* Payment Details */}
         <View style={styles.formSection}>
@@ -338,6 +673,23 @@ export default function NewCollectionScreen() {
                 {errors.amount}
               </Text>
             )}
+            {isBorrowerMode && allocation.allocations.length > 0 && (
+              <View style={[styles.allocationCard, { borderColor: theme.border, backgroundColor: theme.card }]}>
+                <Text style={[styles.allocationTitle, { color: theme.textSecondary }]}>
+                  Split across {allocation.allocations.length} installment(s) of {formatCurrency(totalDue)} due
+                </Text>
+                {allocation.allocations.map((item) => (
+                  <View key={item.installmentId} style={styles.allocationRow}>
+                    <Text style={[styles.allocationLabel, { color: theme.text }]}>
+                      {getLoanNumber(item.loanId)} • #{item.installmentNumber} • {formatDate(item.dueDate)}
+                    </Text>
+                    <Text style={[styles.allocationAmount, { color: theme.text }]}>
+                      {formatCurrency(item.amount)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            )}
           </View>
 
           {/* Payment Date */}
@@ -544,6 +896,56 @@ const styles = StyleSheet.create({
     flex: 1,
     paddingHorizontal: 20,
   },
+  loanDueCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 8,
+  },
+  loanDueHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  ruleContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  ruleButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingVertical: 8,
+    alignItems: 'center',
+  },
+  ruleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  allocationCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  allocationTitle: {
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  allocationLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  allocationAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
   formSection: {
     marginBottom: 24,
   },
@@ -14,27 +14,20 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, Loan } from '@/lib/api';
+import { Loan } from '@/lib/api';
+import { buildCollectionRoute, getWeekday, Weekday } from '@/lib/collection-schedule';
+import { useWeeklySchedule } from '@/hooks/useCollectionSchedule';
 
-interface DaySchedule {
-  loans: Loan[];
-  borrowers: { [borrowerId: string]: any };
-  totalOutstanding: number;
-  totalLoans: number;
-}
-
-interface WeeklySchedule {
-  [day: string]: DaySchedule;
-}
+const EMPTY_ROUTE = buildCollectionRoute([]);
 
 export default function WeeklyScheduleScreen() {
   const { theme } = useThemeContext();
-  const [schedule, setSchedule] = useState<WeeklySchedule>({});
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [selectedDay, setSelectedDay] = useState<string>('');
+  // One loans request covers the whole week (shared with today's route and the Loans tab)
+  const { data: schedule, error, isLoading, isRefreshing, refresh } = useWeeklySchedule();
+  // Today is selected by default
+  const [selectedDay, setSelectedDay] = useState<Weekday>(getWeekday());
 
-  const days = [
+  const days: { key: Weekday; label: string; short: string }[] = [
     { key: 'monday', label: 'Monday', short: 'Mon' },
     { key: 'tuesday', label: 'Tuesday', short: 'Tue' },
     { key: 'wednesday', label: 'Wednesday', short: 'Wed' },
@@ -45,35 +38,10 @@ export default function WeeklyScheduleScreen() {
   ];
 
   useEffect(() => {
-    loadWeeklySchedule();
-  }, []);
-
-  const loadWeeklySchedule = async () => {
-    try {
-      setIsLoading(true);
-      const response = await apiService.getWeeklyCollectionSchedule();
-      
-      if (response.success) {
-        setSchedule(response.data);
-        // Set today as default selected day
-        const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-        setSelectedDay(today);
-      } else {
-        Alert.alert('Error', 'Failed to load weekly schedule');
-      }
-    } catch (error) {
-      console.error('Error loading weekly schedule:', error);
+    if (error && !schedule) {
       Alert.alert('Error', 'Failed to load weekly schedule');
-    } finally {
-      setIsLoading(false);
     }
-  };
-
-  const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadWeeklySchedule();
-    setIsRefreshing(false);
-  };
+  }, [error, schedule]);
 
   const formatCurrency = (amount: number | undefined | null) => {
     if (amount === undefined || amount === null) return '₹0';
@@ -84,9 +52,7 @@ export default function WeeklyScheduleScreen() {
     });
   };
 
-  const getTodayKey = () => {
-    return new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-  };
+  const getTodayKey = () => getWeekday();
 
   const handleCollectPayment = (loan: Loan) => {
     router.push({
@@ -99,6 +65,8 @@ export default function WeeklyScheduleScreen() {
     router.push(`/loan/${loan._id}`);
   };
 
+  const selectedDayData = schedule?.[selectedDay] || EMPTY_ROUTE;
+
   const renderLoanCard = ({ item: loan }: { item: Loan }) => (
     <View style={[styles.loanCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
       <View style={styles.loanHeader}>
@@ -112,6 +80,9 @@ export default function WeeklyScheduleScreen() {
           <Text style={[styles.loanAmount, { color: theme.textSecondary }]}>
             Outstanding: {formatCurrency(loan.outstandingAmount)}
           </Text>
+          <Text style={[styles.loanAmount, { color: theme.primary }]}>
+            Expected: {formatCurrency(selectedDayData.expectedAmounts[loan._id] || 0)}
+          </Text>
         </View>
         <View style={styles.loanActions}>
           <TouchableOpacity
@@ -171,8 +142,6 @@ export default function WeeklyScheduleScreen() {
     );
   }
 
-  const selectedDayData = schedule[selectedDay] || { loans: [], borrowers: {}, totalOutstanding: 0, totalLoans: 0 };
-
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
       <View style={styles.header}>
@@ -190,7 +159,7 @@ export default function WeeklyScheduleScreen() {
         style={styles.content} 
         showsVerticalScrollIndicator={false}
         refreshControl={
-          <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+          <RefreshControl refreshing={isRefreshing} onRefresh={refresh} />
         }
       >
         {/* Day Selector */}
@@ -199,7 +168,7 @@ export default function WeeklyScheduleScreen() {
             {days.map((day) => {
               const isToday = day.key === getTodayKey();
               const isSelected = day.key === selectedDay;
-              const dayData = schedule[day.key] || { loans: [], borrowers: {}, totalOutstanding: 0, totalLoans: 0 };
+              const dayData = schedule?.[day.key] || EMPTY_ROUTE;
               
               return (
                 <TouchableOpacity
@@ -266,6 +235,14 @@ export default function WeeklyScheduleScreen() {
                 Active Loans
               </Text>
             </View>
+            <View style={styles.dayStat}>
+              <Text style={[styles.dayStatNumber, { color: theme.primary }]}>
+                {formatCurrency(selectedDayData.totalExpected)}
+              </Text>
+              <Text style={[styles.dayStatLabel, { color: theme.textSecondary }]}>
+                Expected
+              </Text>
+            </View>
             <View style={styles.dayStat}>
               <Text style={[styles.dayStatNumber, { color: theme.text }]}>
                 {formatCurrency(selectedDayData.totalOutstanding)}
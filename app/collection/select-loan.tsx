@@ -1,10 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   View,
   Text,
   StyleSheet,
   TouchableOpacity,
-  ScrollView,
   TextInput,
   Alert,
   ActivityIndicator,
@@ -13,7 +12,10 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
-import { apiService, Loan as ApiLoan } from '@/lib/api';
+import { Loan as ApiLoan } from '@/lib/api';
+import { usePaginatedLoans } from '@/hooks/useLoans';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import PaginatedList from '@/components/PaginatedList';
 
 interface Loan {
   _id: string;
@@ -32,66 +34,36 @@ interface Loan {
 
 export default function SelectLoanScreen() {
   const { theme } = useThemeContext();
-  const [loans, setLoans] = useState<Loan[]>([]);
-  const [filteredLoans, setFilteredLoans] = useState<Loan[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [isLoading, setIsLoading] = useState(true);
+  const search = useDebouncedValue(searchQuery.trim());
 
-  useEffect(() => {
-    loadLoans();
-  }, []);
+  const query = usePaginatedLoans({ status: 'ACTIVE', search: search || undefined });
+  const { items, error, isLoading } = query;
 
   useEffect(() => {
-    filterLoans();
-  }, [loans, searchQuery]);
-
-  const loadLoans = async () => {
-    setIsLoading(true);
-    try {
-      const response = await apiService.getLoans();
-      if (response.success) {
-        // Convert API loans to local format and filter only active loans
-        const convertedLoans: Loan[] = response.data
-          .map((apiLoan: ApiLoan) => ({
-            _id: apiLoan._id,
-            loanNumber: apiLoan.loanNumber || 'N/A',
-            principalAmount: apiLoan.principalAmount || 0,
-            disbursedAmount: apiLoan.disbursedAmount || 0,
-            outstandingAmount: apiLoan.outstandingAmount || 0,
-            totalPaid: apiLoan.totalPaid || 0,
-            status: apiLoan.status || 'ACTIVE',
-            borrower: {
-              _id: apiLoan.borrower?._id || '',
-              name: apiLoan.borrower?.name || 'Unknown',
-            },
-            createdAt: apiLoan.createdAt || new Date().toISOString(),
-          }))
-          .filter(loan => loan.status === 'ACTIVE' && loan.outstandingAmount > 0); // Only show active loans with outstanding amounts
-
-        setLoans(convertedLoans);
-      } else {
-        Alert.alert('Error', 'Failed to load loans');
-      }
-    } catch (error) {
-      console.error('Error loading loans:', error);
+    if (error && items.length === 0) {
       Alert.alert('Error', 'Failed to load loans');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const filterLoans = () => {
-    let filtered = loans;
-
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(loan =>
-        loan.loanNumber.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        loan.borrower.name.toLowerCase().includes(searchQuery.toLowerCase())
-      );
     }
+  }, [error, items.length]);
 
-    setFilteredLoans(filtered);
-  };
+  // Convert API loans to local format; the server only sends active loans
+  const loans = useMemo<Loan[]>(() => items
+    .map((apiLoan: ApiLoan) => ({
+      _id: apiLoan._id,
+      loanNumber: apiLoan.loanNumber || 'N/A',
+      principalAmount: apiLoan.principalAmount || 0,
+      disbursedAmount: apiLoan.disbursedAmount || 0,
+      outstandingAmount: apiLoan.outstandingAmount || 0,
+      totalPaid: apiLoan.totalPaid || 0,
+      status: apiLoan.status || 'ACTIVE',
+      borrower: {
+        _id: apiLoan.borrower?._id || '',
+        name: apiLoan.borrower?.name || 'Unknown',
+      },
+      createdAt: apiLoan.createdAt || new Date().toISOString(),
+    }))
+    .filter(loan => loan.outstandingAmount > 0), // Only show loans with outstanding amounts
+  [items]);
 
   const handleLoanSelect = (loan: Loan) => {
     router.push(`/collection/new?loanId=${loan._id}` as any);
@@ -117,129 +89,135 @@ export default function SelectLoanScreen() {
     });
   };
 
-  if (isLoading) {
-    return (
-      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-        <View style={styles.loadingContainer}>
-          <ActivityIndicator size="large" color={theme.primary} />
-          <Text style={[styles.loadingText, { color: theme.text }]}>
-            Loading loans...
+  const renderLoan = ({ item: loan }: { item: Loan }) => (
+    <TouchableOpacity
+      style={[styles.loanCard, { backgroundColor: theme.card }]}
+      onPress={() => handleLoanSelect(loan)}
+    >
+      <View style={styles.loanHeader}>
+        <View style={styles.loanInfo}>
+          <Text style={[styles.loanNumber, { color: theme.text }]}>
+            {loan.loanNumber}
+          </Text>
+          <Text style={[styles.borrowerName, { color: theme.textSecondary }]}>
+            {loan.borrower.name}
           </Text>
         </View>
-      </SafeAreaView>
-    );
-  }
-
-  return (
-    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        {/* Header */}
-        <View style={styles.header}>
-          <TouchableOpacity
-            style={styles.backButton}
-            onPress={() => router.back()}
-          >
-            <Ionicons name="arrow-back" size={24} color={theme.text} />
-          </TouchableOpacity>
-          <Text style={[styles.title, { color: theme.text }]}>Select Loan</Text>
-          <View style={styles.placeholder} />
-        </View>
-
-        {/* Search Bar */}
-        <View style={styles.searchContainer}>
-          <View style={[styles.searchBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
-            <Ionicons name="search" size={20} color={theme.textMuted} />
-            <TextInput
-              style={[styles.searchInput, { color: theme.text }]}
-              placeholder="Search by loan number or borrower name..."
-              placeholderTextColor={theme.textMuted}
-              value={searchQuery}
-              onChangeText={setSearchQuery}
-            />
+        <View style={styles.loanStatus}>
+          <View style={[styles.statusBadge, { backgroundColor: theme.success + '20' }]}>
+            <Text style={[styles.statusText, { color: theme.success }]}>
+              Active
+            </Text>
           </View>
         </View>
+      </View>
 
-        {/* Loans List */}
-        <View style={styles.loansContainer}>
-          <Text style={[styles.sectionTitle, { color: theme.text }]}>
-            Active Loans ({filteredLoans.length})
+      <View style={styles.loanDetails}>
+        <View style={styles.detailRow}>
+          <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
+            Principal Amount:
+          </Text>
+          <Text style={[styles.detailValue, { color: theme.text }]}>
+            {formatCurrency(loan.principalAmount)}
           </Text>
+        </View>
+        
+        <View style={styles.detailRow}>
+          <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
+            Outstanding:
+          </Text>
+          <Text style={[styles.detailValue, { color: theme.error }]}>
+            {formatCurrency(loan.outstandingAmount)}
+          </Text>
+        </View>
+        
+        <View style={styles.detailRow}>
+          <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
+            Total Paid:
+          </Text>
+          <Text style={[styles.detailValue, { color: theme.success }]}>
+            {formatCurrency(loan.totalPaid)}
+          </Text>
+        </View>
+      </View>
 
-          {filteredLoans.length === 0 ? (
-            <View style={styles.emptyContainer}>
-              <Ionicons name="document-outline" size={48} color={theme.textMuted} />
-              <Text style={[styles.emptyText, { color: theme.textMuted }]}>
-                {searchQuery ? 'No loans found' : 'No active loans'}
-              </Text>
-              <Text style={[styles.emptySubtext, { color: theme.textSecondary }]}>
-                {searchQuery ? 'Try a different search term' : 'All loans are completed or have no outstanding amounts'}
-              </Text>
-            </View>
-          ) : (
-            filteredLoans.map((loan) => (
-              <TouchableOpacity
-                key={loan._id}
-                style={[styles.loanCard, { backgroundColor: theme.card }]}
-                onPress={() => handleLoanSelect(loan)}
-              >
-                <View style={styles.loanHeader}>
-                  <View style={styles.loanInfo}>
-                    <Text style={[styles.loanNumber, { color: theme.text }]}>
-                      {loan.loanNumber}
-                    </Text>
-                    <Text style={[styles.borrowerName, { color: theme.textSecondary }]}>
-                      {loan.borrower.name}
-                    </Text>
-                  </View>
-                  <View style={styles.loanStatus}>
-                    <View style={[styles.statusBadge, { backgroundColor: theme.success + '20' }]}>
-                      <Text style={[styles.statusText, { color: theme.success }]}>
-                        Active
-                      </Text>
-                    </View>
-                  </View>
-                </View>
+      <View style={styles.selectButton}>
+        <Ionicons name="arrow-forward" size={20} color={theme.primary} />
+        <Text style={[styles.selectText, { color: theme.primary }]}>
+          Collect Payment
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
 
-                <View style={styles.loanDetails}>
-                  <View style={styles.detailRow}>
-                    <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
-                      Principal Amount:
-                    </Text>
-                    <Text style={[styles.detailValue, { color: theme.text }]}>
-                      {formatCurrency(loan.principalAmount)}
-                    </Text>
-                  </View>
-                  
-                  <View style={styles.detailRow}>
-                    <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
-                      Outstanding:
-                    </Text>
-                    <Text style={[styles.detailValue, { color: theme.error }]}>
-                      {formatCurrency(loan.outstandingAmount)}
-                    </Text>
-                  </View>
-                  
-                  <View style={styles.detailRow}>
-                    <Text style={[styles.detailLabel, { color: theme.textSecondary }]}>
-                      Total Paid:
-                    </Text>
-                    <Text style={[styles.detailValue, { color: theme.success }]}>
-                      {formatCurrency(loan.totalPaid)}
-                    </Text>
-                  </View>
-                </View>
+  const listHeader = (
+    <>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Select Loan</Text>
+        <View style={styles.placeholder} />
+      </View>
 
-                <View style={styles.selectButton}>
-                  <Ionicons name="arrow-forward" size={20} color={theme.primary} />
-                  <Text style={[styles.selectText, { color: theme.primary }]}>
-                    Collect Payment
-                  </Text>
-                </View>
-              </TouchableOpacity>
-            ))
-          )}
+      {/* Search Bar */}
+      <View style={styles.searchContainer}>
+        <View style={[styles.searchBar, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="search" size={20} color={theme.textMuted} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder="Search by loan number or borrower name..."
+            placeholderTextColor={theme.textMuted}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
         </View>
-      </ScrollView>
+      </View>
+
+      <View style={styles.loansContainer}>
+        <Text style={[styles.sectionTitle, { color: theme.text }]}>
+          Active Loans ({query.total ?? loans.length})
+        </Text>
+      </View>
+    </>
+  );
+
+  const listEmpty = isLoading ? (
+    <View style={styles.loadingContainer}>
+      <ActivityIndicator size="large" color={theme.primary} />
+      <Text style={[styles.loadingText, { color: theme.text }]}>
+        Loading loans...
+      </Text>
+    </View>
+  ) : (
+    <View style={styles.emptyContainer}>
+      <Ionicons name="document-outline" size={48} color={theme.textMuted} />
+      <Text style={[styles.emptyText, { color: theme.textMuted }]}>
+        {searchQuery ? 'No loans found' : 'No active loans'}
+      </Text>
+      <Text style={[styles.emptySubtext, { color: theme.textSecondary }]}>
+        {searchQuery ? 'Try a different search term' : 'All loans are completed or have no outstanding amounts'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <PaginatedList
+        style={styles.content}
+        query={query}
+        data={loans}
+        keyExtractor={(loan) => loan._id}
+        renderItem={renderLoan}
+        ListHeaderComponent={listHeader}
+        ListEmptyComponent={listEmpty}
+        endOfListText="No more active loans"
+        showsVerticalScrollIndicator={false}
+      />
     </SafeAreaView>
   );
 }
@@ -310,6 +288,7 @@ const styles = StyleSheet.create({
   loanCard: {
     borderRadius: 12,
     padding: 16,
+    marginHorizontal: 20,
     marginBottom: 12,
     borderWidth: 1,
     borderColor: 'rgba(0,0,0,0.1)',
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { apiService } from '@/lib/api';
+import { checkPassword } from '@/lib/password-policy';
+import PasswordChecklist from '@/components/PasswordChecklist';
+import { router, useLocalSearchParams } from 'expo-router';
+
+type ResetStep = 'request' | 'verify' | 'reset' | 'done';
+
+const OTP_LENGTH = 6;
+const RESEND_COOLDOWN_SECONDS = 30;
+
+export default function ForgotPasswordScreen() {
+  const { theme } = useThemeContext();
+  const params = useLocalSearchParams<{ username?: string }>();
+  const [step, setStep] = useState<ResetStep>('request');
+  const [username, setUsername] = useState(params.username || '');
+  const [destination, setDestination] = useState<string | undefined>();
+  const [otp, setOtp] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resendIn, setResendIn] = useState(0);
+
+  const passwordCheck = checkPassword(newPassword, { username: username.trim() });
+
+  useEffect(() => {
+    if (resendIn <= 0) return;
+
+    const timer = setTimeout(() => setResendIn(resendIn - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [resendIn]);
+
+  const run = async (action: () => Promise<void>) => {
+    setError('');
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Password reset error:', err);
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRequestCode = () => run(async () => {
+    if (!username.trim()) {
+      setError('Please enter your username');
+      return;
+    }
+
+    const response = await apiService.requestPasswordReset(username.trim());
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to send verification code');
+    }
+
+    setDestination(response.data?.destination);
+    setOtp('');
+    setResendIn(RESEND_COOLDOWN_SECONDS);
+    setStep('verify');
+  });
+
+  const handleVerifyCode = () => run(async () => {
+    if (otp.length !== OTP_LENGTH) {
+      setError(`Enter the ${OTP_LENGTH}-digit code`);
+      return;
+    }
+
+    const response = await apiService.verifyPasswordResetOtp(username.trim(), otp);
+    if (!response.success) {
+      throw new Error(response.error || 'Invalid or expired code');
+    }
+
+    setResetToken(response.data.resetToken);
+    setStep('reset');
+  });
+
+  const handleResetPassword = () => run(async () => {
+    if (!passwordCheck.valid) {
+      setError('Password does not meet the requirements');
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    const response = await apiService.resetPassword(resetToken, newPassword);
+    if (!response.success) {
+      throw new Error(response.error || 'Failed to reset password');
+    }
+
+    setResetToken('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setStep('done');
+  });
+
+  const handleResend = () => {
+    if (resendIn > 0) return;
+    handleRequestCode();
+  };
+
+  const handleBack = () => {
+    if (step === 'verify') {
+      setStep('request');
+      setError('');
+    } else if (step === 'reset') {
+      // The reset token is single-use; going back means starting over
+      Alert.alert('Cancel Reset', 'Stop resetting your password?', [
+        { text: 'Keep Going', style: 'cancel' },
+        { text: 'Cancel Reset', style: 'destructive', onPress: () => router.back() },
+      ]);
+    } else {
+      router.back();
+    }
+  };
+
+  const renderInput = (
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    options: Partial<React.ComponentProps<typeof TextInput>> = {}
+  ) => (
+    <TextInput
+      style={[styles.textInput, {
+        color: theme.text,
+        borderColor: error ? theme.error : theme.border,
+        backgroundColor: theme.background,
+      }]}
+      value={value}
+      onChangeText={(text) => { onChangeText(text); setError(''); }}
+      placeholder={placeholder}
+      placeholderTextColor={theme.textMuted}
+      autoCapitalize="none"
+      autoCorrect={false}
+      editable={!isSubmitting}
+      {...options}
+    />
+  );
+
+  const renderSubmit = (label: string, onPress: () => void) => (
+    <TouchableOpacity
+      style={[styles.submitButton, { backgroundColor: theme.primary, opacity: isSubmitting ? 0.7 : 1 }]}
+      onPress={onPress}
+      disabled={isSubmitting}
+    >
+      {isSubmitting ? (
+        <ActivityIndicator size="small" color={theme.buttonText} />
+      ) : (
+        <Text style={[styles.submitText, { color: theme.buttonText }]}>{label}</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const stepInfo: Record<ResetStep, { icon: string; title: string; description: string }> = {
+    request: {
+      icon: 'person-circle',
+      title: 'Reset Your Password',
+      description: 'Enter your username and we will send a verification code to the phone or email on your account.',
+    },
+    verify: {
+      icon: 'chatbox-ellipses',
+      title: 'Enter Verification Code',
+      description: `We sent a ${OTP_LENGTH}-digit code to ${destination || 'your registered phone or email'}.`,
+    },
+    reset: {
+      icon: 'key',
+      title: 'Choose a New Password',
+      description: 'Pick a strong password you have not used before.',
+    },
+    done: {
+      icon: 'checkmark-circle',
+      title: 'Password Reset',
+      description: 'Your password has been changed. Sign in with your new password.',
+    },
+  };
+
+  const info = stepInfo[step];
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={handleBack}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Forgot Password</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={[styles.iconCircle, { backgroundColor: (step === 'done' ? theme.success : theme.primary) + '20' }]}>
+            <Ionicons name={info.icon as any} size={32} color={step === 'done' ? theme.success : theme.primary} />
+          </View>
+          <Text style={[styles.stepTitle, { color: theme.text }]}>{info.title}</Text>
+          <Text style={[styles.stepDescription, { color: theme.textSecondary }]}>{info.description}</Text>
+
+          {step === 'request' && (
+            <>
+              {renderInput(username, setUsername, 'Username', { autoFocus: !username })}
+              {error ? <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text> : null}
+              {renderSubmit('Send Code', handleRequestCode)}
+            </>
+          )}
+
+          {step === 'verify' && (
+            <>
+              {renderInput(otp, (text) => setOtp(text.replace(/\D/g, '')), 'Verification code', {
+                keyboardType: 'number-pad',
+                maxLength: OTP_LENGTH,
+                autoFocus: true,
+                style: [styles.textInput, styles.otpInput, {
+                  color: theme.text,
+                  borderColor: error ? theme.error : theme.border,
+                  backgroundColor: theme.background,
+                }],
+              })}
+              {error ? <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text> : null}
+              {renderSubmit('Verify Code', handleVerifyCode)}
+              <TouchableOpacity style={styles.linkButton} onPress={handleResend} disabled={resendIn > 0 || isSubmitting}>
+                <Text style={[styles.linkText, { color: resendIn > 0 ? theme.textMuted : theme.primary }]}>
+                  {resendIn > 0 ? `Resend code in ${resendIn}s` : 'Resend code'}
+                </Text>
+              </TouchableOpacity>
+            </>
+          )}
+
+          {step === 'reset' && (
+            <>
+              {renderInput(newPassword, setNewPassword, 'New password', { secureTextEntry: true })}
+              <PasswordChecklist check={passwordCheck} />
+              <View style={styles.divider} />
+              {renderInput(confirmPassword, setConfirmPassword, 'Confirm new password', { secureTextEntry: true })}
+              {error ? <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text> : null}
+              {renderSubmit('Reset Password', handleResetPassword)}
+            </>
+          )}
+
+          {step === 'done' && renderSubmit('Back to Sign In', () => router.replace('/login'))}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  sectionCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 20,
+    marginBottom: 24,
+  },
+  iconCircle: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    alignSelf: 'center',
+    marginBottom: 16,
+  },
+  stepTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  stepDescription: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  textInput: {
+    fontSize: 16,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  otpInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+    marginLeft: 4,
+  },
+  divider: {
+    height: 16,
+  },
+  submitButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 12,
+    paddingVertical: 16,
+    marginTop: 20,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
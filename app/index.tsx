@@ -5,21 +5,18 @@ import { useThemeContext } from '@/contexts/ThemeContext';
 import { router } from 'expo-router';
 
 export default function Index() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
   const { theme } = useThemeContext();
 
   useEffect(() => {
-    console.log('Index: Auth state changed:', { isAuthenticated, isLoading, user });
     if (!isLoading) {
       if (isAuthenticated) {
-        console.log('Index: User authenticated, navigating to dashboard...');
         router.replace('/(tabs)');
       } else {
-        console.log('Index: User not authenticated, navigating to login...');
         router.replace('/login' as any);
       }
     }
-  }, [isAuthenticated, isLoading, user]);
+  }, [isAuthenticated, isLoading]);
 
   return (
     <View style={{ 
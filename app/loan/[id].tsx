@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,26 +7,45 @@ import {
   ScrollView,
   Alert,
   ActivityIndicator,
-  Linking,
   RefreshControl,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router, useLocalSearchParams } from 'expo-router';
-import { apiService, Loan as ApiLoan, PopulatedCollection } from '@/lib/api';
+import { PopulatedCollection } from '@/lib/api';
+import { useLoan } from '@/hooks/useLoans';
+import { useBorrower } from '@/hooks/useBorrowers';
+import { useLoanCollections } from '@/hooks/useCollections';
+import {
+  generateRepaymentSchedule,
+  calculateProgress as calculateScheduleProgress,
+  getWeeksRemaining as getScheduleWeeksRemaining,
+  getOutstandingAmount,
+  getNextDue,
+  InterestType,
+} from '@/lib/loan-schedule';
+import { buildReminderMessage, normalizePhone, callPhone, sendSms, sendWhatsApp, ReminderChannel } from '@/lib/reminders';
+import { config } from '@/lib/config';
+import LastSynced from '@/components/LastSynced';
+import RequirePermission from '@/components/RequirePermission';
 
 interface Loan {
   id: string;
   loanNumber: string;
   borrowerName: string;
   borrowerId: string;
+  borrowerPhone: string | null;
   principalAmount: number;
   disbursedAmount: number;
   outstandingAmount: number;
   totalPaid: number;
   termWeeks: number;
   startDate: string;
+  interestType: InterestType;
+  interestRate: number;
+  processingFee: number;
+  insuranceFee: number;
   status: 'ACTIVE' | 'COMPLETED' | 'DEFAULTED';
   collectionDays: string[];
   createdAt: string;
@@ -45,97 +64,76 @@ interface Payment {
 export default function LoanDetailsScreen() {
   const { theme } = useThemeContext();
   const { id } = useLocalSearchParams<{ id: string }>();
-  const [loan, setLoan] = useState<Loan | null>(null);
-  const [payments, setPayments] = useState<Payment[]>([]);
-  const [calculatedTotalPaid, setCalculatedTotalPaid] = useState(0);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRefreshing, setIsRefreshing] = useState(false);
+  // Shared with other screens - saving a collection or editing the loan refetches these
+  const loanQuery = useLoan(id);
+  const collectionsQuery = useLoanCollections(id);
+  // Only fetch the borrower record when the loan didn't come with the borrower's phone
+  const borrowerQuery = useBorrower(loanQuery.data?.borrower?._id, {
+    enabled: !!loanQuery.data && !loanQuery.data.borrower?.phone,
+  });
+  const apiLoan = loanQuery.data;
+  const collections = collectionsQuery.data;
+  const borrowerPhone = borrowerQuery.data?.phone;
+  const isLoading = loanQuery.isLoading;
+  const isRefreshing = loanQuery.isRefreshing || collectionsQuery.isRefreshing;
 
   useEffect(() => {
-    if (id) {
-      loadLoanData();
-    }
-  }, [id]);
-
-  const loadLoanData = async () => {
-    setIsLoading(true);
-    try {
-      const response = await apiService.getLoan(id);
-      if (response.success) {
-        const apiLoan = response.data;
-        const convertedLoan: Loan = {
-          id: apiLoan._id,
-          loanNumber: apiLoan.loanNumber || 'N/A',
-          borrowerName: apiLoan.borrower?.name || 'Unknown',
-          borrowerId: apiLoan.borrower?._id || '',
-          principalAmount: apiLoan.principalAmount || 0,
-          disbursedAmount: apiLoan.disbursedAmount || 0,
-          outstandingAmount: apiLoan.outstandingAmount || 0,
-          totalPaid: apiLoan.totalPaid || 0,
-          termWeeks: apiLoan.termWeeks || 0,
-          startDate: apiLoan.startDate || new Date().toISOString(),
-          status: apiLoan.status || 'ACTIVE',
-          collectionDays: apiLoan.collectionDays || [],
-          createdAt: apiLoan.createdAt || new Date().toISOString(),
-        };
-        setLoan(convertedLoan);
-        
-        // Load real payment history
-        await loadPaymentHistory();
-      } else {
-        Alert.alert('Error', 'Failed to load loan details');
-      }
-    } catch (error) {
-      console.error('Error loading loan:', error);
+    if (loanQuery.error && !apiLoan) {
       Alert.alert('Error', 'Failed to load loan details');
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [loanQuery.error, apiLoan]);
 
-  const loadPaymentHistory = async () => {
-    try {
-      const collectionsResponse = await apiService.getCollectionsByLoan(id);
-      if (collectionsResponse.success) {
-        const convertedPayments: Payment[] = collectionsResponse.data.map((collection: PopulatedCollection) => ({
-          id: collection._id,
-          amount: collection.amount || 0,
-          date: collection.paymentDate || new Date().toISOString(),
-          type: 'INSTALLMENT',
-          notes: collection.notes,
-          installmentNumber: collection.installmentId?.installmentNumber,
-          collectorName: collection.collectorId?.name,
-        }));
-        setPayments(convertedPayments);
-        
-        // Calculate total paid from actual payment history
-        const actualTotalPaid = convertedPayments.reduce((sum, payment) => sum + payment.amount, 0);
-        setCalculatedTotalPaid(actualTotalPaid);
-        
-        // Update loan data with calculated total paid and outstanding amount
-        if (loan) {
-          setLoan(prevLoan => prevLoan ? {
-            ...prevLoan,
-            totalPaid: actualTotalPaid,
-            outstandingAmount: Math.max(0, prevLoan.principalAmount - actualTotalPaid)
-          } : null);
-        }
-      } else {
-        console.log('No payment history found or error loading payments');
-        setPayments([]);
-        setCalculatedTotalPaid(0);
-      }
-    } catch (error) {
-      console.error('Error loading payment history:', error);
-      setPayments([]);
-      setCalculatedTotalPaid(0);
-    }
-  };
+  const payments = useMemo<Payment[]>(() => {
+    return (collections || []).map((collection: PopulatedCollection) => ({
+      id: collection._id,
+      amount: collection.amount || 0,
+      date: collection.paymentDate || new Date().toISOString(),
+      type: 'INSTALLMENT',
+      notes: collection.notes,
+      installmentNumber: collection.installmentId?.installmentNumber,
+      collectorName: collection.collectorId?.name,
+    }));
+  }, [collections]);
+
+  // Calculate total paid from actual payment history
+  const calculatedTotalPaid = useMemo(() => {
+    return payments.reduce((sum, payment) => sum + payment.amount, 0);
+  }, [payments]);
+
+  const loan = useMemo<Loan | null>(() => {
+    if (!apiLoan) return null;
+    const convertedLoan: Loan = {
+      id: apiLoan._id,
+      loanNumber: apiLoan.loanNumber || 'N/A',
+      borrowerName: apiLoan.borrower?.name || 'Unknown',
+      borrowerId: apiLoan.borrower?._id || '',
+      borrowerPhone: normalizePhone(borrowerPhone) || normalizePhone(apiLoan.borrower?.phone),
+      principalAmount: apiLoan.principalAmount || 0,
+      disbursedAmount: apiLoan.disbursedAmount || 0,
+      outstandingAmount: apiLoan.outstandingAmount || 0,
+      totalPaid: apiLoan.totalPaid || 0,
+      termWeeks: apiLoan.termWeeks || 0,
+      startDate: apiLoan.startDate || new Date().toISOString(),
+      interestType: apiLoan.interestType || 'NONE',
+      interestRate: apiLoan.interestRate || 0,
+      processingFee: apiLoan.processingFee || 0,
+      insuranceFee: apiLoan.insuranceFee || 0,
+      status: apiLoan.status || 'ACTIVE',
+      collectionDays: apiLoan.collectionDays || [],
+      createdAt: apiLoan.createdAt || new Date().toISOString(),
+    };
+    if (!collections) return convertedLoan;
+
+    // Update loan data with calculated total paid and outstanding amount
+    return {
+      ...convertedLoan,
+      totalPaid: calculatedTotalPaid,
+      outstandingAmount: getOutstandingAmount(generateRepaymentSchedule(convertedLoan), calculatedTotalPaid),
+    };
+  }, [apiLoan, borrowerPhone, collections, calculatedTotalPaid]);
 
   const onRefresh = async () => {
-    setIsRefreshing(true);
-    await loadLoanData();
-    setIsRefreshing(false);
+    await Promise.all([loanQuery.refresh(), collectionsQuery.refresh(), borrowerQuery.refresh()]);
   };
 
   const handleRecordPayment = () => {
@@ -148,18 +146,28 @@ export default function LoanDetailsScreen() {
     router.push(`/loan/${id}/edit` as any);
   };
 
+  const getReminderMessage = (channel: ReminderChannel) => {
+    const nextDue = schedule ? getNextDue(schedule, calculatedTotalPaid) : null;
+    return buildReminderMessage(channel, {
+      borrowerName: loan?.borrowerName || '',
+      loanNumber: loan?.loanNumber || '',
+      dueAmount: nextDue?.amount || 0,
+      nextDueDate: nextDue?.dueDate || null,
+    }, config.app.name);
+  };
+
   const handleCallBorrower = () => {
-    // This would typically get the borrower's phone number from the API
+    const phone = loan?.borrowerPhone;
+    if (!phone) return;
     Alert.alert(
       'Call Borrower',
-      'Would you like to call the borrower?',
+      `Would you like to call ${loan?.borrowerName} on +${phone}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'Call', 
           onPress: () => {
-            // Mock phone number - would come from borrower data
-            Linking.openURL('tel:+919876543210');
+            callPhone(phone).catch(() => Alert.alert('Error', 'Unable to start a call on this device'));
           }
         },
       ]
@@ -167,24 +175,23 @@ export default function LoanDetailsScreen() {
   };
 
   const handleSendMessage = () => {
-    // This would typically open SMS or WhatsApp
+    const phone = loan?.borrowerPhone;
+    if (!phone) return;
     Alert.alert(
-      'Send Message',
-      'Would you like to send a message to the borrower?',
+      'Send Reminder',
+      `Send a payment reminder to ${loan?.borrowerName}?`,
       [
         { text: 'Cancel', style: 'cancel' },
         { 
           text: 'SMS', 
           onPress: () => {
-            // Mock phone number - would come from borrower data
-            Linking.openURL('sms:+919876543210');
+            sendSms(phone, getReminderMessage('sms')).catch(() => Alert.alert('Error', 'Unable to open messages'));
           }
         },
         { 
           text: 'WhatsApp', 
           onPress: () => {
-            // Mock phone number - would come from borrower data
-            Linking.openURL('whatsapp://send?phone=919876543210');
+            sendWhatsApp(phone, getReminderMessage('whatsapp')).catch(() => Alert.alert('Error', 'Unable to open WhatsApp'));
           }
         },
       ]
@@ -226,21 +233,25 @@ export default function LoanDetailsScreen() {
     return new Date(dateString).toLocaleDateString('en-IN');
   };
 
+  // Same schedule the loan was previewed with when it was created
+  const schedule = loan ? generateRepaymentSchedule(loan) : null;
+
   const calculateProgress = () => {
-    if (!loan) return 0;
-    const total = loan.principalAmount || 0;
+    if (!loan || !schedule) return 0;
     // Use calculated total paid from payment history instead of loan.totalPaid
     const paid = calculatedTotalPaid || loan.totalPaid || 0;
-    if (total === 0) return 0;
-    return Math.min((paid / total) * 100, 100);
+    return calculateScheduleProgress(schedule, paid);
   };
 
   const getWeeksRemaining = () => {
-    if (!loan) return 0;
-    const startDate = new Date(loan.startDate || new Date());
-    const currentDate = new Date();
-    const weeksElapsed = Math.floor((currentDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24 * 7));
-    return Math.max((loan.termWeeks || 0) - weeksElapsed, 0);
+    if (!schedule) return 0;
+    return getScheduleWeeksRemaining(schedule);
+  };
+
+  const getInterestLabel = () => {
+    if (!loan || loan.interestType === 'NONE') return 'No interest';
+    const type = loan.interestType === 'FLAT' ? 'Flat' : 'Declining';
+    return `${loan.interestRate}% p.a. (${type})`;
   };
 
   if (isLoading) {
@@ -271,13 +282,27 @@ export default function LoanDetailsScreen() {
 
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
-      <ScrollView 
-        style={styles.content} 
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => router.back()}>
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Loan Details</Text>
+        <RequirePermission action="update" resource="loan" fallback={<View style={styles.headerPlaceholder} />}>
+          <TouchableOpacity style={styles.editButton} onPress={handleEditLoan}>
+            <Ionicons name="create-outline" size={24} color={theme.primary} />
+          </TouchableOpacity>
+        </RequirePermission>
+      </View>
+
+      <ScrollView
+        style={styles.content}
         showsVerticalScrollIndicator={false}
         refreshControl={
           <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
         }
       >
+        <LastSynced syncedAt={loanQuery.syncedAt} isStale={loanQuery.isFromCache} />
+
         {/* Loan Header */}
         <View style={[styles.loanHeader, { backgroundColor: theme.card, borderColor: theme.border }]}>
           <View style={styles.loanHeaderTop}>
@@ -318,7 +343,7 @@ export default function LoanDetailsScreen() {
               />
             </View>
             <Text style={[styles.progressText, { color: theme.textSecondary }]}>
-              {formatCurrency(calculatedTotalPaid)} of {formatCurrency(loan.principalAmount)} paid
+              {formatCurrency(calculatedTotalPaid)} of {formatCurrency(schedule?.totalRepayable ?? loan.principalAmount)} paid
             </Text>
           </View>
         </View>
@@ -329,23 +354,27 @@ export default function LoanDetailsScreen() {
             Quick Actions
           </Text>
           <View style={styles.actionButtons}>
+            <RequirePermission action="create" resource="collection">
+              <TouchableOpacity
+                style={[styles.actionButton, { backgroundColor: theme.success }]}
+                onPress={handleRecordPayment}
+              >
+                <Ionicons name="cash" size={20} color={theme.buttonText} />
+                <Text style={[styles.actionText, { color: theme.buttonText }]}>Collect</Text>
+              </TouchableOpacity>
+            </RequirePermission>
             <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.success }]}
-              onPress={handleRecordPayment}
-            >
-              <Ionicons name="cash" size={20} color={theme.buttonText} />
-              <Text style={[styles.actionText, { color: theme.buttonText }]}>Collect</Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.info }]}
+              style={[styles.actionButton, { backgroundColor: theme.info, opacity: loan.borrowerPhone ? 1 : 0.5 }]}
               onPress={handleCallBorrower}
+              disabled={!loan.borrowerPhone}
             >
               <Ionicons name="call" size={20} color={theme.buttonText} />
               <Text style={[styles.actionText, { color: theme.buttonText }]}>Call</Text>
             </TouchableOpacity>
             <TouchableOpacity
-              style={[styles.actionButton, { backgroundColor: theme.warning }]}
+              style={[styles.actionButton, { backgroundColor: theme.warning, opacity: loan.borrowerPhone ? 1 : 0.5 }]}
               onPress={handleSendMessage}
+              disabled={!loan.borrowerPhone}
             >
               <Ionicons name="chatbubble" size={20} color={theme.buttonText} />
               <Text style={[styles.actionText, { color: theme.buttonText }]}>Message</Text>
@@ -367,7 +396,7 @@ export default function LoanDetailsScreen() {
             </View>
             <View style={[styles.statCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
               <Text style={[styles.statNumber, { color: theme.warning }]}>
-                {formatCurrency(Math.max(0, loan.principalAmount - calculatedTotalPaid))}
+                {formatCurrency(schedule ? getOutstandingAmount(schedule, calculatedTotalPaid) : 0)}
               </Text>
               <Text style={[styles.statLabel, { color: theme.textSecondary }]}>Outstanding</Text>
             </View>
@@ -412,6 +441,20 @@ export default function LoanDetailsScreen() {
                 {formatCurrency(loan.disbursedAmount)}
               </Text>
             </View>
+            <View style={styles.detailRow}>
+              <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Interest</Text>
+              <Text style={[styles.detailValue, { color: theme.text }]}>
+                {getInterestLabel()}
+              </Text>
+            </View>
+            {(loan.processingFee > 0 || loan.insuranceFee > 0) && (
+              <View style={styles.detailRow}>
+                <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Fees Deducted</Text>
+                <Text style={[styles.detailValue, { color: theme.text }]}>
+                  {formatCurrency(loan.processingFee + loan.insuranceFee)}
+                </Text>
+              </View>
+            )}
             <View style={styles.detailRow}>
               <Text style={[styles.detailLabel, { color: theme.textMuted }]}>Term</Text>
               <Text style={[styles.detailValue, { color: theme.text }]}>
@@ -553,6 +596,9 @@ const styles = StyleSheet.create({
   editButton: {
     padding: 4,
   },
+  headerPlaceholder: {
+    width: 32,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
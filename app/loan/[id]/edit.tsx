@@ -0,0 +1,834 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { router, useLocalSearchParams } from 'expo-router';
+import { apiService, Loan as ApiLoan, UpdateLoanData } from '@/lib/api';
+import { getErrorMessage, getFieldErrors } from '@/lib/errors';
+import { InterestType } from '@/lib/loan-schedule';
+import RequirePermission from '@/components/RequirePermission';
+import { useUpdateLoan } from '@/hooks/useLoans';
+
+type LoanStatus = ApiLoan['status'];
+
+interface LoanEditForm {
+  principalAmount: string;
+  disbursedAmount: string;
+  termWeeks: string;
+  startDate: string;
+  interestType: InterestType;
+  interestRate: string;
+  processingFee: string;
+  insuranceFee: string;
+  collectionDays: string[];
+  status: LoanStatus;
+  reason: string;
+}
+
+type LoanEditErrors = Partial<Record<keyof LoanEditForm, string>>;
+
+const FORM_FIELDS: (keyof LoanEditForm)[] = [
+  'principalAmount',
+  'disbursedAmount',
+  'termWeeks',
+  'startDate',
+  'interestType',
+  'interestRate',
+  'processingFee',
+  'insuranceFee',
+  'collectionDays',
+  'status',
+  'reason',
+];
+
+const toForm = (loan: ApiLoan): LoanEditForm => ({
+  principalAmount: String(loan.principalAmount || ''),
+  disbursedAmount: String(loan.disbursedAmount || ''),
+  termWeeks: String(loan.termWeeks || ''),
+  startDate: (loan.startDate || '').split('T')[0],
+  interestType: loan.interestType || 'NONE',
+  interestRate: loan.interestRate ? String(loan.interestRate) : '',
+  processingFee: loan.processingFee ? String(loan.processingFee) : '',
+  insuranceFee: loan.insuranceFee ? String(loan.insuranceFee) : '',
+  collectionDays: loan.collectionDays || [],
+  status: loan.status || 'ACTIVE',
+  reason: '',
+});
+
+export default function EditLoanRoute() {
+  return (
+    <RequirePermission action="update" resource="loan" screen>
+      <EditLoanScreen />
+    </RequirePermission>
+  );
+}
+
+function EditLoanScreen() {
+  const { theme } = useThemeContext();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const updateLoan = useUpdateLoan();
+  const [loan, setLoan] = useState<ApiLoan | null>(null);
+  const [original, setOriginal] = useState<LoanEditForm | null>(null);
+  const [formData, setFormData] = useState<LoanEditForm | null>(null);
+  const [errors, setErrors] = useState<LoanEditErrors>({});
+  const [hasCollections, setHasCollections] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (id) {
+      loadLoan();
+    }
+  }, [id]);
+
+  const loadLoan = async () => {
+    setIsLoading(true);
+    try {
+      const [loanResponse, collectionsResponse] = await Promise.all([
+        apiService.getLoan(id),
+        apiService.getCollectionsByLoan(id, { page: 1, limit: 1 }),
+      ]);
+
+      if (!loanResponse.success) {
+        Alert.alert('Error', 'Failed to load loan details');
+        return;
+      }
+
+      const form = toForm(loanResponse.data);
+      setLoan(loanResponse.data);
+      setOriginal(form);
+      setFormData(form);
+      // If collections can't be checked, assume they exist so the terms stay locked
+      setHasCollections(
+        !collectionsResponse.success ||
+        collectionsResponse.data.length > 0 ||
+        (loanResponse.data.totalPaid || 0) > 0
+      );
+    } catch (error) {
+      console.error('Error loading loan:', error);
+      Alert.alert('Error', 'Failed to load loan details');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateField = <K extends keyof LoanEditForm>(field: K, value: LoanEditForm[K]) => {
+    setFormData(prev => prev ? { ...prev, [field]: value } : prev);
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: undefined }));
+    }
+  };
+
+  const handleCurrencyChange = (field: 'principalAmount' | 'disbursedAmount' | 'processingFee' | 'insuranceFee', value: string) => {
+    updateField(field, value.replace(/\D/g, ''));
+  };
+
+  const toggleCollectionDay = (day: string) => {
+    if (!formData) return;
+    const currentDays = formData.collectionDays;
+    const newDays = currentDays.includes(day)
+      ? currentDays.filter(d => d !== day)
+      : [...currentDays, day];
+    updateField('collectionDays', newDays);
+  };
+
+  // Only the fields the user actually changed are sent
+  const getChanges = (): Omit<UpdateLoanData, 'reason'> => {
+    if (!formData || !original) return {};
+    const changes: Omit<UpdateLoanData, 'reason'> = {};
+
+    if (!hasCollections) {
+      if (formData.principalAmount !== original.principalAmount) changes.principalAmount = parseFloat(formData.principalAmount);
+      if (formData.disbursedAmount !== original.disbursedAmount) changes.disbursedAmount = parseFloat(formData.disbursedAmount);
+      if (formData.termWeeks !== original.termWeeks) changes.termWeeks = parseInt(formData.termWeeks);
+      if (formData.startDate !== original.startDate) changes.startDate = formData.startDate;
+      if (formData.interestType !== original.interestType) changes.interestType = formData.interestType;
+      if (formData.interestRate !== original.interestRate) changes.interestRate = parseFloat(formData.interestRate) || 0;
+      if (formData.processingFee !== original.processingFee) changes.processingFee = parseFloat(formData.processingFee) || 0;
+      if (formData.insuranceFee !== original.insuranceFee) changes.insuranceFee = parseFloat(formData.insuranceFee) || 0;
+    }
+
+    const sortedDays = [...formData.collectionDays].sort().join(',');
+    if (sortedDays !== [...original.collectionDays].sort().join(',')) changes.collectionDays = formData.collectionDays;
+    if (formData.status !== original.status) changes.status = formData.status;
+
+    return changes;
+  };
+
+  const validateForm = (): boolean => {
+    if (!formData) return false;
+    const newErrors: LoanEditErrors = {};
+
+    if (!hasCollections) {
+      const principal = parseFloat(formData.principalAmount);
+      if (isNaN(principal) || principal <= 0) {
+        newErrors.principalAmount = 'Please enter a valid amount';
+      }
+
+      const disbursed = parseFloat(formData.disbursedAmount);
+      if (isNaN(disbursed) || disbursed <= 0) {
+        newErrors.disbursedAmount = 'Please enter a valid amount';
+      }
+
+      const weeks = parseInt(formData.termWeeks);
+      if (isNaN(weeks) || weeks <= 0) {
+        newErrors.termWeeks = 'Please enter a valid term';
+      }
+
+      if (!formData.startDate || isNaN(new Date(formData.startDate).getTime())) {
+        newErrors.startDate = 'Please enter a valid date (YYYY-MM-DD)';
+      }
+
+      if (formData.interestType !== 'NONE') {
+        const rate = parseFloat(formData.interestRate);
+        if (isNaN(rate) || rate <= 0 || rate > 100) {
+          newErrors.interestRate = 'Please enter a rate between 0 and 100';
+        }
+      }
+    }
+
+    if (formData.collectionDays.length === 0) {
+      newErrors.collectionDays = 'Please select at least one collection day';
+    }
+
+    if (!formData.reason.trim()) {
+      newErrors.reason = 'Please give a reason for this change';
+    } else if (formData.reason.trim().length < 5) {
+      newErrors.reason = 'Reason is too short';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    const changes = getChanges();
+    if (Object.keys(changes).length === 0) {
+      Alert.alert('No Changes', 'Nothing has been changed on this loan.');
+      return;
+    }
+
+    if (!validateForm() || !formData) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const response = await updateLoan.mutate(id, { ...changes, reason: formData.reason.trim() });
+      if (response.success) {
+        Alert.alert(
+          'Success',
+          'Loan updated successfully!',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+      } else {
+        Alert.alert('Error', response.error || 'Failed to update loan');
+      }
+    } catch (error) {
+      console.error('Error updating loan:', error);
+      const fieldErrors = getFieldErrors(error, FORM_FIELDS);
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(error, 'Failed to update loan. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const formatCurrency = (amount: string) => {
+    if (!amount || amount.trim() === '') return '';
+    const num = parseFloat(amount);
+    if (isNaN(num) || num <= 0) return '';
+    return num.toLocaleString('en-IN');
+  };
+
+  const collectionDays = [
+    { key: 'monday', label: 'Monday' },
+    { key: 'tuesday', label: 'Tuesday' },
+    { key: 'wednesday', label: 'Wednesday' },
+    { key: 'thursday', label: 'Thursday' },
+    { key: 'friday', label: 'Friday' },
+    { key: 'saturday', label: 'Saturday' },
+    { key: 'sunday', label: 'Sunday' },
+  ];
+
+  const statuses: { key: LoanStatus; label: string; color: string }[] = [
+    { key: 'ACTIVE', label: 'Active', color: theme.success },
+    { key: 'COMPLETED', label: 'Completed', color: theme.info },
+    { key: 'DEFAULTED', label: 'Defaulted', color: theme.error },
+  ];
+
+  const interestTypes: { key: InterestType; label: string }[] = [
+    { key: 'NONE', label: 'No Interest' },
+    { key: 'FLAT', label: 'Flat Rate' },
+    { key: 'DECLINING', label: 'Declining' },
+  ];
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size="large" color={theme.primary} />
+          <Text style={[styles.loadingText, { color: theme.textSecondary }]}>
+            Loading loan details...
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!loan || !formData) {
+    return (
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.centerContainer}>
+          <Ionicons name="alert-circle" size={48} color={theme.error} />
+          <Text style={[styles.loadingText, { color: theme.text }]}>
+            Loan not found
+          </Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const renderCurrencyField = (
+    field: 'principalAmount' | 'disbursedAmount' | 'processingFee' | 'insuranceFee',
+    label: string,
+    icon: string
+  ) => (
+    <View style={styles.fieldContainer}>
+      <View style={styles.fieldHeader}>
+        <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+          <Ionicons name={icon as any} size={16} color={theme.primary} />
+        </View>
+        <Text style={[styles.fieldLabel, { color: theme.text }]}>
+          {label}
+        </Text>
+        {hasCollections && (
+          <Ionicons name="lock-closed" size={14} color={theme.textMuted} style={styles.lockIcon} />
+        )}
+      </View>
+      <View
+        style={[
+          styles.currencyInputContainer,
+          {
+            borderColor: errors[field] ? theme.error : theme.border,
+            backgroundColor: hasCollections ? theme.surface : theme.background,
+          }
+        ]}
+      >
+        <Text style={[styles.currencySymbol, { color: theme.textMuted }]}>₹</Text>
+        <TextInput
+          style={[styles.currencyInput, { color: hasCollections ? theme.textMuted : theme.text }]}
+          placeholder="0"
+          placeholderTextColor={theme.textMuted}
+          value={formatCurrency(formData[field])}
+          onChangeText={(text) => handleCurrencyChange(field, text)}
+          keyboardType="numeric"
+          editable={!hasCollections}
+        />
+      </View>
+      {errors[field] && (
+        <Text style={[styles.errorText, { color: theme.error }]}>
+          {errors[field]}
+        </Text>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Edit Loan</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Loan Summary */}
+        <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Text style={[styles.summaryTitle, { color: theme.text }]}>{loan.loanNumber}</Text>
+          <Text style={[styles.summarySubtitle, { color: theme.textSecondary }]}>{loan.borrower?.name}</Text>
+        </View>
+
+        {hasCollections && (
+          <View style={[styles.noticeCard, { backgroundColor: theme.warning + '20', borderColor: theme.warning }]}>
+            <Ionicons name="information-circle" size={20} color={theme.warning} />
+            <Text style={[styles.noticeText, { color: theme.text }]}>
+              Payments have already been collected on this loan, so the amount, start date and interest terms are locked.
+            </Text>
+          </View>
+        )}
+
+        {/* Loan Terms */}
+        <View style={styles.formSection}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            Loan Terms
+          </Text>
+
+          {renderCurrencyField('principalAmount', 'Principal Amount', 'cash')}
+          {renderCurrencyField('disbursedAmount', 'Disbursed Amount', 'card')}
+
+          {/* Loan Term */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="calendar" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Loan Term (Weeks)
+              </Text>
+              {hasCollections && (
+                <Ionicons name="lock-closed" size={14} color={theme.textMuted} style={styles.lockIcon} />
+              )}
+            </View>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  color: hasCollections ? theme.textMuted : theme.text,
+                  borderColor: errors.termWeeks ? theme.error : theme.border,
+                  backgroundColor: hasCollections ? theme.surface : theme.background,
+                }
+              ]}
+              placeholder="12"
+              placeholderTextColor={theme.textMuted}
+              value={formData.termWeeks}
+              onChangeText={(text) => updateField('termWeeks', text.replace(/\D/g, ''))}
+              keyboardType="numeric"
+              editable={!hasCollections}
+            />
+            {errors.termWeeks && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.termWeeks}
+              </Text>
+            )}
+          </View>
+
+          {/* Start Date */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="today" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Start Date
+              </Text>
+              {hasCollections && (
+                <Ionicons name="lock-closed" size={14} color={theme.textMuted} style={styles.lockIcon} />
+              )}
+            </View>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  color: hasCollections ? theme.textMuted : theme.text,
+                  borderColor: errors.startDate ? theme.error : theme.border,
+                  backgroundColor: hasCollections ? theme.surface : theme.background,
+                }
+              ]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={theme.textMuted}
+              value={formData.startDate}
+              onChangeText={(text) => updateField('startDate', text)}
+              editable={!hasCollections}
+            />
+            {errors.startDate && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.startDate}
+              </Text>
+            )}
+          </View>
+
+          {/* Interest */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="trending-up" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Interest
+              </Text>
+              {hasCollections && (
+                <Ionicons name="lock-closed" size={14} color={theme.textMuted} style={styles.lockIcon} />
+              )}
+            </View>
+            <View style={styles.chipRow}>
+              {interestTypes.map((type) => (
+                <TouchableOpacity
+                  key={type.key}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: formData.interestType === type.key ? theme.primary + '10' : theme.background,
+                      borderColor: formData.interestType === type.key ? theme.primary : theme.border,
+                      opacity: hasCollections ? 0.6 : 1,
+                    }
+                  ]}
+                  onPress={() => updateField('interestType', type.key)}
+                  disabled={hasCollections}
+                >
+                  <Text style={[styles.chipText, { color: formData.interestType === type.key ? theme.primary : theme.text }]}>
+                    {type.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {formData.interestType !== 'NONE' && (
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    color: hasCollections ? theme.textMuted : theme.text,
+                    borderColor: errors.interestRate ? theme.error : theme.border,
+                    backgroundColor: hasCollections ? theme.surface : theme.background,
+                    marginTop: 8,
+                  }
+                ]}
+                placeholder="Annual rate % (e.g. 24)"
+                placeholderTextColor={theme.textMuted}
+                value={formData.interestRate}
+                onChangeText={(text) => updateField('interestRate', text.replace(/[^0-9.]/g, ''))}
+                keyboardType="decimal-pad"
+                editable={!hasCollections}
+              />
+            )}
+            {errors.interestRate && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.interestRate}
+              </Text>
+            )}
+          </View>
+
+          {renderCurrencyField('processingFee', 'Processing Fee', 'receipt')}
+          {renderCurrencyField('insuranceFee', 'Insurance Deduction', 'shield-checkmark')}
+        </View>
+
+        {/* Collection & Status */}
+        <View style={styles.formSection}>
+          <Text style={[styles.sectionTitle, { color: theme.text }]}>
+            Collection & Status
+          </Text>
+
+          {/* Collection Days */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="calendar" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Collection Days
+              </Text>
+            </View>
+            <View style={styles.chipRow}>
+              {collectionDays.map((day) => (
+                <TouchableOpacity
+                  key={day.key}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: formData.collectionDays.includes(day.key) ? theme.primary + '10' : theme.background,
+                      borderColor: formData.collectionDays.includes(day.key) ? theme.primary : theme.border,
+                    }
+                  ]}
+                  onPress={() => toggleCollectionDay(day.key)}
+                >
+                  <Text style={[styles.chipText, { color: formData.collectionDays.includes(day.key) ? theme.primary : theme.text }]}>
+                    {day.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {errors.collectionDays && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.collectionDays}
+              </Text>
+            )}
+          </View>
+
+          {/* Status */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="flag" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Status
+              </Text>
+            </View>
+            <View style={styles.chipRow}>
+              {statuses.map((status) => (
+                <TouchableOpacity
+                  key={status.key}
+                  style={[
+                    styles.chip,
+                    {
+                      backgroundColor: formData.status === status.key ? status.color + '20' : theme.background,
+                      borderColor: formData.status === status.key ? status.color : theme.border,
+                    }
+                  ]}
+                  onPress={() => updateField('status', status.key)}
+                >
+                  <Text style={[styles.chipText, { color: formData.status === status.key ? status.color : theme.text }]}>
+                    {status.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Reason */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="create" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Reason for Change
+              </Text>
+            </View>
+            <TextInput
+              style={[
+                styles.textArea,
+                {
+                  color: theme.text,
+                  borderColor: errors.reason ? theme.error : theme.border,
+                  backgroundColor: theme.background,
+                }
+              ]}
+              placeholder="e.g. Borrower moved to a different market day"
+              placeholderTextColor={theme.textMuted}
+              value={formData.reason}
+              onChangeText={(text) => updateField('reason', text)}
+              multiline
+              numberOfLines={3}
+            />
+            {errors.reason && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.reason}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Submit Button */}
+        <View style={styles.submitSection}>
+          <TouchableOpacity
+            style={[
+              styles.submitButton,
+              {
+                backgroundColor: isSubmitting ? theme.textMuted : theme.primary,
+                opacity: isSubmitting ? 0.7 : 1,
+              }
+            ]}
+            onPress={handleSubmit}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <View style={styles.submitContainer}>
+                <ActivityIndicator size="small" color={theme.buttonText} />
+                <Text style={[styles.submitText, { color: theme.buttonText }]}>
+                  Saving...
+                </Text>
+              </View>
+            ) : (
+              <View style={styles.submitContainer}>
+                <Ionicons name="checkmark" size={20} color={theme.buttonText} />
+                <Text style={[styles.submitText, { color: theme.buttonText }]}>
+                  Save Changes
+                </Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 16,
+  },
+  summaryCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  summarySubtitle: {
+    fontSize: 14,
+  },
+  noticeCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 8,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  formSection: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 16,
+  },
+  fieldContainer: {
+    marginBottom: 20,
+  },
+  fieldHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  fieldIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  fieldLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  lockIcon: {
+    marginLeft: 8,
+  },
+  currencyInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  currencySymbol: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  currencyInput: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  textArea: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderRadius: 20,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 4,
+    marginLeft: 44,
+  },
+  submitSection: {
+    marginTop: 8,
+    marginBottom: 40,
+  },
+  submitButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  submitContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  submitText: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
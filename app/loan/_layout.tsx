@@ -6,6 +6,7 @@ export default function LoanLayout() {
       <Stack.Screen name="new" />
       <Stack.Screen name="payment-history" />
       <Stack.Screen name="[id]" />
+      <Stack.Screen name="[id]/edit" />
     </Stack>
   );
 } 
\ No newline at end of file
@@ -13,8 +13,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { router, useLocalSearchParams } from 'expo-router';
-import { apiService, Borrower as ApiBorrower, CreateLoanData } from '@/lib/api';
-import { config } from '@/lib/config';
+import { apiService, createIdempotencyKey, Borrower as ApiBorrower, CreateLoanData } from '@/lib/api';
+import { getErrorMessage, getFieldErrors, OutcomeUnknownError } from '@/lib/errors';
+import { offlineQueue, isNetworkError } from '@/lib/offline-queue';
+import { generateRepaymentSchedule, InterestType } from '@/lib/loan-schedule';
+import RequirePermission from '@/components/RequirePermission';
+import { useCreateLoan } from '@/hooks/useLoans';
 
 interface Borrower {
   id: string;
@@ -30,11 +34,48 @@ interface LoanForm {
   disbursedAmount: string;
   termWeeks: string;
   startDate: string;
+  interestType: InterestType;
+  interestRate: string;
+  processingFee: string;
+  insuranceFee: string;
   collectionDays: string[];
 }
 
-export default function NewLoanScreen() {
+type LoanFormErrors = {
+  borrowerId?: string;
+  principalAmount?: string;
+  disbursedAmount?: string;
+  termWeeks?: string;
+  startDate?: string;
+  interestRate?: string;
+  processingFee?: string;
+  insuranceFee?: string;
+  collectionDays?: string;
+};
+
+const FORM_FIELDS: (keyof LoanFormErrors)[] = [
+  'borrowerId',
+  'principalAmount',
+  'disbursedAmount',
+  'termWeeks',
+  'startDate',
+  'interestRate',
+  'processingFee',
+  'insuranceFee',
+  'collectionDays',
+];
+
+export default function NewLoanRoute() {
+  return (
+    <RequirePermission action="create" resource="loan" screen>
+      <NewLoanScreen />
+    </RequirePermission>
+  );
+}
+
+function NewLoanScreen() {
   const { theme } = useThemeContext();
+  const createLoan = useCreateLoan();
   const { borrowerId } = useLocalSearchParams<{ borrowerId?: string }>();
   const [formData, setFormData] = useState<LoanForm>({
     borrowerId: '',
@@ -42,16 +83,15 @@ export default function NewLoanScreen() {
     disbursedAmount: '',
     termWeeks: '',
     startDate: new Date().toISOString().split('T')[0], // Today's date
+    interestType: 'NONE',
+    interestRate: '',
+    processingFee: '',
+    insuranceFee: '',
     collectionDays: ['monday'], // Default to Monday
   });
-  const [errors, setErrors] = useState<{
-    borrowerId?: string;
-    principalAmount?: string;
-    disbursedAmount?: string;
-    termWeeks?: string;
-    startDate?: string;
-    collectionDays?: string;
-  }>({});
+  const [errors, setErrors] = useState<LoanFormErrors>({});
+  const [isDisbursedEdited, setIsDisbursedEdited] = useState(false);
+  const [showFullSchedule, setShowFullSchedule] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [borrowers, setBorrowers] = useState<Borrower[]>([]);
   const [isLoadingBorrowers, setIsLoadingBorrowers] = useState(false);
@@ -95,14 +135,7 @@ export default function NewLoanScreen() {
   };
 
   const validateForm = (): boolean => {
-    const newErrors: {
-      borrowerId?: string;
-      principalAmount?: string;
-      disbursedAmount?: string;
-      termWeeks?: string;
-      startDate?: string;
-      collectionDays?: string;
-    } = {};
+    const newErrors: LoanFormErrors = {};
 
     if (!formData.borrowerId) {
       newErrors.borrowerId = 'Please select a borrower';
@@ -137,6 +170,23 @@ export default function NewLoanScreen() {
 
     if (!formData.startDate) {
       newErrors.startDate = 'Start date is required';
+    } else if (isNaN(new Date(formData.startDate).getTime())) {
+      newErrors.startDate = 'Please enter a valid date (YYYY-MM-DD)';
+    }
+
+    if (formData.interestType !== 'NONE') {
+      const rate = parseFloat(formData.interestRate);
+      if (!formData.interestRate) {
+        newErrors.interestRate = 'Interest rate is required';
+      } else if (isNaN(rate) || rate <= 0 || rate > 100) {
+        newErrors.interestRate = 'Please enter a rate between 0 and 100';
+      }
+    }
+
+    const principal = parseFloat(formData.principalAmount) || 0;
+    const fees = (parseFloat(formData.processingFee) || 0) + (parseFloat(formData.insuranceFee) || 0);
+    if (principal > 0 && fees >= principal) {
+      newErrors.processingFee = 'Fees must be less than the principal amount';
     }
 
     if (formData.collectionDays.length === 0) {
@@ -159,6 +209,9 @@ export default function NewLoanScreen() {
     }
 
     setIsSubmitting(true);
+    let loanData: CreateLoanData | null = null;
+    // One key for this loan, kept if it has to be replayed later
+    const idempotencyKey = createIdempotencyKey();
     try {
       // Validate data before sending
       const principalAmount = parseFloat(formData.principalAmount);
@@ -180,26 +233,24 @@ export default function NewLoanScreen() {
         return;
       }
 
-      const loanData: CreateLoanData = {
+      loanData = {
         borrowerId: formData.borrowerId,
         principalAmount,
         disbursedAmount,
         termWeeks,
         startDate: formData.startDate,
+        interestType: formData.interestType,
+        interestRate: formData.interestType === 'NONE' ? 0 : parseFloat(formData.interestRate) || 0,
+        processingFee: parseFloat(formData.processingFee) || 0,
+        insuranceFee: parseFloat(formData.insuranceFee) || 0,
         collectionDays: formData.collectionDays,
       };
 
-      console.log('Creating loan with data:', loanData);
-      console.log('API URL:', `${config.api.baseUrl}/loans`);
-      console.log('Auth token:', apiService.getToken() ? 'Present' : 'Missing');
-
       // Refresh token before making API call
       await apiService.refreshToken();
-      console.log('Auth token after refresh:', apiService.getToken() ? 'Present' : 'Missing');
 
-      const response = await apiService.createLoan(loanData);
-      console.log('API Response:', response);
-      
+      const response = await createLoan.mutate(loanData, { idempotencyKey });
+
       if (response.success) {
         Alert.alert(
           'Success',
@@ -217,38 +268,72 @@ export default function NewLoanScreen() {
       }
     } catch (error) {
       console.error('Error creating loan:', error);
-      let errorMessage = 'Failed to create loan. Please try again.';
-      
-      if (error instanceof Error) {
-        console.error('Error details:', {
-          message: error.message,
-          name: error.name,
-          stack: error.stack
-        });
-        
-        if (error.message.includes('timeout')) {
-          errorMessage = 'Request timeout - server not responding. Please try again.';
-        } else if (error.message.includes('Network request failed')) {
-          errorMessage = 'Network error - please check your connection and try again.';
-        } else {
-          errorMessage = error.message;
-        }
+      if (loanData && error instanceof OutcomeUnknownError) {
+        await offlineQueue.enqueue('createLoan', loanData, { idempotencyKey, outcomeUnknown: true });
+        Alert.alert(
+          'Loan Not Confirmed',
+          'The server did not confirm this loan. It may already be saved. Do not create it again - it will be checked automatically and appears under Offline Sync until then.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
       }
-      
-      Alert.alert('Error', errorMessage);
+      if (loanData && offlineQueue.isEnabled() && isNetworkError(error)) {
+        await offlineQueue.enqueue('createLoan', loanData, { idempotencyKey });
+        Alert.alert(
+          'Saved Offline',
+          'No connection right now. The loan is saved on this device and will sync automatically when you are back online.',
+          [
+            {
+              text: 'OK',
+              onPress: () => router.back(),
+            },
+          ]
+        );
+        return;
+      }
+
+      const fieldErrors = getFieldErrors(error, FORM_FIELDS);
+      if (Object.keys(fieldErrors).length > 0) {
+        setErrors(fieldErrors);
+        return;
+      }
+      Alert.alert('Error', getErrorMessage(error, 'Failed to create loan. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
   };
 
   // Ensure collectionDays is always an array
-  const updateStringField = (field: 'borrowerId' | 'principalAmount' | 'disbursedAmount' | 'termWeeks' | 'startDate', value: string) => {
-    setFormData(prev => ({ ...prev, [field]: value }));
+  const updateStringField = (
+    field: 'borrowerId' | 'principalAmount' | 'disbursedAmount' | 'termWeeks' | 'startDate' | 'interestRate' | 'processingFee' | 'insuranceFee',
+    value: string
+  ) => {
+    setFormData(prev => {
+      const next = { ...prev, [field]: value };
+      // Keep the disbursed amount at principal minus fees until the user overrides it
+      if (!isDisbursedEdited && (field === 'principalAmount' || field === 'processingFee' || field === 'insuranceFee')) {
+        const net = (parseFloat(next.principalAmount) || 0) - (parseFloat(next.processingFee) || 0) - (parseFloat(next.insuranceFee) || 0);
+        next.disbursedAmount = net > 0 ? String(net) : '';
+      }
+      return next;
+    });
     if (errors[field]) {
       setErrors(prev => ({ ...prev, [field]: undefined }));
     }
   };
 
+  const selectInterestType = (interestType: InterestType) => {
+    setFormData(prev => ({ ...prev, interestType }));
+    if (errors.interestRate) {
+      setErrors(prev => ({ ...prev, interestRate: undefined }));
+    }
+  };
+
   const updateCollectionDays = (value: string[]) => {
     setFormData(prev => ({ ...prev, collectionDays: value }));
     if (errors.collectionDays) {
@@ -290,11 +375,36 @@ export default function NewLoanScreen() {
     return num.toLocaleString('en-IN');
   };
 
-  const handleCurrencyChange = (field: 'principalAmount' | 'disbursedAmount', value: string) => {
+  const handleCurrencyChange = (field: 'principalAmount' | 'disbursedAmount' | 'processingFee' | 'insuranceFee', value: string) => {
     const digits = value.replace(/\D/g, '');
+    if (field === 'disbursedAmount') {
+      setIsDisbursedEdited(true);
+    }
     updateStringField(field, digits);
   };
 
+  const formatRupees = (amount: number) => {
+    return `₹${amount.toLocaleString('en-IN')}`;
+  };
+
+  const interestTypes: { key: InterestType; label: string }[] = [
+    { key: 'NONE', label: 'No Interest' },
+    { key: 'FLAT', label: 'Flat Rate' },
+    { key: 'DECLINING', label: 'Declining' },
+  ];
+
+  // Preview of the weekly installments before the loan is submitted
+  const schedule = generateRepaymentSchedule({
+    principalAmount: parseFloat(formData.principalAmount) || 0,
+    termWeeks: parseInt(formData.termWeeks) || 0,
+    startDate: formData.startDate,
+    interestType: formData.interestType,
+    interestRate: parseFloat(formData.interestRate) || 0,
+    processingFee: parseFloat(formData.processingFee) || 0,
+    insuranceFee: parseFloat(formData.insuranceFee) || 0,
+  });
+  const previewInstallments = showFullSchedule ? schedule.installments : schedule.installments.slice(0, 4);
+
   const collectionDays = [
     { key: 'monday', label: 'Monday' },
     { key: 'tuesday', label: 'Tuesday' },
@@ -510,6 +620,129 @@ export default function NewLoanScreen() {
             )}
           </View>
 
+          {/* Interest Type */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="trending-up" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Interest
+              </Text>
+            </View>
+            <View style={styles.interestTypeContainer}>
+              {interestTypes.map((type) => (
+                <TouchableOpacity
+                  key={type.key}
+                  style={[
+                    styles.collectionDayButton,
+                    {
+                      backgroundColor: formData.interestType === type.key ? theme.primary + '10' : theme.background,
+                      borderColor: formData.interestType === type.key ? theme.primary : theme.border,
+                    }
+                  ]}
+                  onPress={() => selectInterestType(type.key)}
+                >
+                  <Text style={[styles.collectionDayText, { color: formData.interestType === type.key ? theme.primary : theme.text }]}>
+                    {type.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {formData.interestType !== 'NONE' && (
+              <TextInput
+                style={[
+                  styles.textInput,
+                  {
+                    color: theme.text,
+                    borderColor: errors.interestRate ? theme.error : theme.border,
+                    backgroundColor: theme.background,
+                    marginTop: 8,
+                  }
+                ]}
+                placeholder="Annual rate % (e.g. 24)"
+                placeholderTextColor={theme.textMuted}
+                value={formData.interestRate}
+                onChangeText={(text) => updateStringField('interestRate', text.replace(/[^0-9.]/g, ''))}
+                keyboardType="decimal-pad"
+              />
+            )}
+            {errors.interestRate && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.interestRate}
+              </Text>
+            )}
+          </View>
+
+          {/* Fees */}
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="receipt" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Processing Fee
+              </Text>
+            </View>
+            <View style={styles.currencyInputContainer}>
+              <Text style={[styles.currencySymbol, { color: theme.textMuted }]}>₹</Text>
+              <TextInput
+                style={[
+                  styles.currencyInput,
+                  {
+                    color: theme.text,
+                    borderColor: errors.processingFee ? theme.error : theme.border,
+                    backgroundColor: theme.background,
+                  }
+                ]}
+                placeholder="0"
+                placeholderTextColor={theme.textMuted}
+                value={formData.processingFee ? formatCurrency(formData.processingFee) : ''}
+                onChangeText={(text) => handleCurrencyChange('processingFee', text)}
+                keyboardType="numeric"
+              />
+            </View>
+            {errors.processingFee && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.processingFee}
+              </Text>
+            )}
+          </View>
+
+          <View style={styles.fieldContainer}>
+            <View style={styles.fieldHeader}>
+              <View style={[styles.fieldIcon, { backgroundColor: theme.primary + '20' }]}>
+                <Ionicons name="shield-checkmark" size={16} color={theme.primary} />
+              </View>
+              <Text style={[styles.fieldLabel, { color: theme.text }]}>
+                Insurance Deduction
+              </Text>
+            </View>
+            <View style={styles.currencyInputContainer}>
+              <Text style={[styles.currencySymbol, { color: theme.textMuted }]}>₹</Text>
+              <TextInput
+                style={[
+                  styles.currencyInput,
+                  {
+                    color: theme.text,
+                    borderColor: errors.insuranceFee ? theme.error : theme.border,
+                    backgroundColor: theme.background,
+                  }
+                ]}
+                placeholder="0"
+                placeholderTextColor={theme.textMuted}
+                value={formData.insuranceFee ? formatCurrency(formData.insuranceFee) : ''}
+                onChangeText={(text) => handleCurrencyChange('insuranceFee', text)}
+                keyboardType="numeric"
+              />
+            </View>
+            {errors.insuranceFee && (
+              <Text style={[styles.errorText, { color: theme.error }]}>
+                {errors.insuranceFee}
+              </Text>
+            )}
+          </View>
+
           {/* Collection Days */}
           <View style={styles.fieldContainer}>
             <View style={styles.fieldHeader}>
@@ -547,6 +780,75 @@ export default function NewLoanScreen() {
           </View>
         </View>
 
+        {/* Repayment Preview */}
+        {schedule.installments.length > 0 && (
+          <View style={styles.formSection}>
+            <Text style={[styles.sectionTitle, { color: theme.text }]}>
+              Repayment Preview
+            </Text>
+            <View style={[styles.previewCard, { borderColor: theme.border, backgroundColor: theme.surface }]}>
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Weekly Installment</Text>
+                <Text style={[styles.previewValue, { color: theme.text }]}>
+                  {formatRupees(schedule.installments[0].amount)}
+                </Text>
+              </View>
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Total Interest</Text>
+                <Text style={[styles.previewValue, { color: theme.text }]}>
+                  {formatRupees(schedule.totalInterest)}
+                </Text>
+              </View>
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Total Repayable</Text>
+                <Text style={[styles.previewValue, { color: theme.text }]}>
+                  {formatRupees(schedule.totalRepayable)}
+                </Text>
+              </View>
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Fees Deducted</Text>
+                <Text style={[styles.previewValue, { color: theme.text }]}>
+                  {formatRupees(schedule.totalFees)}
+                </Text>
+              </View>
+              <View style={styles.previewRow}>
+                <Text style={[styles.previewLabel, { color: theme.textSecondary }]}>Net Disbursement</Text>
+                <Text style={[styles.previewValue, { color: theme.success }]}>
+                  {formatRupees(schedule.netDisbursement)}
+                </Text>
+              </View>
+            </View>
+
+            <View style={[styles.scheduleTable, { borderColor: theme.border }]}>
+              <View style={[styles.scheduleRow, { borderBottomColor: theme.border, backgroundColor: theme.surface }]}>
+                <Text style={[styles.scheduleCellSmall, styles.scheduleHeaderText, { color: theme.textSecondary }]}>#</Text>
+                <Text style={[styles.scheduleCell, styles.scheduleHeaderText, { color: theme.textSecondary }]}>Due</Text>
+                <Text style={[styles.scheduleCell, styles.scheduleHeaderText, { color: theme.textSecondary }]}>Principal</Text>
+                <Text style={[styles.scheduleCell, styles.scheduleHeaderText, { color: theme.textSecondary }]}>Interest</Text>
+                <Text style={[styles.scheduleCell, styles.scheduleHeaderText, { color: theme.textSecondary }]}>Amount</Text>
+              </View>
+              {previewInstallments.map((installment) => (
+                <View key={installment.installmentNumber} style={[styles.scheduleRow, { borderBottomColor: theme.border }]}>
+                  <Text style={[styles.scheduleCellSmall, { color: theme.text }]}>{installment.installmentNumber}</Text>
+                  <Text style={[styles.scheduleCell, { color: theme.text }]}>
+                    {installment.dueDate ? new Date(installment.dueDate).toLocaleDateString('en-IN', { day: 'numeric', month: 'short' }) : '-'}
+                  </Text>
+                  <Text style={[styles.scheduleCell, { color: theme.text }]}>{formatRupees(installment.principal)}</Text>
+                  <Text style={[styles.scheduleCell, { color: theme.text }]}>{formatRupees(installment.interest)}</Text>
+                  <Text style={[styles.scheduleCell, { color: theme.text }]}>{formatRupees(installment.amount)}</Text>
+                </View>
+              ))}
+              {schedule.installments.length > 4 && (
+                <TouchableOpacity style={styles.scheduleToggle} onPress={() => setShowFullSchedule(prev => !prev)}>
+                  <Text style={[styles.scheduleToggleText, { color: theme.primary }]}>
+                    {showFullSchedule ? 'Show less' : `Show all ${schedule.installments.length} installments`}
+                  </Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        )}
+
         {/* Submit Button */}
         <View style={styles.submitSection}>
           <TouchableOpacity
@@ -825,4 +1127,57 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '600',
   },
+  interestTypeContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  previewCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  previewLabel: {
+    fontSize: 14,
+  },
+  previewValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scheduleTable: {
+    borderWidth: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  scheduleHeaderText: {
+    fontWeight: '600',
+  },
+  scheduleCellSmall: {
+    width: 28,
+    fontSize: 13,
+  },
+  scheduleCell: {
+    flex: 1,
+    fontSize: 13,
+    textAlign: 'right',
+  },
+  scheduleToggle: {
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  scheduleToggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
 }); 
\ No newline at end of file
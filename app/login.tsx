@@ -20,17 +20,21 @@ import Animated, {
   withSpring,
   withTiming,
 } from 'react-native-reanimated';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, OfflineUnlockMethod } from '@/contexts/AuthContext';
 import { useThemeContext } from '@/contexts/ThemeContext';
 import { BiometricService } from '@/lib/biometrics';
-import { router } from 'expo-router';
+import { OfflineAuthService } from '@/lib/offline-auth';
+import { AppLockService, PIN_MAX_LENGTH } from '@/lib/app-lock';
+import { apiEnvironment } from '@/lib/environment';
+import { router, useLocalSearchParams } from 'expo-router';
 
 
 const { width, height } = Dimensions.get('window');
 
 export default function LoginScreen() {
   const { theme } = useThemeContext();
-  const { login } = useAuth();
+  const { login, loginWithBiometrics, unlockOffline } = useAuth();
+  const { redirect, reason } = useLocalSearchParams<{ redirect?: string; reason?: string }>();
   
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -38,6 +42,10 @@ export default function LoginScreen() {
   const [isLoading, setIsLoading] = useState(false);
   const [isBiometricAvailable, setIsBiometricAvailable] = useState(false);
   const [isBiometricEnabled, setIsBiometricEnabled] = useState(false);
+  const [showOfflineUnlock, setShowOfflineUnlock] = useState(false);
+  const [offlinePin, setOfflinePin] = useState('');
+  const [offlineHasPin, setOfflineHasPin] = useState(false);
+  const [offlineBiometric, setOfflineBiometric] = useState(false);
 
   // Animation values
   const logoScale = useSharedValue(0);
@@ -53,11 +61,28 @@ export default function LoginScreen() {
 
     // Check biometric availability
     checkBiometricAvailability();
+    prefillLastUser();
   }, []);
 
+  // Return to the screen the user was on when their session expired
+  const navigateAfterLogin = () => {
+    if (redirect && redirect.startsWith('/') && redirect !== '/login') {
+      router.replace(redirect as any);
+    } else {
+      router.replace('/(tabs)');
+    }
+  };
+
+  const prefillLastUser = async () => {
+    const profile = await OfflineAuthService.getProfile();
+    if (profile) {
+      setUsername(current => current || profile.username);
+    }
+  };
+
   const checkBiometricAvailability = async () => {
     try {
-      const available = await BiometricService.isBiometricAvailable();
+      const available = await BiometricService.isBiometricLoginSupported();
       const enabled = await BiometricService.isBiometricEnabled();
       setIsBiometricAvailable(available);
       setIsBiometricEnabled(enabled);
@@ -74,27 +99,24 @@ export default function LoginScreen() {
 
     setIsLoading(true);
     try {
-      console.log('Attempting login with:', { username, password: '***' });
       const result = await login({ username, password });
-      console.log('Login result:', result);
-      
+
       if (result.success) {
-        console.log('Login successful, redirecting to dashboard...');
         // Animate button press
         buttonScale.value = withSpring(0.95, { duration: 100 });
         setTimeout(() => {
           buttonScale.value = withSpring(1);
-          console.log('Attempting navigation to dashboard...');
           try {
-            router.replace('/(tabs)');
+            navigateAfterLogin();
           } catch (navError) {
             console.error('Navigation error:', navError);
             // Fallback navigation
             router.push('/(tabs)' as any);
           }
         }, 100);
+      } else if (result.isNetworkError) {
+        await offerOfflineUnlock(username);
       } else {
-        console.log('Login failed:', result.error);
         Alert.alert('Login Failed', result.error || 'Invalid credentials');
       }
     } catch (error) {
@@ -105,47 +127,69 @@ export default function LoginScreen() {
     }
   };
 
-  const handleBiometricLogin = async () => {
+  // The server could not be reached - only a previously authenticated user may unlock cached data
+  const offerOfflineUnlock = async (forUsername: string) => {
+    if (!(await OfflineAuthService.canUnlock(forUsername))) {
+      setShowOfflineUnlock(false);
+      Alert.alert(
+        'Unable to Sign In',
+        'The server cannot be reached and offline access is not set up for this user. Please try again when you are online.'
+      );
+      return;
+    }
+
+    setOfflineHasPin(await AppLockService.hasPin());
+    setOfflineBiometric(isBiometricAvailable && await AppLockService.isBiometricEnabled());
+    setOfflinePin('');
+    setShowOfflineUnlock(true);
+  };
+
+  const completeOfflineUnlock = async (method: OfflineUnlockMethod) => {
+    if (method === 'pin' && !offlinePin.trim()) {
+      Alert.alert('Error', 'Please enter your PIN');
+      return;
+    }
+
+    setIsLoading(true);
     try {
-      const result = await BiometricService.authenticateWithBiometrics();
+      const result = await unlockOffline(method, username, offlinePin);
       if (result.success) {
-        const credentials = await BiometricService.getBiometricCredentials();
-        if (credentials) {
-          setIsLoading(true);
-          const loginResult = await login(credentials);
-          if (loginResult.success) {
-            router.replace('/(tabs)');
-          } else {
-            Alert.alert('Login Failed', 'Biometric login failed');
-          }
-        } else {
-          Alert.alert('Error', 'No saved credentials found');
-        }
+        setShowOfflineUnlock(false);
+        router.replace('/(tabs)');
+      } else {
+        setOfflinePin('');
+        Alert.alert('Unlock Failed', result.error || 'Offline unlock failed');
       }
-    } catch (error) {
-      Alert.alert('Error', 'Biometric authentication failed');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleSaveBiometric = async () => {
-    if (!username.trim() || !password.trim()) {
-      Alert.alert('Error', 'Please enter credentials first');
-      return;
-    }
-
+  const handleBiometricLogin = async () => {
+    setIsLoading(true);
     try {
-      await BiometricService.saveBiometricCredentials({ username, password });
-      setIsBiometricEnabled(true);
-      Alert.alert('Success', 'Biometric login enabled');
+      const loginResult = await loginWithBiometrics();
+      if (loginResult.success) {
+        navigateAfterLogin();
+      } else if (loginResult.isNetworkError) {
+        const enrollment = await BiometricService.getEnrollment();
+        if (enrollment) {
+          setUsername(enrollment.username);
+          await offerOfflineUnlock(enrollment.username);
+        }
+      } else if (loginResult.error) {
+        Alert.alert('Login Failed', loginResult.error);
+        // A revoked credential is removed, so hide the button until it is set up again
+        setIsBiometricEnabled(await BiometricService.isBiometricEnabled());
+      }
     } catch (error) {
-      Alert.alert('Error', 'Failed to save biometric credentials');
+      console.error('Biometric login error:', error);
+      Alert.alert('Error', 'Biometric authentication failed');
+    } finally {
+      setIsLoading(false);
     }
   };
 
-
-
   // Animated styles
   const logoAnimatedStyle = useAnimatedStyle(() => ({
     transform: [{ scale: logoScale.value }],
@@ -174,13 +218,26 @@ export default function LoginScreen() {
         <View style={styles.content}>
           {/* Logo Section */}
           <Animated.View style={[styles.logoContainer, logoAnimatedStyle]}>
-            <View style={[styles.logoCircle, { backgroundColor: theme.card }]}>
+            {/* Long press opens About, where the hidden developer options live */}
+            <TouchableOpacity
+              style={[styles.logoCircle, { backgroundColor: theme.card }]}
+              onLongPress={() => router.push('/about' as any)}
+              activeOpacity={1}
+            >
               <Ionicons name="business" size={60} color={theme.primary} />
-            </View>
+            </TouchableOpacity>
             <Text style={[styles.appName, { color: theme.text }]}>GramFinance</Text>
             <Text style={[styles.tagline, { color: theme.textSecondary }]}>
               Village Lending Management
             </Text>
+            {!apiEnvironment.isDefault() && (
+              <View style={[styles.environmentBadge, { backgroundColor: theme.warning + '20' }]}>
+                <Ionicons name="server" size={14} color={theme.warning} />
+                <Text style={[styles.environmentText, { color: theme.warning }]} numberOfLines={1}>
+                  {apiEnvironment.getCurrent().label}: {apiEnvironment.getBaseUrl()}
+                </Text>
+              </View>
+            )}
           </Animated.View>
 
           {/* Form Section */}
@@ -188,7 +245,7 @@ export default function LoginScreen() {
             <View style={[styles.card, { backgroundColor: theme.card, borderColor: theme.border }]}>
               <Text style={[styles.title, { color: theme.text }]}>Welcome Back</Text>
               <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
-                Sign in to your account
+                {reason === 'expired' ? 'Your session expired. Sign in to continue.' : 'Sign in to your account'}
               </Text>
 
               {/* Username Input */}
@@ -237,6 +294,13 @@ export default function LoginScreen() {
                 </TouchableOpacity>
               </View>
 
+              <TouchableOpacity
+                style={styles.forgotButton}
+                onPress={() => router.push({ pathname: '/forgot-password', params: { username: username.trim() } } as any)}
+              >
+                <Text style={[styles.forgotText, { color: theme.primary }]}>Forgot password?</Text>
+              </TouchableOpacity>
+
               {/* Login Button */}
               <Animated.View style={buttonAnimatedStyle}>
                 <TouchableOpacity
@@ -258,38 +322,75 @@ export default function LoginScreen() {
                 </TouchableOpacity>
               </Animated.View>
 
-              {/* Biometric Options */}
-              {isBiometricAvailable && (
+              {/* Biometric sign-in is enrolled from Settings > Security once signed in */}
+              {isBiometricAvailable && isBiometricEnabled && (
                 <View style={styles.biometricContainer}>
-                  {isBiometricEnabled ? (
-                    <TouchableOpacity
-                      style={[styles.biometricButton, { borderColor: theme.border }]}
-                      onPress={handleBiometricLogin}
-                      disabled={isLoading}
-                    >
-                      <Ionicons name="finger-print" size={24} color={theme.primary} />
-                      <Text style={[styles.biometricText, { color: theme.textSecondary }]}>
-                        Use Fingerprint
-                      </Text>
-                    </TouchableOpacity>
-                  ) : (
+                  <TouchableOpacity
+                    style={[styles.biometricButton, { borderColor: theme.border }]}
+                    onPress={handleBiometricLogin}
+                    disabled={isLoading}
+                  >
+                    <Ionicons name="finger-print" size={24} color={theme.primary} />
+                    <Text style={[styles.biometricText, { color: theme.textSecondary }]}>
+                      Use Fingerprint
+                    </Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+
+              {/* Offline Unlock */}
+              {showOfflineUnlock && (
+                <View style={[styles.offlineContainer, { borderColor: theme.warning, backgroundColor: theme.warning + '15' }]}>
+                  <View style={styles.offlineHeader}>
+                    <Ionicons name="cloud-offline" size={20} color={theme.warning} />
+                    <Text style={[styles.offlineTitle, { color: theme.text }]}>You are offline</Text>
+                  </View>
+                  <Text style={[styles.offlineText, { color: theme.textSecondary }]}>
+                    Unlock data cached on this device. The session will be read-only until you sign in online.
+                  </Text>
+                  {offlineHasPin && (
+                    <>
+                      <View style={styles.inputContainer}>
+                        <Ionicons name="keypad" size={20} color={theme.textMuted} style={styles.inputIcon} />
+                        <TextInput
+                          style={[styles.input, {
+                            color: theme.text,
+                            backgroundColor: theme.inputBackground,
+                            borderColor: theme.inputBorder
+                          }]}
+                          placeholder="Offline PIN"
+                          placeholderTextColor={theme.inputPlaceholder}
+                          value={offlinePin}
+                          onChangeText={setOfflinePin}
+                          keyboardType="number-pad"
+                          secureTextEntry
+                          maxLength={PIN_MAX_LENGTH}
+                        />
+                      </View>
+                      <TouchableOpacity
+                        style={[styles.offlineButton, { backgroundColor: theme.warning }]}
+                        onPress={() => completeOfflineUnlock('pin')}
+                        disabled={isLoading}
+                      >
+                        <Ionicons name="lock-open" size={18} color={theme.buttonText} />
+                        <Text style={[styles.offlineButtonText, { color: theme.buttonText }]}>Unlock Offline</Text>
+                      </TouchableOpacity>
+                    </>
+                  )}
+                  {offlineBiometric && (
                     <TouchableOpacity
-                      style={[styles.biometricButton, { borderColor: theme.border }]}
-                      onPress={handleSaveBiometric}
+                      style={[styles.biometricButton, styles.offlineBiometricButton, { borderColor: theme.border }]}
+                      onPress={() => completeOfflineUnlock('biometric')}
                       disabled={isLoading}
                     >
-                      <Ionicons name="finger-print-outline" size={24} color={theme.primary} />
+                      <Ionicons name="finger-print" size={24} color={theme.warning} />
                       <Text style={[styles.biometricText, { color: theme.textSecondary }]}>
-                        Enable Fingerprint
+                        Unlock with Fingerprint
                       </Text>
                     </TouchableOpacity>
                   )}
                 </View>
               )}
-
-
-
-
             </View>
           </Animated.View>
         </View>
@@ -343,6 +444,20 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  environmentBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    maxWidth: '100%',
+  },
+  environmentText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   formContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -392,6 +507,15 @@ const styles = StyleSheet.create({
     right: 12,
     zIndex: 1,
   },
+  forgotButton: {
+    alignSelf: 'flex-end',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  forgotText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
   loginButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -422,6 +546,41 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginLeft: 8,
   },
-
+  offlineContainer: {
+    marginTop: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderRadius: 12,
+  },
+  offlineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  offlineTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  offlineText: {
+    fontSize: 13,
+    marginBottom: 12,
+  },
+  offlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 44,
+    borderRadius: 12,
+  },
+  offlineButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  offlineBiometricButton: {
+    justifyContent: 'center',
+    marginTop: 12,
+  },
 
 }); 
\ No newline at end of file
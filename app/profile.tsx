@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, TextInput } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, Alert, ScrollView, TextInput, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useAuth } from '@/contexts/AuthContext';
@@ -21,21 +21,61 @@ interface ProfileSection {
 
 export default function ProfileScreen() {
   const { theme } = useThemeContext();
-  const { user, updateProfile } = useAuth();
+  const { user, updateProfile, isOfflineSession } = useAuth();
   const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
   const [formData, setFormData] = useState({
     name: user?.name || '',
     email: user?.email || '',
     phone: user?.phone || '',
   });
+  const [errors, setErrors] = useState<{
+    name?: string;
+    email?: string;
+    phone?: string;
+  }>({});
+
+  const validateForm = (): boolean => {
+    const newErrors: {
+      name?: string;
+      email?: string;
+      phone?: string;
+    } = {};
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+
+    if (formData.email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email.trim())) {
+      newErrors.email = 'Please enter a valid email address';
+    }
+
+    if (formData.phone.trim() && !/^[0-9]{10}$/.test(formData.phone.replace(/\s/g, ''))) {
+      newErrors.phone = 'Please enter a valid 10-digit phone number';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
 
   const handleSave = async () => {
+    if (!validateForm()) return;
+
+    setIsSaving(true);
     try {
-      await updateProfile(formData);
+      const result = await updateProfile({
+        name: formData.name.trim(),
+        email: formData.email.trim(),
+        phone: formData.phone.replace(/\s/g, ''),
+      });
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to update profile. Please try again.');
+        return;
+      }
       setIsEditing(false);
       Alert.alert('Success', 'Profile updated successfully!');
-    } catch (error) {
-      Alert.alert('Error', 'Failed to update profile. Please try again.');
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -45,9 +85,22 @@ export default function ProfileScreen() {
       email: user?.email || '',
       phone: user?.phone || '',
     });
+    setErrors({});
     setIsEditing(false);
   };
 
+  const handleEditToggle = () => {
+    if (isEditing) {
+      handleCancel();
+      return;
+    }
+    if (isOfflineSession) {
+      Alert.alert('Offline', 'Profile changes need a connection. Sign in online to edit your profile.');
+      return;
+    }
+    setIsEditing(true);
+  };
+
   const profileSections: ProfileSection[] = [
     {
       title: 'Personal Information',
@@ -61,14 +114,14 @@ export default function ProfileScreen() {
         },
         {
           label: 'Email',
-          value: formData.email,
+          value: formData.email || (isEditing ? '' : 'Not set'),
           icon: 'mail',
           editable: true,
           key: 'email',
         },
         {
           label: 'Phone',
-          value: formData.phone,
+          value: formData.phone || (isEditing ? '' : 'Not set'),
           icon: 'call',
           editable: true,
           key: 'phone',
@@ -78,6 +131,12 @@ export default function ProfileScreen() {
     {
       title: 'Account Information',
       items: [
+        {
+          label: 'Username',
+          value: user?.username || 'N/A',
+          icon: 'at',
+          editable: false,
+        },
         {
           label: 'User ID',
           value: user?.id || 'N/A',
@@ -112,7 +171,7 @@ export default function ProfileScreen() {
         <Text style={[styles.title, { color: theme.text }]}>Profile</Text>
         <TouchableOpacity
           style={styles.editButton}
-          onPress={() => setIsEditing(!isEditing)}
+          onPress={handleEditToggle}
         >
           <Text style={[styles.editText, { color: theme.primary }]}>
             {isEditing ? 'Cancel' : 'Edit'}
@@ -161,17 +220,28 @@ export default function ProfileScreen() {
                           value={item.value}
                           onChangeText={(text) => {
                             if (item.key) {
-                              setFormData(prev => ({ ...prev, [item.key as keyof typeof formData]: text }));
+                              const key = item.key;
+                              setFormData(prev => ({ ...prev, [key]: text }));
+                              if (errors[key]) {
+                                setErrors(prev => ({ ...prev, [key]: undefined }));
+                              }
                             }
                           }}
                           placeholder={`Enter ${item.label.toLowerCase()}`}
                           placeholderTextColor={theme.textMuted}
+                          keyboardType={item.key === 'phone' ? 'phone-pad' : item.key === 'email' ? 'email-address' : 'default'}
+                          autoCapitalize={item.key === 'name' ? 'words' : 'none'}
                         />
                       ) : (
                         <Text style={[styles.itemValue, { color: theme.text }]}>
                           {item.value}
                         </Text>
                       )}
+                      {isEditing && item.key && errors[item.key] && (
+                        <Text style={[styles.errorText, { color: theme.error }]}>
+                          {errors[item.key]}
+                        </Text>
+                      )}
                     </View>
                   </View>
                 </View>
@@ -180,16 +250,52 @@ export default function ProfileScreen() {
           </View>
         ))}
 
+        {/* Security */}
+        {!isEditing && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+              Security
+            </Text>
+            <TouchableOpacity
+              style={[styles.sectionCard, styles.linkItem, { backgroundColor: theme.card, borderColor: theme.border }]}
+              onPress={() => router.push('/change-password' as any)}
+              disabled={isOfflineSession}
+            >
+              <View style={styles.itemLeft}>
+                <View style={[styles.itemIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="key" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.itemContent}>
+                  <Text style={[styles.itemValue, { color: isOfflineSession ? theme.textMuted : theme.text }]}>
+                    Change Password
+                  </Text>
+                  {isOfflineSession && (
+                    <Text style={[styles.itemLabel, { color: theme.textMuted }]}>
+                      Available when signed in online
+                    </Text>
+                  )}
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+              </View>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Save Button */}
         {isEditing && (
           <View style={styles.saveSection}>
             <TouchableOpacity
-              style={[styles.saveButton, { backgroundColor: theme.primary }]}
+              style={[styles.saveButton, { backgroundColor: theme.primary, opacity: isSaving ? 0.7 : 1 }]}
               onPress={handleSave}
+              disabled={isSaving}
             >
-              <Ionicons name="checkmark" size={20} color={theme.buttonText} />
+              {isSaving ? (
+                <ActivityIndicator size="small" color={theme.buttonText} />
+              ) : (
+                <Ionicons name="checkmark" size={20} color={theme.buttonText} />
+              )}
               <Text style={[styles.saveText, { color: theme.buttonText }]}>
-                Save Changes
+                {isSaving ? 'Saving...' : 'Save Changes'}
               </Text>
             </TouchableOpacity>
             <TouchableOpacity
@@ -321,6 +427,14 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     marginTop: 4,
   },
+  errorText: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  linkItem: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
   saveSection: {
     marginBottom: 24,
   },
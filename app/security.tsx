@@ -0,0 +1,576 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Modal,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { useAppLock } from '@/contexts/AppLockContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { BiometricService, BiometricEnrollment } from '@/lib/biometrics';
+import { OfflineAuthService, OfflineProfile } from '@/lib/offline-auth';
+import {
+  AppLockService,
+  isValidPin,
+  formatLockTimeout,
+  LOCK_TIMEOUT_OPTIONS,
+  PIN_MIN_LENGTH,
+  PIN_MAX_LENGTH,
+} from '@/lib/app-lock';
+import { config } from '@/lib/config';
+import { router } from 'expo-router';
+
+export default function SecurityScreen() {
+  const { theme } = useThemeContext();
+  const { settings, refreshSettings, requireReauth } = useAppLock();
+  const { isOfflineSession } = useAuth();
+
+  const [profile, setProfile] = useState<OfflineProfile | null>(null);
+  const [hasPin, setHasPin] = useState(false);
+  const [isBiometricAvailable, setIsBiometricAvailable] = useState(false);
+  const [isBiometricEnabled, setIsBiometricEnabled] = useState(false);
+  const [isBiometricLoginSupported, setIsBiometricLoginSupported] = useState(false);
+  const [enrollment, setEnrollment] = useState<BiometricEnrollment | null>(null);
+  const [isUpdatingEnrollment, setIsUpdatingEnrollment] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [pinError, setPinError] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    setProfile(await OfflineAuthService.getProfile());
+    setHasPin(await AppLockService.hasPin());
+    setIsBiometricAvailable(await BiometricService.isBiometricAvailable());
+    setIsBiometricEnabled(await AppLockService.isBiometricEnabled());
+    setIsBiometricLoginSupported(await BiometricService.isBiometricLoginSupported());
+    setEnrollment(await BiometricService.getEnrollment());
+  };
+
+  // Enrolling registers this device with the server, so it needs an online session
+  const canEnroll = isBiometricLoginSupported && !!profile && !isOfflineSession;
+
+  const handleEnroll = async () => {
+    if (!profile) return;
+
+    setIsUpdatingEnrollment(true);
+    try {
+      const result = await BiometricService.enroll(profile.username);
+      if (result.success) {
+        setEnrollment(await BiometricService.getEnrollment());
+        Alert.alert('Success', 'Biometric sign-in is enabled on this device');
+      } else {
+        Alert.alert('Error', result.error || 'Failed to enable biometric sign-in');
+      }
+    } finally {
+      setIsUpdatingEnrollment(false);
+    }
+  };
+
+  const handleRevoke = () => {
+    Alert.alert(
+      'Revoke Biometric Sign-In',
+      'This device will no longer be able to sign in with biometrics.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Revoke',
+          style: 'destructive',
+          onPress: async () => {
+            setIsUpdatingEnrollment(true);
+            try {
+              await BiometricService.revoke();
+              setEnrollment(null);
+            } finally {
+              setIsUpdatingEnrollment(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const isAppLockEnabled = !!settings?.enabled;
+
+  const openPinModal = () => {
+    setPin('');
+    setConfirmPin('');
+    setPinError('');
+    setShowPinModal(true);
+  };
+
+  const handleSavePin = async () => {
+    if (!isValidPin(pin)) {
+      setPinError(`PIN must be ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setPinError('PINs do not match');
+      return;
+    }
+
+    try {
+      await AppLockService.setPin(pin);
+      setHasPin(true);
+      setShowPinModal(false);
+      await refreshSettings();
+      Alert.alert('Success', 'PIN saved');
+    } catch (error) {
+      console.error('Error saving PIN:', error);
+      setPinError('Failed to save PIN');
+    }
+  };
+
+  const handleChangePin = async () => {
+    if (await requireReauth('Enter your current PIN to change it')) {
+      openPinModal();
+    }
+  };
+
+  const handleRemovePin = async () => {
+    if (!(await requireReauth('Enter your current PIN to remove it'))) return;
+
+    await AppLockService.removePin();
+    setHasPin(false);
+    await refreshSettings();
+  };
+
+  const handlePinPress = () => {
+    if (!hasPin) {
+      openPinModal();
+      return;
+    }
+
+    Alert.alert('PIN', 'What would you like to do?', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Change PIN', onPress: handleChangePin },
+      {
+        text: 'Remove PIN',
+        style: 'destructive',
+        onPress: () => Alert.alert(
+          'Remove PIN',
+          'The app lock will be turned off and you will not be able to unlock cached data offline with a PIN.',
+          [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Remove', style: 'destructive', onPress: handleRemovePin },
+          ]
+        ),
+      },
+    ]);
+  };
+
+  const handleBiometricToggle = async (enabled: boolean) => {
+    // Confirm the enrolled biometrics belong to this user before relying on them
+    const confirmed = enabled
+      ? (await BiometricService.authenticateWithBiometrics('Enable biometric unlock')).success
+      : await requireReauth('Confirm to turn off biometric unlock');
+    if (!confirmed) return;
+
+    try {
+      await AppLockService.setBiometricEnabled(enabled);
+      setIsBiometricEnabled(enabled);
+    } catch (error) {
+      console.error('Error updating biometric unlock:', error);
+      Alert.alert('Error', 'Failed to update biometric unlock');
+    }
+  };
+
+  const handleAppLockToggle = async (enabled: boolean) => {
+    if (!enabled && !(await requireReauth('Confirm to turn off the app lock'))) return;
+
+    await AppLockService.saveSettings({ enabled });
+    await refreshSettings();
+  };
+
+  const handleTimeoutPress = () => {
+    Alert.alert(
+      'Lock After',
+      'How long can the app stay in the background before it locks?',
+      [
+        ...LOCK_TIMEOUT_OPTIONS.map(seconds => ({
+          text: formatLockTimeout(seconds),
+          onPress: async () => {
+            await AppLockService.saveSettings({ timeoutSeconds: seconds });
+            await refreshSettings();
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Security</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* PIN & Biometrics */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            PIN & Biometrics
+          </Text>
+          <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <TouchableOpacity
+              style={styles.settingItem}
+              onPress={handlePinPress}
+              activeOpacity={0.7}
+            >
+              <View style={styles.settingLeft}>
+                <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="keypad" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={[styles.settingTitle, { color: theme.text }]}>PIN</Text>
+                  <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                    {hasPin ? 'PIN is set - tap to change or remove' : `Set a ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digit PIN`}
+                  </Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+            </TouchableOpacity>
+
+            <View style={[styles.settingItem, { opacity: isBiometricAvailable ? 1 : 0.5 }]}>
+              <View style={styles.settingLeft}>
+                <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="finger-print" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={[styles.settingTitle, { color: theme.text }]}>Biometric Unlock</Text>
+                  <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                    {isBiometricAvailable ? 'Use biometrics instead of typing your PIN' : 'Biometrics not available on this device'}
+                  </Text>
+                </View>
+              </View>
+              <Switch
+                value={isBiometricEnabled}
+                onValueChange={handleBiometricToggle}
+                disabled={!isBiometricAvailable}
+                trackColor={{ false: theme.border, true: theme.primary + '40' }}
+                thumbColor={isBiometricEnabled ? theme.primary : theme.textMuted}
+              />
+            </View>
+          </View>
+        </View>
+
+        {/* Biometric Sign-In */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            Biometric Sign-In
+          </Text>
+          <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <TouchableOpacity
+              style={[styles.settingItem, { opacity: (enrollment || canEnroll) && !isUpdatingEnrollment ? 1 : 0.5 }]}
+              onPress={enrollment ? handleRevoke : handleEnroll}
+              disabled={(!enrollment && !canEnroll) || isUpdatingEnrollment}
+              activeOpacity={0.7}
+            >
+              <View style={styles.settingLeft}>
+                <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="phone-portrait" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={[styles.settingTitle, { color: theme.text }]}>
+                    {enrollment ? 'Revoke This Device' : 'Enroll This Device'}
+                  </Text>
+                  <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                    {enrollment
+                      ? `${enrollment.deviceName} - enrolled ${new Date(enrollment.enrolledAt).toLocaleDateString('en-IN')}`
+                      : !isBiometricLoginSupported
+                        ? 'Biometrics not available on this device'
+                        : isOfflineSession
+                          ? 'Available when you are signed in online'
+                          : 'Sign in with biometrics instead of your password'}
+                  </Text>
+                </View>
+              </View>
+              <Ionicons
+                name={enrollment ? 'close-circle' : 'add-circle'}
+                size={20}
+                color={enrollment ? theme.error : theme.textMuted}
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* App Lock */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+            App Lock
+          </Text>
+          <View style={[styles.sectionCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+            <View style={[styles.settingItem, { opacity: hasPin ? 1 : 0.5 }]}>
+              <View style={styles.settingLeft}>
+                <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="lock-closed" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={[styles.settingTitle, { color: theme.text }]}>Lock App</Text>
+                  <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                    {hasPin ? 'Require your PIN when returning to the app' : 'Set a PIN first'}
+                  </Text>
+                </View>
+              </View>
+              <Switch
+                value={isAppLockEnabled}
+                onValueChange={handleAppLockToggle}
+                disabled={!hasPin}
+                trackColor={{ false: theme.border, true: theme.primary + '40' }}
+                thumbColor={isAppLockEnabled ? theme.primary : theme.textMuted}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.settingItem, { opacity: isAppLockEnabled ? 1 : 0.5 }]}
+              onPress={handleTimeoutPress}
+              disabled={!isAppLockEnabled}
+              activeOpacity={0.7}
+            >
+              <View style={styles.settingLeft}>
+                <View style={[styles.settingIcon, { backgroundColor: theme.primary + '20' }]}>
+                  <Ionicons name="timer" size={20} color={theme.primary} />
+                </View>
+                <View style={styles.settingContent}>
+                  <Text style={[styles.settingTitle, { color: theme.text }]}>Lock After</Text>
+                  <Text style={[styles.settingDescription, { color: theme.textSecondary }]}>
+                    {formatLockTimeout(settings?.timeoutSeconds ?? config.appLock.defaultTimeoutSeconds)} in the background
+                  </Text>
+                </View>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={theme.textMuted} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* Info Card */}
+        <View style={[styles.infoCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <Ionicons name="information-circle" size={24} color={theme.info} />
+          <View style={styles.infoContent}>
+            <Text style={[styles.infoTitle, { color: theme.text }]}>
+              Offline Unlock
+            </Text>
+            <Text style={[styles.infoText, { color: theme.textSecondary }]}>
+              {profile
+                ? `When the server cannot be reached, ${profile.user.name} can unlock data cached on this device with the PIN or biometrics for up to ${config.auth.offlineAccessDays} days after the last online sign-in. Offline sessions are read-only until you sign in online again.`
+                : 'Sign out and sign in again while online to enable offline unlock on this device.'}
+            </Text>
+          </View>
+        </View>
+      </ScrollView>
+
+      {/* PIN Modal */}
+      <Modal
+        visible={showPinModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowPinModal(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: theme.card }]}>
+            <Text style={[styles.modalTitle, { color: theme.text }]}>
+              {hasPin ? 'Change PIN' : 'Set PIN'}
+            </Text>
+            <TextInput
+              style={[styles.textInput, { backgroundColor: theme.inputBackground, borderColor: theme.border, color: theme.text }]}
+              value={pin}
+              onChangeText={(text) => { setPin(text); setPinError(''); }}
+              placeholder="Enter PIN"
+              placeholderTextColor={theme.textMuted}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+            />
+            <TextInput
+              style={[styles.textInput, { backgroundColor: theme.inputBackground, borderColor: theme.border, color: theme.text }]}
+              value={confirmPin}
+              onChangeText={(text) => { setConfirmPin(text); setPinError(''); }}
+              placeholder="Confirm PIN"
+              placeholderTextColor={theme.textMuted}
+              keyboardType="number-pad"
+              secureTextEntry
+              maxLength={PIN_MAX_LENGTH}
+            />
+            {pinError ? (
+              <Text style={[styles.errorText, { color: theme.error }]}>{pinError}</Text>
+            ) : null}
+            <View style={styles.modalActions}>
+              <TouchableOpacity
+                style={[styles.modalButton, { borderColor: theme.border, borderWidth: 1 }]}
+                onPress={() => setShowPinModal(false)}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.text }]}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.modalButton, { backgroundColor: theme.primary }]}
+                onPress={handleSavePin}
+              >
+                <Text style={[styles.modalButtonText, { color: theme.buttonText }]}>Save PIN</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  sectionCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    overflow: 'hidden',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  settingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0,0,0,0.05)',
+  },
+  settingLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  settingIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  settingContent: {
+    flex: 1,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  settingDescription: {
+    fontSize: 14,
+  },
+  infoCard: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+    gap: 12,
+  },
+  infoContent: {
+    flex: 1,
+  },
+  infoTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  infoText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'center',
+    paddingHorizontal: 24,
+  },
+  modalContent: {
+    borderRadius: 16,
+    padding: 20,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  textInput: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 12,
+    marginBottom: 12,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  modalButton: {
+    flex: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { useOfflineQueue } from '@/hooks/useOfflineQueue';
+import { OfflineQueueItem } from '@/lib/offline-queue';
+import { router } from 'expo-router';
+
+export default function SyncScreen() {
+  const { theme } = useThemeContext();
+  const { items, pendingCount, failedCount, blockedCount, flush, retry, remove } = useOfflineQueue();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await flush();
+    } catch (error) {
+      console.error('Error syncing offline queue:', error);
+      Alert.alert('Error', 'Sync failed. Please try again.');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const handleDiscard = (item: OfflineQueueItem) => {
+    Alert.alert(
+      'Discard Change',
+      item.outcomeUnknown
+        ? 'This record may already be on the server. Discarding it only removes the local copy - check the server before entering it again.'
+        : 'This record has not reached the server. Discarding it will delete it from this device permanently.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: () => remove(item.id),
+        },
+      ]
+    );
+  };
+
+  const formatCurrency = (amount: number) => {
+    return amount.toLocaleString('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      minimumFractionDigits: 0,
+    });
+  };
+
+  const formatDateTime = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString('en-IN', {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const describeItem = (item: OfflineQueueItem) => {
+    switch (item.type) {
+      case 'createCollection':
+        return {
+          title: `Payment ${formatCurrency(item.payload.amount)}`,
+          subtitle: `Collected on ${item.payload.paymentDate}`,
+          icon: 'cash',
+        };
+      case 'createBorrower':
+        return {
+          title: `New borrower: ${item.payload.name}`,
+          subtitle: item.payload.village,
+          icon: 'person-add',
+        };
+      case 'createLoan':
+        return {
+          title: `New loan ${formatCurrency(item.payload.principalAmount)}`,
+          subtitle: `${item.payload.termWeeks} weeks from ${item.payload.startDate}`,
+          icon: 'card',
+        };
+    }
+  };
+
+  const getStatusInfo = (item: OfflineQueueItem) => {
+    switch (item.status) {
+      case 'syncing':
+        return { label: 'Syncing', color: theme.info };
+      case 'failed':
+        return { label: 'Failed', color: theme.error };
+      case 'blocked':
+        // Waits for the record it belongs to; retrying that one sends this too
+        return { label: 'Blocked', color: theme.error };
+      default:
+        // Sent once without a reply - the next sync confirms whether the server has it
+        return item.outcomeUnknown
+          ? { label: 'Unconfirmed', color: theme.info }
+          : { label: 'Waiting', color: theme.warning };
+    }
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => router.back()}
+        >
+          <Ionicons name="arrow-back" size={24} color={theme.text} />
+        </TouchableOpacity>
+        <Text style={[styles.title, { color: theme.text }]}>Offline Sync</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {/* Summary */}
+        <View style={[styles.summaryCard, { backgroundColor: theme.card, borderColor: theme.border }]}>
+          <View style={[styles.summaryIcon, { backgroundColor: (items.length ? theme.warning : theme.success) + '20' }]}>
+            <Ionicons
+              name={items.length ? 'cloud-upload' : 'cloud-done'}
+              size={32}
+              color={items.length ? theme.warning : theme.success}
+            />
+          </View>
+          <Text style={[styles.summaryTitle, { color: theme.text }]}>
+            {items.length ? `${items.length} change${items.length === 1 ? '' : 's'} not yet synced` : 'All changes synced'}
+          </Text>
+          <Text style={[styles.summarySubtitle, { color: theme.textSecondary }]}>
+            {pendingCount} waiting • {failedCount} failed{blockedCount > 0 ? ` • ${blockedCount} blocked` : ''}
+          </Text>
+          <TouchableOpacity
+            style={[styles.syncButton, { backgroundColor: theme.primary, opacity: isSyncing || !pendingCount ? 0.6 : 1 }]}
+            onPress={handleSyncNow}
+            disabled={isSyncing || !pendingCount}
+            activeOpacity={0.8}
+          >
+            {isSyncing ? (
+              <ActivityIndicator size="small" color={theme.buttonText} />
+            ) : (
+              <Ionicons name="sync" size={20} color={theme.buttonText} />
+            )}
+            <Text style={[styles.syncButtonText, { color: theme.buttonText }]}>
+              {isSyncing ? 'Syncing...' : 'Sync Now'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Queue Items */}
+        {items.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: theme.textSecondary }]}>
+              Outbox (oldest first)
+            </Text>
+            {items.map((item) => {
+              const info = describeItem(item);
+              const status = getStatusInfo(item);
+              return (
+                <View
+                  key={item.id}
+                  style={[styles.itemCard, { backgroundColor: theme.card, borderColor: theme.border }]}
+                >
+                  <View style={styles.itemRow}>
+                    <View style={[styles.itemIcon, { backgroundColor: theme.primary + '20' }]}>
+                      <Ionicons name={info.icon as any} size={20} color={theme.primary} />
+                    </View>
+                    <View style={styles.itemContent}>
+                      <Text style={[styles.itemTitle, { color: theme.text }]}>
+                        {info.title}
+                      </Text>
+                      <Text style={[styles.itemSubtitle, { color: theme.textSecondary }]}>
+                        {info.subtitle}
+                      </Text>
+                      <Text style={[styles.itemMeta, { color: theme.textMuted }]}>
+                        Saved {formatDateTime(item.createdAt)}
+                        {item.attempts > 0 ? ` • ${item.attempts} attempt${item.attempts === 1 ? '' : 's'}` : ''}
+                      </Text>
+                    </View>
+                    <View style={[styles.statusBadge, { backgroundColor: status.color + '20' }]}>
+                      <Text style={[styles.statusText, { color: status.color }]}>
+                        {status.label}
+                      </Text>
+                    </View>
+                  </View>
+
+                  {item.lastError && (
+                    <Text style={[styles.errorText, { color: item.status === 'failed' || item.status === 'blocked' ? theme.error : theme.textMuted }]}>
+                      {item.lastError}
+                    </Text>
+                  )}
+
+                  {item.status === 'blocked' && (
+                    <View style={styles.itemActions}>
+                      <TouchableOpacity
+                        style={[styles.itemActionButton, { borderColor: theme.error }]}
+                        onPress={() => handleDiscard(item)}
+                      >
+                        <Ionicons name="trash" size={16} color={theme.error} />
+                        <Text style={[styles.itemActionText, { color: theme.error }]}>Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+
+                  {item.status === 'failed' && (
+                    <View style={styles.itemActions}>
+                      <TouchableOpacity
+                        style={[styles.itemActionButton, { borderColor: theme.primary }]}
+                        onPress={() => retry(item.id)}
+                      >
+                        <Ionicons name="refresh" size={16} color={theme.primary} />
+                        <Text style={[styles.itemActionText, { color: theme.primary }]}>Retry</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.itemActionButton, { borderColor: theme.error }]}
+                        onPress={() => handleDiscard(item)}
+                      >
+                        <Ionicons name="trash" size={16} color={theme.error} />
+                        <Text style={[styles.itemActionText, { color: theme.error }]}>Discard</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  backButton: {
+    padding: 4,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  summaryCard: {
+    alignItems: 'center',
+    padding: 24,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 8,
+    elevation: 4,
+  },
+  summaryIcon: {
+    width: 64,
+    height: 64,
+    borderRadius: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  summaryTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  summarySubtitle: {
+    fontSize: 14,
+    marginBottom: 16,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    gap: 8,
+  },
+  syncButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+    marginLeft: 4,
+  },
+  itemCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 8,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 2,
+    elevation: 1,
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  itemContent: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 16,
+    fontWeight: '500',
+    marginBottom: 2,
+  },
+  itemSubtitle: {
+    fontSize: 14,
+  },
+  itemMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    marginLeft: 8,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  errorText: {
+    fontSize: 12,
+    marginTop: 8,
+    marginLeft: 52,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 12,
+  },
+  itemActionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 4,
+  },
+  itemActionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
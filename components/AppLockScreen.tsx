@@ -0,0 +1,253 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { AppLockService, PIN_MAX_LENGTH } from '@/lib/app-lock';
+import { BiometricService } from '@/lib/biometrics';
+
+interface AppLockScreenProps {
+  visible: boolean;
+  mode: 'unlock' | 'reauth'; // Locked app, or confirming a sensitive action
+  reason?: string;
+  onSuccess: () => void;
+  onCancel?: () => void;
+}
+
+export default function AppLockScreen({ visible, mode, reason, onSuccess, onCancel }: AppLockScreenProps) {
+  const { theme } = useThemeContext();
+  const { user, logout } = useAuth();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [canUseBiometrics, setCanUseBiometrics] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setPin('');
+    setError('');
+    prepare();
+  }, [visible]);
+
+  // Tick once a second while locked out so the countdown stays current
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (lockedUntil <= Date.now()) {
+        setLockedUntil(null);
+        setError('');
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const prepare = async () => {
+    setLockedUntil(await AppLockService.getLockedUntil());
+    setNow(Date.now());
+
+    const biometrics = (await AppLockService.isBiometricEnabled()) && (await BiometricService.isBiometricAvailable());
+    setCanUseBiometrics(biometrics);
+    if (biometrics) {
+      handleBiometrics();
+    }
+  };
+
+  const handleBiometrics = async () => {
+    const result = await AppLockService.authenticateWithBiometrics(
+      mode === 'unlock' ? 'Unlock GramFinance' : reason || 'Confirm it\'s you'
+    );
+    if (result.success) {
+      onSuccess();
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!pin) return;
+
+    setIsVerifying(true);
+    try {
+      const result = await AppLockService.verifyPin(pin);
+      if (result.success) {
+        onSuccess();
+        return;
+      }
+
+      setPin('');
+      setError(result.error || 'Incorrect PIN');
+      if (result.lockedUntil) {
+        setLockedUntil(result.lockedUntil);
+        setNow(Date.now());
+      }
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleSignOut = () => {
+    Alert.alert(
+      'Sign Out',
+      'Forgot your PIN? Sign out and sign in again with your password.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Sign Out',
+          style: 'destructive',
+          onPress: async () => {
+            await logout();
+            onSuccess();
+            router.replace('/login');
+          },
+        },
+      ]
+    );
+  };
+
+  const secondsLeft = lockedUntil ? Math.max(0, Math.ceil((lockedUntil - now) / 1000)) : 0;
+  const isLockedOut = secondsLeft > 0;
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={() => onCancel?.()}>
+      <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+        <View style={styles.content}>
+          <View style={[styles.iconCircle, { backgroundColor: theme.primary + '20' }]}>
+            <Ionicons name={mode === 'unlock' ? 'lock-closed' : 'shield-checkmark'} size={40} color={theme.primary} />
+          </View>
+          <Text style={[styles.title, { color: theme.text }]}>
+            {mode === 'unlock' ? 'GramFinance is Locked' : 'Confirm It\'s You'}
+          </Text>
+          <Text style={[styles.subtitle, { color: theme.textSecondary }]}>
+            {mode === 'unlock' ? `Enter your PIN to continue${user ? `, ${user.name}` : ''}` : reason}
+          </Text>
+
+          <TextInput
+            style={[styles.pinInput, {
+              color: theme.text,
+              backgroundColor: theme.inputBackground,
+              borderColor: error ? theme.error : theme.border,
+            }]}
+            value={pin}
+            onChangeText={(text) => { setPin(text.replace(/\D/g, '')); setError(''); }}
+            onSubmitEditing={handleSubmit}
+            placeholder="PIN"
+            placeholderTextColor={theme.textMuted}
+            keyboardType="number-pad"
+            secureTextEntry
+            maxLength={PIN_MAX_LENGTH}
+            editable={!isLockedOut}
+            autoFocus={!canUseBiometrics}
+          />
+
+          {isLockedOut ? (
+            <Text style={[styles.errorText, { color: theme.error }]}>
+              Too many failed attempts. Try again in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
+            </Text>
+          ) : error ? (
+            <Text style={[styles.errorText, { color: theme.error }]}>{error}</Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.unlockButton, { backgroundColor: theme.primary, opacity: isLockedOut || !pin ? 0.5 : 1 }]}
+            onPress={handleSubmit}
+            disabled={isLockedOut || !pin || isVerifying}
+          >
+            <Text style={[styles.unlockButtonText, { color: theme.buttonText }]}>
+              {mode === 'unlock' ? 'Unlock' : 'Confirm'}
+            </Text>
+          </TouchableOpacity>
+
+          {canUseBiometrics && (
+            <TouchableOpacity style={styles.linkButton} onPress={handleBiometrics}>
+              <Ionicons name="finger-print" size={24} color={theme.primary} />
+              <Text style={[styles.linkText, { color: theme.primary }]}>Use Biometrics</Text>
+            </TouchableOpacity>
+          )}
+
+          {mode === 'unlock' ? (
+            <TouchableOpacity style={styles.linkButton} onPress={handleSignOut}>
+              <Text style={[styles.linkText, { color: theme.textSecondary }]}>Forgot PIN? Sign Out</Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity style={styles.linkButton} onPress={() => onCancel?.()}>
+              <Text style={[styles.linkText, { color: theme.textSecondary }]}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+  },
+  iconCircle: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  pinInput: {
+    width: '100%',
+    height: 56,
+    borderWidth: 1,
+    borderRadius: 12,
+    fontSize: 24,
+    letterSpacing: 12,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  errorText: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  unlockButton: {
+    width: '100%',
+    height: 50,
+    borderRadius: 12,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+  unlockButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    gap: 8,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatDistanceToNow } from 'date-fns';
+import { useThemeContext } from '@/contexts/ThemeContext';
+
+interface LastSyncedProps {
+  syncedAt: string | null;
+  isStale?: boolean; // Showing cached data because the latest refresh failed or is still running
+}
+
+export default function LastSynced({ syncedAt, isStale = false }: LastSyncedProps) {
+  const { theme } = useThemeContext();
+
+  if (!syncedAt) {
+    return null;
+  }
+
+  const color = isStale ? theme.warning : theme.textMuted;
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name={isStale ? 'cloud-offline' : 'cloud-done'} size={14} color={color} />
+      <Text style={[styles.text, { color }]}>
+        {isStale ? 'Offline copy • ' : ''}Last synced {formatDistanceToNow(new Date(syncedAt), { addSuffix: true })}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 12,
+  },
+  text: {
+    fontSize: 12,
+  },
+});
@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import NetInfo from '@react-native-community/netinfo';
+import { router } from 'expo-router';
+import { useAuth } from '@/contexts/AuthContext';
+import { useThemeContext } from '@/contexts/ThemeContext';
+
+// Shown for the whole of an offline-unlocked session so it is never mistaken for a normal one
+export default function OfflineSessionBanner() {
+  const { theme } = useThemeContext();
+  const { isOfflineSession, logout } = useAuth();
+  const insets = useSafeAreaInsets();
+  const [isOnline, setIsOnline] = useState(false);
+
+  useEffect(() => {
+    if (!isOfflineSession) return;
+
+    const unsubscribe = NetInfo.addEventListener(state => {
+      setIsOnline(!!state.isConnected && state.isInternetReachable !== false);
+    });
+    return unsubscribe;
+  }, [isOfflineSession]);
+
+  if (!isOfflineSession) return null;
+
+  const handleSignIn = async () => {
+    // The offline session has no token to revalidate - a fresh online sign-in is required
+    await logout();
+    router.replace('/login' as any);
+  };
+
+  return (
+    <View style={[styles.banner, { backgroundColor: theme.warning, paddingBottom: insets.bottom + 8 }]}>
+      <Ionicons name={isOnline ? 'cloud-done' : 'cloud-offline'} size={18} color={theme.buttonText} />
+      <Text style={[styles.text, { color: theme.buttonText }]}>
+        {isOnline ? 'Back online - sign in to make changes' : 'Offline session - read-only'}
+      </Text>
+      {isOnline && (
+        <TouchableOpacity
+          style={[styles.button, { borderColor: theme.buttonText }]}
+          onPress={handleSignIn}
+        >
+          <Text style={[styles.buttonText, { color: theme.buttonText }]}>Sign In</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+  },
+  text: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  button: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  buttonText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,88 @@
+import React from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  FlatListProps,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import type { UsePaginatedQueryResult } from '@/hooks/usePaginatedQuery';
+
+// The parts of a paginated query the list drives
+type PaginationControls = Pick<
+  UsePaginatedQueryResult<unknown>,
+  'hasMore' | 'isLoadingMore' | 'loadMoreError' | 'loadMore' | 'isRefreshing' | 'refresh'
+>;
+
+interface PaginatedListProps<T> extends Omit<FlatListProps<T>, 'onEndReached' | 'refreshControl' | 'ListFooterComponent'> {
+  query: PaginationControls;
+  endOfListText?: string;
+}
+
+// FlatList that loads the next page near the bottom, with pull-to-refresh and an end-of-list
+// footer. Rendering is kept to a few screens of rows so long lists stay smooth on low-end phones.
+export default function PaginatedList<T>({ query, endOfListText = 'No more results', ...props }: PaginatedListProps<T>) {
+  const { theme } = useThemeContext();
+  const count = props.data?.length ?? 0;
+
+  const renderFooter = () => {
+    if (query.isLoadingMore) {
+      return (
+        <View style={styles.footer}>
+          <ActivityIndicator color={theme.primary} />
+        </View>
+      );
+    }
+    if (query.loadMoreError) {
+      return (
+        <TouchableOpacity style={styles.footer} onPress={query.loadMore}>
+          <Text style={[styles.footerText, { color: theme.error }]}>
+            Could not load more. Tap to retry.
+          </Text>
+        </TouchableOpacity>
+      );
+    }
+    if (!query.hasMore && count > 0) {
+      return (
+        <View style={styles.footer}>
+          <Text style={[styles.footerText, { color: theme.textMuted }]}>{endOfListText}</Text>
+        </View>
+      );
+    }
+    return null;
+  };
+
+  return (
+    <FlatList<T>
+      initialNumToRender={10}
+      maxToRenderPerBatch={10}
+      updateCellsBatchingPeriod={50}
+      windowSize={7}
+      removeClippedSubviews={Platform.OS === 'android'}
+      onEndReachedThreshold={0.5}
+      keyboardShouldPersistTaps="handled"
+      {...props}
+      // After a failed page, wait for a tap instead of retrying on every scroll
+      onEndReached={() => {
+        if (!query.loadMoreError) query.loadMore();
+      }}
+      refreshControl={<RefreshControl refreshing={query.isRefreshing} onRefresh={query.refresh} />}
+      ListFooterComponent={renderFooter()}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  footer: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  footerText: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,45 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { PasswordCheck } from '@/lib/password-policy';
+
+interface PasswordChecklistProps {
+  check: PasswordCheck;
+}
+
+export default function PasswordChecklist({ check }: PasswordChecklistProps) {
+  const { theme } = useThemeContext();
+
+  return (
+    <View style={styles.container}>
+      {check.rules.map(rule => (
+        <View key={rule.label} style={styles.rule}>
+          <Ionicons
+            name={rule.passed ? 'checkmark-circle' : 'ellipse-outline'}
+            size={16}
+            color={rule.passed ? theme.success : theme.textMuted}
+          />
+          <Text style={[styles.ruleText, { color: rule.passed ? theme.text : theme.textSecondary }]}>
+            {rule.label}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+    gap: 6,
+  },
+  rule: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  ruleText: {
+    fontSize: 13,
+    marginLeft: 8,
+  },
+});
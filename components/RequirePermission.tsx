@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { router } from 'expo-router';
+import { useThemeContext } from '@/contexts/ThemeContext';
+import { usePermissions } from '@/hooks/usePermissions';
+import { Action, Resource } from '@/lib/permissions';
+
+interface RequirePermissionProps {
+  action: Action;
+  resource: Resource;
+  children: React.ReactNode;
+  fallback?: React.ReactNode; // Rendered instead of children when not allowed (defaults to nothing)
+  screen?: boolean; // Guarding a whole route - show an access denied screen instead
+}
+
+export default function RequirePermission({ action, resource, children, fallback = null, screen = false }: RequirePermissionProps) {
+  const { can } = usePermissions();
+
+  if (can(action, resource)) {
+    return <>{children}</>;
+  }
+
+  return screen ? <AccessDenied /> : <>{fallback}</>;
+}
+
+function AccessDenied() {
+  const { theme } = useThemeContext();
+  const { isReadOnly } = usePermissions();
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: theme.background }]}>
+      <View style={styles.content}>
+        <Ionicons name={isReadOnly ? 'cloud-offline' : 'lock-closed'} size={48} color={theme.textMuted} />
+        <Text style={[styles.title, { color: theme.text }]}>
+          {isReadOnly ? 'Offline Read-Only Mode' : 'Access Restricted'}
+        </Text>
+        <Text style={[styles.message, { color: theme.textSecondary }]}>
+          {isReadOnly
+            ? 'You unlocked cached data while offline. Sign in again once you are back online to make changes.'
+            : 'Your role does not allow this action. Please contact your supervisor or administrator.'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: theme.primary }]}
+          onPress={() => router.canGoBack() ? router.back() : router.replace('/(tabs)')}
+        >
+          <Text style={[styles.buttonText, { color: theme.buttonText }]}>Go Back</Text>
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 40,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  message: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  button: {
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 32,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
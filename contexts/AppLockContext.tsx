@@ -0,0 +1,138 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { Alert, AppState } from 'react-native';
+import { useAuth } from '@/contexts/AuthContext';
+import { AppLockService, AppLockSettings } from '@/lib/app-lock';
+import { BiometricService } from '@/lib/biometrics';
+import { logger } from '@/lib/logger';
+import AppLockScreen from '@/components/AppLockScreen';
+
+interface AppLockContextType {
+  isLocked: boolean;
+  settings: AppLockSettings | null;
+  lock: () => void;
+  refreshSettings: () => Promise<void>;
+  // Ask the user to prove it's them before a sensitive action. Resolves false when cancelled.
+  requireReauth: (reason: string) => Promise<boolean>;
+}
+
+const AppLockContext = createContext<AppLockContextType | undefined>(undefined);
+
+export const useAppLock = () => {
+  const context = useContext(AppLockContext);
+  if (context === undefined) {
+    throw new Error('useAppLock must be used within an AppLockProvider');
+  }
+  return context;
+};
+
+interface AppLockProviderProps {
+  children: ReactNode;
+}
+
+export const AppLockProvider: React.FC<AppLockProviderProps> = ({ children }) => {
+  const { isAuthenticated, isLoading } = useAuth();
+  const [settings, setSettings] = useState<AppLockSettings | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [reauthReason, setReauthReason] = useState<string | null>(null);
+  const reauthResolver = useRef<((confirmed: boolean) => void) | null>(null);
+  const backgroundedAt = useRef<number | null>(null);
+  const checkedColdStart = useRef(false);
+
+  const refreshSettings = useCallback(async () => {
+    const stored = await AppLockService.getSettings();
+    // The lock can't be opened without a PIN, so treat it as off when none is set
+    const hasPin = await AppLockService.hasPin();
+    setSettings({ ...stored, enabled: stored.enabled && hasPin });
+  }, []);
+
+  useEffect(() => {
+    refreshSettings();
+  }, [refreshSettings]);
+
+  // A session restored at launch starts locked; a fresh sign-in does not
+  useEffect(() => {
+    if (!settings || isLoading || checkedColdStart.current) return;
+    checkedColdStart.current = true;
+    if (settings.enabled && isAuthenticated) {
+      setIsLocked(true);
+    }
+  }, [settings, isLoading, isAuthenticated]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setIsLocked(false);
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      // Only 'background' counts - iOS reports 'inactive' while the biometric prompt is shown
+      if (state === 'background') {
+        backgroundedAt.current = Date.now();
+      } else if (state === 'active' && backgroundedAt.current !== null) {
+        const elapsed = Date.now() - backgroundedAt.current;
+        backgroundedAt.current = null;
+        if (settings?.enabled && isAuthenticated && elapsed >= settings.timeoutSeconds * 1000) {
+          logger.info('AppLock', 'Locking after', Math.round(elapsed / 1000), 'seconds in background');
+          setIsLocked(true);
+        }
+      }
+    });
+    return () => subscription.remove();
+  }, [settings, isAuthenticated]);
+
+  const lock = useCallback(() => {
+    if (settings?.enabled) {
+      setIsLocked(true);
+    }
+  }, [settings]);
+
+  const requireReauth = useCallback(async (reason: string) => {
+    if (!(await AppLockService.hasPin())) {
+      // No app PIN - fall back to the device's own biometrics or passcode
+      if (await BiometricService.isBiometricAvailable()) {
+        const result = await BiometricService.authenticateWithBiometrics(reason);
+        return result.success;
+      }
+      Alert.alert('PIN Required', 'Set up a PIN in Settings > Security to confirm this action.');
+      return false;
+    }
+
+    return new Promise<boolean>(resolve => {
+      reauthResolver.current = resolve;
+      setReauthReason(reason);
+    });
+  }, []);
+
+  const finishReauth = (confirmed: boolean) => {
+    reauthResolver.current?.(confirmed);
+    reauthResolver.current = null;
+    setReauthReason(null);
+  };
+
+  const value: AppLockContextType = {
+    isLocked,
+    settings,
+    lock,
+    refreshSettings,
+    requireReauth,
+  };
+
+  return (
+    <AppLockContext.Provider value={value}>
+      {children}
+      <AppLockScreen
+        visible={isLocked}
+        mode="unlock"
+        onSuccess={() => setIsLocked(false)}
+      />
+      <AppLockScreen
+        visible={!isLocked && reauthReason !== null}
+        mode="reauth"
+        reason={reauthReason || undefined}
+        onSuccess={() => finishReauth(true)}
+        onCancel={() => finishReauth(false)}
+      />
+    </AppLockContext.Provider>
+  );
+};
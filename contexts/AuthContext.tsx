@@ -1,14 +1,26 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { AuthService, User, LoginCredentials } from '@/lib/auth';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { router, usePathname } from 'expo-router';
+import { AuthService, AuthResponse, User, LoginCredentials } from '@/lib/auth';
+import { apiService, UpdateProfileData } from '@/lib/api';
+import { OfflineAuthService } from '@/lib/offline-auth';
+import { apiEnvironment, EnvironmentSelection, normalizeBaseUrl } from '@/lib/environment';
+import { logger } from '@/lib/logger';
+
+export type OfflineUnlockMethod = 'pin' | 'biometric';
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (credentials: LoginCredentials) => Promise<{ success: boolean; error?: string }>;
+  isOfflineSession: boolean; // Unlocked from cached data without a server token - read-only
+  login: (credentials: LoginCredentials) => Promise<{ success: boolean; error?: string; isNetworkError?: boolean }>;
+  loginWithBiometrics: () => Promise<{ success: boolean; error?: string; isNetworkError?: boolean }>;
+  unlockOffline: (method: OfflineUnlockMethod, username: string, pin?: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
-  updateProfile: (profileData: Partial<User>) => Promise<boolean>;
+  updateProfile: (profileData: UpdateProfileData) => Promise<{ success: boolean; error?: string }>;
+  // Point the app at another server. Signs out and clears all data from the previous one.
+  switchEnvironment: (selection: EnvironmentSelection) => Promise<{ success: boolean; error?: string }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -29,6 +41,12 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [isOfflineSession, setIsOfflineSession] = useState(false);
+
+  // Where the user was when the session expired, so login can bring them back
+  const pathname = usePathname();
+  const pathnameRef = useRef(pathname);
+  pathnameRef.current = pathname;
 
   const checkAuth = async () => {
     try {
@@ -38,12 +56,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         const storedUser = await AuthService.getStoredUser();
         setUser(storedUser);
         setIsAuthenticated(true);
+        // Refresh the profile in the background; the stored copy is fine until then
+        AuthService.syncProfile().then(latest => {
+          if (latest) setUser(latest);
+        });
       } else {
         setUser(null);
         setIsAuthenticated(false);
       }
     } catch (error) {
-      console.error('Auth check error:', error);
+      logger.error('Auth', 'Auth check error:', error);
       setUser(null);
       setIsAuthenticated(false);
     } finally {
@@ -51,72 +73,128 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (credentials: LoginCredentials) => {
+  const login = (credentials: LoginCredentials) => runLogin(() => AuthService.login(credentials));
+
+  const loginWithBiometrics = () => runLogin(() => AuthService.loginWithBiometrics());
+
+  const runLogin = async (attempt: () => Promise<AuthResponse>) => {
     try {
       setIsLoading(true);
-      console.log('AuthContext: Starting login process...');
-      const response = await AuthService.login(credentials);
-      console.log('AuthContext: Login response:', response);
-      
+      const response = await attempt();
+
       if (response.success && response.data) {
-        console.log('AuthContext: Setting user and authentication state...');
         setUser(response.data.user);
         setIsAuthenticated(true);
-        console.log('AuthContext: Login successful, user set:', response.data.user);
+        setIsOfflineSession(false);
         return { success: true };
       } else {
-        console.log('AuthContext: Login failed:', response.error);
-        return { success: false, error: response.error };
+        logger.info('Auth', 'Login failed:', response.error);
+        return { success: false, error: response.error, isNetworkError: response.isNetworkError };
       }
     } catch (error) {
-      console.error('AuthContext: Login error:', error);
+      logger.error('Auth', 'Login error:', error);
       return { success: false, error: 'Login failed' };
     } finally {
       setIsLoading(false);
     }
   };
 
+  const unlockOffline = async (method: OfflineUnlockMethod, username: string, pin?: string) => {
+    try {
+      const result = method === 'pin'
+        ? await OfflineAuthService.unlockWithPin(username, pin || '')
+        : await OfflineAuthService.unlockWithBiometrics(username);
+
+      if (result.success && result.user) {
+        setUser(result.user);
+        setIsAuthenticated(true);
+        setIsOfflineSession(true);
+        logger.info('Auth', 'Offline session started');
+        return { success: true };
+      }
+      return { success: false, error: result.error };
+    } catch (error) {
+      logger.error('Auth', 'Offline unlock error:', error);
+      return { success: false, error: 'Offline unlock failed' };
+    }
+  };
+
   const logout = async () => {
     try {
       setIsLoading(true);
-      console.log('AuthContext: Starting logout process...');
       await AuthService.logout();
       setUser(null);
       setIsAuthenticated(false);
-      console.log('AuthContext: Logout successful, user cleared');
+      setIsOfflineSession(false);
+      logger.info('Auth', 'Signed out');
     } catch (error) {
-      console.error('Logout error:', error);
+      logger.error('Auth', 'Logout error:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const updateProfile = async (profileData: Partial<User>) => {
+  const switchEnvironment = async (selection: EnvironmentSelection) => {
     try {
-      const success = await AuthService.updateProfile(profileData);
-      if (success && user) {
-        const updatedUser = { ...user, ...profileData };
-        setUser(updatedUser);
+      setIsLoading(true);
+      // Validate before wiping anything so a bad URL leaves the current session alone
+      if (selection.id === 'custom' && !normalizeBaseUrl(selection.customUrl || '')) {
+        return { success: false, error: 'Enter a valid URL starting with http:// or https://' };
       }
-      return success;
+
+      await AuthService.clearServerData();
+      await apiEnvironment.select(selection);
+      setUser(null);
+      setIsAuthenticated(false);
+      setIsOfflineSession(false);
+      router.replace('/login');
+      return { success: true };
     } catch (error) {
-      console.error('Update profile error:', error);
-      return false;
+      logger.error('Auth', 'Environment switch error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to switch environment' };
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateProfile = async (profileData: UpdateProfileData) => {
+    const result = await AuthService.updateProfile(profileData);
+    if (result.success && result.user) {
+      setUser(result.user);
     }
+    return { success: result.success, error: result.error };
   };
 
   useEffect(() => {
     checkAuth();
   }, []);
 
+  useEffect(() => {
+    return apiService.onSessionExpired(async () => {
+      const pendingRoute = pathnameRef.current;
+      logger.info('Auth', 'Session expired at', pendingRoute);
+      await logout();
+
+      const params: Record<string, string> = { reason: 'expired' };
+      if (pendingRoute && pendingRoute !== '/' && pendingRoute !== '/login') {
+        params.redirect = pendingRoute;
+      }
+      router.replace({ pathname: '/login', params } as any);
+    });
+  }, []);
+
   const value: AuthContextType = {
     user,
     isLoading,
     isAuthenticated,
+    isOfflineSession,
     login,
+    loginWithBiometrics,
+    unlockOffline,
     logout,
     checkAuth,
     updateProfile,
+    switchEnvironment,
   };
 
   return (
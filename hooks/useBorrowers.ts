@@ -0,0 +1,66 @@
+import { useQuery, useMutation, UseQueryOptions } from '@/hooks/useQuery';
+import { usePaginatedQuery } from '@/hooks/usePaginatedQuery';
+import {
+  apiService,
+  Borrower,
+  BorrowerListParams,
+  CreateBorrowerData,
+  UpdateBorrowerData,
+  WriteOptions,
+} from '@/lib/api';
+import { readCache } from '@/lib/cache';
+import { queryKeys } from '@/lib/query-client';
+
+export function useBorrowers(params?: BorrowerListParams) {
+  // The unfiltered list keeps its original cache key so data stored by earlier versions is reused
+  const cacheKey = params ? `borrowers:${JSON.stringify(params)}` : 'borrowers:all';
+  return useQuery<Borrower[]>(queryKeys.borrowers(params), emit =>
+    readCache.list('borrowers', cacheKey, () => apiService.getBorrowers(params), emit)
+  );
+}
+
+// Infinite-scroll list; search and status filtering happen on the server.
+// Search results are kept in memory only.
+export function usePaginatedBorrowers(params: Omit<BorrowerListParams, 'page' | 'limit'> = {}, options: UseQueryOptions = {}) {
+  return usePaginatedQuery(
+    queryKeys.borrowerPages(params),
+    'borrowers',
+    params.search ? null : `borrowers:pages:${JSON.stringify(params)}`,
+    (page, limit) => apiService.getBorrowers({ ...params, page, limit }),
+    options
+  );
+}
+
+export function useBorrower(id: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<Borrower>(
+    queryKeys.borrower(id || ''),
+    emit => readCache.record('borrowers', id!, () => apiService.getBorrower(id!), emit),
+    { ...options, enabled: !!id && options.enabled !== false }
+  );
+}
+
+export function useCreateBorrower() {
+  return useMutation('createBorrower', (data: CreateBorrowerData, options?: WriteOptions) =>
+    apiService.createBorrower(data, options)
+  );
+}
+
+export function useUpdateBorrower() {
+  return useMutation('updateBorrower', async (id: string, data: UpdateBorrowerData) => {
+    const response = await apiService.updateBorrower(id, data);
+    if (response.success) {
+      readCache.setRecord('borrowers', response.data);
+    }
+    return response;
+  });
+}
+
+export function useDeleteBorrower() {
+  return useMutation('deleteBorrower', async (id: string) => {
+    const response = await apiService.deleteBorrower(id);
+    if (response.success) {
+      readCache.removeRecord('borrowers', id);
+    }
+    return response;
+  });
+}
@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useActiveLoans } from '@/hooks/useLoans';
+import { buildWeeklySchedule, getWeekday, WeeklySchedule } from '@/lib/collection-schedule';
+
+// Derived from the active loan list, so the week and today's route come from the same loans
+// and refresh together after a collection is saved
+export function useWeeklySchedule() {
+  const query = useActiveLoans();
+  const schedule = useMemo<WeeklySchedule | undefined>(
+    () => (query.data ? buildWeeklySchedule(query.data) : undefined),
+    [query.data]
+  );
+  return { ...query, data: schedule };
+}
+
+export function useTodayRoute() {
+  const query = useWeeklySchedule();
+  return { ...query, data: query.data?.[getWeekday()] };
+}
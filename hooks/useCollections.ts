@@ -0,0 +1,56 @@
+import { useQuery, useMutation, UseQueryOptions } from '@/hooks/useQuery';
+import { usePaginatedQuery } from '@/hooks/usePaginatedQuery';
+import { apiService, CollectionFilter, CreateCollectionData, PopulatedCollection, WriteOptions } from '@/lib/api';
+import { readCache } from '@/lib/cache';
+import { queryKeys } from '@/lib/query-client';
+
+export function useCollections(filter?: CollectionFilter, options: UseQueryOptions = {}) {
+  return useQuery<PopulatedCollection[]>(
+    queryKeys.collections(filter),
+    emit => readCache.list('collections', `collections:${JSON.stringify(filter ?? {})}`, () => apiService.getCollections(filter), emit),
+    options
+  );
+}
+
+// Date ranges move every day, so only the unfiltered history is stored for offline use
+export function usePaginatedCollections(filter: Omit<CollectionFilter, 'page' | 'limit'> = {}, options: UseQueryOptions = {}) {
+  return usePaginatedQuery(
+    queryKeys.collectionPages(filter),
+    'collections',
+    filter.startDate || filter.endDate ? null : `collections:pages:${JSON.stringify(filter)}`,
+    (page, limit) => apiService.getCollections({ ...filter, page, limit }),
+    options
+  );
+}
+
+export function useLoanCollections(loanId: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<PopulatedCollection[]>(
+    queryKeys.loanCollections(loanId || ''),
+    emit => readCache.list('collections', `collections:loan:${loanId}`, () => apiService.getCollectionsByLoan(loanId!), emit),
+    { ...options, enabled: !!loanId && options.enabled !== false }
+  );
+}
+
+export function useCollection(id: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<PopulatedCollection>(
+    queryKeys.collection(id || ''),
+    emit => readCache.record('collections', id!, () => apiService.getCollection(id!), emit),
+    { ...options, enabled: !!id && options.enabled !== false }
+  );
+}
+
+export function useCreateCollection() {
+  return useMutation('createCollection', (data: CreateCollectionData, options?: WriteOptions) =>
+    apiService.createCollection(data, options)
+  );
+}
+
+export function useDeleteCollection() {
+  return useMutation('deleteCollection', async (id: string) => {
+    const response = await apiService.deleteCollection(id);
+    if (response.success) {
+      readCache.removeRecord('collections', id);
+    }
+    return response;
+  });
+}
@@ -0,0 +1,7 @@
+import { useQuery } from '@/hooks/useQuery';
+import { apiService, DashboardStats } from '@/lib/api';
+import { fromResponse, queryKeys } from '@/lib/query-client';
+
+export function useDashboardStats() {
+  return useQuery<DashboardStats>(queryKeys.dashboard(), fromResponse(() => apiService.getDashboardStats()));
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { config } from '@/lib/config';
+
+// The value once it has stopped changing for delayMs, e.g. search text before it hits the server
+export function useDebouncedValue<T>(value: T, delayMs: number = config.query.searchDebounceMs): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
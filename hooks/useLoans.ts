@@ -0,0 +1,71 @@
+import { useQuery, useMutation, UseQueryOptions } from '@/hooks/useQuery';
+import { usePaginatedQuery } from '@/hooks/usePaginatedQuery';
+import {
+  apiService,
+  CreateLoanData,
+  Installment,
+  Loan,
+  LoanListParams,
+  UpdateLoanData,
+  WriteOptions,
+} from '@/lib/api';
+import { readCache } from '@/lib/cache';
+import { queryKeys } from '@/lib/query-client';
+
+// Every page of active loans, the same list getWeeklyCollectionSchedule builds the week from
+export function useActiveLoans() {
+  return useQuery<Loan[]>(queryKeys.activeLoans(), emit =>
+    readCache.list('loans', 'loans:active', () => apiService.getActiveLoans(), emit)
+  );
+}
+
+// Search results are kept in memory only
+export function usePaginatedLoans(params: Omit<LoanListParams, 'page' | 'limit'> = {}, options: UseQueryOptions = {}) {
+  return usePaginatedQuery(
+    queryKeys.loanPages(params),
+    'loans',
+    params.search ? null : `loans:pages:${JSON.stringify(params)}`,
+    (page, limit) => apiService.getLoans({ ...params, page, limit }),
+    options
+  );
+}
+
+export function useLoan(id: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<Loan>(
+    queryKeys.loan(id || ''),
+    emit => readCache.record('loans', id!, () => apiService.getLoan(id!), emit),
+    { ...options, enabled: !!id && options.enabled !== false }
+  );
+}
+
+export function useBorrowerLoans(borrowerId: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<Loan[]>(
+    queryKeys.borrowerLoans(borrowerId || ''),
+    emit => readCache.list('loans', `loans:borrower:${borrowerId}`, () => apiService.getLoansByBorrower(borrowerId!), emit),
+    { ...options, enabled: !!borrowerId && options.enabled !== false }
+  );
+}
+
+export function useInstallments(loanId: string | undefined, options: UseQueryOptions = {}) {
+  return useQuery<Installment[]>(
+    queryKeys.installments(loanId || ''),
+    emit => readCache.list('installments', `installments:loan:${loanId}`, () => apiService.getInstallments(loanId!), emit),
+    { ...options, enabled: !!loanId && options.enabled !== false }
+  );
+}
+
+export function useCreateLoan() {
+  return useMutation('createLoan', (data: CreateLoanData, options?: WriteOptions) =>
+    apiService.createLoan(data, options)
+  );
+}
+
+export function useUpdateLoan() {
+  return useMutation('updateLoan', async (id: string, data: UpdateLoanData) => {
+    const response = await apiService.updateLoan(id, data);
+    if (response.success) {
+      readCache.setRecord('loans', response.data);
+    }
+    return response;
+  });
+}
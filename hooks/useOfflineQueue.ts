@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { offlineQueue, OfflineQueueItem } from '@/lib/offline-queue';
+
+export function useOfflineQueue() {
+  const [items, setItems] = useState<OfflineQueueItem[]>(offlineQueue.getItems());
+
+  useEffect(() => {
+    return offlineQueue.subscribe(setItems);
+  }, []);
+
+  return {
+    items,
+    pendingCount: items.filter(item => item.status === 'pending' || item.status === 'syncing').length,
+    failedCount: items.filter(item => item.status === 'failed').length,
+    blockedCount: items.filter(item => item.status === 'blocked').length,
+    flush: () => offlineQueue.flush(),
+    retry: (id: string) => offlineQueue.retry(id),
+    remove: (id: string) => offlineQueue.remove(id),
+  };
+}
@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, UseQueryOptions, UseQueryResult } from '@/hooks/useQuery';
+import type { ApiResponse } from '@/lib/api';
+import { CacheEntity, CacheEntityTypes, readCache } from '@/lib/cache';
+import { config } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { queryClient, QueryKey } from '@/lib/query-client';
+
+// Pages loaded so far, kept as one entry in the query store
+export interface PaginatedList<T> {
+  items: T[];
+  page: number; // Last page loaded
+  total: number | null; // From the server's pagination, null when it didn't say
+  hasMore: boolean;
+}
+
+export type PageFetcher<T> = (page: number, limit: number) => Promise<ApiResponse<T[]>>;
+
+export interface UsePaginatedQueryOptions extends UseQueryOptions {
+  pageSize?: number;
+}
+
+export interface UsePaginatedQueryResult<T> extends Omit<UseQueryResult<PaginatedList<T>>, 'data'> {
+  items: T[];
+  total: number | null;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMoreError: Error | null;
+  loadMore: () => Promise<void>; // Wire to onEndReached; ignored while loading or at the end
+}
+
+const toList = <T>(
+  items: T[],
+  page: number,
+  response: Pick<ApiResponse<T[]>, 'data' | 'pagination'>,
+  pageSize: number
+): PaginatedList<T> => ({
+  items,
+  page,
+  total: response.pagination?.total ?? null,
+  // Servers that don't paginate send everything at once, so a short page is the last one
+  hasMore: response.pagination
+    ? page < response.pagination.totalPages
+    : response.data.length >= pageSize,
+});
+
+// Infinite-scroll list on top of useQuery. The first page goes through the read cache so the
+// list opens offline; later pages are appended on demand. A refresh or a write touching the
+// entity starts over from the first page. Pass a null cacheKey for lists that shouldn't be
+// stored, e.g. search results - every keystroke would otherwise add a list to storage.
+export function usePaginatedQuery<K extends CacheEntity>(
+  key: QueryKey,
+  entity: K,
+  cacheKey: string | null,
+  fetchPage: PageFetcher<CacheEntityTypes[K]>,
+  { pageSize = config.query.pageSize, ...options }: UsePaginatedQueryOptions = {}
+): UsePaginatedQueryResult<CacheEntityTypes[K]> {
+  type T = CacheEntityTypes[K];
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+
+  const { data, ...query } = useQuery<PaginatedList<T>>(key, async emit => {
+    if (!cacheKey) {
+      const response = await fetchPageRef.current(1, pageSize);
+      if (!response.success) {
+        throw new Error(response.error || 'Request failed');
+      }
+      emit({ data: toList(response.data, 1, response, pageSize) });
+      return;
+    }
+
+    let firstPage: ApiResponse<T[]> | null = null;
+    await readCache.list(entity, cacheKey, async () => {
+      firstPage = await fetchPageRef.current(1, pageSize);
+      return firstPage;
+    }, result => {
+      emit({
+        ...result,
+        // A cached page has no pagination info, so its length decides whether to offer more
+        data: toList(result.data, 1, result.fromCache || !firstPage ? result : firstPage, pageSize),
+      });
+    });
+  }, options);
+
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [loadMoreError, setLoadMoreError] = useState<Error | null>(null);
+  const loadingMore = useRef(false);
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  // A new search or a fresh first page gets a fresh chance to load more
+  const hash = JSON.stringify(key);
+  useEffect(() => {
+    setLoadMoreError(null);
+  }, [hash, data]);
+
+  const loadMore = useCallback(async () => {
+    const listKey = keyRef.current;
+    const current = queryClient.getState<PaginatedList<T>>(listKey).data;
+    if (!current || !current.hasMore || loadingMore.current || queryClient.getState(listKey).isFetching) {
+      return;
+    }
+
+    loadingMore.current = true;
+    setIsLoadingMore(true);
+    setLoadMoreError(null);
+    try {
+      const nextPage = current.page + 1;
+      const response = await fetchPageRef.current(nextPage, pageSize);
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load more');
+      }
+      // A refresh replaced the list while this page was loading - its first page wins
+      if (queryClient.getState<PaginatedList<T>>(listKey).data !== current) return;
+
+      // Records created meanwhile shift later pages, so skip rows already shown
+      const seen = new Set(current.items.map(item => item._id));
+      const items = [...current.items, ...response.data.filter(item => !seen.has(item._id))];
+      queryClient.setData(listKey, toList(items, nextPage, response, pageSize));
+    } catch (error) {
+      logger.warn('Query', `Failed to load more ${JSON.stringify(listKey)}:`, error);
+      setLoadMoreError(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      loadingMore.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [pageSize]);
+
+  return {
+    ...query,
+    items: data?.items ?? [],
+    total: data?.total ?? null,
+    hasMore: !!data?.hasMore,
+    isLoadingMore,
+    loadMoreError,
+    loadMore,
+  };
+}
@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { can as canRole, Action, Resource } from '@/lib/permissions';
+
+export function usePermissions() {
+  const { user, isOfflineSession } = useAuth();
+  const role = user?.role;
+
+  const can = useCallback(
+    (action: Action, resource: Resource) => {
+      // Offline-unlocked sessions have no server token, so they are read-only
+      if (isOfflineSession && action !== 'view') return false;
+      return canRole(role, action, resource);
+    },
+    [role, isOfflineSession]
+  );
+
+  return { role, can, isReadOnly: isOfflineSession };
+}
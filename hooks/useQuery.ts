@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFocusEffect } from 'expo-router';
+import { MutationType, queryClient, QueryKey, QueryLoader, QueryState } from '@/lib/query-client';
+
+export interface UseQueryOptions {
+  enabled?: boolean; // false while a required id or filter isn't known yet
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: Error | null;
+  isLoading: boolean; // Nothing to show yet
+  isRefreshing: boolean; // Pull-to-refresh in progress
+  isFetching: boolean; // Any request in flight, including background refetches
+  isFromCache: boolean;
+  syncedAt: string | null;
+  refresh: () => Promise<void>; // Wire to RefreshControl's onRefresh
+}
+
+// Subscribe to a key in the shared query store. Fetches on mount, refetches on focus when
+// the data is stale or a write invalidated it, and shares in-flight requests between screens.
+export function useQuery<T>(
+  key: QueryKey,
+  loader: QueryLoader<T>,
+  { enabled = true }: UseQueryOptions = {}
+): UseQueryResult<T> {
+  const hash = JSON.stringify(key);
+  const [state, setState] = useState<QueryState<T>>(() => queryClient.getState<T>(key));
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Loaders are usually inline closures - keep the latest without refetching on every render
+  const loaderRef = useRef(loader);
+  loaderRef.current = loader;
+  const keyRef = useRef(key);
+  keyRef.current = key;
+
+  const run = useCallback(() => {
+    return queryClient.fetch<T>(keyRef.current, emit => loaderRef.current(emit));
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribe = queryClient.subscribe(keyRef.current, () => {
+      setState(queryClient.getState<T>(keyRef.current));
+    });
+    setState(queryClient.getState<T>(keyRef.current));
+    if (queryClient.isStale(keyRef.current)) {
+      run();
+    }
+    return unsubscribe;
+  }, [hash, enabled, run]);
+
+  // Mount is handled above, so only refetch when coming back to an already mounted screen
+  const hasFocused = useRef(false);
+  useFocusEffect(
+    useCallback(() => {
+      if (!hasFocused.current) {
+        hasFocused.current = true;
+        return;
+      }
+      if (enabled && queryClient.isStale(keyRef.current)) {
+        run();
+      }
+    }, [enabled, run])
+  );
+
+  const refresh = useCallback(async () => {
+    if (!enabled) return;
+    setIsRefreshing(true);
+    try {
+      await run();
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [enabled, run]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isRefreshing,
+    isFetching: state.isFetching,
+    isFromCache: state.isFromCache,
+    syncedAt: state.syncedAt,
+    refresh,
+  };
+}
+
+export interface UseMutationResult<A extends unknown[], R> {
+  mutate: (...args: A) => Promise<R>; // Rethrows so screens keep their own offline and error handling
+  isPending: boolean;
+}
+
+// Wrap a write so every query it affects is refetched once it succeeds
+export function useMutation<A extends unknown[], R extends { success: boolean }>(
+  type: MutationType,
+  mutation: (...args: A) => Promise<R>
+): UseMutationResult<A, R> {
+  const [isPending, setIsPending] = useState(false);
+  const mutationRef = useRef(mutation);
+  mutationRef.current = mutation;
+
+  const mutate = useCallback(async (...args: A) => {
+    setIsPending(true);
+    try {
+      const result = await mutationRef.current(...args);
+      if (result.success) {
+        queryClient.invalidateAfter(type);
+      }
+      return result;
+    } finally {
+      setIsPending(false);
+    }
+  }, [type]);
+
+  return { mutate, isPending };
+}
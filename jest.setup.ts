@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Native modules the app talks to, replaced with in-memory versions. Every test starts
+// with empty storage; tests that need a server install lib/mock-backend.ts themselves.
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('@react-native-community/netinfo', () =>
+  jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock')
+);
+
+jest.mock('expo-secure-store', () => {
+  const items = new Map<string, string>();
+  return {
+    __items: items,
+    setItemAsync: jest.fn(async (key: string, value: string) => {
+      items.set(key, value);
+    }),
+    getItemAsync: jest.fn(async (key: string) => items.get(key) ?? null),
+    deleteItemAsync: jest.fn(async (key: string) => {
+      items.delete(key);
+    }),
+  };
+});
+
+jest.mock('expo-local-authentication', () => ({
+  hasHardwareAsync: jest.fn(async () => true),
+  isEnrolledAsync: jest.fn(async () => true),
+  authenticateAsync: jest.fn(async () => ({ success: true })),
+}));
+
+jest.mock('expo-crypto', () => {
+  const crypto = jest.requireActual<typeof import('crypto')>('crypto');
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    randomUUID: () => crypto.randomUUID(),
+    getRandomBytes: (count: number) => new Uint8Array(crypto.randomBytes(count)),
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      crypto.createHash('sha256').update(data).digest('hex'),
+  };
+});
+
+jest.mock('react-native-reanimated', () => jest.requireActual('react-native-reanimated/mock'));
+
+jest.mock('react-native-safe-area-context', () => jest.requireActual('react-native-safe-area-context/jest/mock').default);
+
+// Screens are rendered on their own, without a navigator around them
+jest.mock('expo-router', () => ({
+  router: {
+    push: jest.fn(),
+    replace: jest.fn(),
+    back: jest.fn(),
+    canGoBack: jest.fn(() => true),
+  },
+  useLocalSearchParams: jest.fn(() => ({})),
+  usePathname: jest.fn(() => '/'),
+  useFocusEffect: jest.fn(),
+}));
+
+// The logger echoes every request to the console and takes over console.* when it loads.
+// Tests get a silent one instead, so console.warn and console.error still show React
+// warnings and real failures; tests expecting an error silence it themselves.
+jest.mock('@/lib/logger', () => ({
+  logger: {
+    initialize: jest.fn(async () => {}),
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    getEntries: jest.fn(() => []),
+    clear: jest.fn(async () => {}),
+  },
+  formatLogEntry: jest.fn(() => ''),
+}));
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.requireMock('expo-secure-store').__items.clear();
+});
@@ -1,7 +1,7 @@
-import { config } from './config';
+import { apiEnvironment } from './environment';
 
 export const testApiConnection = async () => {
-  const testUrl = `${config.api.baseUrl}/auth/login`;
+  const testUrl = `${apiEnvironment.getBaseUrl()}/auth/login`;
   
   console.log('Testing API connection to:', testUrl);
   
@@ -39,7 +39,7 @@ export const testApiConnection = async () => {
 };
 
 export const testSimpleGet = async () => {
-  const testUrl = config.api.baseUrl.replace('/api', '');
+  const testUrl = apiEnvironment.getBaseUrl().replace('/api', '');
   
   console.log('Testing simple GET to:', testUrl);
   
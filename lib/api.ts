@@ -1,22 +1,72 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import * as Crypto from 'expo-crypto';
+import { z } from 'zod';
 import { config } from './config';
+import { InterestType } from './loan-schedule';
+import { buildWeeklySchedule, CollectionRoute, getWeekday, WeeklySchedule } from './collection-schedule';
+import { isTokenExpired } from './jwt';
+import { apiEnvironment } from './environment';
+import { ApiError, AuthError, createHttpError, NetworkError, OutcomeUnknownError, TimeoutError } from './errors';
+import { logger } from './logger';
+import { backoffDelay, isOutcomeUncertain, isTransientError, sleep } from './retry';
+import {
+  apiResponse,
+  parseResponse,
+  messageSchema,
+  userSchema,
+  loginResponseSchema,
+  refreshResponseSchema,
+  deviceRegistrationSchema,
+  passwordResetRequestSchema,
+  resetTokenSchema,
+  borrowerSchema,
+  loanSchema,
+  installmentSchema,
+  populatedCollectionSchema,
+  paymentSchema,
+  dashboardStatsSchema,
+  dailyBackupSchema,
+  backupStatusSchema,
+  User,
+  LoginResponse,
+  DeviceRegistration,
+  PasswordResetRequest,
+  Borrower,
+  Loan,
+  Installment,
+  PopulatedCollection,
+  Payment,
+  DashboardStats,
+  DailyBackup,
+  BackupStatus,
+} from './schemas';
+
+// Entity types are derived from the response schemas
+export type {
+  User,
+  LoginResponse,
+  DeviceRegistration,
+  PasswordResetRequest,
+  Borrower,
+  Loan,
+  Installment,
+  Collection,
+  PopulatedCollection,
+  Payment,
+  DashboardStats,
+  DailyBackup,
+  BackupStatus,
+} from './schemas';
 
 // API Configuration
-const API_BASE_URL = config.api.baseUrl;
 const TOKEN_KEY = 'auth_token'; // Changed to match auth service
+const REFRESH_TOKEN_KEY = 'refresh_token';
 
-// Types
-export interface User {
-  id: string;
-  username: string;
-  name: string;
-  role: string;
-}
-
-export interface LoginResponse {
-  success: boolean;
-  token: string;
-  user: User;
+export interface UpdateProfileData {
+  name?: string;
+  phone?: string;
+  email?: string;
 }
 
 export interface ApiResponse<T> {
@@ -31,42 +81,21 @@ export interface ApiResponse<T> {
   };
 }
 
-export interface Borrower {
-  _id: string;
-  name: string;
-  phone?: string;
-  address: string;
-  village: string;
-  gpsLat?: number;
-  gpsLng?: number;
-  photoUrl?: string;
-  idProofUrl?: string;
-  householdHead?: string;
-  isActive: boolean;
-  collectionDays: string[];
-  loansCount?: number;
-  totalOutstanding?: number;
-  lastCollection?: string;
-  createdAt: string;
-  updatedAt: string;
+export interface BorrowerListParams {
+  page?: number;
+  limit?: number;
+  search?: string;
+  isActive?: boolean;
+  collectionDay?: string;
 }
 
-export interface Loan {
-  _id: string;
-  loanNumber: string;
-  principalAmount: number;
-  disbursedAmount: number;
-  termWeeks: number;
-  startDate: string;
-  status: 'ACTIVE' | 'COMPLETED' | 'DEFAULTED';
-  borrower: {
-    _id: string;
-    name: string;
-  };
-  outstandingAmount: number;
-  totalPaid: number;
-  collectionDays: string[]; // Collection days for this specific loan
-  createdAt: string;
+export interface LoanListParams {
+  page?: number;
+  limit?: number;
+  search?: string; // Loan number or borrower name
+  borrowerId?: string;
+  status?: Loan['status'];
+  collectionDay?: string;
 }
 
 export interface CreateBorrowerData {
@@ -82,37 +111,44 @@ export interface CreateBorrowerData {
   collectionDays: string[];
 }
 
+export interface UpdateBorrowerData extends Partial<CreateBorrowerData> {
+  isActive?: boolean;
+}
+
 export interface CreateLoanData {
   principalAmount: number;
   disbursedAmount: number;
   termWeeks: number;
   startDate: string;
+  interestType: InterestType;
+  interestRate: number; // Annual rate in percent
+  processingFee: number;
+  insuranceFee: number;
   borrowerId: string;
   collectionDays: string[]; // Collection days for this specific loan
 }
 
-export interface Installment {
-  _id: string;
-  amount: number;
-  dueDate: string;
-  status: 'PENDING' | 'PAID' | 'OVERDUE' | 'PARTIAL';
-  loanId: string;
-  installmentNumber: number;
-  createdAt: string;
-  updatedAt: string;
+export interface UpdateLoanData extends Partial<Omit<CreateLoanData, 'borrowerId'>> {
+  status?: Loan['status'];
+  reason: string; // Why the loan was changed, kept for the audit trail
 }
 
-export interface Collection {
-  _id: string;
-  amount: number;
-  paymentDate: string;
-  gpsLat?: number;
-  gpsLng?: number;
-  notes?: string;
-  installmentId: string;
-  collectorId: string;
-  createdAt: string;
-  updatedAt: string;
+// Options for writes that create records. Reuse the same key when sending the same
+// write again so the server can recognise the repeat instead of saving it twice.
+export interface WriteOptions {
+  idempotencyKey?: string;
+}
+
+export const createIdempotencyKey = (): string => Crypto.randomUUID();
+
+export interface CollectionFilter {
+  page?: number;
+  limit?: number;
+  collectorId?: string;
+  loanId?: string;
+  installmentId?: string;
+  startDate?: string;
+  endDate?: string;
 }
 
 export interface CreateCollectionData {
@@ -125,49 +161,96 @@ export interface CreateCollectionData {
   collectorId: string;
 }
 
-export interface PopulatedCollection extends Omit<Collection, 'installmentId' | 'collectorId'> {
-  installmentId: {
-    _id: string;
-    installmentNumber: number;
-    dueDate: string;
-    status: string;
-    amount: number;
-    loanId: string; // Added loanId to PopulatedCollection
-  };
-  collectorId: {
-    _id: string;
-    name: string;
-    email: string;
-    phone?: string;
-  };
-}
-
-export interface Payment {
-  id: string;
-  loanId: string;
-  amount: number;
-  paymentDate: string;
-  collectorName: string;
-  collectorId: string;
-  status: 'PENDING' | 'COMPLETED' | 'FAILED';
-  notes?: string;
-  createdAt: string;
-}
+// No connection at all, as opposed to one that fails mid-request
+const isOffline = async (): Promise<boolean> => {
+  const state = await NetInfo.fetch();
+  return state.isConnected === false || state.isInternetReachable === false;
+};
 
 // API Service Class
 class ApiService {
   private token: string | null = null;
+  private refreshPromise: Promise<boolean> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
 
   // Initialize token from storage
   async initialize() {
     this.token = await AsyncStorage.getItem(TOKEN_KEY);
-    console.log('API Service - Initialized with token:', this.token ? 'Present' : 'Missing');
+    logger.info('API', 'Initialized with token:', this.token ? 'Present' : 'Missing');
   }
 
   // Refresh token from storage (useful when token is updated by auth service)
   async refreshToken() {
     this.token = await AsyncStorage.getItem(TOKEN_KEY);
-    console.log('API Service - Token refreshed:', this.token ? 'Present' : 'Missing');
+    logger.debug('API', 'Token reloaded:', this.token ? 'Present' : 'Missing');
+  }
+
+  private async setTokens(token: string, refreshToken?: string) {
+    this.token = token;
+    await AsyncStorage.setItem(TOKEN_KEY, token);
+    if (refreshToken) {
+      await AsyncStorage.setItem(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  }
+
+  // Called when the session can no longer be used and the user must sign in again
+  onSessionExpired(listener: () => void): () => void {
+    this.sessionExpiredListeners.add(listener);
+    return () => {
+      this.sessionExpiredListeners.delete(listener);
+    };
+  }
+
+  private async expireSession() {
+    // Several requests can fail together - only report the session once
+    if (!this.token) return;
+
+    logger.info('API', 'Session expired');
+    this.token = null;
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+    this.sessionExpiredListeners.forEach(listener => listener());
+  }
+
+  // Exchange the refresh token for a new access token. Concurrent callers share one exchange.
+  async refreshSession(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.exchangeRefreshToken().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async exchangeRefreshToken(): Promise<boolean> {
+    const refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      return false;
+    }
+
+    try {
+      const response = await this.request('/auth/refresh', refreshResponseSchema, {
+        method: 'POST',
+        body: JSON.stringify({ refreshToken }),
+      });
+
+      if (!response.success || !response.token) {
+        return false;
+      }
+
+      await this.setTokens(response.token, response.refreshToken);
+      logger.info('API', 'Access token refreshed');
+      return true;
+    } catch (error) {
+      logger.warn('API', 'Token refresh failed:', error);
+      return false;
+    }
+  }
+
+  // Refresh shortly before the access token expires so requests don't bounce off a 401
+  private async ensureFreshToken() {
+    if (this.token && isTokenExpired(this.token, config.auth.refreshLeewaySeconds * 1000)) {
+      await this.refreshSession();
+    }
   }
 
   // Get auth headers
@@ -176,69 +259,88 @@ class ApiService {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
     };
-    
-    console.log('API Service - Current token:', this.token ? 'Present' : 'Missing');
-    console.log('API Service - Token value:', this.token);
-    
+
     if (this.token) {
       headers.Authorization = `Bearer ${this.token}`;
     }
-    
-    console.log('API Service - Final headers:', headers);
+
     return headers;
   }
 
-  // Make API request
-  private async request<T>(
+  // Make API request. The body is checked against the schema before it reaches the caller,
+  // and failures are thrown as the typed errors in lib/errors.ts.
+  private async request<S extends z.ZodTypeAny>(
     endpoint: string,
-    options: RequestInit = {}
-  ): Promise<ApiResponse<T>> {
-    const url = `${API_BASE_URL}${endpoint}`;
+    schema: S,
+    options: RequestInit = {},
+    isRetry: boolean = false
+  ): Promise<z.output<S>> {
+    // The base URL is chosen at runtime, so wait for the stored choice before the first request
+    await apiEnvironment.initialize();
+    const url = `${apiEnvironment.getBaseUrl()}${endpoint}`;
+    const isAuthEndpoint = endpoint.startsWith('/auth/');
+
+    if (!isAuthEndpoint && !isRetry) {
+      await this.ensureFreshToken();
+    }
     
-    const config: RequestInit = {
-      headers: this.getHeaders(),
+    const requestConfig: RequestInit = {
       ...options,
+      headers: { ...this.getHeaders(), ...(options.headers as Record<string, string>) },
     };
 
-    console.log('API Request - URL:', url);
-    console.log('API Request - Method:', options.method || 'GET');
-    console.log('API Request - Body:', options.body);
+    // Bodies are not logged - they carry credentials and borrower details
+    const method = options.method || 'GET';
+    logger.debug('API', `${method} ${endpoint}`);
 
     try {
       // Add timeout
       const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-      
-      const response = await fetch(url, {
-        ...config,
-        signal: controller.signal,
-      });
+      const timeoutId = setTimeout(() => controller.abort(), config.api.timeout);
       
-      clearTimeout(timeoutId);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          ...requestConfig,
+          signal: controller.signal,
+        });
+      } finally {
+        // Failed requests too, so the timer doesn't outlive them
+        clearTimeout(timeoutId);
+      }
       
-      console.log('API Response - Status:', response.status);
-      console.log('API Response - OK:', response.ok);
+      logger.debug('API', `${method} ${endpoint} -> ${response.status}`);
+
+      if (response.status === 401 && !isAuthEndpoint) {
+        // Retry once with a refreshed token, otherwise the session is over
+        if (!isRetry && await this.refreshSession()) {
+          return this.request(endpoint, schema, options, true);
+        }
+        await this.expireSession();
+        throw new AuthError();
+      }
       
       const data = await response.json();
-      console.log('API Response - Data:', data);
-      
+
       if (!response.ok) {
-        const errorMessage = data.error || data.message || `HTTP ${response.status}`;
-        const error = new Error(errorMessage);
-        (error as any).status = response.status;
-        throw error;
+        throw createHttpError(response.status, data);
       }
-      
-      return data;
+
+      // A handled failure only carries an error message, so there is no payload to check
+      if (data && data.success === false) {
+        return { ...data, error: data.error || data.message };
+      }
+
+      return parseResponse(schema, data, endpoint);
     } catch (error) {
-      console.error('API Request failed:', error);
+      logger.error('API', `${method} ${endpoint} failed:`, error);
       
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof ApiError)) {
         if (error.name === 'AbortError') {
-          throw new Error('Request timeout - server not responding');
+          throw new TimeoutError();
         }
         if (error.message.includes('Network request failed')) {
-          throw new Error('Network request failed - check if server is running and API URL is correct');
+          throw new NetworkError();
         }
       }
       
@@ -246,327 +348,366 @@ class ApiService {
     }
   }
 
+  // Send a create with an idempotency key, retrying transient failures with backoff.
+  // Throws OutcomeUnknownError when no attempt succeeded and any of them may have been saved.
+  private async idempotentRequest<S extends z.ZodTypeAny>(
+    endpoint: string,
+    schema: S,
+    options: RequestInit,
+    idempotencyKey: string
+  ): Promise<z.output<S>> {
+    const keyedOptions: RequestInit = {
+      ...options,
+      headers: { 'Idempotency-Key': idempotencyKey },
+    };
+    const { maxAttempts } = config.api.retry;
+    let lastError: unknown;
+    // Once any attempt may have reached the server, a later definite failure doesn't undo it
+    let sawUncertain = false;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      if (attempt > 0) {
+        const delay = backoffDelay(attempt - 1);
+        logger.info('API', `Retrying ${endpoint} in ${delay}ms (attempt ${attempt + 1} of ${maxAttempts})`);
+        await sleep(delay);
+      }
+
+      // Without a connection this attempt can't reach the server, so it can't have been saved
+      if (await isOffline()) {
+        lastError = new NetworkError();
+        break;
+      }
+
+      try {
+        return await this.request(endpoint, schema, keyedOptions);
+      } catch (error) {
+        lastError = error;
+        sawUncertain = sawUncertain || isOutcomeUncertain(error);
+        if (!isTransientError(error)) {
+          break;
+        }
+      }
+    }
+
+    if (sawUncertain) {
+      throw new OutcomeUnknownError(idempotencyKey, lastError);
+    }
+    throw lastError;
+  }
+
   // Authentication
   async login(username: string, password: string): Promise<LoginResponse> {
     try {
-      const response = await this.request<any>('/auth/login', {
+      const response = await this.request('/auth/login', loginResponseSchema, {
         method: 'POST',
         body: JSON.stringify({ username, password }),
       });
-      
+      return this.completeLogin(response);
+    } catch (error) {
+      logger.error('API', 'Login failed:', error);
+      throw error;
+    }
+  }
 
-      
-      // Based on the logs, the response has token and user directly
-      if (response.success) {
-        const token = (response as any).token;
-        const user = (response as any).user;
-        
-        if (token && user) {
-          this.token = token;
-          await AsyncStorage.setItem(TOKEN_KEY, token);
-          
-          return {
-            success: true,
-            token,
-            user
-          };
-        }
-      }
-      
-      return {
-        success: false,
-        token: '',
-        user: { id: '', username: '', name: '', role: '' }
-      };
+  // Sign in with a device credential registered for biometric login
+  async loginWithDevice(deviceId: string, deviceToken: string): Promise<LoginResponse> {
+    try {
+      const response = await this.request('/auth/device-login', loginResponseSchema, {
+        method: 'POST',
+        body: JSON.stringify({ deviceId, deviceToken }),
+      });
+      return this.completeLogin(response);
     } catch (error) {
-      console.error('Login API error:', error);
+      logger.error('API', 'Device login failed:', error);
       throw error;
     }
   }
 
+  private async completeLogin(response: LoginResponse): Promise<LoginResponse> {
+    // Login responses carry the token and user directly rather than under data
+    if (response.success && response.token) {
+      await this.setTokens(response.token, response.refreshToken);
+      return response;
+    }
+    
+    return {
+      success: false,
+      token: '',
+      user: { id: '', username: '', name: '', role: '' }
+    };
+  }
+
   async logout(): Promise<void> {
     this.token = null;
-    await AsyncStorage.removeItem(TOKEN_KEY);
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY]);
+  }
+
+  // Profile
+  async getProfile(): Promise<ApiResponse<User>> {
+    return this.request('/profile', apiResponse(userSchema));
+  }
+
+  async updateProfile(data: UpdateProfileData): Promise<ApiResponse<User>> {
+    return this.request('/profile', apiResponse(userSchema), {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // The server answers 400 (not 401) when the current password is wrong, so the session survives
+  async changePassword(currentPassword: string, newPassword: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/profile/password', apiResponse(messageSchema), {
+      method: 'POST',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    });
+  }
+
+  // Password reset (signed out)
+  async requestPasswordReset(username: string): Promise<ApiResponse<PasswordResetRequest>> {
+    return this.request('/auth/forgot-password', apiResponse(passwordResetRequestSchema), {
+      method: 'POST',
+      body: JSON.stringify({ username }),
+    });
+  }
+
+  async verifyPasswordResetOtp(username: string, otp: string): Promise<ApiResponse<{ resetToken: string }>> {
+    return this.request('/auth/verify-otp', apiResponse(resetTokenSchema), {
+      method: 'POST',
+      body: JSON.stringify({ username, otp }),
+    });
+  }
+
+  async resetPassword(resetToken: string, newPassword: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request('/auth/reset-password', apiResponse(messageSchema), {
+      method: 'POST',
+      body: JSON.stringify({ resetToken, newPassword }),
+    });
+  }
+
+  // Devices
+  async registerDevice(deviceName: string): Promise<ApiResponse<DeviceRegistration>> {
+    return this.request('/devices', apiResponse(deviceRegistrationSchema), {
+      method: 'POST',
+      body: JSON.stringify({ deviceName }),
+    });
+  }
+
+  async revokeDevice(deviceId: string): Promise<ApiResponse<{ message: string }>> {
+    return this.request(`/devices/${deviceId}`, apiResponse(messageSchema), {
+      method: 'DELETE',
+    });
   }
 
   // Borrowers
-  async getBorrowers(params?: {
-    page?: number;
-    limit?: number;
-    search?: string;
-    collectionDay?: string;
-  }): Promise<ApiResponse<Borrower[]>> {
+  async getBorrowers(params?: BorrowerListParams): Promise<ApiResponse<Borrower[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append('page', params.page.toString());
     if (params?.limit) searchParams.append('limit', params.limit.toString());
     if (params?.search) searchParams.append('search', params.search);
+    if (params?.isActive !== undefined) searchParams.append('isActive', String(params.isActive));
     if (params?.collectionDay) searchParams.append('collectionDay', params.collectionDay);
     
     const endpoint = `/borrowers${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-    return this.request<Borrower[]>(endpoint);
+    return this.request(endpoint, apiResponse(z.array(borrowerSchema)));
   }
 
   async getBorrower(id: string): Promise<ApiResponse<Borrower>> {
-    return this.request<Borrower>(`/borrowers/${id}`);
+    return this.request(`/borrowers/${id}`, apiResponse(borrowerSchema));
   }
 
-  async createBorrower(data: CreateBorrowerData): Promise<ApiResponse<Borrower>> {
-    return this.request<Borrower>('/borrowers', {
+  async createBorrower(data: CreateBorrowerData, options: WriteOptions = {}): Promise<ApiResponse<Borrower>> {
+    return this.idempotentRequest('/borrowers', apiResponse(borrowerSchema), {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }, options.idempotencyKey || createIdempotencyKey());
   }
 
-  async updateBorrower(id: string, data: Partial<CreateBorrowerData>): Promise<ApiResponse<Borrower>> {
-    return this.request<Borrower>(`/borrowers/${id}`, {
+  async updateBorrower(id: string, data: UpdateBorrowerData): Promise<ApiResponse<Borrower>> {
+    return this.request(`/borrowers/${id}`, apiResponse(borrowerSchema), {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
   async deleteBorrower(id: string): Promise<ApiResponse<{ message: string }>> {
-    return this.request<{ message: string }>(`/borrowers/${id}`, {
+    return this.request(`/borrowers/${id}`, apiResponse(messageSchema), {
       method: 'DELETE',
     });
   }
 
   // Loans
-  async getLoans(): Promise<ApiResponse<Loan[]>> {
-    return this.request<Loan[]>('/loans');
+  async getLoans(params?: LoanListParams): Promise<ApiResponse<Loan[]>> {
+    const searchParams = new URLSearchParams();
+    if (params?.page) searchParams.append('page', params.page.toString());
+    if (params?.limit) searchParams.append('limit', params.limit.toString());
+    if (params?.search) searchParams.append('search', params.search);
+    if (params?.borrowerId) searchParams.append('borrowerId', params.borrowerId);
+    if (params?.status) searchParams.append('status', params.status);
+    if (params?.collectionDay) searchParams.append('collectionDay', params.collectionDay);
+
+    const endpoint = `/loans${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
+    return this.request(endpoint, apiResponse(z.array(loanSchema)));
   }
 
   async getLoan(id: string): Promise<ApiResponse<Loan>> {
-    return this.request<Loan>(`/loans/${id}`);
+    return this.request(`/loans/${id}`, apiResponse(loanSchema));
   }
 
-  async createLoan(data: CreateLoanData): Promise<ApiResponse<Loan>> {
-    console.log('API Service - Creating loan with data:', data);
-    console.log('API Service - Request URL:', `${API_BASE_URL}/loans`);
-    console.log('API Service - Headers:', this.getHeaders());
-    
-    const response = await this.request<Loan>('/loans', {
+  async createLoan(data: CreateLoanData, options: WriteOptions = {}): Promise<ApiResponse<Loan>> {
+    return this.idempotentRequest('/loans', apiResponse(loanSchema), {
       method: 'POST',
       body: JSON.stringify(data),
-    });
-    
-    console.log('API Service - Response received:', response);
-    return response;
+    }, options.idempotencyKey || createIdempotencyKey());
   }
 
-  async updateLoan(id: string, data: Partial<CreateLoanData>): Promise<ApiResponse<Loan>> {
-    return this.request<Loan>(`/loans/${id}`, {
+  async updateLoan(id: string, data: UpdateLoanData): Promise<ApiResponse<Loan>> {
+    return this.request(`/loans/${id}`, apiResponse(loanSchema), {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
   // Dashboard Stats
-  async getDashboardStats(): Promise<ApiResponse<any>> {
-    return this.request<any>('/dashboard/stats');
+  async getDashboardStats(): Promise<ApiResponse<DashboardStats>> {
+    return this.request('/dashboard/stats', apiResponse(dashboardStatsSchema));
   }
 
   // Installments
   async getInstallments(loanId: string): Promise<ApiResponse<Installment[]>> {
-    return this.request<Installment[]>(`/loans/${loanId}/installments`);
+    return this.request(`/loans/${loanId}/installments`, apiResponse(z.array(installmentSchema)));
   }
 
   async getInstallment(id: string): Promise<ApiResponse<Installment>> {
-    return this.request<Installment>(`/installments/${id}`);
+    return this.request(`/installments/${id}`, apiResponse(installmentSchema));
   }
 
   // Collections
-  async getCollections(params?: {
-    page?: number;
-    limit?: number;
-    collectorId?: string;
-    installmentId?: string;
-    startDate?: string;
-    endDate?: string;
-  }): Promise<ApiResponse<PopulatedCollection[]>> {
+  async getCollections(params?: CollectionFilter): Promise<ApiResponse<PopulatedCollection[]>> {
     const searchParams = new URLSearchParams();
     if (params?.page) searchParams.append('page', params.page.toString());
     if (params?.limit) searchParams.append('limit', params.limit.toString());
     if (params?.collectorId) searchParams.append('collectorId', params.collectorId);
+    if (params?.loanId) searchParams.append('loanId', params.loanId);
     if (params?.installmentId) searchParams.append('installmentId', params.installmentId);
     if (params?.startDate) searchParams.append('startDate', params.startDate);
     if (params?.endDate) searchParams.append('endDate', params.endDate);
     
     const endpoint = `/collections${searchParams.toString() ? `?${searchParams.toString()}` : ''}`;
-    return this.request<PopulatedCollection[]>(endpoint);
+    return this.request(endpoint, apiResponse(z.array(populatedCollectionSchema)));
   }
 
   // Weekly Collection Management
   async getLoansByCollectionDay(collectionDay: string): Promise<ApiResponse<Loan[]>> {
     // Use backend filtering by collection day
-    const searchParams = new URLSearchParams();
-    searchParams.append('collectionDay', collectionDay);
-    
-    const endpoint = `/loans?${searchParams.toString()}`;
-    return this.request<Loan[]>(endpoint);
-  }
-
-  async getTodayCollectionRoute(): Promise<ApiResponse<{
-    loans: Loan[];
-    borrowers: { [borrowerId: string]: any };
-    totalOutstanding: number;
-    totalLoans: number;
-  }>> {
-    const today = new Date().toLocaleDateString('en-US', { weekday: 'long' }).toLowerCase();
-    const response = await this.getLoansByCollectionDay(today);
-    
-    if (response.success) {
-      let totalOutstanding = 0;
-      const borrowers: { [borrowerId: string]: any } = {};
-      
-      // Calculate outstanding amounts and group by borrower
-      response.data.forEach(loan => {
-        totalOutstanding += loan.outstandingAmount || 0;
-        
-        if (!borrowers[loan.borrower._id]) {
-          borrowers[loan.borrower._id] = {
-            ...loan.borrower,
-            loans: []
-          };
-        }
-        borrowers[loan.borrower._id].loans.push(loan);
-      });
-      
-      return {
-        success: true,
-        data: {
-          loans: response.data,
-          borrowers: borrowers,
-          totalOutstanding,
-          totalLoans: response.data.length,
-        }
-      };
-    }
-    
-    return { 
-      success: false, 
-      data: { loans: [], borrowers: {}, totalOutstanding: 0, totalLoans: 0 }, 
-      error: 'Failed to get collection route' 
-    };
+    return this.getLoans({ collectionDay });
   }
 
-  async getWeeklyCollectionSchedule(): Promise<ApiResponse<{
-    [day: string]: {
-      loans: Loan[];
-      borrowers: { [borrowerId: string]: any };
-      totalOutstanding: number;
-      totalLoans: number;
-    };
-  }>> {
-    const days = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-    const schedule: { [day: string]: { loans: Loan[]; borrowers: { [borrowerId: string]: any }; totalOutstanding: number; totalLoans: number; } } = {};
-    
-    for (const day of days) {
-      const response = await this.getLoansByCollectionDay(day);
-      if (response.success) {
-        let totalOutstanding = 0;
-        const borrowers: { [borrowerId: string]: any } = {};
-        
-        // Calculate outstanding amounts and group by borrower
-        response.data.forEach(loan => {
-          totalOutstanding += loan.outstandingAmount || 0;
-          
-          if (!borrowers[loan.borrower._id]) {
-            borrowers[loan.borrower._id] = {
-              ...loan.borrower,
-              loans: []
-            };
-          }
-          borrowers[loan.borrower._id].loans.push(loan);
-        });
-        
-        schedule[day] = {
-          loans: response.data,
-          borrowers: borrowers,
-          totalOutstanding,
-          totalLoans: response.data.length,
-        };
-      } else {
-        schedule[day] = { loans: [], borrowers: {}, totalOutstanding: 0, totalLoans: 0 };
-      }
-    }
-    
-    return { success: true, data: schedule };
+  async getTodayCollectionRoute(): Promise<ApiResponse<CollectionRoute>> {
+    const response = await this.getWeeklyCollectionSchedule();
+    return { ...response, data: response.data[getWeekday()] };
   }
 
-  async getCollectionsByLoan(loanId: string): Promise<ApiResponse<PopulatedCollection[]>> {
-    try {
-      // First, get all installments for this loan
-      const installmentsResponse = await this.getInstallments(loanId);
-      if (!installmentsResponse.success) {
-        return { success: false, data: [], error: 'Failed to get installments' };
-      }
+  // Completed and defaulted loans have nothing left to collect, so the schedule only needs these
+  async getActiveLoans(): Promise<ApiResponse<Loan[]>> {
+    return this.fetchAllPages(page => this.getLoans({ limit: config.api.pageSize, status: 'ACTIVE', page }), {});
+  }
 
-      const installmentIds = installmentsResponse.data.map(inst => inst._id);
-      if (installmentIds.length === 0) {
-        return { success: true, data: [] };
-      }
+  // Built from the active loan list, so the whole week costs one request per page instead of one per day
+  async getWeeklyCollectionSchedule(): Promise<ApiResponse<WeeklySchedule>> {
+    const response = await this.getActiveLoans();
+    if (!response.success) {
+      return {
+        success: false,
+        data: buildWeeklySchedule([]),
+        error: response.error || 'Failed to get collection schedule',
+      };
+    }
+    return { success: true, data: buildWeeklySchedule(response.data) };
+  }
+
+  // Filtered on the server, so a one-year weekly loan is one request rather than one per installment
+  async getCollectionsByLoan(
+    loanId: string,
+    params: Omit<CollectionFilter, 'loanId'> = {}
+  ): Promise<ApiResponse<PopulatedCollection[]>> {
+    const response = await this.fetchAllPages(
+      page => this.getCollections({ limit: config.api.pageSize, ...params, loanId, page }),
+      params
+    );
+    if (!response.success) {
+      return { ...response, error: response.error || 'Failed to get collections' };
+    }
+    // Newest first, whatever order the server used
+    const collections = [...response.data].sort(
+      (a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime()
+    );
+    return { ...response, data: collections };
+  }
+
+  async getLoansByBorrower(
+    borrowerId: string,
+    params: Omit<LoanListParams, 'borrowerId'> = {}
+  ): Promise<ApiResponse<Loan[]>> {
+    const response = await this.fetchAllPages(
+      page => this.getLoans({ limit: config.api.pageSize, ...params, borrowerId, page }),
+      params
+    );
+    if (!response.success) {
+      return { ...response, error: response.error || 'Failed to get loans' };
+    }
+    return response;
+  }
 
-      // Get collections for each installment individually but with better error handling
-      const allCollections: PopulatedCollection[] = [];
-      
-      // Use Promise.all to fetch all collections in parallel for better performance
-      const collectionPromises = installmentIds.map(async (installmentId) => {
-        try {
-          const response = await this.getCollections({ installmentId, limit: 50 });
-          return response.success ? response.data : [];
-        } catch (error) {
-          console.error(`Error fetching collections for installment ${installmentId}:`, error);
-          return [];
-        }
-      });
+  // Pass a page to get just that page. Without one, read pages of config.api.pageSize until the
+  // server reports the last page - usually a single request for one borrower or loan.
+  private async fetchAllPages<T>(
+    fetchPage: (page: number) => Promise<ApiResponse<T[]>>,
+    params: { page?: number; limit?: number }
+  ): Promise<ApiResponse<T[]>> {
+    if (params.page) {
+      return fetchPage(params.page);
+    }
 
-      const collectionResults = await Promise.all(collectionPromises);
-      
-      // Flatten all collections into a single array
-      collectionResults.forEach(collections => {
-        allCollections.push(...collections);
-      });
-      
-      // Sort by payment date (newest first)
-      allCollections.sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime());
-      
-      return { success: true, data: allCollections };
-    } catch (error) {
-      console.error('Error getting collections by loan:', error);
-      return { success: false, data: [], error: 'Failed to get collections' };
+    const first = await fetchPage(1);
+    const totalPages = first.pagination?.totalPages ?? 1;
+    if (!first.success || totalPages <= 1) {
+      return first;
     }
-  }
 
-  async getLoansByBorrower(borrowerId: string): Promise<ApiResponse<Loan[]>> {
-    // Get all loans and filter by borrower
-    const response = await this.getLoans();
-    if (response.success) {
-      const borrowerLoans = response.data.filter(loan => loan.borrower._id === borrowerId);
-      return { success: true, data: borrowerLoans };
+    const rest = await Promise.all(
+      Array.from({ length: totalPages - 1 }, (_, index) => fetchPage(index + 2))
+    );
+    const failed = rest.find(response => !response.success);
+    if (failed) {
+      return { ...failed, data: [] };
     }
-    return { success: false, data: [], error: 'Failed to get loans' };
+    return {
+      success: true,
+      data: [...first.data, ...rest.flatMap(response => response.data)],
+      pagination: first.pagination,
+    };
   }
 
   async getCollection(id: string): Promise<ApiResponse<PopulatedCollection>> {
-    return this.request<PopulatedCollection>(`/collections/${id}`);
+    return this.request(`/collections/${id}`, apiResponse(populatedCollectionSchema));
   }
 
-  async createCollection(data: CreateCollectionData): Promise<ApiResponse<PopulatedCollection>> {
-    return this.request<PopulatedCollection>('/collections', {
+  async createCollection(data: CreateCollectionData, options: WriteOptions = {}): Promise<ApiResponse<PopulatedCollection>> {
+    return this.idempotentRequest('/collections', apiResponse(populatedCollectionSchema), {
       method: 'POST',
       body: JSON.stringify(data),
-    });
+    }, options.idempotencyKey || createIdempotencyKey());
   }
 
   async updateCollection(id: string, data: Partial<CreateCollectionData>): Promise<ApiResponse<PopulatedCollection>> {
-    return this.request<PopulatedCollection>(`/collections/${id}`, {
+    return this.request(`/collections/${id}`, apiResponse(populatedCollectionSchema), {
       method: 'PUT',
       body: JSON.stringify(data),
     });
   }
 
   async deleteCollection(id: string): Promise<ApiResponse<{ message: string }>> {
-    return this.request<{ message: string }>(`/collections/${id}`, {
+    return this.request(`/collections/${id}`, apiResponse(messageSchema), {
       method: 'DELETE',
     });
   }
@@ -574,26 +715,26 @@ class ApiService {
   // Payment History
   async getPaymentHistory(loanId: string): Promise<ApiResponse<Payment[]>> {
     const endpoint = `/loans/${loanId}/payments`;
-    return this.request<Payment[]>(endpoint);
+    return this.request(endpoint, apiResponse(z.array(paymentSchema)));
   }
 
   // Daily Backup Management
-  async generateDailyBackup(date?: string): Promise<ApiResponse<any>> {
+  async generateDailyBackup(date?: string): Promise<ApiResponse<DailyBackup>> {
     const endpoint = '/backup/daily';
     const body = date ? { date } : {};
-    return this.request<any>(endpoint, {
+    return this.request(endpoint, apiResponse(dailyBackupSchema), {
       method: 'POST',
       body: JSON.stringify(body),
     });
   }
 
-  async checkBackupStatus(date?: string): Promise<ApiResponse<any>> {
+  async checkBackupStatus(date?: string): Promise<ApiResponse<BackupStatus>> {
     const searchParams = new URLSearchParams();
     if (date) {
       searchParams.append('date', date);
     }
     const endpoint = `/backup/daily?${searchParams.toString()}`;
-    return this.request<any>(endpoint);
+    return this.request(endpoint, apiResponse(backupStatusSchema));
   }
 
   // Check if user is authenticated
@@ -601,6 +742,11 @@ class ApiService {
     return !!this.token;
   }
 
+  // Whether the current access token has passed its exp claim
+  isTokenExpired(): boolean {
+    return !this.token || isTokenExpired(this.token);
+  }
+
   // Get current token
   getToken(): string | null {
     return this.token;
@@ -0,0 +1,216 @@
+import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BiometricService, BiometricAuthResult } from './biometrics';
+import { config } from './config';
+import { logger } from './logger';
+import { secureStorage } from './secure-storage';
+
+const PIN_KEY = 'app_lock_pin';
+const BIOMETRIC_KEY = 'app_lock_biometric_enabled';
+const SETTINGS_KEY = 'app_lock_settings';
+const ATTEMPTS_KEY = 'app_lock_attempts';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// Choices offered for how long the app may stay in the background before locking
+export const LOCK_TIMEOUT_OPTIONS = [0, 30, 60, 300, 900];
+
+export interface AppLockSettings {
+  enabled: boolean;
+  timeoutSeconds: number;
+}
+
+export interface PinVerifyResult {
+  success: boolean;
+  error?: string;
+  lockedUntil?: number; // Set while further attempts are refused
+}
+
+interface StoredPin {
+  salt: string;
+  hash: string;
+}
+
+interface FailedAttempts {
+  count: number;
+  lockedUntil: number | null;
+  lockouts?: number; // Lockouts since the last correct PIN. Missing on counters stored by older versions.
+}
+
+const DEFAULT_SETTINGS: AppLockSettings = {
+  enabled: false,
+  timeoutSeconds: config.appLock.defaultTimeoutSeconds,
+};
+
+const hashPin = (salt: string, pin: string): Promise<string> => {
+  return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}:${pin}`);
+};
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const isValidPin = (pin: string): boolean => {
+  return /^\d+$/.test(pin) && pin.length >= PIN_MIN_LENGTH && pin.length <= PIN_MAX_LENGTH;
+};
+
+const lockedOutMessage = (lockedUntil: number): string => {
+  const minutes = Math.max(1, Math.ceil((lockedUntil - Date.now()) / 60000));
+  if (minutes > 90) {
+    const hours = Math.ceil(minutes / 60);
+    return `Too many failed attempts. Try again in ${hours} hours.`;
+  }
+  return `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
+
+// Each lockout in a row lasts twice as long as the one before
+export const getLockoutSeconds = (lockouts: number): number => {
+  const { lockoutSeconds, maxLockoutSeconds } = config.appLock;
+  return Math.min(lockoutSeconds * 2 ** lockouts, maxLockoutSeconds);
+};
+
+export const formatLockTimeout = (seconds: number): string => {
+  if (seconds === 0) return 'Immediately';
+  if (seconds < 60) return `After ${seconds} seconds`;
+  const minutes = seconds / 60;
+  return `After ${minutes} minute${minutes === 1 ? '' : 's'}`;
+};
+
+// Local credentials for this device: the PIN and biometric opt-in are shared by the
+// app lock, re-authentication before sensitive actions and offline unlock.
+export class AppLockService {
+  static async getSettings(): Promise<AppLockSettings> {
+    try {
+      const settings = await AsyncStorage.getItem(SETTINGS_KEY);
+      return settings ? { ...DEFAULT_SETTINGS, ...JSON.parse(settings) } : DEFAULT_SETTINGS;
+    } catch (error) {
+      logger.error('AppLock', 'Failed to get settings:', error);
+      return DEFAULT_SETTINGS;
+    }
+  }
+
+  static async saveSettings(settings: Partial<AppLockSettings>): Promise<AppLockSettings> {
+    const updated = { ...(await this.getSettings()), ...settings };
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(updated));
+    return updated;
+  }
+
+  static async setPin(pin: string): Promise<void> {
+    if (!isValidPin(pin)) {
+      throw new Error(`PIN must be ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+    }
+
+    const salt = toHex(Crypto.getRandomBytes(16));
+    const stored: StoredPin = { salt, hash: await hashPin(salt, pin) };
+    await secureStorage.setItem(PIN_KEY, JSON.stringify(stored));
+    await secureStorage.removeItem(ATTEMPTS_KEY);
+  }
+
+  // Removing the PIN also turns the app lock off - it cannot be unlocked without one
+  static async removePin(): Promise<void> {
+    try {
+      await secureStorage.removeItem(PIN_KEY);
+      await secureStorage.removeItem(ATTEMPTS_KEY);
+      await this.saveSettings({ enabled: false });
+    } catch (error) {
+      logger.error('AppLock', 'Failed to remove PIN:', error);
+    }
+  }
+
+  static async hasPin(): Promise<boolean> {
+    try {
+      return !!(await secureStorage.getItem(PIN_KEY));
+    } catch (error) {
+      logger.error('AppLock', 'Failed to check PIN:', error);
+      return false;
+    }
+  }
+
+  static async setBiometricEnabled(enabled: boolean): Promise<void> {
+    if (enabled) {
+      await secureStorage.setItem(BIOMETRIC_KEY, 'true');
+    } else {
+      await secureStorage.removeItem(BIOMETRIC_KEY);
+    }
+  }
+
+  static async isBiometricEnabled(): Promise<boolean> {
+    try {
+      return (await secureStorage.getItem(BIOMETRIC_KEY)) === 'true';
+    } catch (error) {
+      logger.error('AppLock', 'Failed to check biometric unlock:', error);
+      return false;
+    }
+  }
+
+  private static async getFailedAttempts(): Promise<FailedAttempts> {
+    try {
+      const attempts = await secureStorage.getItem(ATTEMPTS_KEY);
+      return attempts ? JSON.parse(attempts) : { count: 0, lockedUntil: null };
+    } catch (error) {
+      logger.error('AppLock', 'Failed to get failed PIN attempts:', error);
+      return { count: 0, lockedUntil: null };
+    }
+  }
+
+  // Timestamp until which PIN entry is refused, or null when not locked out
+  static async getLockedUntil(): Promise<number | null> {
+    const { lockedUntil } = await this.getFailedAttempts();
+    return lockedUntil && lockedUntil > Date.now() ? lockedUntil : null;
+  }
+
+  static async verifyPin(pin: string): Promise<PinVerifyResult> {
+    const lockedUntil = await this.getLockedUntil();
+    if (lockedUntil) {
+      return { success: false, error: lockedOutMessage(lockedUntil), lockedUntil };
+    }
+
+    const stored = await secureStorage.getItem(PIN_KEY);
+    if (!stored) {
+      return { success: false, error: 'No PIN has been set' };
+    }
+
+    const { salt, hash }: StoredPin = JSON.parse(stored);
+    if ((await hashPin(salt, pin)) === hash) {
+      await secureStorage.removeItem(ATTEMPTS_KEY);
+      return { success: true };
+    }
+
+    // Count the failure; the counter starts over once a lockout has been served, but the
+    // lockouts themselves are only forgotten after a correct PIN
+    const attempts = await this.getFailedAttempts();
+    const count = attempts.count + 1;
+    const lockouts = attempts.lockouts ?? 0;
+    if (count >= config.appLock.maxPinAttempts) {
+      const until = Date.now() + getLockoutSeconds(lockouts) * 1000;
+      const next: FailedAttempts = { count: 0, lockedUntil: until, lockouts: lockouts + 1 };
+      await secureStorage.setItem(ATTEMPTS_KEY, JSON.stringify(next));
+      logger.warn('AppLock', 'Too many failed PIN attempts, locked out until', new Date(until).toISOString());
+      return { success: false, error: lockedOutMessage(until), lockedUntil: until };
+    }
+
+    await secureStorage.setItem(ATTEMPTS_KEY, JSON.stringify({ count, lockedUntil: null, lockouts }));
+    const remaining = config.appLock.maxPinAttempts - count;
+    return { success: false, error: `Incorrect PIN. ${remaining} attempt${remaining === 1 ? '' : 's'} left.` };
+  }
+
+  static async authenticateWithBiometrics(promptMessage: string): Promise<BiometricAuthResult> {
+    if (!(await this.isBiometricEnabled()) || !(await BiometricService.isBiometricAvailable())) {
+      return { success: false, error: 'Biometric unlock is not enabled' };
+    }
+    return BiometricService.authenticateWithBiometrics(promptMessage);
+  }
+
+  // Forget every local credential, e.g. when a different user signs in on this device
+  static async reset(): Promise<void> {
+    try {
+      await secureStorage.removeItem(PIN_KEY);
+      await secureStorage.removeItem(BIOMETRIC_KEY);
+      await secureStorage.removeItem(ATTEMPTS_KEY);
+      await AsyncStorage.removeItem(SETTINGS_KEY);
+    } catch (error) {
+      logger.error('AppLock', 'Failed to reset:', error);
+    }
+  }
+}
@@ -1,34 +1,12 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as SecureStore from 'expo-secure-store';
-import { Platform } from 'react-native';
-import { apiService, User as ApiUser, LoginResponse } from './api';
-
-// Platform-specific storage functions
-const Storage = {
-  async setItem(key: string, value: string): Promise<void> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.setItem(key, value);
-    } else {
-      return SecureStore.setItemAsync(key, value);
-    }
-  },
-
-  async getItem(key: string): Promise<string | null> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.getItem(key);
-    } else {
-      return SecureStore.getItemAsync(key);
-    }
-  },
-
-  async removeItem(key: string): Promise<void> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.removeItem(key);
-    } else {
-      return SecureStore.deleteItemAsync(key);
-    }
-  }
-};
+import { apiService, User as ApiUser, LoginResponse, UpdateProfileData } from './api';
+import { BiometricService } from './biometrics';
+import { readCache } from './cache';
+import { AuthError } from './errors';
+import { logger } from './logger';
+import { queryClient } from './query-client';
+import { OfflineAuthService } from './offline-auth';
+import { isNetworkError, offlineQueue } from './offline-queue';
+import { secureStorage } from './secure-storage';
 
 export interface LoginCredentials {
   username: string;
@@ -38,7 +16,8 @@ export interface LoginCredentials {
 export interface User {
   id: string;
   name: string;
-  email: string;
+  username?: string;
+  email?: string;
   phone?: string;
   role: 'ADMIN' | 'SUPERVISOR' | 'COLLECTOR';
   createdAt?: string;
@@ -53,156 +32,216 @@ export interface AuthResponse {
   token?: string;
   user?: User;
   error?: string;
+  isNetworkError?: boolean;
+}
+
+export interface ProfileUpdateResult {
+  success: boolean;
+  user?: User;
+  error?: string;
 }
 
 export class AuthService {
   static async login(credentials: LoginCredentials): Promise<AuthResponse> {
     try {
-      console.log('AuthService: Making login request using API service');
-      
       const response = await apiService.login(credentials.username, credentials.password);
-      console.log('AuthService: Login response:', response);
 
       if (response.success) {
-        // Convert API user format to local format
-        const user: User = {
-          id: response.user.id,
-          name: response.user.name,
-          email: response.user.username + '@gramfinance.com', // Generate email from username
-          role: response.user.role as 'ADMIN' | 'SUPERVISOR' | 'COLLECTOR',
-        };
-        
-        // Store user data locally
-        await Storage.setItem('user_data', JSON.stringify(user));
-        
-        // Refresh API service token
-        await apiService.refreshToken();
-        
-        console.log('AuthService: Login successful, user stored:', user);
-        
-        return {
-          success: true,
-          data: {
-            token: response.token,
-            user
-          }
-        };
+        return this.completeLogin(credentials.username, response);
       } else {
-        console.log('AuthService: Login failed');
+        logger.info('Auth', 'Login rejected');
         return {
           success: false,
           error: 'Invalid credentials',
         };
       }
     } catch (error) {
-      console.error('AuthService: Login error:', error);
-      
-      // For testing purposes, if we get a network error, try with mock data
-      console.log('AuthService: Using mock data due to network error');
-      
-      // Create a simple JWT token for testing
-      const mockJwtPayload = {
-        id: credentials.username,
-        username: credentials.username,
-        role: "COLLECTOR",
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (7 * 24 * 60 * 60) // 7 days
-      };
-      
-      // Simple JWT encoding (for testing only)
-      const mockJwtHeader = btoa(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
-      const mockJwtPayloadEncoded = btoa(JSON.stringify(mockJwtPayload));
-      const mockJwtSignature = btoa('mock_signature_for_testing');
-      const mockToken = `${mockJwtHeader}.${mockJwtPayloadEncoded}.${mockJwtSignature}`;
-      
-      const mockData = {
-        success: true,
-        token: mockToken,
-        user: {
-          id: credentials.username,
-          username: credentials.username,
-          name: credentials.username,
-          email: `${credentials.username}@test.com`,
-          role: "COLLECTOR" as const,
-        },
-      };
-      
-      const token = mockData.token;
-      const user = mockData.user;
-      
-      await Storage.setItem('auth_token', token);
-      await Storage.setItem('user_data', JSON.stringify(user));
-      
-      // Refresh API service token
-      await apiService.refreshToken();
-      
+      return this.loginError(error);
+    }
+  }
+
+  // Biometrics release this device's credential - the password is never stored
+  static async loginWithBiometrics(): Promise<AuthResponse> {
+    const unlocked = await BiometricService.unlockDeviceCredential();
+    if (!unlocked.success || !unlocked.credential) {
+      return { success: false, error: unlocked.error };
+    }
+
+    const { username, deviceId, deviceToken } = unlocked.credential;
+    try {
+      const response = await apiService.loginWithDevice(deviceId, deviceToken);
+      if (response.success) {
+        return this.completeLogin(username, response);
+      }
+      return { success: false, error: 'Biometric sign-in failed' };
+    } catch (error) {
+      if (error instanceof AuthError) {
+        // The device was revoked (here or from another session) - drop the dead credential
+        await BiometricService.clearEnrollment();
+        return {
+          success: false,
+          error: 'Biometric sign-in is no longer valid for this device. Please sign in with your password.',
+        };
+      }
+      return this.loginError(error);
+    }
+  }
+
+  private static async completeLogin(username: string, response: LoginResponse): Promise<AuthResponse> {
+    const user = this.toLocalUser(response.user);
+    
+    // Store user data locally
+    await secureStorage.setItem('user_data', JSON.stringify(user));
+    await OfflineAuthService.rememberUser(username, user);
+    // Unsynced changes of whoever signed in before stay queued until they sign in again
+    await offlineQueue.setOwner(user.id);
+
+    // Biometric sign-in enrolled by someone else must not open this user's session, and vice versa
+    const enrollment = await BiometricService.getEnrollment();
+    if (enrollment && enrollment.username.toLowerCase() !== username.trim().toLowerCase()) {
+      await BiometricService.clearEnrollment();
+    }
+    
+    // Refresh API service token
+    await apiService.refreshToken();
+    
+    logger.info('Auth', 'Login successful:', { id: user.id, role: user.role });
+    
+    return {
+      success: true,
+      data: {
+        token: response.token,
+        user
+      }
+    };
+  }
+
+  // Convert API user format to local format
+  private static toLocalUser(apiUser: ApiUser): User {
+    return {
+      id: apiUser.id,
+      name: apiUser.name,
+      username: apiUser.username,
+      email: apiUser.email,
+      phone: apiUser.phone,
+      role: apiUser.role as User['role'],
+      createdAt: apiUser.createdAt,
+    };
+  }
+
+  private static loginError(error: unknown): AuthResponse {
+    logger.error('Auth', 'Login error:', error);
+
+    if (isNetworkError(error)) {
+      // Never sign in without the server - the caller may offer an offline unlock instead
       return {
-        success: true,
-        data: {
-          token,
-          user
-        }
+        success: false,
+        error: 'Unable to reach the server. Check your connection and try again.',
+        isNetworkError: true,
       };
     }
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Login failed',
+    };
   }
 
   static async logout(): Promise<void> {
     try {
       await apiService.logout();
-      await Storage.removeItem('auth_token');
-      await Storage.removeItem('user_data');
+      await secureStorage.removeItem('auth_token');
+      await secureStorage.removeItem('user_data');
+      queryClient.clear();
+      // Cached borrower data belongs to this session only, unless the user set up
+      // offline unlock - then it stays behind their PIN/biometrics
+      if (!(await OfflineAuthService.isEnabled())) {
+        await OfflineAuthService.forget();
+        await readCache.clear();
+      }
     } catch (error) {
-      console.error('Logout error:', error);
+      logger.error('Auth', 'Logout error:', error);
     }
   }
 
+  // Wipe everything that belongs to the current server: session, offline profile,
+  // cached records, unsynced changes and the biometric device credential
+  static async clearServerData(): Promise<void> {
+    await this.logout();
+    await OfflineAuthService.forget();
+    await readCache.clear();
+    await offlineQueue.clear();
+    await BiometricService.clearEnrollment();
+  }
+
   static async getStoredToken(): Promise<string | null> {
     try {
-      return await Storage.getItem('auth_token');
+      return await secureStorage.getItem('auth_token');
     } catch (error) {
-      console.error('Error getting stored token:', error);
+      logger.error('Auth', 'Failed to read stored token:', error);
       return null;
     }
   }
 
   static async getStoredUser(): Promise<User | null> {
     try {
-      const userData = await Storage.getItem('user_data');
+      const userData = await secureStorage.getItem('user_data');
       return userData ? JSON.parse(userData) : null;
     } catch (error) {
-      console.error('Error getting stored user:', error);
+      logger.error('Auth', 'Failed to read stored user:', error);
       return null;
     }
   }
 
   static async isAuthenticated(): Promise<boolean> {
     try {
-      return apiService.isAuthenticated();
+      if (!apiService.isAuthenticated()) return false;
+      // An expired token only counts if it can still be refreshed
+      return !apiService.isTokenExpired() || await apiService.refreshSession();
     } catch (error) {
       return false;
     }
   }
 
-  static async updateProfile(profileData: Partial<User>): Promise<boolean> {
+  static async updateProfile(profileData: UpdateProfileData): Promise<ProfileUpdateResult> {
     try {
-      // For now, just update local storage
-      const currentUser = await this.getStoredUser();
-      if (!currentUser) return false;
+      const response = await apiService.updateProfile(profileData);
+      if (!response.success) {
+        return { success: false, error: response.error || 'Failed to update profile' };
+      }
 
-      const updatedUser = { ...currentUser, ...profileData };
-      await Storage.setItem('user_data', JSON.stringify(updatedUser));
-      return true;
+      const user = this.toLocalUser(response.data);
+      await this.storeUser(user);
+      return { success: true, user };
     } catch (error) {
-      console.error('Update profile error:', error);
-      return false;
+      logger.error('Auth', 'Update profile error:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to update profile' };
     }
   }
 
+  // Pull the latest profile so edits made elsewhere show up. Returns null when offline.
+  static async syncProfile(): Promise<User | null> {
+    try {
+      const response = await apiService.getProfile();
+      if (!response.success) return null;
+
+      const user = this.toLocalUser(response.data);
+      await this.storeUser(user);
+      return user;
+    } catch (error) {
+      logger.info('Auth', 'Profile sync skipped:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private static async storeUser(user: User): Promise<void> {
+    await secureStorage.setItem('user_data', JSON.stringify(user));
+    await OfflineAuthService.updateUser(user);
+  }
+
   static async refreshToken(): Promise<boolean> {
     try {
-      // For now, just check if we have a valid token
-      const token = await this.getStoredToken();
-      return !!token;
+      return await apiService.refreshSession();
     } catch (error) {
       return false;
     }
@@ -2,36 +2,30 @@ import * as LocalAuthentication from 'expo-local-authentication';
 import * as SecureStore from 'expo-secure-store';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { apiService } from './api';
+import { logger } from './logger';
 
-// Platform-specific storage functions
-const Storage = {
-  async setItem(key: string, value: string): Promise<void> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.setItem(key, value);
-    } else {
-      return SecureStore.setItemAsync(key, value);
-    }
-  },
+const ENROLLMENT_KEY = 'biometric_login_enrollment';
+const DEVICE_SECRET_KEY = 'biometric_login_secret';
+const LEGACY_CREDENTIALS_KEY = 'biometric_credentials';
 
-  async getItem(key: string): Promise<string | null> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.getItem(key);
-    } else {
-      return SecureStore.getItemAsync(key);
-    }
-  },
+export interface BiometricAuthResult {
+  success: boolean;
+  error?: string;
+}
 
-  async removeItem(key: string): Promise<void> {
-    if (Platform.OS === 'web') {
-      return AsyncStorage.removeItem(key);
-    } else {
-      return SecureStore.deleteItemAsync(key);
-    }
-  }
-};
+// Public details of this device's biometric sign-in (the secret is stored separately)
+export interface BiometricEnrollment {
+  username: string;
+  deviceId: string;
+  deviceName: string;
+  enrolledAt: string;
+}
 
-export interface BiometricAuthResult {
+export interface BiometricCredentialResult {
   success: boolean;
+  credential?: BiometricEnrollment & { deviceToken: string };
   error?: string;
 }
 
@@ -42,15 +36,15 @@ export class BiometricService {
       const isEnrolled = await LocalAuthentication.isEnrolledAsync();
       return hasHardware && isEnrolled;
     } catch (error) {
-      console.error('Biometric availability check error:', error);
+      logger.error('Biometrics', 'Availability check failed:', error);
       return false;
     }
   }
 
-  static async authenticateWithBiometrics(): Promise<BiometricAuthResult> {
+  static async authenticateWithBiometrics(promptMessage: string = 'Authenticate to login'): Promise<BiometricAuthResult> {
     try {
       const result = await LocalAuthentication.authenticateAsync({
-        promptMessage: 'Authenticate to login',
+        promptMessage,
         fallbackLabel: 'Use password',
         cancelLabel: 'Cancel',
         disableDeviceFallback: false,
@@ -72,38 +66,127 @@ export class BiometricService {
     }
   }
 
-  static async saveBiometricCredentials(credentials: { username: string; password: string }): Promise<void> {
+  // Biometric sign-in is bound to this device: the server issues a device credential
+  // that is kept in the keychain/keystore behind a biometric check. No password is stored.
+  static async isBiometricLoginSupported(): Promise<boolean> {
+    return Platform.OS !== 'web' && (await this.isBiometricAvailable());
+  }
+
+  static async getEnrollment(): Promise<BiometricEnrollment | null> {
+    if (Platform.OS === 'web') return null;
+
     try {
-      await Storage.setItem('biometric_credentials', JSON.stringify(credentials));
+      const enrollment = await SecureStore.getItemAsync(ENROLLMENT_KEY);
+      return enrollment ? JSON.parse(enrollment) : null;
     } catch (error) {
-      console.error('Error saving biometric credentials:', error);
+      logger.error('Biometrics', 'Failed to get enrollment:', error);
+      return null;
     }
   }
 
-  static async getBiometricCredentials(): Promise<{ username: string; password: string } | null> {
+  static async isBiometricEnabled(): Promise<boolean> {
+    return !!(await this.getEnrollment());
+  }
+
+  // Register this device with the server while signed in, then store its secret behind biometrics
+  static async enroll(username: string): Promise<BiometricAuthResult> {
+    if (!(await this.isBiometricLoginSupported())) {
+      return { success: false, error: 'Biometric sign-in is not available on this device' };
+    }
+
     try {
-      const credentials = await Storage.getItem('biometric_credentials');
-      return credentials ? JSON.parse(credentials) : null;
+      const deviceName = Constants.deviceName || `${Platform.OS} device`;
+      const response = await apiService.registerDevice(deviceName);
+      if (!response.success) {
+        return { success: false, error: response.error || 'Failed to register this device' };
+      }
+
+      const { deviceId, deviceToken } = response.data;
+      await SecureStore.setItemAsync(DEVICE_SECRET_KEY, deviceToken, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Enable biometric sign-in',
+      });
+
+      const enrollment: BiometricEnrollment = {
+        username: username.trim().toLowerCase(),
+        deviceId,
+        deviceName,
+        enrolledAt: new Date().toISOString(),
+      };
+      await SecureStore.setItemAsync(ENROLLMENT_KEY, JSON.stringify(enrollment));
+      logger.info('Biometrics', 'Enrolled device', deviceId);
+      return { success: true };
     } catch (error) {
-      console.error('Error getting biometric credentials:', error);
-      return null;
+      logger.error('Biometrics', 'Enrollment failed:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Biometric enrollment failed' };
     }
   }
 
-  static async removeBiometricCredentials(): Promise<void> {
+  // Prompts for biometrics to release the device secret
+  static async unlockDeviceCredential(): Promise<BiometricCredentialResult> {
+    const enrollment = await this.getEnrollment();
+    if (!enrollment) {
+      return { success: false, error: 'Biometric sign-in is not set up on this device' };
+    }
+
     try {
-      await Storage.removeItem('biometric_credentials');
+      const deviceToken = await SecureStore.getItemAsync(DEVICE_SECRET_KEY, {
+        requireAuthentication: true,
+        authenticationPrompt: 'Sign in to GramFinance',
+      });
+      if (!deviceToken) {
+        await this.clearEnrollment();
+        return { success: false, error: 'Biometric sign-in needs to be set up again' };
+      }
+      return { success: true, credential: { ...enrollment, deviceToken } };
     } catch (error) {
-      console.error('Error removing biometric credentials:', error);
+      // Keys bound to biometrics are invalidated when the enrolled fingerprints/faces change
+      logger.error('Biometrics', 'Failed to unlock device credential:', error);
+      return { success: false, error: 'Biometric authentication failed' };
     }
   }
 
-  static async isBiometricEnabled(): Promise<boolean> {
+  // Revoke on the server (best effort - it may be offline) and forget the local credential
+  static async revoke(): Promise<void> {
+    const enrollment = await this.getEnrollment();
+    if (enrollment) {
+      try {
+        await apiService.revokeDevice(enrollment.deviceId);
+      } catch (error) {
+        logger.warn('Biometrics', 'Failed to revoke device on server:', error);
+      }
+    }
+    await this.clearEnrollment();
+  }
+
+  static async clearEnrollment(): Promise<void> {
+    if (Platform.OS === 'web') return;
+
     try {
-      const credentials = await this.getBiometricCredentials();
-      return !!credentials;
+      await SecureStore.deleteItemAsync(DEVICE_SECRET_KEY);
+      await SecureStore.deleteItemAsync(ENROLLMENT_KEY);
     } catch (error) {
-      return false;
+      logger.error('Biometrics', 'Failed to clear enrollment:', error);
+    }
+  }
+
+  // Older versions stored the raw username and password for biometric login - wipe them
+  static async migrateLegacyCredentials(): Promise<void> {
+    const legacy = Platform.OS === 'web'
+      ? await AsyncStorage.getItem(LEGACY_CREDENTIALS_KEY)
+      : await SecureStore.getItemAsync(LEGACY_CREDENTIALS_KEY);
+    if (!legacy) return;
+
+    if (Platform.OS === 'web') {
+      await AsyncStorage.removeItem(LEGACY_CREDENTIALS_KEY);
+    } else {
+      await SecureStore.deleteItemAsync(LEGACY_CREDENTIALS_KEY);
     }
+    logger.info('Biometrics', 'Removed stored password from a previous version');
   }
-} 
\ No newline at end of file
+}
+
+// Run the migration when the module is imported
+BiometricService.migrateLegacyCredentials().catch(error =>
+  logger.error('Biometrics', 'Failed to remove legacy credentials:', error)
+);
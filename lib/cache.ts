@@ -0,0 +1,194 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResponse, Borrower, Installment, Loan, PopulatedCollection } from './api';
+import { logger } from './logger';
+
+const CACHE_KEY_PREFIX = 'read_cache:';
+const PERSIST_DELAY = 500; // Batch writes that happen close together
+
+// Types
+export interface CacheEntityTypes {
+  borrowers: Borrower;
+  loans: Loan;
+  installments: Installment;
+  collections: PopulatedCollection;
+}
+
+export type CacheEntity = keyof CacheEntityTypes;
+
+export interface CachedResult<T> {
+  data: T;
+  syncedAt: string;
+  fromCache: boolean; // true while showing stored data that has not been confirmed by the server
+}
+
+interface CachedRecord<T> {
+  data: T;
+  syncedAt: string;
+}
+
+interface CachedList {
+  entity: CacheEntity;
+  ids: string[];
+  syncedAt: string;
+}
+
+type RecordTable = { [K in CacheEntity]: { [id: string]: CachedRecord<CacheEntityTypes[K]> } };
+
+const ENTITIES: CacheEntity[] = ['borrowers', 'loans', 'installments', 'collections'];
+
+// Read Cache Class
+class ReadCache {
+  private records: RecordTable = { borrowers: {}, loans: {}, installments: {}, collections: {} };
+  private lists: { [key: string]: CachedList } = {};
+  private loadPromise: Promise<void> | null = null;
+  private dirty = new Set<CacheEntity | 'lists'>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Load persisted records. Each entity is stored under its own key to stay below per-item storage limits.
+  async initialize() {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  private async load() {
+    try {
+      const names: (CacheEntity | 'lists')[] = [...ENTITIES, 'lists'];
+      const stored = await AsyncStorage.multiGet(names.map(name => `${CACHE_KEY_PREFIX}${name}`));
+      stored.forEach(([, value], index) => {
+        if (!value) return;
+        const name = names[index];
+        if (name === 'lists') {
+          this.lists = JSON.parse(value);
+        } else {
+          this.records[name] = JSON.parse(value);
+        }
+      });
+      logger.info('Cache', 'Initialized with lists:', Object.keys(this.lists).length);
+    } catch (error) {
+      logger.error('Cache', 'Failed to load:', error);
+    }
+  }
+
+  getRecord<K extends CacheEntity>(entity: K, id: string): CachedResult<CacheEntityTypes[K]> | null {
+    const record = this.records[entity][id];
+    return record ? { data: record.data, syncedAt: record.syncedAt, fromCache: true } : null;
+  }
+
+  setRecord<K extends CacheEntity>(entity: K, record: CacheEntityTypes[K], syncedAt = new Date().toISOString()) {
+    (this.records[entity] as { [id: string]: CachedRecord<CacheEntityTypes[K]> })[record._id] = { data: record, syncedAt };
+    this.schedulePersist(entity);
+  }
+
+  getList<K extends CacheEntity>(entity: K, key: string): CachedResult<CacheEntityTypes[K][]> | null {
+    const list = this.lists[key];
+    if (!list || list.entity !== entity) return null;
+
+    const table = this.records[entity];
+    const data = list.ids
+      .map(id => table[id]?.data)
+      .filter((record): record is CacheEntityTypes[K] => !!record);
+    return { data, syncedAt: list.syncedAt, fromCache: true };
+  }
+
+  setList<K extends CacheEntity>(entity: K, key: string, records: CacheEntityTypes[K][]) {
+    const syncedAt = new Date().toISOString();
+    records.forEach(record => this.setRecord(entity, record, syncedAt));
+    this.lists[key] = { entity, ids: records.map(record => record._id), syncedAt };
+    this.schedulePersist('lists');
+  }
+
+  // Drop a deleted record and its id from every cached list
+  removeRecord(entity: CacheEntity, id: string) {
+    delete this.records[entity][id];
+    this.schedulePersist(entity);
+
+    Object.values(this.lists).forEach(list => {
+      if (list.entity === entity && list.ids.includes(id)) {
+        list.ids = list.ids.filter(listId => listId !== id);
+        this.schedulePersist('lists');
+      }
+    });
+  }
+
+  async clear() {
+    this.records = { borrowers: {}, loans: {}, installments: {}, collections: {} };
+    this.lists = {};
+    this.dirty.clear();
+    await AsyncStorage.multiRemove([...ENTITIES, 'lists'].map(name => `${CACHE_KEY_PREFIX}${name}`));
+  }
+
+  // Stale-while-revalidate for a list: emit the cached copy immediately, then the server copy.
+  // Server errors are only thrown when there was nothing cached to fall back on.
+  async list<K extends CacheEntity>(
+    entity: K,
+    key: string,
+    fetcher: () => Promise<ApiResponse<CacheEntityTypes[K][]>>,
+    onData: (result: CachedResult<CacheEntityTypes[K][]>) => void
+  ): Promise<void> {
+    await this.initialize();
+    const cached = this.getList(entity, key);
+    if (cached) {
+      onData(cached);
+    }
+
+    try {
+      const response = await fetcher();
+      if (!response.success) {
+        throw new Error(response.error || 'Request failed');
+      }
+      this.setList(entity, key, response.data);
+      onData({ data: response.data, syncedAt: this.lists[key].syncedAt, fromCache: false });
+    } catch (error) {
+      if (!cached) throw error;
+      logger.info('Cache', `Serving cached ${key}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Stale-while-revalidate for a single record
+  async record<K extends CacheEntity>(
+    entity: K,
+    id: string,
+    fetcher: () => Promise<ApiResponse<CacheEntityTypes[K]>>,
+    onData: (result: CachedResult<CacheEntityTypes[K]>) => void
+  ): Promise<void> {
+    await this.initialize();
+    const cached = this.getRecord(entity, id);
+    if (cached) {
+      onData(cached);
+    }
+
+    try {
+      const response = await fetcher();
+      if (!response.success) {
+        throw new Error(response.error || 'Request failed');
+      }
+      const syncedAt = new Date().toISOString();
+      this.setRecord(entity, response.data, syncedAt);
+      onData({ data: response.data, syncedAt, fromCache: false });
+    } catch (error) {
+      if (!cached) throw error;
+      logger.info('Cache', `Serving cached ${entity}/${id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private schedulePersist(name: CacheEntity | 'lists') {
+    this.dirty.add(name);
+    if (this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      const names = [...this.dirty];
+      this.dirty.clear();
+      const pairs: [string, string][] = names.map(n => [
+        `${CACHE_KEY_PREFIX}${n}`,
+        JSON.stringify(n === 'lists' ? this.lists : this.records[n]),
+      ]);
+      AsyncStorage.multiSet(pairs).catch(error => logger.error('Cache', 'Failed to persist:', error));
+    }, PERSIST_DELAY);
+  }
+}
+
+// Export singleton instance
+export const readCache = new ReadCache();
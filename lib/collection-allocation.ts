@@ -0,0 +1,133 @@
+// Splits one cash payment from a borrower across the installments of all their loans.
+// Pure functions only, so the preview on screen matches exactly what gets recorded.
+
+import type { Installment } from './api';
+
+export type AllocationRule = 'OLDEST_FIRST' | 'PROPORTIONAL';
+
+export interface DueInstallment {
+  installmentId: string;
+  loanId: string;
+  installmentNumber: number;
+  dueDate: string;
+  amount: number;
+  status: Installment['status'];
+}
+
+export interface Allocation {
+  installmentId: string;
+  loanId: string;
+  installmentNumber: number;
+  dueDate: string;
+  amount: number;
+}
+
+export interface AllocationResult {
+  allocations: Allocation[];
+  allocated: number;
+  unallocated: number; // Cash left over once every installment is covered, including any fraction of a rupee
+}
+
+type Dated = Pick<DueInstallment, 'dueDate' | 'installmentNumber'>;
+
+const byDueDate = (a: Dated, b: Dated): number => {
+  const diff = new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime();
+  return diff !== 0 ? diff : a.installmentNumber - b.installmentNumber;
+};
+
+// Fill installments in order until the cash runs out
+const fillInOrder = (amount: number, installments: DueInstallment[]): Allocation[] => {
+  const allocations: Allocation[] = [];
+  let remaining = amount;
+
+  for (const installment of installments) {
+    if (remaining <= 0) break;
+    const share = Math.min(installment.amount, remaining);
+    if (share <= 0) continue;
+    allocations.push({
+      installmentId: installment.installmentId,
+      loanId: installment.loanId,
+      installmentNumber: installment.installmentNumber,
+      dueDate: installment.dueDate,
+      amount: share,
+    });
+    remaining -= share;
+  }
+
+  return allocations;
+};
+
+// Installments that have fallen due by the payment date. Later weeks aren't owed yet,
+// so a payment is never spread across them.
+export const getDueBy = (installments: DueInstallment[], paymentDate: string): DueInstallment[] => {
+  const day = paymentDate.split('T')[0];
+  return installments.filter(installment => installment.dueDate.split('T')[0] <= day);
+};
+
+// Installments only carry their full amount, not what is left of a part payment, so splitting
+// cash onto a part-paid one could charge the paid part again. Those are collected on the loan.
+export const isPartlyPaid = (installment: DueInstallment): boolean => installment.status === 'PARTIAL';
+
+// What a split payment can cover, leaving out part-paid installments
+export const getTotalDue = (installments: DueInstallment[]): number => {
+  return installments
+    .filter(installment => !isPartlyPaid(installment))
+    .reduce((sum, installment) => sum + Math.max(installment.amount, 0), 0);
+};
+
+export const allocatePayment = (
+  amount: number,
+  installments: DueInstallment[],
+  rule: AllocationRule
+): AllocationResult => {
+  const cash = Math.max(amount || 0, 0);
+  const sorted = installments
+    .filter(installment => installment.amount > 0 && !isPartlyPaid(installment))
+    .sort(byDueDate);
+  const totalDue = getTotalDue(sorted);
+  // Only whole rupees are allocated; paise are handed back as unallocated
+  const payable = Math.min(Math.floor(cash), totalDue);
+
+  let allocations: Allocation[];
+
+  if (rule === 'PROPORTIONAL' && payable < totalDue) {
+    // Each loan gets a share of the cash in proportion to what it owes,
+    // then pays its own installments oldest first
+    const loanIds = [...new Set(sorted.map(installment => installment.loanId))];
+    const dueByLoan = new Map(loanIds.map(loanId => [
+      loanId,
+      getTotalDue(sorted.filter(installment => installment.loanId === loanId)),
+    ]));
+    const shares = new Map(loanIds.map(loanId => [
+      loanId,
+      Math.floor((payable * dueByLoan.get(loanId)!) / totalDue),
+    ]));
+
+    // Whole rupees lost to rounding go to the loans with the oldest dues first
+    let leftover = payable - [...shares.values()].reduce((sum, share) => sum + share, 0);
+    for (const loanId of loanIds) {
+      if (leftover <= 0) break;
+      const room = dueByLoan.get(loanId)! - shares.get(loanId)!;
+      const extra = Math.min(room, leftover);
+      shares.set(loanId, shares.get(loanId)! + extra);
+      leftover -= extra;
+    }
+
+    allocations = loanIds
+      .flatMap(loanId => fillInOrder(
+        shares.get(loanId)!,
+        sorted.filter(installment => installment.loanId === loanId)
+      ))
+      .sort(byDueDate);
+  } else {
+    allocations = fillInOrder(payable, sorted);
+  }
+
+  const allocated = allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+
+  return {
+    allocations,
+    allocated,
+    unallocated: cash - allocated,
+  };
+};
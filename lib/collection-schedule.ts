@@ -0,0 +1,97 @@
+import type { Loan } from './api';
+import { generateRepaymentSchedule } from './loan-schedule';
+
+// Weekly collection routes built from the loan list. Pure functions only - the whole week
+// comes from one loans request, so today's route and the weekly schedule share one cache.
+
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export interface RouteBorrower {
+  _id: string;
+  name: string;
+  phone?: string;
+  loans: Loan[];
+  expectedAmount: number;
+  totalOutstanding: number;
+}
+
+export interface CollectionRoute {
+  loans: Loan[];
+  borrowers: { [borrowerId: string]: RouteBorrower };
+  expectedAmounts: { [loanId: string]: number }; // What each loan should pay on this day
+  totalExpected: number;
+  totalOutstanding: number;
+  totalLoans: number;
+}
+
+export type WeeklySchedule = { [K in Weekday]: CollectionRoute };
+
+export const getWeekday = (date: Date = new Date()): Weekday => {
+  // getDay() counts from Sunday
+  return WEEKDAYS[(date.getDay() + 6) % 7];
+};
+
+// The loan's regular installment, split evenly across the days it is collected on and
+// capped at what is still owed. Arrears are not included - they show on the loan itself.
+export const getExpectedAmount = (loan: Loan): number => {
+  if (loan.status !== 'ACTIVE') return 0;
+  const days = loan.collectionDays.length || 1;
+
+  const schedule = generateRepaymentSchedule(loan);
+  let cumulative = 0;
+  const next = schedule.installments.find(installment => {
+    cumulative += installment.amount;
+    return cumulative > loan.totalPaid;
+  });
+  if (!next) return 0;
+
+  return Math.min(Math.round(next.amount / days), Math.max(loan.outstandingAmount, 0));
+};
+
+// Group a day's loans by borrower and total what is expected and outstanding on them
+export const buildCollectionRoute = (loans: Loan[]): CollectionRoute => {
+  const route: CollectionRoute = {
+    loans,
+    borrowers: {},
+    expectedAmounts: {},
+    totalExpected: 0,
+    totalOutstanding: 0,
+    totalLoans: loans.length,
+  };
+
+  loans.forEach(loan => {
+    const expected = getExpectedAmount(loan);
+    const outstanding = loan.outstandingAmount || 0;
+    route.expectedAmounts[loan._id] = expected;
+    route.totalExpected += expected;
+    route.totalOutstanding += outstanding;
+
+    if (!route.borrowers[loan.borrower._id]) {
+      route.borrowers[loan.borrower._id] = {
+        ...loan.borrower,
+        loans: [],
+        expectedAmount: 0,
+        totalOutstanding: 0,
+      };
+    }
+    const borrower = route.borrowers[loan.borrower._id];
+    borrower.loans.push(loan);
+    borrower.expectedAmount += expected;
+    borrower.totalOutstanding += outstanding;
+  });
+
+  return route;
+};
+
+// Spread active loans over the days they are collected on
+export const buildWeeklySchedule = (loans: Loan[]): WeeklySchedule => {
+  const active = loans.filter(loan => loan.status === 'ACTIVE');
+  return WEEKDAYS.reduce((schedule, day) => {
+    schedule[day] = buildCollectionRoute(
+      active.filter(loan => loan.collectionDays.some(collectionDay => collectionDay.toLowerCase() === day))
+    );
+    return schedule;
+  }, {} as WeeklySchedule);
+};
@@ -0,0 +1,51 @@
+import type { DashboardStats, PopulatedCollection } from './api';
+
+// Totals shown above the collection history. Pure functions so the screen and tests agree.
+
+export type HistoryFilter = 'all' | 'today' | 'week' | 'month';
+
+export interface CollectionStats {
+  totalCollected: number;
+  totalCollections: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// First day of the filter's range, as the YYYY-MM-DD the server expects
+export const getHistoryStartDate = (filter: HistoryFilter, now: Date = new Date()): string | undefined => {
+  switch (filter) {
+    case 'today':
+      return now.toISOString().split('T')[0];
+    case 'week':
+      return new Date(now.getTime() - 7 * DAY_MS).toISOString().split('T')[0];
+    case 'month':
+      return new Date(now.getTime() - 30 * DAY_MS).toISOString().split('T')[0];
+    default:
+      return undefined;
+  }
+};
+
+// Totals for the whole range come from the dashboard; the loaded pages are only a fallback
+export const getCollectionStats = (
+  filter: HistoryFilter,
+  collections: Pick<PopulatedCollection, 'amount'>[],
+  total: number | null,
+  dashboardStats?: DashboardStats
+): CollectionStats => {
+  const loaded = {
+    totalCollected: collections.reduce((sum, collection) => sum + (collection.amount || 0), 0),
+    totalCollections: total ?? collections.length,
+  };
+  if (!dashboardStats) return loaded;
+
+  switch (filter) {
+    case 'today':
+      return { totalCollected: dashboardStats.todayAmount, totalCollections: dashboardStats.todayCollections };
+    case 'week':
+      return { totalCollected: dashboardStats.weeklyAmount, totalCollections: dashboardStats.weeklyCollections };
+    case 'month':
+      return { totalCollected: dashboardStats.monthlyAmount, totalCollections: dashboardStats.monthlyCollections };
+    default:
+      return { totalCollected: dashboardStats.totalCollected, totalCollections: loaded.totalCollections };
+  }
+};
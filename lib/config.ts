@@ -1,15 +1,51 @@
 // Configuration for the mobile app
+export type ApiEnvironmentId = 'production' | 'staging' | 'local' | 'mock';
+
+// Set at build time, e.g. in .env.local; without it the app has no staging server to offer
+const STAGING_API_URL = process.env.EXPO_PUBLIC_STAGING_API_URL;
+
 export const config = {
   // API Configuration
   api: {
-    // Development - Update this to your local IP address when testing on device
-    // baseUrl: 'http://localhost:3000/api',
-    
-    // Production - Update this when deploying
-    baseUrl: 'https://web-portal-gram-finance.vercel.app/api',
+    // Server used until a developer picks another one in About > Developer Options
+    defaultEnvironment: 'production' as ApiEnvironmentId,
+
+    // Servers the app can be pointed at at runtime. A custom URL can also be entered on device.
+    environments: {
+      production: {
+        label: 'Production',
+        baseUrl: 'https://web-portal-gram-finance.vercel.app/api',
+      },
+      ...(STAGING_API_URL ? {
+        staging: {
+          label: 'Staging',
+          baseUrl: STAGING_API_URL,
+        },
+      } : {}),
+      local: {
+        label: 'Local',
+        // Android emulators reach the host machine at 10.0.2.2; use your LAN IP on a device
+        baseUrl: 'http://localhost:3000/api',
+      },
+      mock: {
+        label: 'Mock (offline)',
+        // Answered in-app by lib/mock-backend.ts and only offered in development builds; the host never resolves
+        baseUrl: 'http://mock.gramfinance.invalid/api',
+      },
+    },
     
     // Timeout for API requests (in milliseconds)
     timeout: 10000,
+
+    // Page size when a screen needs every record for one borrower or loan
+    pageSize: 100,
+
+    // Retries for writes that carry an idempotency key (creating collections, loans and borrowers)
+    retry: {
+      maxAttempts: 3,
+      baseDelayMs: 500, // Doubles on each attempt, with random jitter
+      maxDelayMs: 5000,
+    },
   },
   
   // App Configuration
@@ -24,11 +60,57 @@ export const config = {
     biometricAuth: true,
     cameraIntegration: true,
     gpsLocation: true,
-    offlineMode: false,
+    offlineMode: true,
+  },
+
+  // Auth Configuration
+  auth: {
+    // How long after the last online sign-in a user may still unlock cached data offline
+    offlineAccessDays: 7,
+    // Refresh the access token this long before it expires
+    refreshLeewaySeconds: 60,
+  },
+
+  // App Lock Configuration
+  appLock: {
+    // Default time in the background before the app locks (user can change it in Security)
+    defaultTimeoutSeconds: 60,
+    // Failed PIN attempts allowed before PIN entry is refused for lockoutSeconds. The PIN also
+    // unlocks the offline session, so each further lockout in a row doubles, up to maxLockoutSeconds.
+    maxPinAttempts: 5,
+    lockoutSeconds: 300,
+    maxLockoutSeconds: 24 * 60 * 60,
+  },
+
+  // Logging Configuration
+  logging: {
+    // Lowest level kept - debug output includes every request, so release builds start at info
+    level: (__DEV__ ? 'debug' : 'info') as 'debug' | 'info' | 'warn' | 'error',
+    // Recent entries kept on device for Send Diagnostics in About
+    bufferSize: 500,
+  },
+
+  // Data Fetching Configuration
+  query: {
+    // Data older than this is refetched when a screen mounts or comes back into focus
+    staleTimeMs: 30000,
+
+    // Infinite-scroll lists: rows per request and how long typing pauses before searching the server
+    pageSize: 20,
+    searchDebounceMs: 400,
+  },
+
+  // Mock Backend Configuration (development and tests)
+  mock: {
+    // Delay before every answer so loading states show up as they would on a real network
+    latencyMs: 300,
+    // Lifetime of the access tokens it issues
+    tokenTtlSeconds: 3600,
   },
-};
 
-// Helper function to get API URL
-export const getApiUrl = (endpoint: string): string => {
-  return `${config.api.baseUrl}${endpoint}`;
-}; 
\ No newline at end of file
+  // Collections Configuration
+  collections: {
+    // How a borrower-level payment is split across their loans: 'OLDEST_FIRST' or 'PROPORTIONAL'
+    allocationRule: 'OLDEST_FIRST' as 'OLDEST_FIRST' | 'PROPORTIONAL',
+  },
+};
@@ -0,0 +1,47 @@
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import { Platform, Share } from 'react-native';
+import { config } from './config';
+import { apiEnvironment } from './environment';
+import { formatLogEntry, logger } from './logger';
+import { offlineQueue } from './offline-queue';
+
+// Diagnostics bundle for support: app and environment details followed by the recent
+// redacted log. Nothing here identifies the borrower or carries credentials.
+
+export const buildDiagnosticsReport = (): string => {
+  const environment = apiEnvironment.getCurrent();
+  const entries = logger.getEntries();
+
+  const header = [
+    `${config.app.name} diagnostics`,
+    `Generated: ${new Date().toISOString()}`,
+    `App version: ${config.app.version}`,
+    `Platform: ${Platform.OS} ${Platform.Version}`,
+    `Environment: ${environment.label} (${environment.baseUrl})`,
+    `Pending offline items: ${offlineQueue.getPendingCount()}`,
+    `Log entries: ${entries.length}`,
+  ];
+
+  return [...header, '', ...entries.map(formatLogEntry)].join('\n');
+};
+
+// Open the share sheet with the report attached as a text file (email, WhatsApp...)
+export const shareDiagnostics = async (): Promise<void> => {
+  const report = buildDiagnosticsReport();
+  logger.info('Diagnostics', 'Sharing diagnostics report');
+
+  if (FileSystem.cacheDirectory && (await Sharing.isAvailableAsync())) {
+    const uri = `${FileSystem.cacheDirectory}diagnostics-${Date.now()}.txt`;
+    await FileSystem.writeAsStringAsync(uri, report);
+    await Sharing.shareAsync(uri, {
+      mimeType: 'text/plain',
+      UTI: 'public.plain-text',
+      dialogTitle: `${config.app.name} Diagnostics`,
+    });
+    return;
+  }
+
+  // No file sharing (e.g. web) - fall back to sharing the text itself
+  await Share.share({ title: `${config.app.name} Diagnostics`, message: report });
+};
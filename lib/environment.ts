@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { config, ApiEnvironmentId } from './config';
+import { logger } from './logger';
+
+const ENVIRONMENT_KEY = 'api_environment';
+
+// Types
+export type EnvironmentId = ApiEnvironmentId | 'custom';
+
+export interface EnvironmentSelection {
+  id: EnvironmentId;
+  customUrl?: string; // Only used when id is 'custom'
+}
+
+export interface ApiEnvironment {
+  id: EnvironmentId;
+  label: string;
+  baseUrl: string;
+}
+
+export type EnvironmentListener = (environment: ApiEnvironment) => void;
+
+const DEFAULT_SELECTION: EnvironmentSelection = { id: config.api.defaultEnvironment };
+
+// Trim and drop trailing slashes so endpoints can be appended directly. Returns null when invalid.
+export const normalizeBaseUrl = (url: string): string | null => {
+  const trimmed = url.trim().replace(/\/+$/, '');
+  return /^https?:\/\/[^\s/]+(\/\S*)?$/i.test(trimmed) ? trimmed : null;
+};
+
+// Environment Registry Class
+class EnvironmentRegistry {
+  private selection: EnvironmentSelection = DEFAULT_SELECTION;
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<EnvironmentListener>();
+
+  // Load the persisted choice. Requests wait on this so none go to the wrong server at startup.
+  async initialize() {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    return this.loadPromise;
+  }
+
+  private async load() {
+    try {
+      const stored = await AsyncStorage.getItem(ENVIRONMENT_KEY);
+      if (stored) {
+        const selection: EnvironmentSelection = JSON.parse(stored);
+        if (this.resolve(selection)) {
+          this.selection = selection;
+        }
+      }
+      logger.info('Environment', 'Using', this.getCurrent().label, this.getCurrent().baseUrl);
+    } catch (error) {
+      logger.error('Environment', 'Failed to load selection:', error);
+    }
+  }
+
+  getEnvironments(): ApiEnvironment[] {
+    return (Object.keys(config.api.environments) as ApiEnvironmentId[])
+      .map(id => this.resolve({ id }))
+      .filter((environment): environment is ApiEnvironment => !!environment);
+  }
+
+  getSelection(): EnvironmentSelection {
+    return this.selection;
+  }
+
+  getCurrent(): ApiEnvironment {
+    return this.resolve(this.selection) || this.resolve(DEFAULT_SELECTION)!;
+  }
+
+  getBaseUrl(): string {
+    return this.getCurrent().baseUrl;
+  }
+
+  isDefault(): boolean {
+    return this.getBaseUrl() === this.resolve(DEFAULT_SELECTION)!.baseUrl;
+  }
+
+  subscribe(listener: EnvironmentListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Persist a new choice. Callers are responsible for clearing data that belongs to the old server.
+  async select(selection: EnvironmentSelection): Promise<ApiEnvironment> {
+    const environment = this.resolve(selection);
+    if (!environment) {
+      throw new Error(selection.id === 'custom'
+        ? 'Enter a valid URL starting with http:// or https://'
+        : 'This server is not available in this build');
+    }
+
+    const stored: EnvironmentSelection = selection.id === 'custom'
+      ? { id: 'custom', customUrl: environment.baseUrl }
+      : { id: selection.id };
+    await AsyncStorage.setItem(ENVIRONMENT_KEY, JSON.stringify(stored));
+    this.selection = stored;
+
+    logger.info('Environment', 'Switched to', environment.label, environment.baseUrl);
+    this.listeners.forEach(listener => listener(environment));
+    return environment;
+  }
+
+  private resolve(selection: EnvironmentSelection): ApiEnvironment | null {
+    if (selection.id === 'custom') {
+      const baseUrl = normalizeBaseUrl(selection.customUrl || '');
+      return baseUrl ? { id: 'custom', label: 'Custom', baseUrl } : null;
+    }
+
+    // The mock backend is only installed in development builds (app/_layout.tsx)
+    if (selection.id === 'mock' && !__DEV__) {
+      return null;
+    }
+
+    const environment = config.api.environments[selection.id];
+    return environment ? { id: selection.id, ...environment } : null;
+  }
+}
+
+// Export singleton instance
+export const apiEnvironment = new EnvironmentRegistry();
+
+// Initialize the registry when the module is imported
+apiEnvironment.initialize().catch(console.error);
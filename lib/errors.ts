@@ -0,0 +1,195 @@
+import { ZodError, ZodIssue } from 'zod';
+
+// Format a zod issue path the way it reads in code, e.g. data[3].borrower.name
+const formatPath = (path: (string | number)[]): string => {
+  return path.reduce<string>((formatted, segment) => {
+    if (typeof segment === 'number') return `${formatted}[${segment}]`;
+    return formatted ? `${formatted}.${segment}` : segment;
+  }, '') || '(response)';
+};
+
+// The server answered, but not in the shape the app expects. Raised instead of letting
+// screens crash on a missing field further down.
+export class ApiContractError extends Error {
+  readonly endpoint: string;
+  readonly path: string; // First offending field, e.g. data[3].borrower.name
+  readonly issues: ZodIssue[];
+
+  constructor(endpoint: string, path: string, message: string, issues: ZodIssue[] = []) {
+    super(`Unexpected response from ${endpoint}: ${path} ${message}`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.issues = issues;
+  }
+
+  static fromZodError(endpoint: string, error: ZodError): ApiContractError {
+    const [issue] = error.issues;
+    return new ApiContractError(
+      endpoint,
+      formatPath(issue?.path ?? []),
+      issue?.message.toLowerCase() ?? 'is invalid',
+      error.issues
+    );
+  }
+}
+
+// A write may or may not have been saved - e.g. it timed out after reaching the server.
+// Sending it again with the same idempotency key is safe: the server returns the original
+// result instead of recording it twice.
+export class OutcomeUnknownError extends Error {
+  readonly idempotencyKey: string;
+  readonly originalError: unknown;
+
+  constructor(idempotencyKey: string, originalError: unknown) {
+    super('The server did not confirm whether this was saved');
+    this.name = 'OutcomeUnknownError';
+    this.idempotencyKey = idempotencyKey;
+    this.originalError = originalError;
+  }
+}
+
+// Field name -> message for each field the server rejected
+export type FieldErrors = Record<string, string>;
+
+// A request that failed at the server or on the way there. `status` is the HTTP status when
+// the server answered; screens should branch on the subclass rather than on the status.
+export class ApiError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+// The server could not be reached at all
+export class NetworkError extends ApiError {
+  constructor(message = 'Network request failed - check if server is running and API URL is correct') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// The server was reached but did not answer within config.api.timeout
+export class TimeoutError extends ApiError {
+  constructor(message = 'Request timeout - server not responding') {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// 401: credentials were rejected or the session is over
+export class AuthError extends ApiError {
+  constructor(message = 'Session expired - please sign in again') {
+    super(message, 401);
+    this.name = 'AuthError';
+  }
+}
+
+// 403: signed in, but this user's role may not do this
+export class ForbiddenError extends ApiError {
+  constructor(message = 'You do not have permission to do this') {
+    super(message, 403);
+    this.name = 'ForbiddenError';
+  }
+}
+
+// 400/422: the server rejected the input. fieldErrors names the fields at fault, when it said.
+export class ValidationError extends ApiError {
+  readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, fieldErrors: FieldErrors = {}, status = 400) {
+    super(message, status);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+// 409: the write clashes with the record's current state, e.g. editing terms after collections
+export class ConflictError extends ApiError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// First of the values that is a non-empty string
+const firstString = (...values: unknown[]): string | undefined => {
+  return values.find((value): value is string => typeof value === 'string' && value.length > 0);
+};
+
+// Servers send field errors as { phone: 'Taken' }, { phone: ['Taken'] } or [{ field: 'phone', message: 'Taken' }]
+const parseFieldErrors = (errors: unknown): FieldErrors => {
+  const fieldErrors: FieldErrors = {};
+  if (Array.isArray(errors)) {
+    errors.forEach((entry: unknown) => {
+      if (!isRecord(entry)) return;
+      const field = firstString(entry.field, entry.path, entry.param);
+      const message = firstString(entry.message, entry.msg);
+      if (field && message && !fieldErrors[field]) {
+        fieldErrors[field] = message;
+      }
+    });
+  } else if (isRecord(errors)) {
+    Object.entries(errors).forEach(([field, message]) => {
+      const first = Array.isArray(message) ? message[0] : message;
+      if (typeof first === 'string') {
+        fieldErrors[field] = first;
+      }
+    });
+  }
+  return fieldErrors;
+};
+
+// The typed error for an HTTP error response, from its status and JSON body
+export const createHttpError = (status: number, body: unknown): ApiError => {
+  const fields = isRecord(body) ? body : {};
+  const message = firstString(fields.error, fields.message) || `HTTP ${status}`;
+  switch (status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, parseFieldErrors(fields.errors), status);
+    case 401:
+      return new AuthError(message);
+    case 403:
+      return new ForbiddenError(message);
+    case 409:
+      return new ConflictError(message);
+    default:
+      return new ApiError(message, status);
+  }
+};
+
+// The server's messages for the fields a form shows, ready for its `errors` state. Server
+// names that differ from the form's are mapped through `aliases`, e.g. { gpsLat: 'location' }.
+// Empty unless the error is a ValidationError naming at least one of `fields`.
+export const getFieldErrors = <F extends string>(
+  error: unknown,
+  fields: readonly F[],
+  aliases: Partial<Record<string, F>> = {}
+): Partial<Record<F, string>> => {
+  const formErrors: Partial<Record<F, string>> = {};
+  if (!(error instanceof ValidationError)) return formErrors;
+
+  Object.entries(error.fieldErrors).forEach(([name, message]) => {
+    const field = (aliases[name] ?? name) as F;
+    if (fields.includes(field) && !formErrors[field]) {
+      formErrors[field] = message;
+    }
+  });
+  return formErrors;
+};
+
+// What to tell the user when a request failed and no field can be highlighted
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error instanceof NetworkError) return 'Network error - please check your connection and try again.';
+  if (error instanceof TimeoutError) return 'Request timeout - server not responding. Please try again.';
+  if (error instanceof ApiError && error.status && error.status >= 500) return fallback;
+  return error instanceof Error && error.message ? error.message : fallback;
+};
@@ -0,0 +1,40 @@
+import { logger } from './logger';
+
+// Minimal JWT helpers. Tokens are only decoded to read their claims - the
+// signature is verified by the server, never on the device.
+
+export interface JwtPayload {
+  exp?: number; // Seconds since epoch
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+const decodeBase64Url = (segment: string): string => {
+  const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  return atob(padded);
+};
+
+export const decodeJwt = (token: string): JwtPayload | null => {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    return JSON.parse(decodeBase64Url(parts[1]));
+  } catch (error) {
+    logger.error('Auth', 'Failed to decode JWT payload:', error);
+    return null;
+  }
+};
+
+// Expiry in milliseconds since epoch, or null when the token carries no exp claim
+export const getTokenExpiry = (token: string): number | null => {
+  const payload = decodeJwt(token);
+  return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+};
+
+// True when the token expires within `leewayMs` from now. Tokens without an exp never expire here.
+export const isTokenExpired = (token: string, leewayMs: number = 0): boolean => {
+  const expiry = getTokenExpiry(token);
+  return expiry !== null && expiry - leewayMs <= Date.now();
+};
@@ -0,0 +1,151 @@
+// Repayment schedule math for weekly loans. Pure functions only - no API or storage access,
+// so the same numbers are shown when previewing a new loan and when tracking an existing one.
+
+export type InterestType = 'NONE' | 'FLAT' | 'DECLINING';
+
+export interface LoanTerms {
+  principalAmount: number;
+  termWeeks: number;
+  startDate: string;
+  interestType?: InterestType;
+  interestRate?: number; // Annual rate in percent
+  processingFee?: number;
+  insuranceFee?: number;
+}
+
+export interface ScheduledInstallment {
+  installmentNumber: number;
+  dueDate: string;
+  principal: number;
+  interest: number;
+  amount: number;
+  balance: number; // Principal still owed after this installment is paid
+}
+
+export interface RepaymentSchedule {
+  installments: ScheduledInstallment[];
+  totalPrincipal: number;
+  totalInterest: number;
+  totalRepayable: number;
+  totalFees: number;
+  netDisbursement: number; // What the borrower receives after fees are deducted
+}
+
+const WEEKS_PER_YEAR = 52;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Amounts are collected in cash, so every installment is kept to whole rupees
+const roundRupees = (value: number): number => Math.round(value);
+
+const addDays = (dateString: string, days: number): string => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return '';
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+export const getWeeklyRate = (annualRatePercent: number): number => {
+  return annualRatePercent / 100 / WEEKS_PER_YEAR;
+};
+
+export const generateRepaymentSchedule = (terms: LoanTerms): RepaymentSchedule => {
+  const principal = Math.max(terms.principalAmount || 0, 0);
+  const weeks = Math.max(Math.floor(terms.termWeeks || 0), 0);
+  const interestType = terms.interestType || 'NONE';
+  const weeklyRate = interestType === 'NONE' ? 0 : getWeeklyRate(terms.interestRate || 0);
+  const totalFees = roundRupees((terms.processingFee || 0) + (terms.insuranceFee || 0));
+
+  const installments: ScheduledInstallment[] = [];
+  let balance = principal;
+
+  if (weeks > 0) {
+    // Equal weekly payment for declining balance (standard amortisation formula)
+    const decliningPayment = weeklyRate > 0
+      ? (principal * weeklyRate) / (1 - Math.pow(1 + weeklyRate, -weeks))
+      : principal / weeks;
+
+    for (let week = 1; week <= weeks; week++) {
+      const isLast = week === weeks;
+      let interest: number;
+      let principalPart: number;
+
+      if (interestType === 'DECLINING') {
+        interest = roundRupees(balance * weeklyRate);
+        principalPart = isLast ? balance : roundRupees(decliningPayment) - interest;
+      } else {
+        // Flat: interest is charged on the original principal every week
+        interest = roundRupees(principal * weeklyRate);
+        principalPart = isLast ? balance : roundRupees(principal / weeks);
+      }
+
+      principalPart = Math.min(Math.max(principalPart, 0), balance);
+      balance = roundRupees(balance - principalPart);
+
+      installments.push({
+        installmentNumber: week,
+        dueDate: addDays(terms.startDate, week * 7),
+        principal: principalPart,
+        interest,
+        amount: principalPart + interest,
+        balance,
+      });
+    }
+  }
+
+  const totalInterest = installments.reduce((sum, installment) => sum + installment.interest, 0);
+
+  return {
+    installments,
+    totalPrincipal: principal,
+    totalInterest,
+    totalRepayable: principal + totalInterest,
+    totalFees,
+    netDisbursement: Math.max(principal - totalFees, 0),
+  };
+};
+
+// Share of the total repayable amount that has been collected, as a percentage
+export const calculateProgress = (schedule: RepaymentSchedule, totalPaid: number): number => {
+  if (schedule.totalRepayable <= 0) return 0;
+  return Math.min((Math.max(totalPaid, 0) / schedule.totalRepayable) * 100, 100);
+};
+
+// Installments that fall due after the given date
+export const getWeeksRemaining = (schedule: RepaymentSchedule, asOf: Date = new Date()): number => {
+  const today = Math.floor(asOf.getTime() / MS_PER_DAY);
+  return schedule.installments.filter(
+    installment => Math.floor(new Date(installment.dueDate).getTime() / MS_PER_DAY) > today
+  ).length;
+};
+
+export const getOutstandingAmount = (schedule: RepaymentSchedule, totalPaid: number): number => {
+  return Math.max(schedule.totalRepayable - Math.max(totalPaid, 0), 0);
+};
+
+// The next installment still to be paid and the amount needed to be up to date on it,
+// including any arrears from earlier weeks
+export const getNextDue = (
+  schedule: RepaymentSchedule,
+  totalPaid: number,
+  asOf: Date = new Date()
+): { dueDate: string; amount: number } | null => {
+  const paid = Math.max(totalPaid, 0);
+  const today = Math.floor(asOf.getTime() / MS_PER_DAY);
+  let cumulative = 0;
+  let nextIndex = -1;
+  let amountDue = 0;
+
+  schedule.installments.forEach((installment, index) => {
+    cumulative += installment.amount;
+    const isPastDue = Math.floor(new Date(installment.dueDate).getTime() / MS_PER_DAY) <= today;
+    if (cumulative > paid && nextIndex === -1) {
+      nextIndex = index;
+    }
+    if (nextIndex !== -1 && (index === nextIndex || isPastDue)) {
+      amountDue = cumulative - paid;
+    }
+  });
+
+  if (nextIndex === -1) return null;
+  return { dueDate: schedule.installments[nextIndex].dueDate, amount: amountDue };
+};
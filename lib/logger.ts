@@ -0,0 +1,220 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { config } from './config';
+
+const LOG_KEY = 'diagnostic_logs';
+const PERSIST_DELAY = 1000; // Batch writes that happen close together
+const MAX_DETAIL_LENGTH = 2000; // Long payloads are cut so one response can't flood the buffer
+const MAX_DEPTH = 6;
+const CONSOLE_SCOPE = 'Console';
+
+// Types
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogEntry {
+  timestamp: string;
+  level: LogLevel;
+  scope: string; // Area of the app, e.g. 'API' or 'Auth'
+  message: string;
+  details?: string; // Redacted, serialized extra arguments
+}
+
+const LEVEL_ORDER: { [K in LogLevel]: number } = { debug: 0, info: 1, warn: 2, error: 3 };
+
+// Keys whose values are never written out, whatever they contain
+const SECRET_KEY = /(password|token|secret|authorization|^pin$|^otp$|aadhaar|aadhar|idnumber)/i;
+const PHONE_KEY = /(phone|mobile)/i;
+
+// Patterns scrubbed from free text, most specific first
+const TEXT_PATTERNS: [RegExp, string][] = [
+  [/Bearer\s+[\w\-.~+/=]+/gi, 'Bearer [REDACTED]'],
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, '[JWT]'],
+  [/("(?:\w*password|\w*token|secret|authorization|pin|otp)"\s*:\s*)"[^"]*"/gi, '$1"[REDACTED]"'],
+  [/\b[2-9]\d{3}[\s-]?\d{4}[\s-]?\d{4}\b/g, '[ID]'], // Aadhaar and other 12-digit ID numbers
+  [/(?:\+?91[\s-]?)?\b[6-9]\d{4}[\s-]?\d{5}\b/g, '[PHONE]'], // Indian mobile numbers, e.g. +91 98765 43210
+];
+
+export const redactText = (text: string): string => {
+  return TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+};
+
+// Keep the last two digits so support can tell numbers apart without seeing them
+const maskPhone = (value: unknown): string => {
+  const digits = String(value).replace(/\D/g, '');
+  return digits.length > 2 ? `******${digits.slice(-2)}` : '[PHONE]';
+};
+
+// API errors carry the HTTP status, which is worth keeping and says nothing about the user
+const hasStatus = (error: Error): error is Error & { status: number } => {
+  return 'status' in error && typeof error.status === 'number';
+};
+
+// Deep copy of a value with secrets and personal numbers removed
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (value instanceof Error) {
+    return { name: value.name, message: redactText(value.message), status: hasStatus(value) ? value.status : undefined };
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) return '[...]';
+  seen.add(value);
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const result: { [key: string]: unknown } = {};
+  Object.entries(value).forEach(([key, item]) => {
+    if (SECRET_KEY.test(key)) {
+      result[key] = item ? '[REDACTED]' : item;
+    } else if (PHONE_KEY.test(key) && (typeof item === 'string' || typeof item === 'number')) {
+      result[key] = maskPhone(item);
+    } else {
+      result[key] = redact(item, depth + 1, seen);
+    }
+  });
+  return result;
+};
+
+const serialize = (args: unknown[]): string | undefined => {
+  if (args.length === 0) return undefined;
+  const text = args
+    .map(arg => {
+      const redacted = redact(arg);
+      if (typeof redacted === 'string') return redacted;
+      try {
+        return JSON.stringify(redacted);
+      } catch {
+        return String(redacted);
+      }
+    })
+    .join(' ');
+  return text.length > MAX_DETAIL_LENGTH ? `${text.slice(0, MAX_DETAIL_LENGTH)}...` : text;
+};
+
+export const formatLogEntry = (entry: LogEntry): string => {
+  const line = `${entry.timestamp} ${entry.level.toUpperCase()} [${entry.scope}] ${entry.message}`;
+  return entry.details ? `${line} ${entry.details}` : line;
+};
+
+type ConsoleMethod = 'log' | 'info' | 'warn' | 'error';
+
+// Logger Class
+class Logger {
+  private entries: LogEntry[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  // Console methods as they were before capture - all output goes through these
+  private output: { [K in ConsoleMethod]: (...args: unknown[]) => void } = {
+    log: console.log.bind(console),
+    info: console.info.bind(console),
+    warn: console.warn.bind(console),
+    error: console.error.bind(console),
+  };
+  private consoleCaptured = false;
+
+  // Restore the buffer from the previous session and route stray console calls through redaction
+  async initialize() {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    this.captureConsole();
+    return this.loadPromise;
+  }
+
+  private async load() {
+    try {
+      const stored = await AsyncStorage.getItem(LOG_KEY);
+      if (stored) {
+        // Entries logged before loading finished come after the stored ones
+        this.entries = [...JSON.parse(stored), ...this.entries].slice(-config.logging.bufferSize);
+      }
+    } catch (error) {
+      this.output.error('Logger - Failed to load stored logs:', error);
+    }
+  }
+
+  debug(scope: string, message: string, ...details: unknown[]) {
+    this.write('debug', scope, message, details);
+  }
+
+  info(scope: string, message: string, ...details: unknown[]) {
+    this.write('info', scope, message, details);
+  }
+
+  warn(scope: string, message: string, ...details: unknown[]) {
+    this.write('warn', scope, message, details);
+  }
+
+  error(scope: string, message: string, ...details: unknown[]) {
+    this.write('error', scope, message, details);
+  }
+
+  // Most recent entries, oldest first
+  getEntries(limit = config.logging.bufferSize): LogEntry[] {
+    return this.entries.slice(-limit);
+  }
+
+  async clear() {
+    this.entries = [];
+    await AsyncStorage.removeItem(LOG_KEY);
+  }
+
+  private write(level: LogLevel, scope: string, message: string, details: unknown[]) {
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[config.logging.level]) return;
+
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      scope,
+      message: redactText(message),
+      details: serialize(details),
+    };
+
+    this.entries.push(entry);
+    if (this.entries.length > config.logging.bufferSize) {
+      this.entries.splice(0, this.entries.length - config.logging.bufferSize);
+    }
+    this.schedulePersist();
+
+    const method: ConsoleMethod = level === 'debug' ? 'log' : level;
+    const text = scope === CONSOLE_SCOPE ? entry.message : `${scope} - ${entry.message}`;
+    this.output[method](text, ...(entry.details ? [entry.details] : []));
+  }
+
+  // Existing console.* calls (ours and libraries') are redacted and kept in the buffer too
+  private captureConsole() {
+    if (this.consoleCaptured) return;
+    this.consoleCaptured = true;
+
+    const levels: { [K in ConsoleMethod]: LogLevel } = { log: 'debug', info: 'info', warn: 'warn', error: 'error' };
+    (Object.keys(levels) as ConsoleMethod[]).forEach(method => {
+      console[method] = (...args: unknown[]) => {
+        const [first, ...rest] = args;
+        if (typeof first === 'string') {
+          this.write(levels[method], CONSOLE_SCOPE, first, rest);
+        } else {
+          this.write(levels[method], CONSOLE_SCOPE, '', args);
+        }
+      };
+    });
+  }
+
+  private schedulePersist() {
+    if (this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      // Wait for the stored entries so writing doesn't replace the previous session's logs
+      Promise.resolve(this.loadPromise)
+        .then(() => AsyncStorage.setItem(LOG_KEY, JSON.stringify(this.entries)))
+        .catch(error => {
+          this.output.error('Logger - Failed to persist logs:', error);
+        });
+    }, PERSIST_DELAY);
+  }
+}
+
+// Export singleton instance
+export const logger = new Logger();
+
+// Initialize the logger when the module is imported
+logger.initialize().catch(console.error);
@@ -0,0 +1,1014 @@
+import { z } from 'zod';
+import type { Borrower, Collection, DashboardStats, Loan, Payment, PopulatedCollection, User } from './api';
+import { config } from './config';
+import { generateRepaymentSchedule } from './loan-schedule';
+import { logger } from './logger';
+import { createFixtures, MOCK_OTP, MockSeed, MockUser } from './mock-fixtures';
+import { borrowerSchema, collectionSchema, loanSchema, loanStatusSchema } from './schemas';
+
+// In-memory stand-in for the GramFinance API. It answers fetch calls to the Mock environment's
+// base URL with the same envelopes the real server sends, so the app and tests run with no
+// network at all. State lives in memory and starts from the fixtures in lib/mock-fixtures.ts.
+
+export const MOCK_BASE_URL = config.api.environments.mock.baseUrl;
+
+// Types
+export type MockFault =
+  | { type: 'timeout' } // Never answers, so the client's own timeout fires
+  | { type: 'network' } // Fails like an unreachable server
+  | { type: 'lostResponse' } // Does the work, then a gateway answers 504 so the client can't tell
+  | { type: 'status'; status: number; error?: string }; // e.g. 401, 409, 500
+
+export interface MockFaultRule {
+  fault: MockFault;
+  method?: string;
+  path?: string | RegExp; // A string matches the start of the path, e.g. '/collections'
+  times?: number; // Matching requests to fail; every one until removed when omitted
+}
+
+type MockQuery = Map<string, string>;
+
+interface MockRequest<B = unknown> {
+  method: string;
+  path: string;
+  query: MockQuery;
+  body: B;
+  user: MockUser | null;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+type RouteHandler<B = unknown> = (request: MockRequest<B>, params: Record<string, string>) => MockResponse;
+
+interface RouteOptions<S extends z.ZodTypeAny> {
+  body?: S; // Checked before the handler runs; a mismatch is answered with field errors
+  isPublic?: boolean;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: RouteHandler;
+  isPublic: boolean; // Answered without a bearer token
+}
+
+interface ActiveFault extends MockFaultRule {
+  remaining: number;
+}
+
+interface MockDevice {
+  deviceId: string;
+  deviceToken: string;
+  deviceName: string;
+  userId: string;
+}
+
+// Helpers
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ok = (data: unknown, pagination?: object): MockResponse => ({
+  status: 200,
+  body: { success: true, data, ...(pagination ? { pagination } : {}) },
+});
+
+const fail = (status: number, error: string): MockResponse => ({
+  status,
+  body: { success: false, error },
+});
+
+// Rejected input, answered the way the server reports validation errors
+const invalid = (errors: Record<string, string>): MockResponse => ({
+  status: 400,
+  body: { success: false, error: Object.values(errors)[0], errors },
+});
+
+// Request bodies, built from the response schemas the fields end up in
+const credentialsBody = z.object({ username: z.string(), password: z.string() }).partial();
+const deviceLoginBody = z.object({ deviceId: z.string(), deviceToken: z.string() }).partial();
+const refreshBody = z.object({ refreshToken: z.string() });
+const passwordResetBody = z.object({ username: z.string(), otp: z.string() }).partial();
+const resetPasswordBody = z.object({ resetToken: z.string(), newPassword: z.string() });
+const profileBody = z.object({ name: z.string(), phone: z.string(), email: z.string() }).partial();
+const changePasswordBody = z.object({ currentPassword: z.string(), newPassword: z.string() });
+const deviceBody = z.object({ deviceName: z.string() }).partial();
+const backupBody = z.object({ date: z.string() }).partial();
+
+const borrowerBody = borrowerSchema.pick({
+  name: true,
+  phone: true,
+  address: true,
+  village: true,
+  gpsLat: true,
+  gpsLng: true,
+  photoUrl: true,
+  idProofUrl: true,
+  householdHead: true,
+  collectionDays: true,
+  isActive: true,
+}).partial().strip();
+
+const loanTermsBody = loanSchema.pick({
+  principalAmount: true,
+  disbursedAmount: true,
+  termWeeks: true,
+  startDate: true,
+  interestType: true,
+  interestRate: true,
+  processingFee: true,
+  insuranceFee: true,
+  collectionDays: true,
+}).strip();
+
+const createLoanBody = loanTermsBody.extend({ borrowerId: z.string() });
+
+const updateLoanBody = loanTermsBody.partial().extend({
+  status: loanStatusSchema.optional(),
+  reason: z.string().optional(),
+});
+
+const collectionBody = collectionSchema.pick({
+  amount: true,
+  paymentDate: true,
+  gpsLat: true,
+  gpsLng: true,
+  notes: true,
+  installmentId: true,
+  collectorId: true,
+}).partial({ collectorId: true }).strip();
+
+type BorrowerBody = z.output<typeof borrowerBody>;
+type LoanTerms = Partial<z.output<typeof loanTermsBody>>;
+
+// Zod issues as the field errors the server would send, keeping the first per field
+const toFieldErrors = (error: z.ZodError): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  error.issues.forEach(issue => {
+    const field = String(issue.path[0] ?? 'body');
+    errors[field] = errors[field] || issue.message;
+  });
+  return errors;
+};
+
+const jsonResponse = ({ status, body }: MockResponse): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
+
+const networkError = () => new TypeError('Network request failed');
+
+// Unsigned token in JWT form, so the client can read its exp claim like a real one
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const createToken = (userId: string, nonce: number): string => {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ sub: userId, iat: now, exp: now + config.mock.tokenTtlSeconds, nonce }));
+  return `${header}.${payload}.mock`;
+};
+
+const toPublicUser = (user: MockUser): User => {
+  const publicUser: Partial<MockUser> = { ...user };
+  delete publicUser.password;
+  return publicUser as User;
+};
+
+// Query strings are parsed by hand - URLSearchParams isn't complete on every React Native runtime
+const parseQuery = (search: string): MockQuery => {
+  const query: MockQuery = new Map();
+  search.split('&').filter(Boolean).forEach(pair => {
+    const [key, value = ''] = pair.split('=').map(part => decodeURIComponent(part.replace(/\+/g, ' ')));
+    query.set(key, value);
+  });
+  return query;
+};
+
+// Page through a list when the client asks for a page or limit, otherwise send everything
+const paginate = <T>(items: T[], query: MockQuery): MockResponse => {
+  const page = Math.max(parseInt(query.get('page') || '1', 10) || 1, 1);
+  const limit = parseInt(query.get('limit') || '0', 10) || items.length || 1;
+  const start = (page - 1) * limit;
+  return ok(items.slice(start, start + limit), {
+    page,
+    limit,
+    total: items.length,
+    totalPages: Math.max(Math.ceil(items.length / limit), 1),
+  });
+};
+
+const matchesSearch = (search: string | undefined, ...fields: (string | undefined)[]) => {
+  if (!search) return true;
+  const needle = search.toLowerCase();
+  return fields.some(field => field?.toLowerCase().includes(needle));
+};
+
+const isOnDay = (days: string[], day: string | undefined) => {
+  return !day || days.some(collectionDay => collectionDay.toLowerCase() === day.toLowerCase());
+};
+
+// Mock Backend Class
+class MockBackend {
+  private state: MockSeed = createFixtures();
+  private devices: MockDevice[] = [];
+  private sessions = new Map<string, string>(); // Access token -> user id
+  private refreshTokens = new Map<string, string>();
+  private resetTokens = new Map<string, string>();
+  private idempotentResponses = new Map<string, MockResponse>();
+  private backups = new Map<string, string>(); // Date -> when it was last generated
+  private faults: ActiveFault[] = [];
+  private routes: Route[] = [];
+  private latencyMs = config.mock.latencyMs;
+  private counter = 0;
+  private originalFetch: typeof fetch | null = null;
+
+  constructor() {
+    this.registerRoutes();
+  }
+
+  // Route fetch calls for the mock base URL here; everything else goes to the network
+  install(): () => void {
+    if (!this.originalFetch) {
+      const originalFetch = globalThis.fetch;
+      this.originalFetch = originalFetch;
+      globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+        const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+        return url.startsWith(MOCK_BASE_URL) ? this.handle(url, init) : originalFetch(input, init);
+      }) as typeof fetch;
+      logger.info('MockBackend', 'Installed for', MOCK_BASE_URL);
+    }
+    return () => this.uninstall();
+  }
+
+  uninstall() {
+    if (this.originalFetch) {
+      globalThis.fetch = this.originalFetch;
+      this.originalFetch = null;
+    }
+  }
+
+  // Replace every record and forget sessions, devices and remembered writes
+  seed(seed: MockSeed = createFixtures()) {
+    this.state = JSON.parse(JSON.stringify(seed));
+    this.devices = [];
+    this.sessions.clear();
+    this.refreshTokens.clear();
+    this.resetTokens.clear();
+    this.idempotentResponses.clear();
+    this.backups.clear();
+  }
+
+  // Fresh fixtures, no faults and no latency - the starting point for a test
+  reset(seed?: MockSeed) {
+    this.seed(seed);
+    this.clearFaults();
+    this.latencyMs = 0;
+  }
+
+  // Copy of the current records, for assertions
+  getState(): MockSeed {
+    return JSON.parse(JSON.stringify(this.state));
+  }
+
+  setLatency(ms: number) {
+    this.latencyMs = ms;
+  }
+
+  // Fail matching requests until the rule is used up or the returned function is called
+  injectFault(rule: MockFaultRule): () => void {
+    const fault: ActiveFault = { ...rule, remaining: rule.times ?? Infinity };
+    this.faults.push(fault);
+    return () => {
+      this.faults = this.faults.filter(active => active !== fault);
+    };
+  }
+
+  clearFaults() {
+    this.faults = [];
+  }
+
+  async handle(url: string, init: RequestInit = {}): Promise<Response> {
+    const [pathname, search = ''] = url.slice(MOCK_BASE_URL.length).split('?');
+    const method = (init.method || 'GET').toUpperCase();
+    const path = pathname.replace(/\/+$/, '') || '/';
+    const headers = new Headers(init.headers);
+
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+    if (init.signal?.aborted) {
+      throw this.abortError();
+    }
+
+    const fault = this.takeFault(method, path);
+    if (fault?.type === 'timeout') {
+      return this.waitForAbort(init.signal);
+    }
+    if (fault?.type === 'network') {
+      throw networkError();
+    }
+    if (fault?.type === 'status') {
+      return jsonResponse(fail(fault.status, fault.error || `Injected ${fault.status}`));
+    }
+
+    const response = this.dispatch(method, path, parseQuery(search), init.body, headers);
+    logger.debug('MockBackend', `${method} ${path} -> ${response.status}`);
+
+    // The work is done but the answer never arrives
+    if (fault?.type === 'lostResponse') {
+      return jsonResponse(fail(504, 'Gateway timeout'));
+    }
+    return jsonResponse(response);
+  }
+
+  private dispatch(
+    method: string,
+    path: string,
+    query: MockQuery,
+    rawBody: RequestInit['body'],
+    headers: Headers
+  ): MockResponse {
+    const match = this.findRoute(method, path);
+    if (!match) {
+      return fail(404, `No mock route for ${method} ${path}`);
+    }
+
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || '';
+    const userId = this.sessions.get(token);
+    const user = this.state.users.find(candidate => candidate.id === userId) || null;
+    if (!match.route.isPublic && !user) {
+      return fail(401, 'Unauthorized');
+    }
+
+    let body: unknown = {};
+    try {
+      body = typeof rawBody === 'string' && rawBody ? JSON.parse(rawBody) : {};
+    } catch {
+      return fail(400, 'Invalid JSON body');
+    }
+
+    // Repeated creates return the first answer instead of saving again
+    const idempotencyKey = headers.get('Idempotency-Key');
+    const rememberKey = idempotencyKey && method === 'POST' ? `${path}:${idempotencyKey}` : null;
+    if (rememberKey && this.idempotentResponses.has(rememberKey)) {
+      return this.idempotentResponses.get(rememberKey)!;
+    }
+
+    const response = match.route.handler({ method, path, query, body, user }, match.params);
+    if (rememberKey && response.status < 500) {
+      this.idempotentResponses.set(rememberKey, response);
+    }
+    return response;
+  }
+
+  private takeFault(method: string, path: string): MockFault | null {
+    const active = this.faults.find(fault =>
+      fault.remaining > 0 &&
+      (!fault.method || fault.method.toUpperCase() === method) &&
+      (!fault.path || (typeof fault.path === 'string' ? path.startsWith(fault.path) : fault.path.test(path)))
+    );
+    if (!active) return null;
+
+    active.remaining -= 1;
+    if (active.remaining <= 0) {
+      this.faults = this.faults.filter(fault => fault !== active);
+    }
+    return active.fault;
+  }
+
+  // Field errors for a borrower's details; only the fields present are checked
+  private checkBorrower(body: BorrowerBody, id?: string): Record<string, string> {
+    const errors: Record<string, string> = {};
+    (['name', 'address', 'village'] as const).forEach(field => {
+      if (field in body && !String(body[field] || '').trim()) {
+        errors[field] = `${field[0].toUpperCase()}${field.slice(1)} is required`;
+      }
+    });
+    if (body.phone && !/^\d{10}$/.test(body.phone)) {
+      errors.phone = 'Phone number must be 10 digits';
+    } else if (body.phone && this.state.borrowers.some(borrower => borrower._id !== id && borrower.phone === body.phone)) {
+      errors.phone = 'Another borrower already has this phone number';
+    }
+    if ('collectionDays' in body && !body.collectionDays?.length) {
+      errors.collectionDays = 'Choose at least one collection day';
+    }
+    return errors;
+  }
+
+  // Field errors for a loan's terms
+  private checkLoanTerms(terms: LoanTerms): Record<string, string> {
+    const errors: Record<string, string> = {};
+    if (!((terms.principalAmount ?? 0) > 0)) {
+      errors.principalAmount = 'Principal must be greater than zero';
+    }
+    if ((terms.disbursedAmount ?? 0) > (terms.principalAmount ?? 0)) {
+      errors.disbursedAmount = 'Cannot be more than the principal';
+    }
+    if (!((terms.termWeeks ?? 0) > 0)) {
+      errors.termWeeks = 'Term must be at least one week';
+    }
+    if (!terms.startDate || isNaN(new Date(terms.startDate).getTime())) {
+      errors.startDate = 'Start date is invalid';
+    }
+    if (terms.interestRate !== undefined && (terms.interestRate < 0 || terms.interestRate > 100)) {
+      errors.interestRate = 'Interest rate must be between 0 and 100';
+    }
+    if (terms.collectionDays && !terms.collectionDays.length) {
+      errors.collectionDays = 'Choose at least one collection day';
+    }
+    return errors;
+  }
+
+  private abortError(): Error {
+    const error = new Error('Aborted');
+    error.name = 'AbortError';
+    return error;
+  }
+
+  private waitForAbort(signal?: AbortSignal | null): Promise<Response> {
+    return new Promise((_, reject) => {
+      signal?.addEventListener('abort', () => reject(this.abortError()));
+    });
+  }
+
+  private nextId(prefix: string): string {
+    this.counter += 1;
+    return `${prefix}-mock-${this.counter}`;
+  }
+
+  private route<S extends z.ZodTypeAny = z.ZodUnknown>(
+    method: string,
+    path: string,
+    handler: RouteHandler<z.output<S>>,
+    { body: schema, isPublic = false }: RouteOptions<S> = {}
+  ) {
+    const keys: string[] = [];
+    const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (_, key) => {
+      keys.push(key);
+      return '([^/]+)';
+    })}$`);
+    this.routes.push({
+      method,
+      pattern,
+      keys,
+      isPublic,
+      handler: (request, params) => {
+        if (!schema) return handler(request, params);
+        const parsed = schema.safeParse(request.body);
+        return parsed.success ? handler({ ...request, body: parsed.data }, params) : invalid(toFieldErrors(parsed.error));
+      },
+    });
+  }
+
+  private findRoute(method: string, path: string): { route: Route; params: Record<string, string> } | null {
+    for (const route of this.routes) {
+      const match = route.method === method && route.pattern.exec(path);
+      if (match) {
+        const params: Record<string, string> = {};
+        route.keys.forEach((key, index) => {
+          params[key] = decodeURIComponent(match[index + 1]);
+        });
+        return { route, params };
+      }
+    }
+    return null;
+  }
+
+  private startSession(user: MockUser) {
+    const token = createToken(user.id, this.counter++);
+    const refreshToken = this.nextId('refresh');
+    this.sessions.set(token, user.id);
+    this.refreshTokens.set(refreshToken, user.id);
+    return { success: true, token, refreshToken, user: toPublicUser(user) };
+  }
+
+  // Records as the server sends them
+  private toBorrower(borrower: Borrower): Borrower {
+    const loans = this.state.loans.filter(loan => loan.borrower._id === borrower._id);
+    return {
+      ...borrower,
+      loansCount: loans.length,
+      totalOutstanding: loans.reduce((sum, loan) => sum + (loan.status === 'ACTIVE' ? loan.outstandingAmount : 0), 0),
+    };
+  }
+
+  private toLoan(loan: Loan): Loan {
+    const borrower = this.state.borrowers.find(candidate => candidate._id === loan.borrower._id);
+    return borrower
+      ? { ...loan, borrower: { _id: borrower._id, name: borrower.name, phone: borrower.phone } }
+      : loan;
+  }
+
+  private toPopulatedCollection(collection: Collection): PopulatedCollection {
+    const installment = this.state.installments.find(candidate => candidate._id === collection.installmentId);
+    const collector = this.state.users.find(user => user.id === collection.collectorId);
+    return {
+      ...collection,
+      installmentId: {
+        _id: collection.installmentId,
+        installmentNumber: installment?.installmentNumber ?? 0,
+        dueDate: installment?.dueDate ?? '',
+        status: installment?.status ?? 'PENDING',
+        amount: installment?.amount ?? 0,
+        loanId: installment?.loanId ?? '',
+      },
+      collectorId: {
+        _id: collection.collectorId,
+        name: collector?.name ?? 'Unknown',
+        email: collector?.email,
+        phone: collector?.phone,
+      },
+    };
+  }
+
+  private getCollectionLoanId(collection: Collection): string | undefined {
+    return this.state.installments.find(installment => installment._id === collection.installmentId)?.loanId;
+  }
+
+  // Re-derive installment statuses and the loan's balance from what has been collected
+  private settleLoan(loan: Loan) {
+    const installments = this.state.installments
+      .filter(installment => installment.loanId === loan._id)
+      .sort((a, b) => a.installmentNumber - b.installmentNumber);
+    const totalPaid = this.state.collections
+      .filter(collection => this.getCollectionLoanId(collection) === loan._id)
+      .reduce((sum, collection) => sum + collection.amount, 0);
+    const totalRepayable = installments.reduce((sum, installment) => sum + installment.amount, 0);
+    const now = new Date().toISOString();
+
+    let cumulative = 0;
+    installments.forEach(installment => {
+      const before = cumulative;
+      cumulative += installment.amount;
+      installment.status = cumulative <= totalPaid
+        ? 'PAID'
+        : before < totalPaid
+          ? 'PARTIAL'
+          : installment.dueDate < now.split('T')[0] ? 'OVERDUE' : 'PENDING';
+      installment.updatedAt = now;
+    });
+
+    loan.totalPaid = totalPaid;
+    loan.outstandingAmount = Math.max(totalRepayable - totalPaid, 0);
+    if (loan.status !== 'DEFAULTED') {
+      loan.status = loan.outstandingAmount > 0 ? 'ACTIVE' : 'COMPLETED';
+    }
+  }
+
+  private scheduleInstallments(loan: Loan) {
+    const createdAt = new Date().toISOString();
+    this.state.installments = this.state.installments.filter(installment => installment.loanId !== loan._id);
+    generateRepaymentSchedule(loan).installments.forEach(scheduled => {
+      this.state.installments.push({
+        _id: this.nextId('installment'),
+        amount: scheduled.amount,
+        dueDate: scheduled.dueDate,
+        status: 'PENDING',
+        loanId: loan._id,
+        installmentNumber: scheduled.installmentNumber,
+        createdAt,
+        updatedAt: createdAt,
+      });
+    });
+    this.settleLoan(loan);
+  }
+
+  private collectionsOn(date: string): Collection[] {
+    return this.state.collections.filter(collection => collection.paymentDate.startsWith(date));
+  }
+
+  private registerRoutes() {
+    // Auth
+    this.route('POST', '/auth/login', ({ body }) => {
+      const user = this.state.users.find(candidate =>
+        candidate.username === String(body.username || '').trim().toLowerCase() && candidate.password === body.password
+      );
+      return user ? { status: 200, body: this.startSession(user) } : fail(401, 'Invalid username or password');
+    }, { body: credentialsBody, isPublic: true });
+
+    this.route('POST', '/auth/device-login', ({ body }) => {
+      const device = this.devices.find(candidate =>
+        candidate.deviceId === body.deviceId && candidate.deviceToken === body.deviceToken
+      );
+      const user = device && this.state.users.find(candidate => candidate.id === device.userId);
+      return user ? { status: 200, body: this.startSession(user) } : fail(401, 'Device is not registered');
+    }, { body: deviceLoginBody, isPublic: true });
+
+    this.route('POST', '/auth/refresh', ({ body }) => {
+      const userId = this.refreshTokens.get(body.refreshToken);
+      const user = this.state.users.find(candidate => candidate.id === userId);
+      if (!user) {
+        return fail(401, 'Refresh token is invalid');
+      }
+      // Refresh tokens are single use
+      this.refreshTokens.delete(body.refreshToken);
+      const { token, refreshToken } = this.startSession(user);
+      return { status: 200, body: { success: true, token, refreshToken } };
+    }, { body: refreshBody, isPublic: true });
+
+    this.route('POST', '/auth/forgot-password', ({ body }) => {
+      const user = this.state.users.find(candidate => candidate.username === String(body.username || '').toLowerCase());
+      // Same answer for unknown users so usernames can't be discovered
+      return ok({
+        message: 'If the account exists, a code has been sent',
+        destination: user?.phone ? `******${user.phone.slice(-4)}` : undefined,
+      });
+    }, { body: passwordResetBody, isPublic: true });
+
+    this.route('POST', '/auth/verify-otp', ({ body }) => {
+      const user = this.state.users.find(candidate => candidate.username === String(body.username || '').toLowerCase());
+      if (!user || body.otp !== MOCK_OTP) {
+        return fail(400, 'Invalid or expired code');
+      }
+      const resetToken = this.nextId('reset');
+      this.resetTokens.set(resetToken, user.id);
+      return ok({ resetToken });
+    }, { body: passwordResetBody, isPublic: true });
+
+    this.route('POST', '/auth/reset-password', ({ body }) => {
+      const user = this.state.users.find(candidate => candidate.id === this.resetTokens.get(body.resetToken));
+      if (!user) {
+        return fail(400, 'Reset link has expired');
+      }
+      this.resetTokens.delete(body.resetToken);
+      user.password = body.newPassword;
+      return ok({ message: 'Password has been reset' });
+    }, { body: resetPasswordBody, isPublic: true });
+
+    // Profile
+    this.route('GET', '/profile', ({ user }) => ok(toPublicUser(user!)));
+
+    this.route('PUT', '/profile', ({ user, body }) => {
+      const { name, phone, email } = body;
+      Object.assign(user!, { name: name ?? user!.name, phone: phone ?? user!.phone, email: email ?? user!.email });
+      return ok(toPublicUser(user!));
+    }, { body: profileBody });
+
+    this.route('POST', '/profile/password', ({ user, body }) => {
+      if (body.currentPassword !== user!.password) {
+        return invalid({ currentPassword: 'Current password is incorrect' });
+      }
+      user!.password = body.newPassword;
+      return ok({ message: 'Password changed' });
+    }, { body: changePasswordBody });
+
+    // Devices
+    this.route('POST', '/devices', ({ user, body }) => {
+      const device: MockDevice = {
+        deviceId: this.nextId('device'),
+        deviceToken: this.nextId('device-token'),
+        deviceName: body.deviceName || 'Unknown device',
+        userId: user!.id,
+      };
+      this.devices.push(device);
+      return ok({ deviceId: device.deviceId, deviceToken: device.deviceToken });
+    }, { body: deviceBody });
+
+    this.route('DELETE', '/devices/:id', (_, { id }) => {
+      this.devices = this.devices.filter(device => device.deviceId !== id);
+      return ok({ message: 'Device removed' });
+    });
+
+    // Borrowers
+    this.route('GET', '/borrowers', ({ query }) => {
+      const isActive = query.get('isActive');
+      const borrowers = this.state.borrowers
+        .filter(borrower =>
+          matchesSearch(query.get('search'), borrower.name, borrower.phone, borrower.village) &&
+          (isActive === undefined || borrower.isActive === (isActive === 'true')) &&
+          isOnDay(borrower.collectionDays, query.get('collectionDay'))
+        )
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(borrower => this.toBorrower(borrower));
+      return paginate(borrowers, query);
+    });
+
+    this.route('GET', '/borrowers/:id', (_, { id }) => {
+      const borrower = this.state.borrowers.find(candidate => candidate._id === id);
+      return borrower ? ok(this.toBorrower(borrower)) : fail(404, 'Borrower not found');
+    });
+
+    this.route('POST', '/borrowers', ({ body }) => {
+      const details = { name: '', address: '', village: '', ...body };
+      const errors = this.checkBorrower(details);
+      if (Object.keys(errors).length > 0) {
+        return invalid(errors);
+      }
+      const now = new Date().toISOString();
+      const borrower: Borrower = {
+        ...details,
+        _id: this.nextId('borrower'),
+        isActive: true,
+        collectionDays: body.collectionDays || [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.state.borrowers.push(borrower);
+      return ok(this.toBorrower(borrower));
+    }, { body: borrowerBody });
+
+    this.route('PUT', '/borrowers/:id', ({ body }, { id }) => {
+      const borrower = this.state.borrowers.find(candidate => candidate._id === id);
+      if (!borrower) {
+        return fail(404, 'Borrower not found');
+      }
+      const errors = this.checkBorrower(body, id);
+      if (Object.keys(errors).length > 0) {
+        return invalid(errors);
+      }
+      Object.assign(borrower, body, { _id: id, updatedAt: new Date().toISOString() });
+      return ok(this.toBorrower(borrower));
+    }, { body: borrowerBody });
+
+    this.route('DELETE', '/borrowers/:id', (_, { id }) => {
+      if (!this.state.borrowers.some(borrower => borrower._id === id)) {
+        return fail(404, 'Borrower not found');
+      }
+      if (this.state.loans.some(loan => loan.borrower._id === id && loan.status === 'ACTIVE')) {
+        return fail(409, 'Borrower has active loans');
+      }
+      this.state.borrowers = this.state.borrowers.filter(borrower => borrower._id !== id);
+      return ok({ message: 'Borrower deleted' });
+    });
+
+    // Loans
+    this.route('GET', '/loans', ({ query }) => {
+      const loans = this.state.loans
+        .map(loan => this.toLoan(loan))
+        .filter(loan =>
+          matchesSearch(query.get('search'), loan.loanNumber, loan.borrower.name) &&
+          (!query.get('borrowerId') || loan.borrower._id === query.get('borrowerId')) &&
+          (!query.get('status') || loan.status === query.get('status')) &&
+          isOnDay(loan.collectionDays, query.get('collectionDay'))
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return paginate(loans, query);
+    });
+
+    this.route('GET', '/loans/:id', (_, { id }) => {
+      const loan = this.state.loans.find(candidate => candidate._id === id);
+      return loan ? ok(this.toLoan(loan)) : fail(404, 'Loan not found');
+    });
+
+    this.route('POST', '/loans', ({ body }) => {
+      const borrower = this.state.borrowers.find(candidate => candidate._id === body.borrowerId);
+      const errors = this.checkLoanTerms(body);
+      if (!borrower) {
+        errors.borrowerId = 'Borrower not found';
+      }
+      if (!borrower || Object.keys(errors).length > 0) {
+        return invalid(errors);
+      }
+      const { borrowerId, ...terms } = body;
+      const loan: Loan = {
+        ...terms,
+        _id: this.nextId('loan'),
+        loanNumber: `GF${String(this.state.loans.length + 1).padStart(4, '0')}`,
+        status: 'ACTIVE',
+        borrower: { _id: borrower._id, name: borrower.name, phone: borrower.phone },
+        outstandingAmount: 0,
+        totalPaid: 0,
+        collectionDays: body.collectionDays || borrower.collectionDays,
+        createdAt: new Date().toISOString(),
+      };
+      this.state.loans.push(loan);
+      this.scheduleInstallments(loan);
+      return ok(this.toLoan(loan));
+    }, { body: createLoanBody });
+
+    this.route('PUT', '/loans/:id', ({ body }, { id }) => {
+      const loan = this.state.loans.find(candidate => candidate._id === id);
+      if (!loan) {
+        return fail(404, 'Loan not found');
+      }
+      const { reason, ...changes } = body;
+      const errors = this.checkLoanTerms({ ...loan, ...changes });
+      if (!reason) {
+        errors.reason = 'A reason is required to change a loan';
+      }
+      if (Object.keys(errors).length > 0) {
+        return invalid(errors);
+      }
+      const termsChanged = (['principalAmount', 'termWeeks', 'startDate', 'interestType', 'interestRate'] as const)
+        .some(field => field in changes && changes[field] !== loan[field]);
+      if (termsChanged && loan.totalPaid > 0) {
+        return fail(409, 'Loan terms cannot change after collections have been recorded');
+      }
+
+      Object.assign(loan, changes, { _id: id });
+      if (termsChanged) {
+        this.scheduleInstallments(loan);
+      }
+      return ok(this.toLoan(loan));
+    }, { body: updateLoanBody });
+
+    // Installments
+    this.route('GET', '/loans/:id/installments', (_, { id }) => {
+      if (!this.state.loans.some(loan => loan._id === id)) {
+        return fail(404, 'Loan not found');
+      }
+      return ok(this.state.installments
+        .filter(installment => installment.loanId === id)
+        .sort((a, b) => a.installmentNumber - b.installmentNumber));
+    });
+
+    this.route('GET', '/installments/:id', (_, { id }) => {
+      const installment = this.state.installments.find(candidate => candidate._id === id);
+      return installment ? ok(installment) : fail(404, 'Installment not found');
+    });
+
+    // Payments
+    this.route('GET', '/loans/:id/payments', (_, { id }) => {
+      const payments: Payment[] = this.state.collections
+        .filter(collection => this.getCollectionLoanId(collection) === id)
+        .map(collection => ({
+          id: collection._id,
+          loanId: id,
+          amount: collection.amount,
+          paymentDate: collection.paymentDate,
+          collectorName: this.state.users.find(user => user.id === collection.collectorId)?.name || 'Unknown',
+          collectorId: collection.collectorId,
+          status: 'COMPLETED' as const,
+          notes: collection.notes,
+          createdAt: collection.createdAt,
+        }))
+        .sort((a, b) => b.paymentDate.localeCompare(a.paymentDate));
+      return ok(payments);
+    });
+
+    // Collections
+    this.route('GET', '/collections', ({ query }) => {
+      const startDate = query.get('startDate');
+      const endDate = query.get('endDate');
+      const collections = this.state.collections
+        .filter(collection =>
+          (!query.get('collectorId') || collection.collectorId === query.get('collectorId')) &&
+          (!query.get('installmentId') || collection.installmentId === query.get('installmentId')) &&
+          (!query.get('loanId') || this.getCollectionLoanId(collection) === query.get('loanId')) &&
+          (!startDate || collection.paymentDate >= startDate) &&
+          (!endDate || collection.paymentDate.split('T')[0] <= endDate)
+        )
+        .sort((a, b) => b.paymentDate.localeCompare(a.paymentDate))
+        .map(collection => this.toPopulatedCollection(collection));
+      return paginate(collections, query);
+    });
+
+    this.route('GET', '/collections/:id', (_, { id }) => {
+      const collection = this.state.collections.find(candidate => candidate._id === id);
+      return collection ? ok(this.toPopulatedCollection(collection)) : fail(404, 'Collection not found');
+    });
+
+    this.route('POST', '/collections', ({ body, user }) => {
+      const installment = this.state.installments.find(candidate => candidate._id === body.installmentId);
+      const loan = installment && this.state.loans.find(candidate => candidate._id === installment.loanId);
+      if (!installment || !loan) {
+        return fail(404, 'Installment not found');
+      }
+      if (!(body.amount > 0)) {
+        return invalid({ amount: 'Amount must be greater than zero' });
+      }
+      if (new Date(body.paymentDate).getTime() > Date.now() + DAY_MS) {
+        return invalid({ paymentDate: 'Payment date cannot be in the future' });
+      }
+      if (loan.status !== 'ACTIVE') {
+        return fail(409, 'Loan is not active');
+      }
+      const now = new Date().toISOString();
+      const collection: Collection = {
+        ...body,
+        _id: this.nextId('collection'),
+        collectorId: body.collectorId || user!.id,
+        createdAt: now,
+        updatedAt: now,
+      };
+      this.state.collections.push(collection);
+      this.settleLoan(loan);
+      return ok(this.toPopulatedCollection(collection));
+    }, { body: collectionBody });
+
+    this.route('PUT', '/collections/:id', ({ body }, { id }) => {
+      const collection = this.state.collections.find(candidate => candidate._id === id);
+      if (!collection) {
+        return fail(404, 'Collection not found');
+      }
+      Object.assign(collection, body, { _id: id, updatedAt: new Date().toISOString() });
+      const loan = this.state.loans.find(candidate => candidate._id === this.getCollectionLoanId(collection));
+      if (loan) this.settleLoan(loan);
+      return ok(this.toPopulatedCollection(collection));
+    }, { body: collectionBody.partial() });
+
+    this.route('DELETE', '/collections/:id', (_, { id }) => {
+      const collection = this.state.collections.find(candidate => candidate._id === id);
+      if (!collection) {
+        return fail(404, 'Collection not found');
+      }
+      const loan = this.state.loans.find(candidate => candidate._id === this.getCollectionLoanId(collection));
+      this.state.collections = this.state.collections.filter(candidate => candidate._id !== id);
+      if (loan) this.settleLoan(loan);
+      return ok({ message: 'Collection deleted' });
+    });
+
+    // Dashboard
+    this.route('GET', '/dashboard/stats', () => ok(this.buildDashboardStats()));
+
+    // Daily Backup
+    this.route('POST', '/backup/daily', ({ body }) => {
+      const date = body.date || new Date().toISOString().split('T')[0];
+      const collections = this.collectionsOn(date).map(collection => this.toPopulatedCollection(collection));
+      const collectors = new Map<string, { name: string; collections: number; amount: number }>();
+      collections.forEach(collection => {
+        const entry = collectors.get(collection.collectorId._id) || { name: collection.collectorId.name, collections: 0, amount: 0 };
+        entry.collections += 1;
+        entry.amount += collection.amount;
+        collectors.set(collection.collectorId._id, entry);
+      });
+
+      this.backups.set(date, new Date().toISOString());
+      return ok({
+        date,
+        totalCollected: collections.reduce((sum, collection) => sum + collection.amount, 0),
+        totalPayments: collections.length,
+        totalOutstanding: this.state.loans.reduce((sum, loan) => sum + loan.outstandingAmount, 0),
+        collectors: [...collectors.values()],
+        payments: collections.map(collection => {
+          const loan = this.state.loans.find(candidate => candidate._id === collection.installmentId.loanId);
+          return {
+            loanNumber: loan?.loanNumber || 'N/A',
+            borrowerName: loan?.borrower.name || 'Unknown',
+            amount: collection.amount,
+            collectorName: collection.collectorId.name,
+          };
+        }),
+      });
+    }, { body: backupBody });
+
+    this.route('GET', '/backup/daily', ({ query }) => {
+      const date = query.get('date') || new Date().toISOString().split('T')[0];
+      const lastUpdated = this.backups.get(date);
+      return ok({ date, exists: !!lastUpdated, lastUpdated, serviceConfigured: true, status: 'ok' });
+    });
+  }
+
+  private buildDashboardStats(): DashboardStats {
+    const today = new Date().toISOString().split('T')[0];
+    const since = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const collected = (from: string) => this.state.collections.filter(collection => collection.paymentDate >= from);
+    const sum = (collections: Collection[]) => collections.reduce((total, collection) => total + collection.amount, 0);
+    const countStatus = (status: Loan['status']) => this.state.loans.filter(loan => loan.status === status).length;
+
+    const collectors = new Map<string, { name: string; collections: number; amount: number }>();
+    this.state.collections.forEach(collection => {
+      const name = this.state.users.find(user => user.id === collection.collectorId)?.name || 'Unknown';
+      const entry = collectors.get(collection.collectorId) || { name, collections: 0, amount: 0 };
+      entry.collections += 1;
+      entry.amount += collection.amount;
+      collectors.set(collection.collectorId, entry);
+    });
+
+    const recentPayments = [...this.state.collections]
+      .sort((a, b) => b.paymentDate.localeCompare(a.paymentDate))
+      .slice(0, 5)
+      .map(collection => {
+        const populated = this.toPopulatedCollection(collection);
+        const loan = this.state.loans.find(candidate => candidate._id === populated.installmentId.loanId);
+        return {
+          id: collection._id,
+          loanNumber: loan?.loanNumber || 'N/A',
+          borrowerName: loan?.borrower.name || 'Unknown',
+          amount: collection.amount,
+          collectorName: populated.collectorId.name,
+          time: collection.paymentDate,
+        };
+      });
+
+    return {
+      totalLoans: this.state.loans.length,
+      activeLoans: countStatus('ACTIVE'),
+      completedLoans: countStatus('COMPLETED'),
+      defaultedLoans: countStatus('DEFAULTED'),
+      totalBorrowers: this.state.borrowers.length,
+      totalCollected: sum(this.state.collections),
+      totalOutstanding: this.state.loans.reduce((total, loan) => total + loan.outstandingAmount, 0),
+      todayCollections: collected(today).length,
+      todayAmount: sum(collected(today)),
+      weeklyCollections: collected(since(7)).length,
+      weeklyAmount: sum(collected(since(7))),
+      monthlyCollections: collected(since(30)).length,
+      monthlyAmount: sum(collected(since(30))),
+      recentPayments,
+      topCollectors: [...collectors.values()].sort((a, b) => b.amount - a.amount).slice(0, 5),
+      loanStatusDistribution: {
+        active: countStatus('ACTIVE'),
+        completed: countStatus('COMPLETED'),
+        defaulted: countStatus('DEFAULTED'),
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const mockBackend = new MockBackend();
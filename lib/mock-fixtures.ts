@@ -0,0 +1,196 @@
+import type { Borrower, Collection, Installment, Loan, User } from './api';
+import { generateRepaymentSchedule } from './loan-schedule';
+
+// Seed data for the mock backend. Dates are relative to `now`, so loans are always part
+// way through their term and today's route has borrowers on it whatever day it is.
+
+export interface MockUser extends User {
+  password: string;
+}
+
+export interface MockSeed {
+  users: MockUser[];
+  borrowers: Borrower[];
+  loans: Loan[];
+  installments: Installment[];
+  collections: Collection[]; // Stored unpopulated; the backend joins installment and collector
+}
+
+export const MOCK_PASSWORD = 'password';
+export const MOCK_OTP = '123456'; // The only password reset code the mock accepts
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoDaysAgo = (now: Date, days: number): string => new Date(now.getTime() - days * DAY_MS).toISOString();
+
+const dateDaysAgo = (now: Date, days: number): string => isoDaysAgo(now, days).split('T')[0];
+
+// Terms for a seeded loan; weeksPaid installments are collected in full, in order
+interface LoanSeed {
+  borrowerIndex: number;
+  principalAmount: number;
+  termWeeks: number;
+  weeksAgo: number;
+  weeksPaid: number;
+  interestType: Loan['interestType'];
+  interestRate: number;
+  status?: Loan['status'];
+}
+
+type BorrowerSeed = Pick<Borrower, 'name' | 'phone' | 'address' | 'village' | 'isActive' | 'collectionDays' | 'householdHead'>;
+
+const BORROWERS: BorrowerSeed[] = [
+  {
+    name: 'Ramesh Kumar',
+    phone: '9876543210',
+    address: '12 Temple Street',
+    village: 'Rampur',
+    isActive: true,
+    collectionDays: ['monday', 'thursday'],
+    householdHead: 'Ramesh Kumar',
+  },
+  {
+    name: 'Sita Devi',
+    phone: '9876543211',
+    address: '4 Canal Road',
+    village: 'Rampur',
+    isActive: true,
+    collectionDays: ['tuesday'],
+  },
+  {
+    name: 'Lakshmi Bai',
+    phone: '9876543212',
+    address: '7 Market Lane',
+    village: 'Sundarpur',
+    isActive: true,
+    collectionDays: ['wednesday', 'saturday'],
+  },
+  {
+    name: 'Mohan Singh',
+    phone: '9876543213',
+    address: '21 School Road',
+    village: 'Sundarpur',
+    isActive: true,
+    collectionDays: ['friday'],
+  },
+  {
+    name: 'Geeta Sharma',
+    phone: '9876543214',
+    address: '3 Well Street',
+    village: 'Devgarh',
+    isActive: true,
+    collectionDays: ['sunday', 'wednesday'],
+  },
+  {
+    name: 'Arjun Patel',
+    address: '9 Mill Road',
+    village: 'Devgarh',
+    isActive: false,
+    collectionDays: ['monday'],
+  },
+];
+
+const LOANS: LoanSeed[] = [
+  { borrowerIndex: 0, principalAmount: 50000, termWeeks: 52, weeksAgo: 20, weeksPaid: 18, interestType: 'FLAT', interestRate: 24 },
+  { borrowerIndex: 1, principalAmount: 30000, termWeeks: 26, weeksAgo: 10, weeksPaid: 10, interestType: 'DECLINING', interestRate: 20 },
+  { borrowerIndex: 2, principalAmount: 20000, termWeeks: 20, weeksAgo: 8, weeksPaid: 5, interestType: 'NONE', interestRate: 0 },
+  { borrowerIndex: 3, principalAmount: 60000, termWeeks: 52, weeksAgo: 4, weeksPaid: 3, interestType: 'FLAT', interestRate: 18 },
+  { borrowerIndex: 4, principalAmount: 15000, termWeeks: 12, weeksAgo: 6, weeksPaid: 6, interestType: 'NONE', interestRate: 0 },
+  { borrowerIndex: 0, principalAmount: 10000, termWeeks: 10, weeksAgo: 40, weeksPaid: 10, interestType: 'NONE', interestRate: 0, status: 'COMPLETED' },
+  { borrowerIndex: 5, principalAmount: 25000, termWeeks: 25, weeksAgo: 60, weeksPaid: 4, interestType: 'FLAT', interestRate: 24, status: 'DEFAULTED' },
+];
+
+export const createFixtures = (now: Date = new Date()): MockSeed => {
+  const users: MockUser[] = [
+    {
+      id: 'user-1',
+      username: 'collector',
+      name: 'Ravi Collector',
+      role: 'COLLECTOR',
+      phone: '9000000001',
+      email: 'collector@example.com',
+      createdAt: isoDaysAgo(now, 400),
+      password: MOCK_PASSWORD,
+    },
+    {
+      id: 'user-2',
+      username: 'admin',
+      name: 'Anita Admin',
+      role: 'ADMIN',
+      phone: '9000000002',
+      email: 'admin@example.com',
+      createdAt: isoDaysAgo(now, 500),
+      password: MOCK_PASSWORD,
+    },
+  ];
+
+  const borrowers: Borrower[] = BORROWERS.map((borrower, index) => ({
+    ...borrower,
+    _id: `borrower-${index + 1}`,
+    createdAt: isoDaysAgo(now, 420 - index),
+    updatedAt: isoDaysAgo(now, 30 - index),
+  }));
+
+  const loans: Loan[] = [];
+  const installments: Installment[] = [];
+  const collections: Collection[] = [];
+
+  LOANS.forEach((seed, loanIndex) => {
+    const borrower = borrowers[seed.borrowerIndex];
+    const loanId = `loan-${loanIndex + 1}`;
+    const startDate = dateDaysAgo(now, seed.weeksAgo * 7);
+    const schedule = generateRepaymentSchedule({ ...seed, startDate });
+
+    let totalPaid = 0;
+    schedule.installments.forEach(scheduled => {
+      const installmentId = `${loanId}-installment-${scheduled.installmentNumber}`;
+      const isPaid = scheduled.installmentNumber <= seed.weeksPaid;
+      const isOverdue = !isPaid && new Date(scheduled.dueDate).getTime() < now.getTime();
+
+      installments.push({
+        _id: installmentId,
+        amount: scheduled.amount,
+        dueDate: scheduled.dueDate,
+        status: isPaid ? 'PAID' : isOverdue ? 'OVERDUE' : 'PENDING',
+        loanId,
+        installmentNumber: scheduled.installmentNumber,
+        createdAt: startDate,
+        updatedAt: startDate,
+      });
+
+      if (isPaid) {
+        totalPaid += scheduled.amount;
+        collections.push({
+          _id: `${installmentId}-collection`,
+          amount: scheduled.amount,
+          paymentDate: new Date(scheduled.dueDate).toISOString(),
+          installmentId,
+          collectorId: users[0].id,
+          createdAt: new Date(scheduled.dueDate).toISOString(),
+          updatedAt: new Date(scheduled.dueDate).toISOString(),
+        });
+      }
+    });
+
+    loans.push({
+      _id: loanId,
+      loanNumber: `GF${String(loanIndex + 1).padStart(4, '0')}`,
+      principalAmount: seed.principalAmount,
+      disbursedAmount: schedule.netDisbursement,
+      termWeeks: seed.termWeeks,
+      startDate,
+      interestType: seed.interestType,
+      interestRate: seed.interestRate,
+      processingFee: 0,
+      insuranceFee: 0,
+      status: seed.status ?? (totalPaid >= schedule.totalRepayable ? 'COMPLETED' : 'ACTIVE'),
+      borrower: { _id: borrower._id, name: borrower.name, phone: borrower.phone },
+      outstandingAmount: Math.max(schedule.totalRepayable - totalPaid, 0),
+      totalPaid,
+      collectionDays: borrower.collectionDays,
+      createdAt: isoDaysAgo(now, seed.weeksAgo * 7),
+    });
+  });
+
+  return { users, borrowers, loans, installments, collections };
+};
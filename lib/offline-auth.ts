@@ -0,0 +1,126 @@
+import { AppLockService } from './app-lock';
+import { readCache } from './cache';
+import { config } from './config';
+import { logger } from './logger';
+import { secureStorage } from './secure-storage';
+import type { User } from './auth';
+
+const PROFILE_KEY = 'offline_profile';
+
+// The last user who signed in online on this device
+export interface OfflineProfile {
+  username: string;
+  user: User;
+  lastOnlineAt: string;
+}
+
+export interface OfflineUnlockResult {
+  success: boolean;
+  user?: User;
+  error?: string;
+}
+
+// Offline unlock lets a previously authenticated user read cached data without
+// reaching the server. It never issues a token - the session stays read-only
+// until the user signs in online again.
+export class OfflineAuthService {
+  static async rememberUser(username: string, user: User): Promise<void> {
+    try {
+      const previous = await this.getProfile();
+      if (previous && previous.username !== username.trim().toLowerCase()) {
+        // A different user signed in - drop the previous user's PIN, biometric opt-in and cached data
+        await this.forget();
+        await readCache.clear();
+      }
+
+      const profile: OfflineProfile = {
+        username: username.trim().toLowerCase(),
+        user,
+        lastOnlineAt: new Date().toISOString(),
+      };
+      await secureStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+    } catch (error) {
+      logger.error('OfflineAuth', 'Failed to save offline profile:', error);
+    }
+  }
+
+  // Keep the remembered user in step with profile edits
+  static async updateUser(user: User): Promise<void> {
+    const profile = await this.getProfile();
+    if (profile && profile.user.id === user.id) {
+      await secureStorage.setItem(PROFILE_KEY, JSON.stringify({ ...profile, user }));
+    }
+  }
+
+  static async getProfile(): Promise<OfflineProfile | null> {
+    try {
+      const profile = await secureStorage.getItem(PROFILE_KEY);
+      return profile ? JSON.parse(profile) : null;
+    } catch (error) {
+      logger.error('OfflineAuth', 'Failed to read offline profile:', error);
+      return null;
+    }
+  }
+
+  static async forget(): Promise<void> {
+    try {
+      await secureStorage.removeItem(PROFILE_KEY);
+      await AppLockService.reset();
+    } catch (error) {
+      logger.error('OfflineAuth', 'Failed to clear offline profile:', error);
+    }
+  }
+
+  // Whether unlock is set up at all (used to decide if cached data should survive logout)
+  static async isEnabled(): Promise<boolean> {
+    return (await AppLockService.hasPin()) || (await AppLockService.isBiometricEnabled());
+  }
+
+  private static async getUnlockableProfile(username: string): Promise<OfflineProfile | null> {
+    const profile = await this.getProfile();
+    if (!profile || profile.username !== username.trim().toLowerCase()) {
+      return null;
+    }
+
+    const ageMs = Date.now() - new Date(profile.lastOnlineAt).getTime();
+    if (ageMs > config.auth.offlineAccessDays * 24 * 60 * 60 * 1000) {
+      return null;
+    }
+    return profile;
+  }
+
+  static async canUnlock(username: string): Promise<boolean> {
+    const profile = await this.getUnlockableProfile(username);
+    return !!profile && (await this.isEnabled());
+  }
+
+  static async unlockWithPin(username: string, pin: string): Promise<OfflineUnlockResult> {
+    const profile = await this.getUnlockableProfile(username);
+    if (!profile || !(await AppLockService.hasPin())) {
+      return { success: false, error: 'Offline access is not available for this user' };
+    }
+
+    const result = await AppLockService.verifyPin(pin);
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    logger.info('OfflineAuth', 'Unlocked offline session with PIN');
+    return { success: true, user: profile.user };
+  }
+
+  static async unlockWithBiometrics(username: string): Promise<OfflineUnlockResult> {
+    const profile = await this.getUnlockableProfile(username);
+    if (!profile) {
+      return { success: false, error: 'Offline access is not available for this user' };
+    }
+
+    const result = await AppLockService.authenticateWithBiometrics('Unlock offline data');
+    if (!result.success) {
+      return { success: false, error: result.error };
+    }
+
+    logger.info('OfflineAuth', 'Unlocked offline session with biometrics');
+    return { success: true, user: profile.user };
+  }
+}
@@ -0,0 +1,350 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  apiService,
+  ApiResponse,
+  CreateBorrowerData,
+  CreateCollectionData,
+  CreateLoanData,
+  createIdempotencyKey,
+} from './api';
+import { config } from './config';
+import { AuthError, NetworkError, OutcomeUnknownError, TimeoutError } from './errors';
+import { logger } from './logger';
+import { queryClient } from './query-client';
+
+const QUEUE_KEY = 'offline_queue';
+const ID_MAP_KEY = 'offline_queue_id_map';
+const OWNER_KEY = 'offline_queue_owner';
+const LOCAL_ID_PREFIX = 'local_';
+
+// Types
+export type OfflineOperationType = 'createCollection' | 'createBorrower' | 'createLoan';
+
+// 'blocked': refers to a queued record that failed to sync, so it isn't sent until that one is
+export type OfflineSyncStatus = 'pending' | 'syncing' | 'failed' | 'blocked';
+
+export interface OfflineOperationPayloads {
+  createCollection: CreateCollectionData;
+  createBorrower: CreateBorrowerData;
+  createLoan: CreateLoanData;
+}
+
+interface OfflineQueueItemBase<K extends OfflineOperationType> {
+  id: string; // Local id, also used as a placeholder _id until the server assigns one
+  type: K;
+  payload: OfflineOperationPayloads[K];
+  status: OfflineSyncStatus;
+  idempotencyKey?: string; // Sent with every replay so the server saves it once. Missing on older items.
+  outcomeUnknown?: boolean; // An earlier attempt may already have been saved; replaying reconciles it
+  blockedBy?: string; // Id of the queued record this one is waiting on
+  ownerId?: string; // User who recorded it; only their session sends or shows it
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OfflineQueueItem = {
+  [K in OfflineOperationType]: OfflineQueueItemBase<K>;
+}[OfflineOperationType];
+
+export type OfflineQueueListener = (items: OfflineQueueItem[]) => void;
+
+export interface EnqueueOptions {
+  idempotencyKey?: string; // Pass the key of a failed live attempt so the replay can't duplicate it
+  outcomeUnknown?: boolean;
+}
+
+// Errors that mean the request never reached the server (as opposed to the server rejecting it)
+export const isNetworkError = (error: unknown): boolean => {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+};
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+const RECORD_NAMES: { [K in OfflineOperationType]: string } = {
+  createCollection: 'payment',
+  createBorrower: 'borrower',
+  createLoan: 'loan',
+};
+
+const generateLocalId = (): string => {
+  return `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+};
+
+// Offline Queue Class
+class OfflineQueue {
+  private items: OfflineQueueItem[] = [];
+  private idMap: { [localId: string]: string } = {};
+  private ownerId: string | null = null; // Last user to sign in online
+  private listeners = new Set<OfflineQueueListener>();
+  private flushPromise: Promise<void> | null = null;
+  private unsubscribeNetInfo: (() => void) | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  // Load persisted queue and start watching connectivity
+  async initialize() {
+    if (!this.loadPromise) {
+      this.loadPromise = this.load();
+    }
+    await this.loadPromise;
+
+    if (config.features.offlineMode && !this.unsubscribeNetInfo) {
+      this.unsubscribeNetInfo = NetInfo.addEventListener(state => {
+        if (state.isConnected && state.isInternetReachable !== false) {
+          this.flush().catch(console.error);
+        }
+      });
+    }
+  }
+
+  private async load() {
+    const [storedItems, storedIdMap, storedOwner] = await Promise.all([
+      AsyncStorage.getItem(QUEUE_KEY),
+      AsyncStorage.getItem(ID_MAP_KEY),
+      AsyncStorage.getItem(OWNER_KEY),
+    ]);
+    this.items = storedItems ? JSON.parse(storedItems) : [];
+    this.idMap = storedIdMap ? JSON.parse(storedIdMap) : {};
+    this.ownerId = storedOwner;
+
+    // An item left in 'syncing' means the app was killed mid-request
+    this.items = this.items.map(item =>
+      item.status === 'syncing' ? { ...item, status: 'pending' } : item
+    );
+    this.notify();
+    logger.info('OfflineQueue', 'Initialized with items:', this.items.length);
+  }
+
+  isEnabled(): boolean {
+    return config.features.offlineMode;
+  }
+
+  // The signed-in user's items; anyone else's wait until they sign in again
+  getItems(): OfflineQueueItem[] {
+    return this.items.filter(item => (item.ownerId ?? null) === this.ownerId);
+  }
+
+  getPendingCount(): number {
+    return this.getItems().length;
+  }
+
+  subscribe(listener: OfflineQueueListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getItems());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Add an operation to the outbox. Returns the queued item (its id doubles as a local _id).
+  async enqueue<K extends OfflineOperationType>(
+    type: K,
+    payload: OfflineOperationPayloads[K],
+    options: EnqueueOptions = {}
+  ): Promise<OfflineQueueItem> {
+    await this.initialize();
+    const now = new Date().toISOString();
+    const item = {
+      id: generateLocalId(),
+      type,
+      payload,
+      status: 'pending',
+      idempotencyKey: options.idempotencyKey || createIdempotencyKey(),
+      outcomeUnknown: options.outcomeUnknown,
+      ownerId: this.ownerId ?? undefined,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    } as OfflineQueueItem;
+
+    this.items = [...this.items, item];
+    await this.persist();
+    logger.info('OfflineQueue', 'Enqueued:', type, item.id);
+    return item;
+  }
+
+  // Called when a user signs in online. Queued items carry their owner's collectorId and were
+  // recorded under their session, so another user's token must never send them.
+  async setOwner(userId: string): Promise<void> {
+    await this.initialize();
+    this.ownerId = userId;
+    // Items queued before owners were recorded go to the first user to sign in
+    this.items = this.items.map(item => (item.ownerId ? item : { ...item, ownerId: userId }));
+    await AsyncStorage.setItem(OWNER_KEY, userId);
+    await this.persist();
+  }
+
+  // Replay pending items in the order they were recorded
+  async flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.runFlush().finally(() => {
+        this.flushPromise = null;
+      });
+    }
+    return this.flushPromise;
+  }
+
+  // Put a failed item back in line and try again
+  async retry(id: string): Promise<void> {
+    this.updateItem(id, { status: 'pending', lastError: undefined });
+    await this.persist();
+    await this.flush();
+  }
+
+  async remove(id: string): Promise<void> {
+    this.items = this.items
+      .filter(item => item.id !== id)
+      .map(item => item.blockedBy === id
+        ? { ...item, lastError: 'Not sent: the record it belongs to was discarded' }
+        : item);
+    await this.persist();
+  }
+
+  // Discard every queued operation, e.g. when the app is pointed at a different server
+  async clear(): Promise<void> {
+    await this.initialize();
+    this.items = [];
+    this.idMap = {};
+    this.ownerId = null;
+    await AsyncStorage.multiRemove([QUEUE_KEY, ID_MAP_KEY, OWNER_KEY]);
+    this.notify();
+  }
+
+  // Resolve a local placeholder id to the server id once its create has synced
+  resolveId(id: string): string {
+    return this.idMap[id] || id;
+  }
+
+  private async runFlush() {
+    await this.initialize();
+    if (!apiService.isAuthenticated()) {
+      return;
+    }
+
+    for (const queued of this.getItems()) {
+      const item = this.items.find(i => i.id === queued.id);
+      if (!item || (item.status !== 'pending' && item.status !== 'blocked')) {
+        continue;
+      }
+
+      // Sending it would only get a confusing error about an id the server has never seen
+      const dependency = this.getUnsyncedDependency(item);
+      if (dependency) {
+        const parent = this.items.find(i => i.id === dependency);
+        if (!parent || parent.status === 'failed' || parent.status === 'blocked') {
+          this.updateItem(item.id, {
+            status: 'blocked',
+            blockedBy: dependency,
+            lastError: parent
+              ? `Not sent: the ${RECORD_NAMES[parent.type]} it belongs to failed to sync`
+              : 'Not sent: the record it belongs to was discarded',
+          });
+          await this.persist();
+          continue;
+        }
+      }
+
+      this.updateItem(item.id, { status: 'syncing', blockedBy: undefined, attempts: item.attempts + 1 });
+      await this.persist();
+
+      try {
+        const response = await this.send(item);
+        if (!response.success) {
+          throw new Error(response.error || 'Server rejected the request');
+        }
+
+        if (item.type === 'createBorrower' || item.type === 'createLoan') {
+          const serverId = (response.data as { _id?: string })?._id;
+          if (serverId) {
+            this.idMap[item.id] = serverId;
+            await AsyncStorage.setItem(ID_MAP_KEY, JSON.stringify(this.idMap));
+          }
+        }
+
+        this.items = this.items.filter(i => i.id !== item.id);
+        await this.persist();
+        logger.info('OfflineQueue', 'Synced:', item.type, item.id);
+        // Screens showing the old data refetch now that the server has it
+        queryClient.invalidateAfter(item.type);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Sync failed';
+
+        if (error instanceof OutcomeUnknownError) {
+          // May have been saved - keep it pending so the next replay (same key) settles it
+          this.updateItem(item.id, { status: 'pending', outcomeUnknown: true, lastError: message });
+          await this.persist();
+          return;
+        }
+
+        if (isNetworkError(error) || error instanceof AuthError) {
+          // Still offline, or signed out until the user logs in again - keep the item
+          // pending and stop so later items don't jump ahead
+          this.updateItem(item.id, { status: 'pending', lastError: message });
+          await this.persist();
+          return;
+        }
+
+        logger.warn('OfflineQueue', 'Sync failed:', item.type, item.id, message);
+        this.updateItem(item.id, { status: 'failed', lastError: message });
+        await this.persist();
+      }
+    }
+  }
+
+  // Local id of a queued record this item refers to that has no server id yet
+  private getUnsyncedDependency(item: OfflineQueueItem): string | null {
+    const reference = item.type === 'createCollection'
+      ? item.payload.installmentId
+      : item.type === 'createLoan'
+        ? item.payload.borrowerId
+        : null;
+    return reference && isLocalId(reference) && !this.idMap[reference] ? reference : null;
+  }
+
+  private send(item: OfflineQueueItem): Promise<ApiResponse<unknown>> {
+    // Items queued before keys existed fall back to their local id, which is just as stable
+    const options = { idempotencyKey: item.idempotencyKey || item.id };
+
+    switch (item.type) {
+      case 'createCollection':
+        return apiService.createCollection({
+          ...item.payload,
+          installmentId: this.resolveId(item.payload.installmentId),
+        }, options);
+      case 'createBorrower':
+        return apiService.createBorrower(item.payload, options);
+      case 'createLoan':
+        return apiService.createLoan({
+          ...item.payload,
+          borrowerId: this.resolveId(item.payload.borrowerId),
+        }, options);
+    }
+  }
+
+  private updateItem(
+    id: string,
+    changes: Partial<Pick<OfflineQueueItem, 'status' | 'outcomeUnknown' | 'blockedBy' | 'attempts' | 'lastError'>>
+  ) {
+    this.items = this.items.map(item =>
+      item.id === id ? { ...item, ...changes, updatedAt: new Date().toISOString() } : item
+    );
+  }
+
+  private async persist() {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(this.items));
+    this.notify();
+  }
+
+  private notify() {
+    const items = this.getItems();
+    this.listeners.forEach(listener => listener(items));
+  }
+}
+
+// Export singleton instance
+export const offlineQueue = new OfflineQueue();
+
+// Initialize the queue when the module is imported
+offlineQueue.initialize().catch(console.error);
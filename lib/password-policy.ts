@@ -0,0 +1,56 @@
+// Password strength policy shared by change-password and reset flows.
+// The server enforces its own policy too - this gives immediate feedback while typing.
+
+export interface PasswordRule {
+  label: string;
+  requires?: keyof PasswordContext; // Rule only applies when this context is known
+  test: (password: string, context: PasswordContext) => boolean;
+}
+
+export interface PasswordContext {
+  username?: string;
+  currentPassword?: string;
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  rules: { label: string; passed: boolean }[];
+}
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const PASSWORD_RULES: PasswordRule[] = [
+  {
+    label: `At least ${MIN_PASSWORD_LENGTH} characters`,
+    test: (password) => password.length >= MIN_PASSWORD_LENGTH,
+  },
+  {
+    label: 'An uppercase and a lowercase letter',
+    test: (password) => /[A-Z]/.test(password) && /[a-z]/.test(password),
+  },
+  {
+    label: 'A number',
+    test: (password) => /\d/.test(password),
+  },
+  {
+    label: 'A symbol (e.g. ! @ # $)',
+    test: (password) => /[^A-Za-z0-9]/.test(password),
+  },
+  {
+    label: 'Does not contain your username',
+    requires: 'username',
+    test: (password, { username = '' }) => !password.toLowerCase().includes(username.trim().toLowerCase()),
+  },
+  {
+    label: 'Different from your current password',
+    requires: 'currentPassword',
+    test: (password, { currentPassword }) => password !== currentPassword,
+  },
+];
+
+export const checkPassword = (password: string, context: PasswordContext = {}): PasswordCheck => {
+  const rules = PASSWORD_RULES
+    .filter(rule => !rule.requires || !!context[rule.requires])
+    .map(rule => ({ label: rule.label, passed: rule.test(password, context) }));
+  return { valid: rules.every(rule => rule.passed), rules };
+};
@@ -0,0 +1,38 @@
+import type { User } from './auth';
+
+// Role-based access control. The server is the final authority - this only keeps
+// the app from offering actions a role is not allowed to perform.
+
+export type Role = User['role'];
+export type Resource = 'borrower' | 'loan' | 'collection' | 'backup';
+export type Action = 'view' | 'create' | 'update' | 'delete';
+
+type PermissionTable = { [R in Role]: { [K in Resource]: Action[] } };
+
+const ALL_ACTIONS: Action[] = ['view', 'create', 'update', 'delete'];
+
+export const PERMISSIONS: PermissionTable = {
+  ADMIN: {
+    borrower: ALL_ACTIONS,
+    loan: ALL_ACTIONS,
+    collection: ALL_ACTIONS,
+    backup: ALL_ACTIONS,
+  },
+  SUPERVISOR: {
+    borrower: ['view', 'create', 'update'],
+    loan: ['view', 'create', 'update'],
+    collection: ['view', 'create', 'update', 'delete'],
+    backup: ['view', 'create'],
+  },
+  COLLECTOR: {
+    borrower: ['view', 'create'],
+    loan: ['view'],
+    collection: ['view', 'create'],
+    backup: [],
+  },
+};
+
+export const can = (role: Role | null | undefined, action: Action, resource: Resource): boolean => {
+  if (!role || !PERMISSIONS[role]) return false;
+  return PERMISSIONS[role][resource].includes(action);
+};
@@ -0,0 +1,230 @@
+import type { ApiResponse } from './api';
+import { config } from './config';
+import { logger } from './logger';
+
+// Shared in-memory store behind the data hooks in hooks/. Screens asking for the same key share
+// one request and one copy of the data, and writes invalidate the keys they affect so every
+// screen showing that data refetches. Persistence across launches stays in lib/cache.ts.
+
+// Types
+export type QueryKey = readonly (string | number | undefined)[];
+
+export interface QueryResult<T> {
+  data: T;
+  syncedAt?: string;
+  fromCache?: boolean; // Stored copy shown while the server is asked
+}
+
+// Emits one or more results (e.g. cached, then fresh) and resolves once the server has answered
+export type QueryLoader<T> = (emit: (result: QueryResult<T>) => void) => Promise<void>;
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  syncedAt: string | null;
+  isFromCache: boolean;
+  isFetching: boolean;
+  updatedAt: number; // When data last came from the server, 0 if never
+  isInvalidated: boolean;
+}
+
+export type QueryListener = () => void;
+
+// Writes the app makes, online or replayed from the offline queue
+export type MutationType =
+  | 'createBorrower'
+  | 'updateBorrower'
+  | 'deleteBorrower'
+  | 'createLoan'
+  | 'updateLoan'
+  | 'createCollection'
+  | 'deleteCollection';
+
+// Query key roots, so hooks and invalidation rules agree on spelling
+export const queryKeys = {
+  dashboard: () => ['dashboard'] as const,
+  borrowers: (params?: object) => ['borrowers', 'list', JSON.stringify(params ?? {})] as const,
+  borrowerPages: (params?: object) => ['borrowers', 'pages', JSON.stringify(params ?? {})] as const,
+  borrower: (id: string) => ['borrowers', 'detail', id] as const,
+  activeLoans: () => ['loans', 'active'] as const,
+  loanPages: (params?: object) => ['loans', 'pages', JSON.stringify(params ?? {})] as const,
+  loan: (id: string) => ['loans', 'detail', id] as const,
+  borrowerLoans: (borrowerId: string) => ['loans', 'borrower', borrowerId] as const,
+  installments: (loanId: string) => ['installments', loanId] as const,
+  collections: (filter?: object) => ['collections', 'list', JSON.stringify(filter ?? {})] as const,
+  collectionPages: (filter?: object) => ['collections', 'pages', JSON.stringify(filter ?? {})] as const,
+  loanCollections: (loanId: string) => ['collections', 'loan', loanId] as const,
+  collection: (id: string) => ['collections', 'detail', id] as const,
+};
+
+// Everything a write can change. Collections move loan balances (and with them the
+// collection schedule), borrower totals, installment status and the dashboard.
+const INVALIDATIONS: { [K in MutationType]: QueryKey[] } = {
+  createBorrower: [['borrowers'], ['dashboard']],
+  updateBorrower: [['borrowers'], ['loans']],
+  deleteBorrower: [['borrowers'], ['loans'], ['dashboard']],
+  createLoan: [['loans'], ['borrowers'], ['dashboard']],
+  updateLoan: [['loans'], ['installments'], ['dashboard']],
+  createCollection: [['collections'], ['installments'], ['loans'], ['borrowers'], ['dashboard']],
+  deleteCollection: [['collections'], ['installments'], ['loans'], ['borrowers'], ['dashboard']],
+};
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown>;
+  listeners: Set<QueryListener>;
+  loader: QueryLoader<unknown> | null; // Last loader used, so invalidation can refetch
+  promise: Promise<void> | null; // In-flight fetch shared by every caller
+  generation: number; // Bumped by clear() so results of older fetches are dropped
+}
+
+const EMPTY_STATE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  syncedAt: null,
+  isFromCache: false,
+  isFetching: false,
+  updatedAt: 0,
+  isInvalidated: false,
+};
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+// ['loans'] matches ['loans', 'detail', '42']
+const matchesPrefix = (key: QueryKey, prefix: QueryKey): boolean => {
+  return prefix.every((segment, index) => key[index] === segment);
+};
+
+// Loader for data that isn't kept in the read cache, e.g. dashboard totals
+export const fromResponse = <T>(fetcher: () => Promise<ApiResponse<T>>): QueryLoader<T> => {
+  return async emit => {
+    const response = await fetcher();
+    if (!response.success) {
+      throw new Error(response.error || 'Request failed');
+    }
+    emit({ data: response.data });
+  };
+};
+
+// Query Client Class
+class QueryClient {
+  private entries = new Map<string, QueryEntry>();
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+  }
+
+  subscribe(key: QueryKey, listener: QueryListener): () => void {
+    const entry = this.getEntry(key);
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  }
+
+  // Data older than the stale time, or invalidated by a write, is refetched on the next mount or focus
+  isStale(key: QueryKey): boolean {
+    const { state } = this.getEntry(key);
+    return state.isInvalidated || Date.now() - state.updatedAt > config.query.staleTimeMs;
+  }
+
+  // Run the loader unless a fetch for this key is already in flight, in which case share it
+  fetch<T>(key: QueryKey, loader: QueryLoader<T>): Promise<void> {
+    const entry = this.getEntry(key);
+    entry.loader = loader as QueryLoader<unknown>;
+    if (entry.promise) {
+      return entry.promise;
+    }
+
+    const { generation } = entry;
+    const isCurrent = () => entry.generation === generation;
+
+    this.update(entry, { isFetching: true, isInvalidated: false });
+    entry.promise = loader(result => {
+      if (!isCurrent()) return;
+      this.update(entry, {
+        data: result.data,
+        error: null,
+        syncedAt: result.syncedAt ?? new Date().toISOString(),
+        isFromCache: !!result.fromCache,
+        updatedAt: result.fromCache ? entry.state.updatedAt : Date.now(),
+      });
+    })
+      .then(() => {
+        if (isCurrent()) this.update(entry, { isFetching: false });
+      })
+      .catch(error => {
+        logger.warn('Query', `Failed to load ${hashKey(key)}:`, error);
+        if (!isCurrent()) return;
+        this.update(entry, {
+          isFetching: false,
+          error: error instanceof Error ? error : new Error(String(error)),
+        });
+      })
+      .finally(() => {
+        if (isCurrent()) entry.promise = null;
+      });
+
+    return entry.promise;
+  }
+
+  // Put data straight into the store, e.g. the record a successful update returned
+  setData<T>(key: QueryKey, data: T) {
+    const entry = this.getEntry(key);
+    this.update(entry, {
+      data,
+      error: null,
+      syncedAt: new Date().toISOString(),
+      isFromCache: false,
+      updatedAt: Date.now(),
+    });
+  }
+
+  // Mark every key under the prefixes stale and refetch the ones a screen is showing
+  invalidate(...prefixes: QueryKey[]) {
+    this.entries.forEach(entry => {
+      if (!prefixes.some(prefix => matchesPrefix(entry.key, prefix))) return;
+
+      this.update(entry, { isInvalidated: true });
+      // Keys nobody is showing are refetched when a screen mounts or regains focus
+      if (entry.listeners.size > 0 && entry.loader) {
+        this.fetch(entry.key, entry.loader);
+      }
+    });
+  }
+
+  invalidateAfter(mutation: MutationType) {
+    this.invalidate(...INVALIDATIONS[mutation]);
+  }
+
+  // Drop everything, e.g. on sign-out so the next user never sees this user's data
+  clear() {
+    this.entries.forEach((entry, hash) => {
+      entry.generation += 1;
+      entry.loader = null;
+      entry.promise = null;
+      this.update(entry, EMPTY_STATE);
+      if (entry.listeners.size === 0) {
+        this.entries.delete(hash);
+      }
+    });
+  }
+
+  private getEntry(key: QueryKey): QueryEntry {
+    const hash = hashKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: EMPTY_STATE, listeners: new Set(), loader: null, promise: null, generation: 0 };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private update(entry: QueryEntry, changes: Partial<QueryState<unknown>>) {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const queryClient = new QueryClient();
@@ -0,0 +1,199 @@
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { apiService, Borrower, Loan, PopulatedCollection } from './api';
+import { generateRepaymentSchedule, getOutstandingAmount } from './loan-schedule';
+import { config } from './config';
+
+// Payment receipts handed to borrowers after a collection, rendered as a small PDF
+
+export interface Receipt {
+  receiptNumber: string;
+  collectionId: string;
+  amount: number;
+  paymentDate: string;
+  installmentNumber: number;
+  loanNumber: string;
+  borrowerName: string;
+  borrowerPhone?: string;
+  village?: string;
+  outstanding: number; // Still owed on the loan after this payment
+  collectorName: string;
+  notes?: string;
+}
+
+// Receipt page size in points - roughly an 80mm thermal printer roll
+const RECEIPT_WIDTH = 320;
+const RECEIPT_HEIGHT = 560;
+
+const formatCurrency = (amount: number) => {
+  return amount.toLocaleString('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  });
+};
+
+const formatDate = (dateString: string) => {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return date.toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const escapeHtml = (value: string) => {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// Stable for a given collection, so a reprint carries the same number as the original
+export const getReceiptNumber = (collection: Pick<PopulatedCollection, '_id' | 'paymentDate'>): string => {
+  const date = new Date(collection.paymentDate);
+  const datePart = isNaN(date.getTime()) ? '00000000' : date.toISOString().slice(0, 10).replace(/-/g, '');
+  return `RCPT-${datePart}-${collection._id.slice(-6).toUpperCase()}`;
+};
+
+export const buildReceipt = (
+  collection: PopulatedCollection,
+  loan: Loan,
+  borrower: Borrower | null,
+  totalPaid: number
+): Receipt => {
+  return {
+    receiptNumber: getReceiptNumber(collection),
+    collectionId: collection._id,
+    amount: collection.amount,
+    paymentDate: collection.paymentDate,
+    installmentNumber: collection.installmentId?.installmentNumber || 0,
+    loanNumber: loan.loanNumber,
+    borrowerName: borrower?.name || loan.borrower?.name || 'Borrower',
+    borrowerPhone: borrower?.phone,
+    village: borrower?.village,
+    outstanding: getOutstandingAmount(generateRepaymentSchedule(loan), totalPaid),
+    collectorName: collection.collectorId?.name || 'Field Officer',
+    notes: collection.notes,
+  };
+};
+
+// Fetch the loan, borrower and payment history needed to print a receipt for a collection
+export const loadReceipt = async (collection: PopulatedCollection): Promise<Receipt> => {
+  const loanId = collection.installmentId?.loanId;
+  if (!loanId) {
+    throw new Error('Collection is not linked to a loan');
+  }
+
+  const loanResponse = await apiService.getLoan(loanId);
+  if (!loanResponse.success) {
+    throw new Error(loanResponse.error || 'Failed to load loan');
+  }
+  const loan = loanResponse.data;
+
+  const [borrowerResponse, collectionsResponse] = await Promise.all([
+    loan.borrower?._id ? apiService.getBorrower(loan.borrower._id).catch(() => null) : Promise.resolve(null),
+    apiService.getCollectionsByLoan(loanId).catch(() => null),
+  ]);
+
+  // Outstanding as it stood right after this payment, so reprints show the original balance
+  let totalPaid = loan.totalPaid || 0;
+  if (collectionsResponse?.success) {
+    const paidAt = new Date(collection.createdAt || collection.paymentDate).getTime();
+    totalPaid = collectionsResponse.data
+      .filter(item => item._id === collection._id || new Date(item.createdAt || item.paymentDate).getTime() <= paidAt)
+      .reduce((sum, item) => sum + (item.amount || 0), 0);
+  }
+
+  return buildReceipt(
+    collection,
+    loan,
+    borrowerResponse?.success ? borrowerResponse.data : null,
+    totalPaid
+  );
+};
+
+const renderReceiptBody = (receipt: Receipt): string => {
+  const rows: [string, string][] = [
+    ['Receipt No.', receipt.receiptNumber],
+    ['Date', formatDate(receipt.paymentDate)],
+    ['Borrower', receipt.borrowerName],
+    ...(receipt.village ? [['Village', receipt.village] as [string, string]] : []),
+    ['Loan No.', receipt.loanNumber],
+    ['Installment', `#${receipt.installmentNumber}`],
+    ['Collected By', receipt.collectorName],
+  ];
+
+  return `
+    <div class="receipt">
+      <div class="brand">${escapeHtml(config.app.name)}</div>
+      <div class="subtitle">Payment Receipt</div>
+      <div class="amount">${escapeHtml(formatCurrency(receipt.amount))}</div>
+      <table>
+        ${rows.map(([label, value]) => `<tr><td class="label">${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}
+      </table>
+      <div class="outstanding">
+        <span>Balance Outstanding</span>
+        <strong>${escapeHtml(formatCurrency(receipt.outstanding))}</strong>
+      </div>
+      ${receipt.notes ? `<div class="notes">${escapeHtml(receipt.notes)}</div>` : ''}
+      <div class="footer">Thank you for your payment.<br/>Please keep this receipt for your records.</div>
+    </div>
+  `;
+};
+
+export const renderReceiptsHtml = (receipts: Receipt[]): string => {
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <style>
+          body { font-family: -apple-system, Roboto, Helvetica, Arial, sans-serif; margin: 0; padding: 12px; color: #111; }
+          .receipt { border: 1px dashed #999; border-radius: 8px; padding: 16px; page-break-after: always; }
+          .receipt:last-child { page-break-after: auto; }
+          .brand { font-size: 20px; font-weight: bold; text-align: center; }
+          .subtitle { font-size: 12px; text-align: center; color: #555; text-transform: uppercase; letter-spacing: 1px; }
+          .amount { font-size: 28px; font-weight: bold; text-align: center; margin: 16px 0; }
+          table { width: 100%; border-collapse: collapse; font-size: 12px; }
+          td { padding: 4px 0; vertical-align: top; }
+          td.label { color: #555; width: 40%; }
+          .outstanding { display: flex; justify-content: space-between; border-top: 1px solid #ddd; margin-top: 12px; padding-top: 8px; font-size: 14px; }
+          .notes { font-size: 11px; color: #555; margin-top: 8px; }
+          .footer { font-size: 11px; color: #555; text-align: center; margin-top: 16px; }
+        </style>
+      </head>
+      <body>
+        ${receipts.map(renderReceiptBody).join('')}
+      </body>
+    </html>
+  `;
+};
+
+// Render receipts to a PDF and open the OS share sheet (WhatsApp, email, Bluetooth printers...)
+export const shareReceipts = async (receipts: Receipt[]): Promise<void> => {
+  if (receipts.length === 0) return;
+
+  const { uri } = await Print.printToFileAsync({
+    html: renderReceiptsHtml(receipts),
+    width: RECEIPT_WIDTH,
+    height: RECEIPT_HEIGHT,
+  });
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(uri, {
+    mimeType: 'application/pdf',
+    UTI: 'com.adobe.pdf',
+    dialogTitle: receipts.length === 1 ? `Receipt ${receipts[0].receiptNumber}` : 'Payment Receipts',
+  });
+};
+
+// Send receipts straight to a connected printer
+export const printReceipts = async (receipts: Receipt[]): Promise<void> => {
+  if (receipts.length === 0) return;
+  await Print.printAsync({ html: renderReceiptsHtml(receipts) });
+};
@@ -0,0 +1,75 @@
+import { Linking, Platform } from 'react-native';
+
+// Payment reminder templates and helpers for contacting a borrower by phone, SMS or WhatsApp
+
+export interface ReminderDetails {
+  borrowerName: string;
+  loanNumber: string;
+  dueAmount: number;
+  nextDueDate: string | null;
+}
+
+export const REMINDER_TEMPLATES = {
+  sms: 'Dear {name}, your payment of {amount} for loan {loanNumber} is due on {dueDate}. Please keep the amount ready. - {appName}',
+  whatsapp: 'Namaste {name} 🙏\n\nThis is a reminder that {amount} is due on *{dueDate}* for loan *{loanNumber}*.\n\nPlease keep the amount ready for collection. Thank you!\n- {appName}',
+};
+
+export type ReminderChannel = keyof typeof REMINDER_TEMPLATES;
+
+const formatAmount = (amount: number) => {
+  return amount.toLocaleString('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    minimumFractionDigits: 0,
+  });
+};
+
+const formatDueDate = (dateString: string | null) => {
+  if (!dateString) return 'the next collection day';
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+export const buildReminderMessage = (channel: ReminderChannel, details: ReminderDetails, appName: string): string => {
+  const values: { [key: string]: string } = {
+    name: details.borrowerName,
+    loanNumber: details.loanNumber,
+    amount: formatAmount(details.dueAmount),
+    dueDate: formatDueDate(details.nextDueDate),
+    appName,
+  };
+  return REMINDER_TEMPLATES[channel].replace(/\{(\w+)\}/g, (match, key) => values[key] ?? match);
+};
+
+// Borrower phones are stored as entered (10 digits, sometimes with spaces or a +91 prefix).
+// Returns the number with country code and no '+', or null if it can't be dialled.
+export const normalizePhone = (phone?: string | null): string | null => {
+  if (!phone) return null;
+  const digits = phone.replace(/\D/g, '');
+  if (digits.length === 10) return `91${digits}`;
+  if (digits.length === 12 && digits.startsWith('91')) return digits;
+  if (digits.length === 11 && digits.startsWith('0')) return `91${digits.slice(1)}`;
+  return null;
+};
+
+export const callPhone = (phone: string) => {
+  return Linking.openURL(`tel:+${phone}`);
+};
+
+export const sendSms = (phone: string, message: string) => {
+  // iOS expects '&' before the body, Android expects '?'
+  const separator = Platform.OS === 'ios' ? '&' : '?';
+  return Linking.openURL(`sms:+${phone}${separator}body=${encodeURIComponent(message)}`);
+};
+
+export const sendWhatsApp = async (phone: string, message: string) => {
+  const url = `whatsapp://send?phone=${phone}&text=${encodeURIComponent(message)}`;
+  if (await Linking.canOpenURL(url)) {
+    return Linking.openURL(url);
+  }
+  // WhatsApp not installed - the web link lets the user pick another way to open it
+  return Linking.openURL(`https://wa.me/${phone}?text=${encodeURIComponent(message)}`);
+};
@@ -0,0 +1,37 @@
+import { config } from './config';
+import { ApiError, NetworkError, TimeoutError } from './errors';
+
+// HTTP statuses worth another attempt: rate limited, or a gateway/server that is briefly unavailable
+const TRANSIENT_STATUSES = [429, 502, 503, 504];
+
+// Statuses after which the server may already have done the work
+const UNCERTAIN_STATUSES = [502, 504];
+
+// Exponential backoff with full jitter: a random delay up to baseDelay * 2^attempt, capped at maxDelay.
+// The randomness stops many devices coming back online from retrying in lockstep.
+export const backoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs } = config.api.retry,
+  random: () => number = Math.random
+): number => {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(random() * ceiling);
+};
+
+export const sleep = (ms: number): Promise<void> => {
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
+// Failures that may succeed if the same request is sent again
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  return error instanceof ApiError && !!error.status && TRANSIENT_STATUSES.includes(error.status);
+};
+
+// Failures that don't tell us whether the server saved the write: it timed out, a gateway gave
+// up waiting on the server, or the connection dropped - React Native reports "Network request
+// failed" after the body was sent too. A 4xx, or no connection before sending, is a definite failure.
+export const isOutcomeUncertain = (error: unknown): boolean => {
+  if (error instanceof TimeoutError || error instanceof NetworkError) return true;
+  return error instanceof ApiError && !!error.status && UNCERTAIN_STATUSES.includes(error.status);
+};
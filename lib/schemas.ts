@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import { ApiContractError } from './errors';
+import { InterestType } from './loan-schedule';
+
+// Response contracts for the GramFinance API. Every response is checked against these
+// at runtime and the exported types are derived from them, so the two cannot drift.
+
+// Servers send null for unset fields - treat it the same as a missing field
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform((value): z.output<T> | undefined => value ?? undefined);
+
+// Unknown fields are kept so screens reading newer fields keep working
+const record = <T extends z.ZodRawShape>(shape: T) => z.object(shape).passthrough();
+
+// Helpers
+export const paginationSchema = z.object({
+  page: z.number(),
+  limit: z.number(),
+  total: z.number(),
+  totalPages: z.number(),
+});
+
+// Standard { success, data } envelope around a payload
+export const apiResponse = <T extends z.ZodTypeAny>(data: T) => z.object({
+  success: z.boolean(),
+  data,
+  error: optional(z.string()),
+  pagination: optional(paginationSchema),
+});
+
+export const messageSchema = record({
+  message: z.string(),
+});
+
+// Auth
+export const userSchema = record({
+  id: z.string(),
+  username: z.string(),
+  name: z.string(),
+  role: z.string(),
+  email: optional(z.string()),
+  phone: optional(z.string()),
+  createdAt: optional(z.string()),
+});
+
+// Login responses carry the token and user at the top level instead of under data
+export const loginResponseSchema = z.object({
+  success: z.boolean(),
+  token: z.string(),
+  refreshToken: optional(z.string()), // Only issued by servers that support token refresh
+  user: userSchema,
+});
+
+export const refreshResponseSchema = z.object({
+  success: z.boolean(),
+  token: z.string(),
+  refreshToken: optional(z.string()),
+});
+
+// Credential issued to one device for biometric sign-in. The token is a secret
+// that replaces the password and is only ever stored behind biometrics.
+export const deviceRegistrationSchema = z.object({
+  deviceId: z.string(),
+  deviceToken: z.string(),
+});
+
+export const passwordResetRequestSchema = record({
+  message: z.string(),
+  destination: optional(z.string()), // Masked phone/email the OTP was sent to
+});
+
+export const resetTokenSchema = z.object({
+  resetToken: z.string(),
+});
+
+// Borrowers
+export const borrowerSchema = record({
+  _id: z.string(),
+  name: z.string(),
+  phone: optional(z.string()),
+  address: z.string(),
+  village: z.string(),
+  gpsLat: optional(z.number()),
+  gpsLng: optional(z.number()),
+  photoUrl: optional(z.string()),
+  idProofUrl: optional(z.string()),
+  householdHead: optional(z.string()),
+  isActive: z.boolean(),
+  collectionDays: z.array(z.string()),
+  loansCount: optional(z.number()),
+  totalOutstanding: optional(z.number()),
+  lastCollection: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Loans
+export const interestTypeSchema: z.ZodType<InterestType> = z.enum(['NONE', 'FLAT', 'DECLINING']);
+
+export const loanStatusSchema = z.enum(['ACTIVE', 'COMPLETED', 'DEFAULTED']);
+
+export const loanSchema = record({
+  _id: z.string(),
+  loanNumber: z.string(),
+  principalAmount: z.number(),
+  disbursedAmount: z.number(),
+  termWeeks: z.number(),
+  startDate: z.string(),
+  interestType: optional(interestTypeSchema), // Missing on older loans, treated as 'NONE'
+  interestRate: optional(z.number()), // Annual rate in percent
+  processingFee: optional(z.number()),
+  insuranceFee: optional(z.number()),
+  status: loanStatusSchema,
+  borrower: record({
+    _id: z.string(),
+    name: z.string(),
+    phone: optional(z.string()), // Only populated by some endpoints - fetch the borrower when missing
+  }),
+  outstandingAmount: z.number(),
+  totalPaid: z.number(),
+  collectionDays: z.array(z.string()), // Collection days for this specific loan
+  createdAt: z.string(),
+});
+
+// Installments
+export const installmentSchema = record({
+  _id: z.string(),
+  amount: z.number(),
+  dueDate: z.string(),
+  status: z.enum(['PENDING', 'PAID', 'OVERDUE', 'PARTIAL']),
+  loanId: z.string(),
+  installmentNumber: z.number(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Collections
+const collectionFields = {
+  _id: z.string(),
+  amount: z.number(),
+  paymentDate: z.string(),
+  gpsLat: optional(z.number()),
+  gpsLng: optional(z.number()),
+  notes: optional(z.string()),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+};
+
+export const collectionSchema = record({
+  ...collectionFields,
+  installmentId: z.string(),
+  collectorId: z.string(),
+});
+
+export const populatedCollectionSchema = record({
+  ...collectionFields,
+  installmentId: record({
+    _id: z.string(),
+    installmentNumber: z.number(),
+    dueDate: z.string(),
+    status: z.string(),
+    amount: z.number(),
+    loanId: z.string(),
+  }),
+  collectorId: record({
+    _id: z.string(),
+    name: z.string(),
+    email: optional(z.string()),
+    phone: optional(z.string()),
+  }),
+});
+
+// Payments
+export const paymentSchema = record({
+  id: z.string(),
+  loanId: z.string(),
+  amount: z.number(),
+  paymentDate: z.string(),
+  collectorName: z.string(),
+  collectorId: z.string(),
+  status: z.enum(['PENDING', 'COMPLETED', 'FAILED']),
+  notes: optional(z.string()),
+  createdAt: z.string(),
+});
+
+// Dashboard
+export const dashboardStatsSchema = record({
+  totalLoans: z.number(),
+  activeLoans: z.number(),
+  completedLoans: z.number(),
+  defaultedLoans: z.number(),
+  totalBorrowers: z.number(),
+  totalCollected: z.number(),
+  totalOutstanding: z.number(),
+  todayCollections: z.number(),
+  todayAmount: z.number(),
+  weeklyCollections: z.number(),
+  weeklyAmount: z.number(),
+  monthlyCollections: z.number(),
+  monthlyAmount: z.number(),
+  recentPayments: z.array(record({
+    id: z.string(),
+    loanNumber: z.string(),
+    borrowerName: z.string(),
+    amount: z.number(),
+    collectorName: z.string(),
+    time: z.string(),
+  })),
+  topCollectors: z.array(record({
+    name: z.string(),
+    collections: z.number(),
+    amount: z.number(),
+  })),
+  loanStatusDistribution: record({
+    active: z.number(),
+    completed: z.number(),
+    defaulted: z.number(),
+  }),
+});
+
+// Daily Backup
+export const dailyBackupSchema = record({
+  date: z.string(),
+  totalCollected: z.number(),
+  totalPayments: z.number(),
+  totalOutstanding: z.number(),
+  collectors: z.array(record({
+    name: z.string(),
+    collections: z.number(),
+    amount: z.number(),
+  })),
+  payments: z.array(record({
+    loanNumber: z.string(),
+    borrowerName: z.string(),
+    amount: z.number(),
+    collectorName: z.string(),
+  })),
+});
+
+export const backupStatusSchema = record({
+  date: z.string(),
+  exists: z.boolean(),
+  lastUpdated: optional(z.string()),
+  serviceConfigured: optional(z.boolean()),
+  status: optional(z.string()),
+});
+
+// Types
+export type User = z.output<typeof userSchema>;
+export type LoginResponse = z.output<typeof loginResponseSchema>;
+export type DeviceRegistration = z.output<typeof deviceRegistrationSchema>;
+export type PasswordResetRequest = z.output<typeof passwordResetRequestSchema>;
+export type Borrower = z.output<typeof borrowerSchema>;
+export type Loan = z.output<typeof loanSchema>;
+export type Installment = z.output<typeof installmentSchema>;
+export type Collection = z.output<typeof collectionSchema>;
+export type PopulatedCollection = z.output<typeof populatedCollectionSchema>;
+export type Payment = z.output<typeof paymentSchema>;
+export type DashboardStats = z.output<typeof dashboardStatsSchema>;
+export type DailyBackup = z.output<typeof dailyBackupSchema>;
+export type BackupStatus = z.output<typeof backupStatusSchema>;
+
+// Validate a response body, throwing an ApiContractError that names the first offending field
+export const parseResponse = <S extends z.ZodTypeAny>(schema: S, body: unknown, endpoint: string): z.output<S> => {
+  const result = schema.safeParse(body);
+  if (!result.success) {
+    throw ApiContractError.fromZodError(endpoint, result.error);
+  }
+  return result.data;
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { render } from '@testing-library/react-native';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { ThemeProvider } from '@/contexts/ThemeContext';
+import { apiService } from '@/lib/api';
+import { AuthService } from '@/lib/auth';
+import { apiEnvironment } from '@/lib/environment';
+import { mockBackend } from '@/lib/mock-backend';
+import { MOCK_PASSWORD } from '@/lib/mock-fixtures';
+
+// Shared by the Jest suites in __tests__/
+
+// Point the app at a fresh mock backend with nobody signed in
+export const resetMockBackend = async () => {
+  mockBackend.install();
+  mockBackend.reset();
+  await apiEnvironment.select({ id: 'mock' });
+  await apiService.logout();
+};
+
+// Sign in the way the login screen does, so the auth provider finds the session on mount
+export const signIn = async (username = 'collector') => {
+  const result = await AuthService.login({ username, password: MOCK_PASSWORD });
+  if (!result.success) {
+    throw new Error(`Could not sign in as ${username}: ${result.error}`);
+  }
+  return result.data!.user;
+};
+
+// Render a screen inside the providers the root layout gives it. The session is checked
+// asynchronously, so query with findBy* for anything that depends on the signed-in user.
+export const renderWithProviders = (ui: React.ReactElement) => {
+  return render(
+    <ThemeProvider>
+      <AuthProvider>{ui}</AuthProvider>
+    </ThemeProvider>
+  );
+};